@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { OKX_REFERRER_ADDRESS, proxyAggregatorRequest } from "@/lib/okx";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return proxyAggregatorRequest(
+    request.nextUrl.searchParams,
+    "approve-transaction",
+    ["chainId", "approveAmount", "tokenContractAddress"],
+    { referrerAddress: OKX_REFERRER_ADDRESS }
+  );
+}
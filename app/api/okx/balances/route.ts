@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { proxyBalanceRequest } from "@/lib/okx";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return proxyBalanceRequest(
+    request.nextUrl.searchParams,
+    "all-token-balances-by-address",
+    ["address", "chains", "filter"]
+  );
+}
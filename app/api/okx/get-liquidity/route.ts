@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { proxyAggregatorRequest } from "@/lib/okx";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return proxyAggregatorRequest(request.nextUrl.searchParams, "get-liquidity", [
+    "chainId",
+  ]);
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { proxyAggregatorRequest } from "@/lib/okx";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return proxyAggregatorRequest(request.nextUrl.searchParams, "quote", [
+    "chainId",
+    "amount",
+    "fromTokenAddress",
+    "toTokenAddress",
+    "dexIds",
+    "priceImpactProtectionPercentage",
+  ]);
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from "next/server";
+import {
+  OKX_FEE_PERCENT,
+  OKX_REFERRER_ADDRESS,
+  proxyAggregatorRequest,
+} from "@/lib/okx";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  return proxyAggregatorRequest(
+    request.nextUrl.searchParams,
+    "swap",
+    [
+      "chainId",
+      "amount",
+      "fromTokenAddress",
+      "toTokenAddress",
+      "slippage",
+      "userWalletAddress",
+      "swapReceiverAddress",
+      "dexIds",
+      "priceImpactProtectionPercentage",
+    ],
+    {
+      feePercent: OKX_FEE_PERCENT,
+      fromTokenReferrerWalletAddress: OKX_REFERRER_ADDRESS,
+    }
+  );
+}
@@ -0,0 +1,35 @@
+import { Suspense } from "react";
+import { Metadata } from "next";
+import ComparePage from "@/components/features/compare/ComparePage";
+import {
+  Breadcrumb,
+  BreadcrumbLink,
+  BreadcrumbList,
+} from "@/components/ui/breadcrumb";
+
+export const metadata: Metadata = {
+  title: "Dextrading | Compare tokens",
+  description:
+    "Compare up to four DEX tokens side by side: price performance, volume, liquidity, scores, security and holders.",
+  alternates: {
+    canonical: `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}/compare`,
+  },
+};
+
+export default function Compare() {
+  return (
+    <div>
+      <Breadcrumb className="mt-12 mb-4">
+        <BreadcrumbList>
+          <BreadcrumbLink href="/">Home</BreadcrumbLink>
+          <BreadcrumbLink href="/compare">Compare</BreadcrumbLink>
+        </BreadcrumbList>
+      </Breadcrumb>
+      <h1 className="text-lg md:text-xl">Compare tokens</h1>
+      {/* The token list comes from the query string. */}
+      <Suspense>
+        <ComparePage />
+      </Suspense>
+    </div>
+  );
+}
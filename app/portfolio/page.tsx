@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import PortfolioPage from "@/components/features/portfolio/PortfolioPage";
+import {
+  Breadcrumb,
+  BreadcrumbLink,
+  BreadcrumbList,
+} from "@/components/ui/breadcrumb";
+
+export const metadata: Metadata = {
+  title: "Dextrading | Portfolio",
+  description:
+    "Track your EVM and Solana wallet holdings in one place with live prices, allocation and 24h change.",
+  alternates: {
+    canonical: `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}/portfolio`,
+  },
+};
+
+export default function Portfolio() {
+  return (
+    <div>
+      <Breadcrumb className="mt-12 mb-4">
+        <BreadcrumbList>
+          <BreadcrumbLink href="/">Home</BreadcrumbLink>
+          <BreadcrumbLink href="/portfolio">Portfolio</BreadcrumbLink>
+        </BreadcrumbList>
+      </Breadcrumb>
+      <h1 className="text-lg md:text-xl">Portfolio</h1>
+      <PortfolioPage />
+    </div>
+  );
+}
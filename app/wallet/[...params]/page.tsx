@@ -0,0 +1,146 @@
+import { Metadata } from "next";
+import { getWalletSummary } from "@/services/http/wallet.http";
+import WalletPage from "@/components/features/wallet/WalletPage";
+import {
+  Breadcrumb,
+  BreadcrumbLink,
+  BreadcrumbList,
+} from "@/components/ui/breadcrumb";
+import { WALLET_PAGE_PARAMS } from "@/utils/pageParams";
+import { minifyContract } from "@/utils/truncate";
+import { walletRoute } from "@/utils/routeGenerator";
+import { defaultWalletNetwork } from "@/utils/walletSummary";
+import { formatCash } from "@/utils/numbers";
+
+interface Props {
+  params: IParam;
+}
+
+type IParam = {
+  params: string[];
+};
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const walletAddress = params.params[WALLET_PAGE_PARAMS.WALLET_ADDRESS];
+  const network =
+    params.params[WALLET_PAGE_PARAMS.NETWORK] ??
+    defaultWalletNetwork(walletAddress);
+
+  try {
+    const summary = await getWalletSummary(walletAddress, {
+      params: { network },
+    });
+
+    const pageUrl = `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}${walletRoute(
+      walletAddress,
+      params.params[WALLET_PAGE_PARAMS.NETWORK]
+    )}`;
+    const imageUrl = `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}/Shot_Token.jpg`;
+    const netProfit = formatCash(summary?.netProfit ?? 0);
+    const winRate = summary?.winRate ?? "N/A";
+
+    const title = `Wallet ${minifyContract(
+      walletAddress
+    )} | ${network.toUpperCase()} DEX Trader PnL $${netProfit}`;
+
+    const description = `${walletAddress} on ${network} has a net profit of $${netProfit} with a win rate of ${winRate}. Explore PnL, trading activity, traded tokens and deposit and withdraw history.`;
+
+    return {
+      title,
+      description,
+      keywords: `${walletAddress}, ${network} wallet, wallet PnL, dex trader, wallet analysis, traded tokens, trading activity, smart money`,
+      alternates: {
+        canonical: pageUrl,
+        languages: {
+          "en-US": pageUrl,
+        },
+      },
+      openGraph: {
+        title,
+        description,
+        type: "website",
+        url: pageUrl,
+        images: [
+          {
+            url: imageUrl,
+            width: 1200,
+            height: 630,
+            alt: description,
+          },
+        ],
+      },
+      twitter: {
+        card: "summary_large_image",
+        site: "@dextrading",
+        creator: "@dextrading",
+        title,
+        description,
+        images: [imageUrl],
+      },
+    };
+  } catch (error) {
+    return {
+      title: "dex trading | Explore Crypto Wallets",
+      description:
+        "Analyze DEX trader wallets with dex trading. Explore PnL, trading activity, traded tokens and transfers.",
+      keywords:
+        "dex trading, wallet analysis, dex trader, crypto wallet, smart money",
+      alternates: {
+        canonical: `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}`,
+      },
+      openGraph: {
+        title: "dex trading | Explore Crypto Wallets",
+        description:
+          "Analyze DEX trader wallets with dex trading. Explore PnL, trading activity, traded tokens and transfers.",
+        type: "website",
+        url: `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}`,
+        images: [
+          {
+            url: `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}/Shot_Token.jpg`,
+            width: 1200,
+            height: 630,
+            alt: "Dex Trading wallet analytics with PnL, trading activity and transfer history.",
+          },
+        ],
+      },
+      twitter: {
+        card: "summary_large_image",
+        site: "@dextrading",
+        title: "dex trading | Explore Crypto Wallets",
+        description:
+          "Analyze DEX trader wallets with dex trading. Explore PnL, trading activity, traded tokens and transfers.",
+        images: [`${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}/Shot_Token.jpg`],
+      },
+    };
+  }
+}
+
+export default function Wallet({ params }: Props) {
+  const walletAddress = params.params[WALLET_PAGE_PARAMS.WALLET_ADDRESS];
+  const network =
+    params.params[WALLET_PAGE_PARAMS.NETWORK] ??
+    defaultWalletNetwork(walletAddress);
+
+  return (
+    <div>
+      <Breadcrumb className="mt-12 mb-4">
+        <BreadcrumbList>
+          <BreadcrumbLink href="/">Home</BreadcrumbLink>
+          <BreadcrumbLink
+            href={walletRoute(
+              walletAddress,
+              params.params[WALLET_PAGE_PARAMS.NETWORK]
+            )}
+          >
+            {minifyContract(walletAddress)}
+          </BreadcrumbLink>
+        </BreadcrumbList>
+      </Breadcrumb>
+      <h1 className="text-lg md:text-xl">
+        Wallet {minifyContract(walletAddress)} – {network.toUpperCase()} DEX
+        Trading Profile
+      </h1>
+      <WalletPage params={params} />
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Metadata } from "next";
+import WorkspacePage from "@/components/features/workspace/WorkspacePage";
+import {
+  Breadcrumb,
+  BreadcrumbLink,
+  BreadcrumbList,
+} from "@/components/ui/breadcrumb";
+
+export const metadata: Metadata = {
+  title: "Dextrading | Workspace",
+  description:
+    "Watch up to nine DEX token charts in one grid with synchronized symbol, interval, crosshair and time.",
+  alternates: {
+    canonical: `${process.env.NEXT_PUBLIC_BASE_URL_SEVEN}/workspace`,
+  },
+};
+
+export default function Workspace() {
+  return (
+    <div>
+      <Breadcrumb className="mt-12 mb-4">
+        <BreadcrumbList>
+          <BreadcrumbLink href="/">Home</BreadcrumbLink>
+          <BreadcrumbLink href="/workspace">Workspace</BreadcrumbLink>
+        </BreadcrumbList>
+      </Breadcrumb>
+      <h1 className="text-lg md:text-xl">Chart workspace</h1>
+      <WorkspacePage />
+    </div>
+  );
+}
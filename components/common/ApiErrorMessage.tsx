@@ -0,0 +1,30 @@
+"use client";
+
+import React from "react";
+import { Card } from "../ui/card";
+import { apiErrorMessage, toApiError } from "@/services/http/api-error";
+import { cn } from "@/lib/utils";
+
+type Props = {
+  error: unknown;
+  className?: string;
+};
+
+// Inline replacement for the generic ErrorBoundary fallback when a query
+// fails, so the user sees why a section is empty.
+export const ApiErrorMessage = ({ error, className }: Props) => {
+  const { kind } = toApiError(error);
+
+  return (
+    <Card
+      role="alert"
+      className={cn(
+        "w-full p-2 my-2 flex items-center justify-center text-sm",
+        kind === "auth" ? "text-warning" : "text-error",
+        className
+      )}
+    >
+      {apiErrorMessage(error)}
+    </Card>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from "react";
+import { useQueries } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CompareRange, CompareToken } from "@/types/compare.type";
+import {
+  COMPARE_COLORS,
+  COMPARE_RANGES,
+  compareTokenKey,
+  normalizeCompareSeries,
+} from "@/utils/compare";
+import { fullOhlcvQuery } from "@/utils/ohlcv";
+
+interface Props {
+  tokens: CompareToken[];
+  names: string[];
+}
+
+const formatPercent = (value: number) =>
+  `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+function CompareChart({ tokens, names }: Props) {
+  const [range, setRange] = useState<CompareRange>("7d");
+
+  const ohlcvQueries = useQueries({
+    queries: tokens.map((token) =>
+      fullOhlcvQuery(token.address, token.network)
+    ),
+  });
+  const isLoading = ohlcvQueries.some((query) => query.isLoading);
+  const failed = tokens.filter((_, index) => ohlcvQueries[index].isError);
+
+  const points = useMemo(
+    () =>
+      normalizeCompareSeries(
+        tokens
+          .map((token, index) => ({
+            key: compareTokenKey(token),
+            bars: ohlcvQueries[index].data?.data ?? [],
+          }))
+          .filter((_, index) => !ohlcvQueries[index].isError),
+        range
+      ),
+    // The query results are a new array every render; their data isn't.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [tokens, range, ...ohlcvQueries.map((query) => query.data)]
+  );
+
+  const timeFormat = range === "24h" ? "HH:mm" : "MMM D";
+
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <h2 className="text-base font-semibold">Price change</h2>
+        <div className="flex gap-1">
+          {COMPARE_RANGES.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={range === option.value ? "default" : "ghost"}
+              className="h-7"
+              onClick={() => setRange(option.value)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {isLoading ? (
+        <Skeleton className="h-[360px] w-full" />
+      ) : points.length === 0 ? (
+        <div className="h-[360px] flex items-center justify-center text-sm text-muted-foreground">
+          No overlapping price history in this range
+        </div>
+      ) : (
+        <div className="h-[360px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points}>
+              <CartesianGrid strokeDasharray="3 3" opacity={0.2} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(time: number) =>
+                  dayjs.unix(time).format(timeFormat)
+                }
+                fontSize={12}
+              />
+              <YAxis
+                tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+                fontSize={12}
+                width={56}
+              />
+              <Tooltip
+                labelFormatter={(time: number) =>
+                  dayjs.unix(time).format("MMM D, HH:mm")
+                }
+                formatter={(value: number) => formatPercent(value)}
+                contentStyle={{ fontSize: 12 }}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {tokens.map((token, index) => (
+                <Line
+                  key={compareTokenKey(token)}
+                  dataKey={compareTokenKey(token)}
+                  name={names[index]}
+                  stroke={COMPARE_COLORS[index % COMPARE_COLORS.length]}
+                  dot={false}
+                  strokeWidth={2}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {failed.length > 0 && (
+        <p className="text-xs text-error">
+          No chart data for{" "}
+          {failed
+            .map((token) => names[tokens.indexOf(token)])
+            .join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default CompareChart;
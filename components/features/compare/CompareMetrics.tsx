@@ -0,0 +1,110 @@
+import React from "react";
+import clsx from "clsx";
+import { CompareMetric, CompareToken } from "@/types/compare.type";
+import { IToken } from "@/types/token.type";
+import {
+  COMPARE_COLORS,
+  COMPARE_METRICS,
+  compareTokenKey,
+  leadingTokenIndex,
+} from "@/utils/compare";
+import { formatCash } from "@/utils/numbers";
+import { formatNumberToSubscript } from "@/utils/PriceFormatter";
+
+interface Props {
+  tokens: CompareToken[];
+  names: string[];
+  data: (IToken | undefined)[];
+}
+
+const formatValue = (
+  value: ReturnType<CompareMetric["value"]>,
+  format: CompareMetric["format"]
+) => {
+  if (value === undefined || value === "") return "-";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string") return value;
+  switch (format) {
+    case "price":
+      return value < 1
+        ? `$${formatNumberToSubscript(value)}`
+        : `$${formatCash(value, 2)}`;
+    case "usd":
+      return `$${formatCash(value, 2)}`;
+    case "percent":
+      return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+    default:
+      return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  }
+};
+
+const groups = Array.from(new Set(COMPARE_METRICS.map((m) => m.group)));
+
+function CompareMetrics({ tokens, names, data }: Props) {
+  return (
+    <div className="w-full border rounded-lg p-4 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left">
+            <th className="py-2 pr-4 font-medium text-muted-foreground">
+              Metric
+            </th>
+            {tokens.map((token, index) => (
+              <th key={compareTokenKey(token)} className="py-2 px-2">
+                <span className="flex items-center gap-2">
+                  <span
+                    className="w-3 h-3 rounded-sm"
+                    style={{ background: COMPARE_COLORS[index] }}
+                  />
+                  {names[index]}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        {groups.map((group) => (
+          <tbody key={group}>
+            <tr>
+              <td
+                colSpan={tokens.length + 1}
+                className="pt-4 pb-1 text-xs uppercase text-muted-foreground"
+              >
+                {group}
+              </td>
+            </tr>
+            {COMPARE_METRICS.filter((metric) => metric.group === group).map(
+              (metric) => {
+                const values = data.map((token) =>
+                  token ? metric.value(token) : undefined
+                );
+                const leader = leadingTokenIndex(metric, values);
+                return (
+                  <tr key={metric.label} className="border-t border-border">
+                    <td className="py-1.5 pr-4">{metric.label}</td>
+                    {values.map((value, index) => (
+                      <td
+                        key={compareTokenKey(tokens[index])}
+                        className={clsx("py-1.5 px-2", {
+                          "text-success font-medium": index === leader,
+                          "text-error":
+                            metric.format === "percent" &&
+                            typeof value === "number" &&
+                            value < 0 &&
+                            index !== leader,
+                        })}
+                      >
+                        {formatValue(value, metric.format)}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              }
+            )}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+}
+
+export default CompareMetrics;
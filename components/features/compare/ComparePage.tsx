@@ -0,0 +1,112 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useQueries } from "@tanstack/react-query";
+import { MdDeleteOutline } from "react-icons/md";
+import { toast } from "react-toastify";
+import { Skeleton } from "@/components/ui/skeleton";
+import useQueryState from "@/hooks/QueryState";
+import { getToken } from "@/services/http/token.http";
+import { CompareToken } from "@/types/compare.type";
+import {
+  COMPARE_COLORS,
+  COMPARE_PARAM,
+  compareTokenKey,
+  compareTokenName,
+  compareTokensCodec,
+  MAX_COMPARE_TOKENS,
+  MIN_COMPARE_TOKENS,
+} from "@/utils/compare";
+import { tokenRoute } from "@/utils/routeGenerator";
+import CompareChart from "./CompareChart";
+import CompareMetrics from "./CompareMetrics";
+import CompareTokenPicker from "./CompareTokenPicker";
+
+function ComparePage() {
+  const [tokens, setTokens] = useQueryState<CompareToken[]>(
+    COMPARE_PARAM,
+    [],
+    compareTokensCodec
+  );
+
+  // Shares the token page's query so switching between them is instant.
+  const tokenQueries = useQueries({
+    queries: tokens.map((token) => ({
+      queryKey: ["token", token.address, token.network],
+      queryFn: () =>
+        getToken(token.address, { params: { network: token.network } }),
+    })),
+  });
+  const data = tokenQueries.map((query) => query.data);
+  const names = tokens.map((token, index) =>
+    compareTokenName(data[index], token)
+  );
+
+  const addToken = (token: CompareToken) => {
+    const key = compareTokenKey(token);
+    if (tokens.some((item) => compareTokenKey(item) === key)) {
+      toast.info("This token is already in the comparison.");
+      return;
+    }
+    setTokens([...tokens, token]);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full mt-4">
+      <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+        <CompareTokenPicker
+          disabled={tokens.length >= MAX_COMPARE_TOKENS}
+          onAdd={addToken}
+        />
+        {tokens.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {tokens.map((token, index) => (
+              <div
+                key={compareTokenKey(token)}
+                className={`flex items-center gap-2 border rounded-lg px-2 py-1 ${
+                  tokenQueries[index].isError ? "border-error" : "border-border"
+                }`}
+              >
+                <span
+                  className="w-3 h-3 rounded-sm"
+                  style={{ background: COMPARE_COLORS[index] }}
+                />
+                <Link
+                  href={tokenRoute(token.address, token.network)}
+                  className="hover:text-brand"
+                >
+                  {names[index]}
+                </Link>
+                <span className="text-muted-foreground">{token.network}</span>
+                <MdDeleteOutline
+                  className="cursor-pointer"
+                  onClick={() =>
+                    setTokens(tokens.filter((item) => item !== token))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      {tokens.length < MIN_COMPARE_TOKENS ? (
+        <div className="text-sm text-muted-foreground">
+          Add at least {MIN_COMPARE_TOKENS} tokens to compare them side by
+          side.
+        </div>
+      ) : (
+        <>
+          <CompareChart tokens={tokens} names={names} />
+          {tokenQueries.some((query) => query.isLoading) ? (
+            <Skeleton className="h-96 w-full" />
+          ) : (
+            <CompareMetrics tokens={tokens} names={names} data={data} />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ComparePage;
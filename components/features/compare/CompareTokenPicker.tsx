@@ -0,0 +1,68 @@
+import React, { useState } from "react";
+import { LuPlus } from "react-icons/lu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useNetworkSelector from "@/store/tokenChains/networks";
+import { CompareToken } from "@/types/compare.type";
+
+interface Props {
+  disabled: boolean;
+  onAdd: (token: CompareToken) => void;
+}
+
+function CompareTokenPicker({ disabled, onAdd }: Props) {
+  const { availableChains, selectedChain } = useNetworkSelector();
+  const [network, setNetwork] = useState(selectedChain.id);
+  const [address, setAddress] = useState("");
+
+  const handleAdd = () => {
+    const trimmed = address.trim();
+    if (!trimmed) return;
+    onAdd({ network, address: trimmed });
+    setAddress("");
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <Select value={network} onValueChange={setNetwork}>
+        <SelectTrigger aria-label="Network" className="w-[130px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {availableChains.map((chain) => (
+            <SelectItem key={chain.id} value={chain.id}>
+              {chain.attributes.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        className="w-[320px]"
+        placeholder={
+          disabled ? "Up to 4 tokens can be compared" : "Token address"
+        }
+        value={address}
+        disabled={disabled}
+        onChange={(e) => setAddress(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+      />
+      <Button
+        variant="outline"
+        disabled={disabled || !address.trim()}
+        onClick={handleAdd}
+      >
+        <LuPlus className="mr-1" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+export default CompareTokenPicker;
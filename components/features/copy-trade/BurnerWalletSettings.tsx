@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useState } from "react";
+import { useAccount } from "wagmi";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { toast } from "react-toastify";
+import { Button } from "@/components/ui/button";
+import Copy from "@/components/ui/copy";
+import { Input } from "@/components/ui/input";
+import useCopyTradeStore from "@/store/copyTrade";
+import useBurnerSessionStore from "@/store/copyTrade/burnerSession";
+import { BurnerFamily } from "@/types/copy-trade.type";
+import {
+  createEvmBurnerKey,
+  createSolanaBurnerKey,
+  decryptBurner,
+  encryptBurnerKey,
+  MIN_PASSPHRASE_LENGTH,
+  withdrawBurner,
+} from "@/utils/burnerWallet";
+import { minifyContract } from "@/utils/truncate";
+
+function BurnerRow({
+  title,
+  address,
+  privateKey,
+  unlocked,
+  canWithdraw,
+  onCreate,
+  onWithdraw,
+  onRemove,
+}: {
+  title: string;
+  address?: string;
+  // Only known while unlocked.
+  privateKey?: string;
+  unlocked: boolean;
+  canWithdraw: boolean;
+  onCreate: () => void;
+  onWithdraw: () => void;
+  onRemove: () => void;
+}) {
+  const [exporting, setExporting] = useState(false);
+
+  if (!address) {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <span>{title}</span>
+        <Button variant="outline" className="h-7 px-2" onClick={onCreate}>
+          Create
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-2">
+        <span>{title}</span>
+        <div className="flex items-center gap-2">
+          <span>{minifyContract(address)}</span>
+          <Copy className="text-sm !text-muted-foreground" value={address} />
+        </div>
+      </div>
+      {unlocked && (
+        <div className="flex justify-end gap-1">
+          <Button
+            variant="outline"
+            className="h-7 px-2"
+            onClick={() => setExporting(!exporting)}
+          >
+            {exporting ? "Hide key" : "Export key"}
+          </Button>
+          <Button
+            variant="outline"
+            className="h-7 px-2"
+            disabled={!canWithdraw}
+            onClick={onWithdraw}
+          >
+            Withdraw
+          </Button>
+          <Button variant="outline" className="h-7 px-2" onClick={onRemove}>
+            Remove
+          </Button>
+        </div>
+      )}
+      {exporting && privateKey && (
+        <div className="flex items-center gap-2 border rounded p-2">
+          <span className="font-mono break-all">{privateKey}</span>
+          <Copy className="text-sm !text-muted-foreground" value={privateKey} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BurnerWalletSettings() {
+  const burner = useCopyTradeStore((state) => state.burner);
+  const setBurner = useCopyTradeStore((state) => state.setBurner);
+  const keys = useBurnerSessionStore((state) => state.keys);
+  const sessionPassphrase = useBurnerSessionStore((state) => state.passphrase);
+  const unlock = useBurnerSessionStore((state) => state.unlock);
+  const lock = useBurnerSessionStore((state) => state.lock);
+  const { address: evmWallet, chainId: evmChainId } = useAccount();
+  const { publicKey } = useWallet();
+  const { connection } = useConnection();
+  const [passphraseInput, setPassphraseInput] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const unlocked = sessionPassphrase !== undefined;
+  const hasKeystore = !!(burner.evm || burner.solana);
+
+  // Checks the passphrase against the stored keys and unlocks the session.
+  const handleUnlock = async () => {
+    if (passphraseInput.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`
+      );
+      return;
+    }
+    setBusy(true);
+    try {
+      unlock(await decryptBurner(burner, passphraseInput), passphraseInput);
+      setPassphraseInput("");
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createBurner = async (family: BurnerFamily) => {
+    if (!sessionPassphrase) return;
+    const key =
+      family === "evm" ? createEvmBurnerKey() : createSolanaBurnerKey();
+    const encrypted = await encryptBurnerKey(family, key, sessionPassphrase);
+    setBurner({ ...useCopyTradeStore.getState().burner, [family]: encrypted });
+    unlock({ ...keys, [family]: key }, sessionPassphrase);
+  };
+
+  // Withdraws to the connected wallet, on its current chain for EVM.
+  const withdrawTarget = (family: BurnerFamily) =>
+    family === "solana"
+      ? publicKey && { chainId: "501", to: publicKey.toString() }
+      : evmWallet &&
+        evmChainId && { chainId: evmChainId.toString(), to: evmWallet };
+
+  const withdraw = async (family: BurnerFamily) => {
+    const target = withdrawTarget(family);
+    if (!target) return;
+    if (
+      !window.confirm(
+        `Send the burner's whole gas token balance to ${minifyContract(
+          target.to
+        )}? Other tokens stay in the burner.`
+      )
+    ) {
+      return;
+    }
+    try {
+      const txHash = await withdrawBurner(
+        keys,
+        target.chainId,
+        target.to,
+        connection
+      );
+      toast.success(`Withdrawal sent: ${minifyContract(txHash)}`);
+    } catch (error: any) {
+      toast.error(error.shortMessage || error.message || "Withdrawal failed");
+    }
+  };
+
+  const removeBurner = (family: BurnerFamily) => {
+    if (
+      window.confirm(
+        "The burner key is only stored in this browser. Export the key or withdraw its funds first, removing it cannot be undone."
+      )
+    ) {
+      setBurner({ ...burner, [family]: undefined });
+      unlock({ ...keys, [family]: undefined }, sessionPassphrase!);
+    }
+  };
+
+  const rows: { family: BurnerFamily; title: string }[] = [
+    { family: "evm", title: "EVM" },
+    { family: "solana", title: "Solana" },
+  ];
+
+  return (
+    <div className="flex flex-col gap-2 text-xs border rounded-lg p-2">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-sm">Burner wallet</p>
+        {unlocked && (
+          <Button variant="ghost" className="h-7 px-2" onClick={lock}>
+            Lock
+          </Button>
+        )}
+      </div>
+      <p className="text-muted-foreground">
+        Auto-confirmed copy trades are signed by a hot wallet kept in this
+        browser, encrypted with your passphrase. Only fund it with what you
+        are ready to lose.
+      </p>
+      {!unlocked && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="password"
+            className="h-8 md:h-8 lg:h-8 text-xs md:text-xs"
+            placeholder={hasKeystore ? "Passphrase" : "Choose a passphrase"}
+            value={passphraseInput}
+            onChange={(event) => setPassphraseInput(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && handleUnlock()}
+          />
+          <Button
+            variant="outline"
+            className="h-8 px-2"
+            disabled={busy}
+            onClick={handleUnlock}
+          >
+            {hasKeystore ? "Unlock" : "Set"}
+          </Button>
+        </div>
+      )}
+      {rows.map(({ family, title }) => (
+        <BurnerRow
+          key={family}
+          title={title}
+          address={burner[family]?.address}
+          privateKey={keys[family]}
+          unlocked={unlocked}
+          canWithdraw={!!withdrawTarget(family)}
+          onCreate={() =>
+            unlocked
+              ? createBurner(family)
+              : toast.info("Set or enter your passphrase first")
+          }
+          onWithdraw={() => withdraw(family)}
+          onRemove={() => removeBurner(family)}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default BurnerWalletSettings;
@@ -0,0 +1,118 @@
+"use client";
+
+import React, { useState } from "react";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import { Button } from "@/components/ui/button";
+import useCopyTradeStore from "@/store/copyTrade";
+import { CopyTradeOrder, CopyTradeStatus } from "@/types/copy-trade.type";
+import { SwapComponent } from "../swap/SwapComponent";
+
+dayjs.extend(relativeTime);
+
+const statusClass: Record<CopyTradeStatus, string> = {
+  pending: "text-brand",
+  confirmed: "text-green-400",
+  skipped: "text-muted-foreground",
+  failed: "text-red-500",
+};
+
+function CopyTradeOrders() {
+  const orders = useCopyTradeStore((state) => state.orders);
+  const updateOrder = useCopyTradeStore((state) => state.updateOrder);
+  const [reviewing, setReviewing] = useState<CopyTradeOrder | null>(null);
+
+  if (reviewing) {
+    return (
+      <div className="flex flex-col gap-2">
+        <Button
+          variant="ghost"
+          className="self-start"
+          onClick={() => setReviewing(null)}
+        >
+          Back
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Copying {reviewing.walletLabel}: {reviewing.side}{" "}
+          {reviewing.tokenSymbol}
+        </p>
+        <SwapComponent
+          key={reviewing.id}
+          selectedNetwrok={+reviewing.chainId}
+          fromTokenContractAddress={reviewing.fromTokenAddress}
+          toTokenContractAddress={reviewing.toTokenAddress}
+          initialFromAmount={reviewing.fromAmount}
+          initialSlippage={reviewing.slippage}
+          onSwapSubmitted={(txHash) => {
+            updateOrder(reviewing.id, { status: "confirmed", txHash });
+            setReviewing(null);
+          }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {orders.length === 0 && (
+        <div className="text-xs text-muted-foreground text-center my-4">
+          No copy trades yet. Set a copy rule on a followed wallet to start.
+        </div>
+      )}
+      {orders.map((order) => (
+        <div
+          key={order.id}
+          className="border rounded-lg p-2 flex items-center justify-between gap-2 text-xs"
+        >
+          <div className="flex flex-col gap-1">
+            <span className="font-semibold">
+              {order.side === "buy" ? "Buy" : "Sell"} {order.tokenSymbol}
+            </span>
+            <span className="text-muted-foreground">
+              after {order.walletLabel} · {dayjs(order.createdAt).fromNow()}
+            </span>
+            {order.status !== "skipped" && (
+              <span>
+                {order.fromAmount}
+                {order.valueUsd !== undefined &&
+                  ` (~$${order.valueUsd.toFixed(2)})`}{" "}
+                · max slippage{" "}
+                {(order.slippage * 100).toFixed(1)}%
+              </span>
+            )}
+            {order.reason && (
+              <span className="text-muted-foreground">{order.reason}</span>
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <span className={statusClass[order.status]}>{order.status}</span>
+            {order.status === "pending" && (
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  className="h-7 px-2"
+                  onClick={() =>
+                    updateOrder(order.id, {
+                      status: "skipped",
+                      reason: "Skipped manually",
+                    })
+                  }
+                >
+                  Skip
+                </Button>
+                <Button
+                  className="h-7 px-2 bg-brand text-white"
+                  onClick={() => setReviewing(order)}
+                >
+                  Review
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default CopyTradeOrders;
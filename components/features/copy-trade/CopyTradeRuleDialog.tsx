@@ -0,0 +1,212 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import useCopyTradeStore from "@/store/copyTrade";
+import BurnerWalletSettings from "./BurnerWalletSettings";
+import { FollowedWallet } from "@/types/followed-wallet.type";
+import { CopySizing } from "@/types/copy-trade.type";
+import {
+  defaultCopyTradeRule,
+  parseTokenList,
+  sameWallet,
+} from "@/utils/copyTrade";
+
+const sizingTypes: {
+  value: CopySizing["type"];
+  label: string;
+  unit: string;
+}[] = [
+  { value: "fixed-usd", label: "Fixed USD", unit: "USD" },
+  { value: "wallet-percent", label: "% of my balance", unit: "%" },
+  { value: "mirror", label: "Mirror ratio", unit: "x" },
+];
+
+const sizingValue = (sizing: CopySizing) =>
+  sizing.type === "fixed-usd"
+    ? sizing.amountUsd
+    : sizing.type === "wallet-percent"
+    ? sizing.percent
+    : sizing.ratio;
+
+const toSizing = (type: CopySizing["type"], value: number): CopySizing =>
+  type === "fixed-usd"
+    ? { type, amountUsd: value }
+    : type === "wallet-percent"
+    ? { type, percent: value }
+    : { type, ratio: value };
+
+interface Props {
+  wallet: FollowedWallet | undefined;
+  open: boolean;
+  setOpen: (open: boolean) => void;
+}
+
+function CopyTradeRuleDialog({ wallet, open, setOpen }: Props) {
+  const rules = useCopyTradeStore((state) => state.rules);
+  const saveRule = useCopyTradeStore((state) => state.saveRule);
+  const removeRule = useCopyTradeStore((state) => state.removeRule);
+  const hasBurner = useCopyTradeStore(
+    (state) => !!state.burner.evm || !!state.burner.solana
+  );
+
+  const existing = wallet
+    ? rules.find((rule) => sameWallet(rule.walletAddress, wallet.address))
+    : undefined;
+
+  const [sizingType, setSizingType] = useState<CopySizing["type"]>("fixed-usd");
+  const [amount, setAmount] = useState("");
+  const [maxSlippage, setMaxSlippage] = useState("");
+  const [allowTokens, setAllowTokens] = useState("");
+  const [denyTokens, setDenyTokens] = useState("");
+  const [autoConfirm, setAutoConfirm] = useState(false);
+
+  useEffect(() => {
+    if (!wallet || !open) return;
+    const rule = existing ?? defaultCopyTradeRule(wallet.address, wallet.label);
+    setSizingType(rule.sizing.type);
+    setAmount(sizingValue(rule.sizing).toString());
+    setMaxSlippage((rule.maxSlippage * 100).toString());
+    setAllowTokens(rule.allowTokens.join(", "));
+    setDenyTokens(rule.denyTokens.join(", "));
+    setAutoConfirm(rule.autoConfirm);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wallet, open]);
+
+  if (!wallet) return null;
+
+  const isValid = +amount > 0 && +maxSlippage > 0 && +maxSlippage <= 50;
+
+  const handleSave = () => {
+    if (!isValid) return;
+    saveRule({
+      ...(existing ?? defaultCopyTradeRule(wallet.address, wallet.label)),
+      label: wallet.label,
+      enabled: true,
+      sizing: toSizing(sizingType, +amount),
+      maxSlippage: +maxSlippage / 100,
+      allowTokens: parseTokenList(allowTokens),
+      denyTokens: parseTokenList(denyTokens),
+      autoConfirm,
+    });
+    toast.success(`Copy trading ${wallet.label}`);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Copy trade {wallet.label}</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            Position size
+            <div className="flex items-center gap-2">
+              <Select
+                value={sizingType}
+                onValueChange={(value) =>
+                  setSizingType(value as CopySizing["type"])
+                }
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sizingTypes.map((item) => (
+                    <SelectItem key={item.value} value={item.value}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder={
+                  sizingTypes.find((item) => item.value === sizingType)?.unit
+                }
+              />
+            </div>
+          </label>
+          <label className="flex flex-col gap-1">
+            Max slippage (%)
+            <Input
+              value={maxSlippage}
+              onChange={(e) => setMaxSlippage(e.target.value)}
+              placeholder="2"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Only copy these tokens
+            <Input
+              value={allowTokens}
+              onChange={(e) => setAllowTokens(e.target.value)}
+              placeholder="Addresses or symbols, empty copies everything"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Never copy these tokens
+            <Input
+              value={denyTokens}
+              onChange={(e) => setDenyTokens(e.target.value)}
+              placeholder="Addresses or symbols"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <Checkbox
+              checked={autoConfirm}
+              disabled={!hasBurner}
+              onCheckedChange={(checked) => setAutoConfirm(checked === true)}
+            />
+            Auto-confirm with my burner wallet
+          </label>
+          <p className="text-xs text-muted-foreground">
+            {hasBurner
+              ? "Copies wait for your confirmation while the burner is locked."
+              : "Without a burner wallet every copy waits for your confirmation."}
+          </p>
+          <BurnerWalletSettings />
+          <div className="flex items-center gap-2">
+            {existing && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  removeRule(wallet.address);
+                  setOpen(false);
+                }}
+              >
+                Stop copying
+              </Button>
+            )}
+            <Button
+              onClick={handleSave}
+              disabled={!isValid}
+              className="bg-brand text-white ml-auto"
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default CopyTradeRuleDialog;
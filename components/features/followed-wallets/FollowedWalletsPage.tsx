@@ -18,10 +18,20 @@ import TrackedWalletsSection from "../homepage/followed-wallets/FollowedWalletsS
 import HowToUse from "./HowToUse";
 import HiddenElementForSeo from "@/components/common/HiddenElementForSeo";
 import TrackedWalletsHiddenContentForSeo from "./TrackedWalletsHiddenContentForSeo";
+import ImportFollowedDialog from "./ImportFollowedDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { exportFollowed, FollowedFileFormat } from "@/utils/followedWallets";
+import { downloadFile } from "@/utils/download";
 
 function FollowedWalletsPage() {
   const [openWallet, setOpenWallet] = useState(false);
   const [openGroup, setOpenGroup] = useState(false);
+  const [openImport, setOpenImport] = useState(false);
   const [wallets, setWallets] = useState<FollowedWallet[]>([]);
   const [groups, setGroups] = useState<FollowedGroup[]>([]);
   const [values] = useCookie("_DEX_TRADING_TOKN");
@@ -58,6 +68,14 @@ function FollowedWalletsPage() {
     }
   };
 
+  const exportList = (format: FollowedFileFormat) => {
+    downloadFile(
+      `followed-wallets.${format}`,
+      exportFollowed(wallets, groups, format),
+      format === "json" ? "application/json" : "text/csv"
+    );
+  };
+
   useEffect(() => {
     fetchList();
     fetchGroup();
@@ -77,6 +95,16 @@ function FollowedWalletsPage() {
             open={openGroup}
             setOpen={setOpenGroupDialog}
           />
+          <ImportFollowedDialog
+            open={openImport}
+            setOpen={setOpenImport}
+            wallets={wallets}
+            groups={groups}
+            onImported={() => {
+              fetchList();
+              fetchGroup();
+            }}
+          />
           <div className="flex items-center gap-3 w-full">
             <h1 className="flex font-bold text-2xl justify-start">
               The Wallets you follow
@@ -94,6 +122,27 @@ function FollowedWalletsPage() {
             >
               Add Group
             </Button>
+            <Button onClick={() => setOpenImport(true)} variant={"secondary"}>
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant={"secondary"}
+                  disabled={wallets.length === 0 && groups.length === 0}
+                >
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportList("csv")}>
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportList("json")}>
+                  JSON
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
           <div>
             <div className="flex flex-col md:flex-row gap-3">
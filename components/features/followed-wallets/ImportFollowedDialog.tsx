@@ -0,0 +1,250 @@
+"use client";
+
+import React, { useState } from "react";
+import { useCookie } from "react-use";
+import { toast } from "react-toastify";
+import clsx from "clsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  FollowedGroup,
+  FollowedImportPlan,
+  FollowedImportProgress,
+  FollowedImportStatus,
+  FollowedWallet,
+} from "@/types/followed-wallet.type";
+import {
+  detectFollowedFormat,
+  parseFollowedFile,
+  planFollowedImport,
+  runFollowedImport,
+} from "@/utils/followedWallets";
+import { minifyContract } from "@/utils/truncate";
+
+const statusClass: Record<FollowedImportStatus, string> = {
+  new: "text-green-400",
+  duplicate: "text-muted-foreground",
+  invalid: "text-red-500",
+};
+
+const PreviewRow = ({
+  title,
+  detail,
+  status,
+  reason,
+}: {
+  title: string;
+  detail: string;
+  status: FollowedImportStatus;
+  reason?: string;
+}) => (
+  <div className="flex items-center gap-2 text-xs border-b py-1">
+    <span className="font-semibold truncate">{title}</span>
+    <span className="text-muted-foreground truncate">{detail}</span>
+    <span className={clsx("ml-auto shrink-0", statusClass[status])}>
+      {reason ?? status}
+    </span>
+  </div>
+);
+
+interface Props {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  wallets: FollowedWallet[];
+  groups: FollowedGroup[];
+  onImported: () => void;
+}
+
+// Imports followed wallets and groups from a CSV or JSON export, with a
+// preview of what will be added before anything is sent.
+function ImportFollowedDialog({
+  open,
+  setOpen,
+  wallets,
+  groups,
+  onImported,
+}: Props) {
+  const [values] = useCookie("_DEX_TRADING_TOKN");
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string>();
+  const [plan, setPlan] = useState<FollowedImportPlan | null>(null);
+  const [progress, setProgress] = useState<FollowedImportProgress | null>(
+    null
+  );
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setText("");
+    setFileName(undefined);
+    setPlan(null);
+    setProgress(null);
+  };
+
+  const onOpenChange = (value: boolean) => {
+    if (importing) return;
+    if (!value) reset();
+    setOpen(value);
+  };
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setFileName(file.name);
+    setPlan(null);
+  };
+
+  const preview = () => {
+    try {
+      const parsed = parseFollowedFile(
+        text,
+        detectFollowedFormat(text, fileName)
+      );
+      setPlan(planFollowedImport(parsed, wallets, groups));
+      setProgress(null);
+    } catch (error) {
+      console.error(error);
+      toast.error("Couldn't read the file. Check that it is valid CSV or JSON.");
+    }
+  };
+
+  const startImport = async () => {
+    if (!values || !plan) return;
+    setImporting(true);
+    try {
+      const result = await runFollowedImport(values, plan, setProgress);
+      if (result.failed.length > 0) {
+        toast.warn(`${result.failed.length} of ${result.total} imports failed`);
+      } else {
+        toast.success(`Imported ${result.total} wallets and groups`);
+      }
+      onImported();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Entries the file format rejected count as invalid too.
+  const counts = plan
+    ? [...plan.wallets, ...plan.groups].reduce(
+        (total, item) => ({ ...total, [item.status]: total[item.status] + 1 }),
+        { new: 0, duplicate: 0, invalid: plan.issues.length }
+      )
+    : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="font-bold text-xl">
+            Import Wallets and Groups
+          </DialogTitle>
+        </DialogHeader>
+        <p className="text-xs text-muted-foreground">
+          CSV columns: address, label, group, notificationThreshold. Rows with
+          a group become members of that group. JSON files use the format of
+          the export.
+        </p>
+        <Input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => readFile(e.target.files?.[0])}
+        />
+        <textarea
+          className="w-full h-28 rounded-md border bg-transparent p-2 text-xs font-mono"
+          placeholder="…or paste CSV / JSON here"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setFileName(undefined);
+            setPlan(null);
+          }}
+        />
+        <Button
+          variant="secondary"
+          disabled={!text.trim() || importing}
+          onClick={preview}
+        >
+          Preview
+        </Button>
+
+        {plan && counts && (
+          <>
+            <div className="flex gap-3 text-xs">
+              <span className={statusClass.new}>{counts.new} new</span>
+              <span className={statusClass.duplicate}>
+                {counts.duplicate} duplicate
+              </span>
+              <span className={statusClass.invalid}>
+                {counts.invalid} invalid
+              </span>
+            </div>
+            <ScrollArea className="h-56 pr-3">
+              {plan.issues.map((issue, index) => (
+                <PreviewRow
+                  key={`issue-${index}`}
+                  title="Skipped"
+                  detail={issue}
+                  status="invalid"
+                  reason="Not in the export format"
+                />
+              ))}
+              {plan.wallets.map((item, index) => (
+                <PreviewRow
+                  key={`wallet-${index}`}
+                  title={item.wallet.label || "Wallet"}
+                  detail={minifyContract(item.wallet.address)}
+                  status={item.status}
+                  reason={item.reason}
+                />
+              ))}
+              {plan.groups.map((item, index) => (
+                <PreviewRow
+                  key={`group-${index}`}
+                  title={item.group.label || "Group"}
+                  detail={`${item.group.addresses.length} wallets${
+                    item.invalidAddresses.length > 0
+                      ? `, ${item.invalidAddresses.length} invalid skipped`
+                      : ""
+                  }`}
+                  status={item.status}
+                  reason={item.reason}
+                />
+              ))}
+            </ScrollArea>
+          </>
+        )}
+
+        {progress && (
+          <div className="flex flex-col gap-1 text-xs">
+            <Progress
+              value={progress.total ? (progress.done / progress.total) * 100 : 100}
+            />
+            <span>
+              {progress.done} / {progress.total} done
+              {progress.failed.length > 0 &&
+                ` · failed: ${progress.failed.join(", ")}`}
+            </span>
+          </div>
+        )}
+
+        <Button
+          className="bg-brand w-full text-primary"
+          disabled={!counts?.new || importing || !!progress}
+          onClick={startImport}
+        >
+          {importing ? "Importing…" : `Import ${counts?.new ?? 0}`}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default ImportFollowedDialog;
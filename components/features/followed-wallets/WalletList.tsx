@@ -26,6 +26,10 @@ import { FiEdit3 } from "react-icons/fi";
 import { log } from "console";
 import { toast } from "react-toastify";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { LuCopy } from "react-icons/lu";
+import CopyTradeRuleDialog from "../copy-trade/CopyTradeRuleDialog";
+import useCopyTradeStore from "@/store/copyTrade";
+import { sameWallet } from "@/utils/copyTrade";
 
 function WalletList({
   wallets,
@@ -39,6 +43,9 @@ function WalletList({
   const [walletToEdit, setWalletToEdit] = useState<
     FollowedWallet | undefined
   >();
+  const [walletToCopy, setWalletToCopy] = useState<
+    FollowedWallet | undefined
+  >();
 
   const setOpen = (value: boolean) => {
     setOpenWallet(value);
@@ -72,6 +79,11 @@ function WalletList({
         refetch={refetch}
         editingWallet={walletToEdit}
       />
+      <CopyTradeRuleDialog
+        wallet={walletToCopy}
+        open={!!walletToCopy}
+        setOpen={(open) => !open && setWalletToCopy(undefined)}
+      />
       {wallets && wallets.length > 0 ? (
         <ScrollArea className="w-full rounded-md pb-4">
           <ScrollBar orientation="horizontal" />
@@ -90,6 +102,7 @@ function WalletList({
                   wallet={wallet}
                   onEdit={handleEdit}
                   onRemove={handleRemove}
+                  onCopyTrade={setWalletToCopy}
                 />
               ))}
             </TableBody>
@@ -123,11 +136,19 @@ const WalletDetail = ({
   wallet,
   onEdit,
   onRemove,
+  onCopyTrade,
 }: {
   wallet: FollowedWallet;
   onEdit: (wallet: FollowedWallet) => void;
   onRemove: (wallet: FollowedWallet) => void;
+  onCopyTrade: (wallet: FollowedWallet) => void;
 }) => {
+  const isCopying = useCopyTradeStore((state) =>
+    state.rules.some(
+      (rule) => rule.enabled && sameWallet(rule.walletAddress, wallet.address)
+    )
+  );
+
   return (
     <TableRow>
       <TableCell>
@@ -163,6 +184,15 @@ const WalletDetail = ({
           >
             <PlusIcon />
           </Button>
+          <Button
+            title="copy trade wallet"
+            aria-label="copy trade wallet"
+            onClick={() => onCopyTrade(wallet)}
+            variant={"outline"}
+            className={isCopying ? "text-brand" : undefined}
+          >
+            <LuCopy />
+          </Button>
           <Button
             title="edit wallet"
             aria-label="edit wallet"
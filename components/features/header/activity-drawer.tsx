@@ -0,0 +1,48 @@
+"use client";
+
+import React from "react";
+import { LuActivity } from "react-icons/lu";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerOverlay,
+  DrawerPortal,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+import WalletsNotifications from "../wallets-notifications/WalletsNotifications";
+import useActivityFeedStore from "@/store/activityFeed";
+import { unreadActivity } from "@/utils/activityFeed";
+import useUserStore from "@/store/User";
+
+const ActivityDrawer = () => {
+  const user = useUserStore((state) => state.user);
+  const unreadCount = useActivityFeedStore((state) =>
+    unreadActivity(state.items)
+  );
+
+  if (!user) return null;
+
+  return (
+    <Drawer direction="right">
+      <DrawerTrigger>
+        <div aria-label="Wallet activity" className="relative ml-3">
+          <LuActivity className="text-xl" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-2 -right-2 bg-brand text-white text-[10px] rounded-full min-w-4 h-4 px-0.5 flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <p className="h-0 w-0 invisible">Wallet activity</p>
+        </div>
+      </DrawerTrigger>
+      <DrawerPortal>
+        <DrawerOverlay className="fixed inset-0 bg-black/40" />
+        <DrawerContent className="fixed bottom-0 top-0 right-0 outline-none w-96 overflow-auto p-3">
+          <WalletsNotifications />
+        </DrawerContent>
+      </DrawerPortal>
+    </Drawer>
+  );
+};
+
+export default React.memo(ActivityDrawer);
@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { LuCopy } from "react-icons/lu";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerOverlay,
+  DrawerPortal,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+import CopyTradeOrders from "../copy-trade/CopyTradeOrders";
+import BurnerWalletSettings from "../copy-trade/BurnerWalletSettings";
+import useCopyTradeStore from "@/store/copyTrade";
+
+const CopyTradeDrawer = () => {
+  const pendingCount = useCopyTradeStore(
+    (state) => state.orders.filter((order) => order.status === "pending").length
+  );
+  const isCopying = useCopyTradeStore((state) =>
+    state.rules.some((rule) => rule.enabled)
+  );
+
+  if (!isCopying && pendingCount === 0) return null;
+
+  return (
+    <Drawer direction="right">
+      <DrawerTrigger>
+        <div aria-label="Copy trades" className="relative ml-3">
+          <LuCopy className="text-xl" />
+          {pendingCount > 0 && (
+            <span className="absolute -top-2 -right-2 bg-brand text-white text-[10px] rounded-full w-4 h-4 flex items-center justify-center">
+              {pendingCount}
+            </span>
+          )}
+          <p className="h-0 w-0 invisible">Copy trades</p>
+        </div>
+      </DrawerTrigger>
+      <DrawerPortal>
+        <DrawerOverlay className="fixed inset-0 bg-black/40" />
+        <DrawerContent className="fixed bottom-0 top-0 right-0 outline-none w-96 overflow-auto p-3 flex flex-col gap-3">
+          <p>Copy Trades</p>
+          <CopyTradeOrders />
+          <BurnerWalletSettings />
+        </DrawerContent>
+      </DrawerPortal>
+    </Drawer>
+  );
+};
+
+export default React.memo(CopyTradeDrawer);
@@ -0,0 +1,44 @@
+"use client";
+
+import React from "react";
+import { IoReceiptOutline } from "react-icons/io5";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerOverlay,
+  DrawerPortal,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+import TransactionList from "../transactions/TransactionList";
+import useTransactionsStore from "@/store/transactions";
+
+const TransactionsDrawer = () => {
+  const pendingCount = useTransactionsStore(
+    (state) => state.transactions.filter((tx) => tx.status === "pending").length
+  );
+
+  return (
+    <Drawer direction="right">
+      <DrawerTrigger>
+        <div aria-label="Recent transactions" className="relative">
+          <IoReceiptOutline className="text-xl" />
+          {pendingCount > 0 && (
+            <span className="absolute -top-2 -right-2 bg-brand text-white text-[10px] rounded-full w-4 h-4 flex items-center justify-center">
+              {pendingCount}
+            </span>
+          )}
+          <p className="h-0 w-0 invisible">Recent transactions</p>
+        </div>
+      </DrawerTrigger>
+      <DrawerPortal>
+        <DrawerOverlay className="fixed inset-0 bg-black/40" />
+        <DrawerContent className="fixed bottom-0 top-0 right-0 outline-none w-96 overflow-auto p-3">
+          <p className="mb-3">Recent Transactions</p>
+          <TransactionList />
+        </DrawerContent>
+      </DrawerPortal>
+    </Drawer>
+  );
+};
+
+export default React.memo(TransactionsDrawer);
@@ -0,0 +1,127 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { useCookie } from "react-use";
+import { MdDeleteOutline } from "react-icons/md";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { listWallet } from "@/services/http/followed-wallets.http";
+import usePortfolioStore from "@/store/portfolio";
+import { FollowedWallet } from "@/types/followed-wallet.type";
+import { PortfolioAddress } from "@/types/portfolio.type";
+import { minifyContract } from "@/utils/truncate";
+import { walletRoute } from "@/utils/routeGenerator";
+
+const sourceLabel: Record<PortfolioAddress["source"], string> = {
+  evm: "EVM wallet",
+  solana: "Solana wallet",
+  followed: "Read-only",
+};
+
+interface Props {
+  addresses: PortfolioAddress[];
+  failed: PortfolioAddress[];
+}
+
+function PortfolioAddresses({ addresses, failed }: Props) {
+  const [values] = useCookie("_DEX_TRADING_TOKN");
+  const addWatchedAddress = usePortfolioStore(
+    (state) => state.addWatchedAddress
+  );
+  const removeWatchedAddress = usePortfolioStore(
+    (state) => state.removeWatchedAddress
+  );
+
+  const { data: followedWallets } = useQuery({
+    queryKey: ["followedWallets", values],
+    queryFn: () =>
+      listWallet(values!).then(
+        (response) => response.data.wallets as FollowedWallet[]
+      ),
+    enabled: !!values,
+  });
+
+  const available = (followedWallets ?? []).filter(
+    (wallet) =>
+      !addresses.some(
+        (item) => item.address.toLowerCase() === wallet.address.toLowerCase()
+      )
+  );
+
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <h2 className="text-base font-semibold">Addresses</h2>
+        {values && (
+          <Select
+            value=""
+            onValueChange={(address) => {
+              const wallet = available.find((item) => item.address === address);
+              if (wallet) {
+                addWatchedAddress({
+                  address: wallet.address,
+                  label: wallet.label,
+                  source: "followed",
+                });
+              }
+            }}
+          >
+            <SelectTrigger className="w-[240px]">
+              <SelectValue placeholder="Add a followed wallet" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.length === 0 && (
+                <div className="text-xs text-muted-foreground p-2">
+                  No more followed wallets
+                </div>
+              )}
+              {available.map((wallet) => (
+                <SelectItem key={wallet.address} value={wallet.address}>
+                  {wallet.label} ({minifyContract(wallet.address)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      {addresses.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          Connect a wallet or add a followed wallet to see its holdings.
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {addresses.map((item) => (
+            <div
+              key={item.address}
+              className={`flex items-center gap-2 border rounded-lg px-2 py-1 ${
+                failed.some((entry) => entry.address === item.address) ? "border-error" : "border-border"
+              }`}
+            >
+              <Link href={walletRoute(item.address)} className="hover:text-brand">
+                {item.label || minifyContract(item.address)}
+              </Link>
+              <span className="text-muted-foreground">
+                {sourceLabel[item.source]}
+              </span>
+              {item.source === "followed" && (
+                <MdDeleteOutline
+                  className="cursor-pointer"
+                  onClick={() => removeWatchedAddress(item.address)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PortfolioAddresses;
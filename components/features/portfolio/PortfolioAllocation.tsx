@@ -0,0 +1,81 @@
+import React from "react";
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from "recharts";
+import { PortfolioHolding } from "@/types/portfolio.type";
+
+const COLORS = [
+  "#e91e63",
+  "#0088FE",
+  "#00C49F",
+  "#FFBB28",
+  "#FF8042",
+  "#8884d8",
+  "#82ca9d",
+  "#a4de6c",
+];
+const MAX_SLICES = 7;
+
+interface Props {
+  holdings: PortfolioHolding[];
+  totalValue: number;
+}
+
+function PortfolioAllocation({ holdings, totalValue }: Props) {
+  const priced = holdings.filter((holding) => holding.valueUsd > 0);
+  const slices = priced.slice(0, MAX_SLICES).map((holding) => ({
+    name: holding.symbol,
+    value: holding.valueUsd,
+  }));
+  const rest = priced
+    .slice(MAX_SLICES)
+    .reduce((sum, holding) => sum + holding.valueUsd, 0);
+  if (rest > 0) slices.push({ name: "Others", value: rest });
+
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <h2 className="text-base font-semibold">Allocation</h2>
+      {slices.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No priced holdings</div>
+      ) : (
+        <div className="flex items-center gap-4 flex-wrap">
+          <div className="h-48 w-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie
+                  data={slices}
+                  dataKey="value"
+                  innerRadius={50}
+                  outerRadius={80}
+                  paddingAngle={2}
+                >
+                  {slices.map((slice, index) => (
+                    <Cell key={slice.name} fill={COLORS[index % COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip
+                  formatter={(value: number) => `$${value.toFixed(2)}`}
+                  contentStyle={{ fontSize: 12 }}
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex flex-col gap-1 text-xs">
+            {slices.map((slice, index) => (
+              <div key={slice.name} className="flex items-center gap-2">
+                <span
+                  className="w-3 h-3 rounded-sm"
+                  style={{ background: COLORS[index % COLORS.length] }}
+                />
+                <span>{slice.name}</span>
+                <span className="text-muted-foreground">
+                  {((slice.value / totalValue) * 100).toFixed(2)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default PortfolioAllocation;
@@ -0,0 +1,97 @@
+import React from "react";
+import Link from "next/link";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PortfolioHolding } from "@/types/portfolio.type";
+import { formatCash } from "@/utils/numbers";
+import { tokenRoute } from "@/utils/routeGenerator";
+import { formatNumberToSubscript } from "@/utils/PriceFormatter";
+
+interface Props {
+  holdings: PortfolioHolding[];
+  totalValue: number;
+}
+
+function PortfolioHoldings({ holdings, totalValue }: Props) {
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <h2 className="text-base font-semibold">Holdings</h2>
+      {holdings.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No holdings</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead>Chain</TableHead>
+              <TableHead>Balance</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead>24h</TableHead>
+              <TableHead>Allocation</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {holdings.map((holding) => (
+              <TableRow key={holding.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Avatar className="w-6 h-6">
+                      <AvatarImage src={holding.imageUrl} alt={holding.symbol} />
+                      <AvatarFallback>{holding.symbol.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    {holding.network && holding.tokenAddress ? (
+                      <Link
+                        href={tokenRoute(holding.tokenAddress, holding.network)}
+                        className="hover:text-brand"
+                      >
+                        {holding.symbol}
+                      </Link>
+                    ) : (
+                      <span>{holding.symbol}</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="uppercase">
+                  {holding.network ?? holding.chainId}
+                </TableCell>
+                <TableCell>{formatCash(holding.balance, 4)}</TableCell>
+                <TableCell>
+                  ${formatNumberToSubscript(holding.priceUsd)}
+                </TableCell>
+                <TableCell>${formatCash(holding.valueUsd, 2)}</TableCell>
+                <TableCell
+                  className={
+                    holding.change24h === undefined
+                      ? "text-muted-foreground"
+                      : holding.change24h >= 0
+                      ? "text-success"
+                      : "text-error"
+                  }
+                >
+                  {holding.change24h === undefined
+                    ? "-"
+                    : `${holding.change24h.toFixed(2)}%`}
+                </TableCell>
+                <TableCell>
+                  {totalValue > 0
+                    ? `${((holding.valueUsd / totalValue) * 100).toFixed(2)}%`
+                    : "-"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+export default PortfolioHoldings;
@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { useAccount } from "wagmi";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import usePortfolio from "@/hooks/Portfolio";
+import usePortfolioStore from "@/store/portfolio";
+import { PortfolioAddress } from "@/types/portfolio.type";
+import { portfolioChange24h } from "@/utils/portfolio";
+import { formatCash } from "@/utils/numbers";
+import PortfolioAddresses from "./PortfolioAddresses";
+import PortfolioAllocation from "./PortfolioAllocation";
+import PortfolioHoldings from "./PortfolioHoldings";
+
+function PortfolioPage() {
+  const { address: evmAddress } = useAccount();
+  const { publicKey } = useWallet();
+  const watchedAddresses = usePortfolioStore(
+    (state) => state.watchedAddresses
+  );
+
+  const addresses = useMemo(() => {
+    const connected: PortfolioAddress[] = [];
+    if (evmAddress) {
+      connected.push({ address: evmAddress, label: "", source: "evm" });
+    }
+    if (publicKey) {
+      connected.push({
+        address: publicKey.toString(),
+        label: "",
+        source: "solana",
+      });
+    }
+    return [
+      ...connected,
+      ...watchedAddresses.filter(
+        (watched) =>
+          !connected.some(
+            (item) =>
+              item.address.toLowerCase() === watched.address.toLowerCase()
+          )
+      ),
+    ];
+  }, [evmAddress, publicKey, watchedAddresses]);
+
+  const { holdings, isLoading, failed } = usePortfolio(addresses);
+
+  const totalValue = holdings.reduce(
+    (sum, holding) => sum + holding.valueUsd,
+    0
+  );
+  const change24h = portfolioChange24h(holdings);
+
+  return (
+    <div className="flex flex-col gap-4 w-full mt-4">
+      <PortfolioAddresses addresses={addresses} failed={failed} />
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <>
+          <div className="flex items-end gap-3">
+            <span className="text-2xl font-semibold">
+              ${formatCash(totalValue, 2)}
+            </span>
+            {change24h !== undefined && (
+              <span
+                className={`text-sm ${
+                  change24h >= 0 ? "text-success" : "text-error"
+                }`}
+              >
+                {change24h >= 0 && "+"}
+                {change24h.toFixed(2)}% 24h
+              </span>
+            )}
+          </div>
+          <PortfolioAllocation holdings={holdings} totalValue={totalValue} />
+          <PortfolioHoldings holdings={holdings} totalValue={totalValue} />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default PortfolioPage;
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { toast } from "react-toastify";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import useLimitOrdersStore from "@/store/limitOrders";
+import { LimitOrderToken } from "@/types/limit-order.type";
+import {
+  LIMIT_ORDER_EXPIRY_OPTIONS,
+  conditionForTarget,
+} from "@/utils/limitOrders";
+
+interface LimitOrderFormProps {
+  chainId: string;
+  fromToken: LimitOrderToken | null;
+  toToken: LimitOrderToken | null;
+  fromAmount: string;
+  slippage: number;
+  currentPrice?: number;
+  walletType: "evm" | "solana";
+  walletAddress?: string | null;
+  disabled?: boolean;
+}
+
+function LimitOrderForm({
+  chainId,
+  fromToken,
+  toToken,
+  fromAmount,
+  slippage,
+  currentPrice,
+  walletType,
+  walletAddress,
+  disabled,
+}: LimitOrderFormProps) {
+  const addOrder = useLimitOrdersStore((state) => state.addOrder);
+  const [targetPrice, setTargetPrice] = useState("");
+  const [expiry, setExpiry] = useState(LIMIT_ORDER_EXPIRY_OPTIONS[1].value);
+
+  useEffect(() => {
+    setTargetPrice("");
+  }, [fromToken, toToken]);
+
+  const target = +targetPrice;
+  const canPlace =
+    !disabled &&
+    !!walletAddress &&
+    !!fromToken &&
+    !!toToken &&
+    +fromAmount > 0 &&
+    target > 0 &&
+    !!currentPrice;
+
+  const placeOrder = () => {
+    if (!canPlace) return;
+    const now = Date.now();
+    addOrder({
+      id: uuidv4(),
+      chainId,
+      walletType,
+      walletAddress: walletAddress!,
+      fromToken: fromToken!,
+      toToken: toToken!,
+      fromAmount,
+      targetPrice: target,
+      condition: conditionForTarget(target, currentPrice!),
+      slippage,
+      createdAt: now,
+      expiresAt: now + expiry,
+      status: "open",
+      lastPrice: currentPrice,
+      lastCheckedAt: now,
+    });
+    toast.success("Limit order placed");
+    setTargetPrice("");
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="w-full bg-[hsl(var(--card-lighter))] px-3 py-2 rounded-2xl">
+        <div className="text-xs text-muted-foreground">
+          Target price ({toToken?.tokenSymbol} per {fromToken?.tokenSymbol})
+        </div>
+        <Input
+          value={targetPrice}
+          onChange={(e) => setTargetPrice(e.target.value)}
+          placeholder={currentPrice ? currentPrice.toPrecision(6) : "0"}
+          className="bg-transparent border-0 outline-none md:text-xl md:p-0 hover:bg-transparent focus-visible:ring-0"
+          style={{ padding: 0 }}
+        />
+        {currentPrice && target > 0 && (
+          <div className="text-xs text-muted-foreground mt-1">
+            {(((target - currentPrice) / currentPrice) * 100).toFixed(2)}%{" "}
+            {conditionForTarget(target, currentPrice) === "above"
+              ? "above"
+              : "below"}{" "}
+            market
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground gap-2">
+        <div className="mr-auto">Expires in</div>
+        {LIMIT_ORDER_EXPIRY_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            onClick={() => setExpiry(option.value)}
+            variant={"outline"}
+            className={`border border-border h-8 px-2 text-xs text-muted-foreground rounded-md ${
+              option.value === expiry ? "bg-accent" : "bg-transparent"
+            }`}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <Button
+        onClick={placeOrder}
+        className="w-full bg-brand text-white rounded-[14px]"
+        disabled={!canPlace}
+      >
+        Place Limit Order
+      </Button>
+    </div>
+  );
+}
+
+export default LimitOrderForm;
@@ -0,0 +1,11 @@
+"use client";
+
+import useLimitOrderWatcher from "@/hooks/LimitOrders";
+
+// Keeps polling open limit orders while the user browses any page.
+function LimitOrderWatcher() {
+  useLimitOrderWatcher();
+  return null;
+}
+
+export default LimitOrderWatcher;
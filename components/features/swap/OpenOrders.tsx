@@ -0,0 +1,91 @@
+"use client";
+
+import React from "react";
+import dayjs from "dayjs";
+import { Button } from "@/components/ui/button";
+import useLimitOrdersStore from "@/store/limitOrders";
+import { LimitOrderStatus } from "@/types/limit-order.type";
+
+const statusClassName: Record<LimitOrderStatus, string> = {
+  open: "text-brand",
+  triggered: "text-yellow-600",
+  submitted: "text-yellow-600",
+  filled: "text-success",
+  failed: "text-error",
+  cancelled: "text-muted-foreground",
+  expired: "text-muted-foreground",
+};
+
+function OpenOrders({ chainId }: { chainId?: string }) {
+  const orders = useLimitOrdersStore((state) => state.orders);
+  const cancelOrder = useLimitOrdersStore((state) => state.cancelOrder);
+  const removeOrder = useLimitOrdersStore((state) => state.removeOrder);
+
+  const visibleOrders = orders.filter(
+    (order) => !chainId || order.chainId === chainId
+  );
+
+  if (visibleOrders.length === 0) {
+    return (
+      <div className="text-xs text-muted-foreground text-center">
+        No limit orders yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2 max-h-[280px] overflow-auto">
+      {visibleOrders.map((order) => (
+        <div
+          key={order.id}
+          className="border border-border rounded-lg p-2 flex flex-col gap-1 text-xs"
+        >
+          <div className="flex items-center justify-between">
+            <span>
+              {order.fromAmount} {order.fromToken.tokenSymbol} →{" "}
+              {order.toToken.tokenSymbol}
+            </span>
+            <span className={statusClassName[order.status]}>
+              {order.status}
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-muted-foreground">
+            <span>
+              {order.condition === "above" ? "≥" : "≤"}{" "}
+              {order.targetPrice.toPrecision(6)}
+            </span>
+            <span>
+              Last: {order.lastPrice ? order.lastPrice.toPrecision(6) : "-"}
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-muted-foreground">
+            <span>
+              {order.status === "open"
+                ? `Expires ${dayjs(order.expiresAt).format("MMM D, HH:mm")}`
+                : order.error ?? dayjs(order.createdAt).format("MMM D, HH:mm")}
+            </span>
+            {order.status === "open" ? (
+              <Button
+                variant={"outline"}
+                className="h-6 px-2 text-xs"
+                onClick={() => cancelOrder(order.id)}
+              >
+                Cancel
+              </Button>
+            ) : (
+              <Button
+                variant={"ghost"}
+                className="h-6 px-2 text-xs"
+                onClick={() => removeOrder(order.id)}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default OpenOrders;
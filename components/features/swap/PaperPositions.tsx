@@ -0,0 +1,143 @@
+"use client";
+
+import React from "react";
+import Image from "next/image";
+import dayjs from "dayjs";
+import { Button } from "@/components/ui/button";
+import usePaperTradingStore from "@/store/paperTrading";
+import usePaperPriceRefresh from "@/hooks/PaperTrading";
+import { toPositionRow } from "@/utils/paperTrading";
+import { networkIdFromChainId } from "@/utils/explorer";
+
+const formatUsd = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString("en-US", {
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatPrice = (value: number) => (value ? value.toPrecision(6) : "-");
+
+const pnlClassName = (value: number) =>
+  value > 0 ? "text-success" : value < 0 ? "text-error" : "";
+
+function PaperPositions() {
+  const holdings = usePaperTradingStore((state) => state.holdings);
+  const trades = usePaperTradingStore((state) => state.trades);
+  const removeHolding = usePaperTradingStore((state) => state.removeHolding);
+  const reset = usePaperTradingStore((state) => state.reset);
+  usePaperPriceRefresh();
+
+  const rows = holdings.map(toPositionRow);
+  const totalValue = rows.reduce((total, row) => total + row.valueUsd, 0);
+  const totalUnrealized = rows.reduce((total, row) => total + row.currentPnl, 0);
+  const totalRealized = rows.reduce((total, row) => total + row.realizedPnl, 0);
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-xs text-muted-foreground text-center">
+        Add funds to start paper trading
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid grid-cols-3 gap-2 text-xs">
+        <div className="flex flex-col">
+          <span className="text-muted-foreground">Value</span>
+          <span>{formatUsd(totalValue)}</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-muted-foreground">Unrealized</span>
+          <span className={pnlClassName(totalUnrealized)}>
+            {formatUsd(totalUnrealized)}
+          </span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-muted-foreground">Realized</span>
+          <span className={pnlClassName(totalRealized)}>
+            {formatUsd(totalRealized)}
+          </span>
+        </div>
+      </div>
+      <div className="flex flex-col gap-2 max-h-[280px] overflow-auto">
+        {rows.map((row) => (
+          <div
+            key={row.id}
+            className="border border-border rounded-lg p-2 flex flex-col gap-1 text-xs"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                {row.imageUrl && (
+                  <Image
+                    unoptimized
+                    src={row.imageUrl}
+                    width={16}
+                    height={16}
+                    alt={row.tokenSymbol}
+                  />
+                )}
+                <span>
+                  {row.amount.toLocaleString("en-US", {
+                    maximumFractionDigits: 6,
+                  })}{" "}
+                  {row.tokenSymbol}
+                </span>
+                <span className="text-muted-foreground">
+                  {networkIdFromChainId(row.chainId) ?? row.chainId}
+                </span>
+              </div>
+              <span>{formatUsd(row.valueUsd)}</span>
+            </div>
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>Entry {formatPrice(row.entryPrice)}</span>
+              <span>Exit {formatPrice(row.exitPrice)}</span>
+              <span>Now {formatPrice(row.currentPrice)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className={pnlClassName(row.currentPnl)}>
+                uPnL {formatUsd(row.currentPnl)}
+              </span>
+              <span className={pnlClassName(row.realizedPnl)}>
+                rPnL {formatUsd(row.realizedPnl)}
+              </span>
+              {row.amount === 0 && (
+                <Button
+                  variant={"ghost"}
+                  className="h-6 px-2 text-xs"
+                  onClick={() => removeHolding(row.id)}
+                >
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      {trades.length > 0 && (
+        <div className="flex flex-col gap-1 text-xs text-muted-foreground">
+          <span>Recent fills</span>
+          {trades.slice(0, 5).map((trade) => (
+            <div key={trade.id} className="flex items-center justify-between">
+              <span>
+                {trade.fromAmount.toPrecision(6)} {trade.fromToken.tokenSymbol}{" "}
+                → {trade.toAmount.toPrecision(6)} {trade.toToken.tokenSymbol}
+              </span>
+              <span>{dayjs(trade.createdAt).format("MMM D, HH:mm")}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      <Button
+        variant={"outline"}
+        className="h-8 text-xs"
+        onClick={() => {
+          if (window.confirm("Reset the paper trading balance sheet?")) reset();
+        }}
+      >
+        Reset Paper Account
+      </Button>
+    </div>
+  );
+}
+
+export default PaperPositions;
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import usePaperTradingStore from "@/store/paperTrading";
+import { LimitOrderToken } from "@/types/limit-order.type";
+import { OkxQuote } from "@/types/okx.type";
+import { holdingId, simulateFill } from "@/utils/paperTrading";
+
+interface PaperTradeFormProps {
+  chainId: string;
+  fromToken: LimitOrderToken | null;
+  toToken: LimitOrderToken | null;
+  quote: OkxQuote | null;
+  slippage: number;
+}
+
+function PaperTradeForm({
+  chainId,
+  fromToken,
+  toToken,
+  quote,
+  slippage,
+}: PaperTradeFormProps) {
+  const holdings = usePaperTradingStore((state) => state.holdings);
+  const deposit = usePaperTradingStore((state) => state.deposit);
+  const fillTrade = usePaperTradingStore((state) => state.fillTrade);
+  const markPrice = usePaperTradingStore((state) => state.markPrice);
+  const [fundAmount, setFundAmount] = useState("");
+
+  useEffect(() => {
+    if (!quote) return;
+    markPrice(
+      chainId,
+      quote.fromToken.tokenContractAddress,
+      +(quote.fromToken.tokenUnitPrice ?? 0)
+    );
+    markPrice(
+      chainId,
+      quote.toToken.tokenContractAddress,
+      +(quote.toToken.tokenUnitPrice ?? 0)
+    );
+  }, [chainId, quote, markPrice]);
+
+  const balance = fromToken
+    ? holdings.find(
+        (holding) =>
+          holding.id === holdingId(chainId, fromToken.tokenContractAddress)
+      )?.amount ?? 0
+    : 0;
+  const fill = quote ? simulateFill(quote, slippage) : null;
+
+  const addFunds = () => {
+    if (!fromToken || !(+fundAmount > 0)) return;
+    deposit(chainId, fromToken, +fundAmount, fill?.fromPriceUsd ?? 0);
+    toast.success(`Added ${fundAmount} paper ${fromToken.tokenSymbol}`);
+    setFundAmount("");
+  };
+
+  const simulateSwap = () => {
+    if (!fromToken || !toToken || !fill) return;
+    try {
+      fillTrade({
+        chainId,
+        fromToken,
+        toToken,
+        slippage,
+        ...fill,
+      });
+      toast.success(
+        `Paper swap filled: ${fill.fromAmount} ${
+          fromToken.tokenSymbol
+        } → ${fill.toAmount.toPrecision(6)} ${toToken.tokenSymbol}`
+      );
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>Paper balance</span>
+        <span>
+          {balance.toLocaleString("en-US", { maximumFractionDigits: 6 })}{" "}
+          {fromToken?.tokenSymbol}
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          value={fundAmount}
+          onChange={(e) => setFundAmount(e.target.value)}
+          placeholder={`Amount of ${fromToken?.tokenSymbol ?? "token"}`}
+          className="h-8 text-xs"
+        />
+        <Button
+          variant={"outline"}
+          className="h-8 px-2 text-xs"
+          onClick={addFunds}
+          disabled={!fromToken || !(+fundAmount > 0)}
+        >
+          Add Funds
+        </Button>
+      </div>
+      <Button
+        onClick={simulateSwap}
+        className="w-full bg-brand text-white rounded-[14px]"
+        disabled={!fill || fill.fromAmount > balance}
+      >
+        {fill && fill.fromAmount > balance
+          ? "Insufficient Paper Balance"
+          : "Simulate Swap"}
+      </Button>
+    </div>
+  );
+}
+
+export default PaperTradeForm;
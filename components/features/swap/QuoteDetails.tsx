@@ -0,0 +1,134 @@
+"use client";
+
+import React from "react";
+import Image from "next/image";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { SwapRoute } from "@/utils/swapRoutes";
+
+interface QuoteDetailsProps {
+  routes: SwapRoute[];
+  selectedRouteId: string;
+  onSelect: (route: SwapRoute) => void;
+  toSymbol?: string;
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: value < 1 ? 8 : 4 });
+
+const RouteRow = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <div className="flex justify-between items-center text-xs text-muted-foreground">
+    <div>{title}</div>
+    <div className="text-foreground">{children}</div>
+  </div>
+);
+
+const QuoteDetails: React.FC<QuoteDetailsProps> = ({
+  routes,
+  selectedRouteId,
+  onSelect,
+  toSymbol,
+}) => {
+  if (routes.length === 0) return null;
+
+  const selectedRoute =
+    routes.find((route) => route.id === selectedRouteId) ?? routes[0];
+
+  return (
+    <Accordion type="single" collapsible>
+      <AccordionItem value="quote-details" className="text-sm">
+        <AccordionTrigger className="text-left h-[40px] pl-4">
+          <div className="flex justify-between w-full text-xs text-muted-foreground">
+            <span>Route: {selectedRoute.label}</span>
+            <span>
+              Min. {formatAmount(selectedRoute.minimumReceived)} {toSymbol}
+            </span>
+          </div>
+        </AccordionTrigger>
+        <AccordionContent>
+          <div className="flex flex-col gap-2 p-3 max-h-[360px] overflow-auto">
+            {routes.map((route) => (
+              <div
+                key={route.id}
+                onClick={() => route.selectable && onSelect(route)}
+                className={`flex flex-col gap-1 border rounded-lg p-2 transition-all duration-200 ${
+                  route.id === selectedRoute.id ? "border-brand" : "border-border"
+                } ${
+                  route.selectable
+                    ? "cursor-pointer hover:bg-accent"
+                    : "opacity-60 cursor-not-allowed"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    {route.logo && (
+                      <Image
+                        unoptimized
+                        src={route.logo}
+                        width={16}
+                        height={16}
+                        alt={route.label}
+                      />
+                    )}
+                    <span>{route.label}</span>
+                  </div>
+                  <span>
+                    {formatAmount(route.expectedOutput)} {toSymbol}
+                  </span>
+                </div>
+                {route.splits.map((split, index) => (
+                  <div
+                    key={index}
+                    className="text-xs text-muted-foreground flex flex-wrap gap-1"
+                  >
+                    <span>{split.percent}%:</span>
+                    {split.hops.map((hop, hopIndex) => (
+                      <span key={hopIndex}>
+                        {hop.fromSymbol} → {hop.toSymbol} (
+                        {hop.dexes
+                          .map((dex) => `${dex.name} ${dex.percent}%`)
+                          .join(", ")}
+                        ){hopIndex < split.hops.length - 1 && " ›"}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+                <RouteRow title="Minimum received">
+                  {formatAmount(route.minimumReceived)} {toSymbol}
+                </RouteRow>
+                <RouteRow title="Price impact">
+                  {route.priceImpact === null
+                    ? "-"
+                    : `${route.priceImpact.toFixed(2)}%`}
+                </RouteRow>
+                <RouteRow title="Fee">${route.fee.toFixed(4)}</RouteRow>
+                {route.estimateGasFee && (
+                  <RouteRow title="Estimated gas">
+                    {(+route.estimateGasFee).toLocaleString("en-US")}
+                  </RouteRow>
+                )}
+                {!route.selectable && (
+                  <div className="text-xs text-muted-foreground">
+                    Comparison only, this DEX can&apos;t be forced on this chain
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  );
+};
+
+export default QuoteDetails;
@@ -3,8 +3,17 @@
 import { Button } from "@/components/ui/button";
 import React, { useState } from "react";
 
-function Slippage({ onChange }: { onChange: (value: number) => void }) {
-  const [slippage, setSlippage] = useState(2);
+function Slippage({
+  onChange,
+  defaultValue,
+}: {
+  onChange: (value: number) => void;
+  // Fraction, like the value passed to onChange.
+  defaultValue?: number;
+}) {
+  const [slippage, setSlippage] = useState(
+    defaultValue !== undefined ? defaultValue * 100 : 2
+  );
 
   const handleClick = (value: number) => {
     setSlippage(value);
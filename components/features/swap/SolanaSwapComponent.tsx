@@ -4,22 +4,28 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { RefreshCwIcon } from "lucide-react";
 import Image from "next/image";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import React from "react";
 import {
   useConnection,
   useWallet,
 } from "@solana/wallet-adapter-react";
-import {
-  Transaction,
-  VersionedTransaction,
-} from "@solana/web3.js";
-import base58 from "bs58";
+import { decodeSwapTransaction } from "@/utils/solanaSwap";
+import { trackTransaction } from "@/hooks/TransactionTracker";
 import TokenAutoComplete, { OkxToken } from "@/components/common/AutoComplete";
 import SwapChains from "./SwapChains";
 import { useDebounce } from "use-debounce";
-import { getQuotes, listAvailableTokens, swapRequest } from "@/utils/okx";
+import {
+  getLiquiditySources,
+  getQuotes,
+  listAvailableTokens,
+  swapRequest,
+} from "@/utils/okx";
+import { useQuery } from "@tanstack/react-query";
+import QuoteDetails from "./QuoteDetails";
+import { BEST_ROUTE_ID, buildSwapRoutes } from "@/utils/swapRoutes";
+import { OkxQuote } from "@/types/okx.type";
 import { Wallet } from "./SolanaWallet";
 import dynamic from "next/dynamic";
 import { parseUnits } from "viem";
@@ -41,6 +47,32 @@ export const SolanaSwapComponent = () => {
   const { connection } = useConnection();
   const [slippage, setSlippage] = useState("0.02");
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [quote, setQuote] = useState<OkxQuote | null>(null);
+  const [selectedRouteId, setSelectedRouteId] = useState(BEST_ROUTE_ID);
+
+  const { data: liquiditySources } = useQuery({
+    queryKey: ["okxLiquidity", "501"],
+    queryFn: () => getLiquiditySources({ chainId: "501" }),
+    select: (data) => data.data,
+  });
+
+  const routes = useMemo(
+    () => buildSwapRoutes(quote, +slippage, liquiditySources),
+    [quote, slippage, liquiditySources]
+  );
+  const selectedRoute =
+    routes.find((route) => route.id === selectedRouteId) ?? routes[0];
+
+  useEffect(() => {
+    setQuote(null);
+    setSelectedRouteId(BEST_ROUTE_ID);
+  }, [fromToken, toToken]);
+
+  useEffect(() => {
+    if (selectedRoute) {
+      setToAmount(selectedRoute.expectedOutput.toFixed(8));
+    }
+  }, [selectedRoute]);
 
   useEffect(() => {
     if (publicKey) {
@@ -86,15 +118,9 @@ export const SolanaSwapComponent = () => {
         });
         if (response.data[0]) {
           setErrorMessage(null);
-          setToAmount(
-            (
-              (+debounceAmount * response.data[0]?.fromToken.tokenUnitPrice) /
-              response.data[0]?.toToken.tokenUnitPrice
-            )
-              .toFixed(8)
-              .toString()
-          );
+          setQuote(response.data[0]);
         } else {
+          setQuote(null);
           setToAmount("");
           setErrorMessage(response.msg || "Failed to fetch quotes.");
         }
@@ -132,6 +158,7 @@ export const SolanaSwapComponent = () => {
         feePercent: "1.32", // Example commission percentage (max 3, 2 decimals)
         fromTokenReferrerWalletAddress: publicKey.toString(), // Use SOL wallet address directly
         slippage,
+        dexIds: selectedRoute?.dexIds,
       } as any);
       console.log("Received swap quote:", swapQuote);
       if (!swapQuote.data || !swapQuote.data[0]) {
@@ -147,47 +174,27 @@ export const SolanaSwapComponent = () => {
       }
       console.log("Got transaction data from OKX");
       const recentBlockHash = await connection.getLatestBlockhash();
-      console.log("Got blockhash:", recentBlockHash.blockhash);
-      const decodedTransaction = base58.decode(transactionData);
-      let tx;
-      try {
-        tx = VersionedTransaction.deserialize(decodedTransaction);
-        console.log("Successfully created versioned transaction");
-        const messageV0 = tx.message;
-        messageV0.recentBlockhash = recentBlockHash.blockhash;
-        tx = new VersionedTransaction(messageV0);
-      } catch (e) {
-        console.log("Versioned transaction failed, trying legacy transaction");
-        tx = Transaction.from(decodedTransaction);
-        console.log("Successfully created legacy transaction");
-        tx.recentBlockhash = recentBlockHash.blockhash;
-        tx.feePayer = publicKey;
-      }
+      const tx = decodeSwapTransaction(
+        transactionData,
+        recentBlockHash.blockhash,
+        publicKey
+      );
       console.log("Sending transaction to wallet for approval...");
       const signature = await sendTransaction(tx, connection, {
         skipPreflight: false,
         preflightCommitment: "confirmed",
         maxRetries: 3,
       });
-      console.log(`Transaction sent with signature: ${signature}`);
-      console.log("Waiting for transaction confirmation...");
-      const confirmation = await connection.confirmTransaction(
-        {
-          signature,
-          blockhash: recentBlockHash.blockhash,
-          lastValidBlockHeight: recentBlockHash.lastValidBlockHeight,
-        },
-        "confirmed"
-      );
-      if (confirmation.value?.err) {
-        throw new Error(
-          `Transaction failed: ${JSON.stringify(confirmation.value.err)}`
-        );
-      }
-      console.log("Swap completed successfully!");
+      trackTransaction({
+        hash: signature,
+        chainId: "501",
+        walletType: "solana",
+        kind: "swap",
+        description: `Swap ${fromToken.tokenSymbol} → ${toToken.tokenSymbol}`,
+        lastValidBlockHeight: recentBlockHash.lastValidBlockHeight,
+      });
       setErrorMessage(null);
       setLoading(false);
-      alert(`Swap successful! Transaction ID: ${signature}`);
     } catch (error: any) {
       console.error("Transaction failed:", error);
       setErrorMessage(`Transaction failed: ${error.message || "Unknown error"}`);
@@ -250,6 +257,12 @@ export const SolanaSwapComponent = () => {
                 />
               </div>
             </div>
+            <QuoteDetails
+              routes={routes}
+              selectedRouteId={selectedRoute?.id ?? BEST_ROUTE_ID}
+              onSelect={(route) => setSelectedRouteId(route.id)}
+              toSymbol={toToken?.tokenSymbol}
+            />
             {errorMessage && (
               <p className="text-error text-sm mx-3">{errorMessage}</p>
             )}
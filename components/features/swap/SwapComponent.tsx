@@ -8,13 +8,14 @@ import {
   useSendTransaction,
   useWaitForTransactionReceipt,
 } from "wagmi";
-import { useCallback, useState, useEffect } from "react";
+import { useCallback, useState, useEffect, useMemo } from "react";
 import {
   getQuotes,
   listAvailableTokens,
   swapRequest,
   approveTransaction,
   searchSwapToken,
+  getLiquiditySources,
 } from "@/utils/okx";
 import { erc20Abi, parseUnits } from "viem";
 import SwapChains from "./SwapChains";
@@ -29,10 +30,22 @@ import { useQuery } from "@tanstack/react-query";
 import SwapMessages from "./SwapMessages";
 import { useRouter, useSearchParams } from "next/navigation";
 import Slippage from "./Slippage";
+import QuoteDetails from "./QuoteDetails";
+import LimitOrderForm from "./LimitOrderForm";
+import OpenOrders from "./OpenOrders";
+import PaperTradeForm from "./PaperTradeForm";
+import PaperPositions from "./PaperPositions";
+import { ConnectWalletMessage } from "./DashboardComponents";
+import { priceFromQuote } from "@/utils/limitOrders";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BEST_ROUTE_ID, buildSwapRoutes } from "@/utils/swapRoutes";
+import { OkxQuote } from "@/types/okx.type";
 import SolanaSwapButton from "./SolanaSwapButton";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
-import { Transaction, VersionedTransaction } from "@solana/web3.js";
-import base58 from "bs58";
+import { decodeSwapTransaction } from "@/utils/solanaSwap";
+import { trackTransaction } from "@/hooks/TransactionTracker";
+
+type OrderMode = "market" | "limit" | "paper";
 
 interface OkxToken {
   decimals: string;
@@ -46,17 +59,24 @@ export const SwapComponent = ({
   fromTokenContractAddress,
   toTokenContractAddress,
   selectedNetwrok,
+  initialFromAmount,
+  initialSlippage,
+  onSwapSubmitted,
 }: {
   fromTokenContractAddress?: string;
   toTokenContractAddress?: string;
   selectedNetwrok?: number;
+  // Used to pre-fill an order, e.g. a copy trade waiting for confirmation.
+  initialFromAmount?: string;
+  initialSlippage?: number;
+  onSwapSubmitted?: (txHash: string) => void;
 }) => {
   const searchParams = useSearchParams();
 
   const [chainId, setChainId] = useState(selectedNetwrok ? selectedNetwrok.toString() : searchParams.get("chainId") ?? "501");
 
   const [fromAmount, setFromAmount] = useState<string>(
-    searchParams.get("fromAmount") ?? "1"
+    initialFromAmount ?? searchParams.get("fromAmount") ?? "1"
   );
   const [toAmount, setToAmount] = useState<string>(
     searchParams.get("toAmount") ?? ""
@@ -106,6 +126,7 @@ export const SwapComponent = ({
         feePercent: "1.32", // Example commission percentage (max 3, 2 decimals)
         fromTokenReferrerWalletAddress: publicKey.toString(), // Use SOL wallet address directly
         slippage,
+        dexIds: selectedRoute?.dexIds,
       } as any);
       console.log("Received swap quote:", swapQuote);
       if (!swapQuote.data || !swapQuote.data[0]) {
@@ -121,47 +142,28 @@ export const SwapComponent = ({
       }
       console.log("Got transaction data from OKX");
       const recentBlockHash = await connection.getLatestBlockhash();
-      console.log("Got blockhash:", recentBlockHash.blockhash);
-      const decodedTransaction = base58.decode(transactionData);
-      let tx;
-      try {
-        tx = VersionedTransaction.deserialize(decodedTransaction);
-        console.log("Successfully created versioned transaction");
-        const messageV0 = tx.message;
-        messageV0.recentBlockhash = recentBlockHash.blockhash;
-        tx = new VersionedTransaction(messageV0);
-      } catch (e) {
-        console.log("Versioned transaction failed, trying legacy transaction");
-        tx = Transaction.from(decodedTransaction);
-        console.log("Successfully created legacy transaction");
-        tx.recentBlockhash = recentBlockHash.blockhash;
-        tx.feePayer = publicKey;
-      }
+      const tx = decodeSwapTransaction(
+        transactionData,
+        recentBlockHash.blockhash,
+        publicKey
+      );
       console.log("Sending transaction to wallet for approval...");
       const signature = await sendSolanaTransaction(tx, connection, {
         skipPreflight: false,
         preflightCommitment: "confirmed",
         maxRetries: 3,
       });
-      console.log(`Transaction sent with signature: ${signature}`);
-      console.log("Waiting for transaction confirmation...");
-      const confirmation = await connection.confirmTransaction(
-        {
-          signature,
-          blockhash: recentBlockHash.blockhash,
-          lastValidBlockHeight: recentBlockHash.lastValidBlockHeight,
-        },
-        "confirmed"
-      );
-      if (confirmation.value?.err) {
-        throw new Error(
-          `Transaction failed: ${JSON.stringify(confirmation.value.err)}`
-        );
-      }
-      console.log("Swap completed successfully!");
+      trackTransaction({
+        hash: signature,
+        chainId: "501",
+        walletType: "solana",
+        kind: "swap",
+        description: `Swap ${fromToken.tokenSymbol} → ${toToken.tokenSymbol}`,
+        lastValidBlockHeight: recentBlockHash.lastValidBlockHeight,
+      });
+      onSwapSubmitted?.(signature);
       setErrorMessage(null);
       setLoading(false);
-      alert(`Swap successful! Transaction ID: ${signature}`);
     } catch (error: any) {
       console.error("Transaction failed:", error);
       setErrorMessage(
@@ -247,16 +249,43 @@ export const SwapComponent = ({
   const [availableTokens, setAvailableTokens] = useState<OkxToken[]>([]);
   const [debounceAmount] = useDebounce(fromAmount, 200);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [slippage, setSlippage] = useState(0.02);
+  const [slippage, setSlippage] = useState(initialSlippage ?? 0.02);
   const [isApproved, setIsApproved] = useState(false);
   const [fromTokenBalance, setFromTokenBalance] = useState<string>("0");
   const [toTokenBalance, setToTokenBalance] = useState<string>("0");
+  const [orderMode, setOrderMode] = useState<OrderMode>("market");
+  const [quote, setQuote] = useState<OkxQuote | null>(null);
+  const [selectedRouteId, setSelectedRouteId] = useState(BEST_ROUTE_ID);
+
+  const { data: liquiditySources } = useQuery({
+    queryKey: ["okxLiquidity", chainId],
+    queryFn: () => getLiquiditySources({ chainId }),
+    select: (data) => data.data,
+  });
+
+  const routes = useMemo(
+    () => buildSwapRoutes(quote, slippage, liquiditySources),
+    [quote, slippage, liquiditySources]
+  );
+  const selectedRoute =
+    routes.find((route) => route.id === selectedRouteId) ?? routes[0];
+
+  useEffect(() => {
+    setQuote(null);
+    setSelectedRouteId(BEST_ROUTE_ID);
+  }, [fromToken, toToken, chainId]);
+
+  useEffect(() => {
+    if (selectedRoute) {
+      setToAmount(selectedRoute.expectedOutput.toFixed(8));
+    }
+  }, [selectedRoute]);
 
   const {
     data: hash,
     error,
     isPending,
-    sendTransaction,
+    sendTransactionAsync,
   } = useSendTransaction();
   const { isLoading: isConfirming, isSuccess: isConfirmed } =
     useWaitForTransactionReceipt({ hash });
@@ -323,6 +352,13 @@ export const SwapComponent = ({
         MaxUint256.toString()
       );
       console.log("Approval Transaction Sent:", txResponse);
+      trackTransaction({
+        hash: txResponse.hash,
+        chainId,
+        walletType: "evm",
+        kind: "approve",
+        description: `Approve ${fromToken.tokenSymbol}`,
+      });
       await txResponse.wait();
 
       setIsApproved(true);
@@ -351,15 +387,9 @@ export const SwapComponent = ({
 
         if (response.data[0]) {
           setErrorMessage(null);
-          setToAmount(
-            (
-              (+debounceAmount * response.data[0]?.fromToken.tokenUnitPrice) /
-              response.data[0]?.toToken.tokenUnitPrice
-            )
-              .toFixed(8)
-              .toString()
-          );
+          setQuote(response.data[0]);
         } else {
+          setQuote(null);
           setToAmount("");
           setErrorMessage(response.msg || "Failed to fetch quotes.");
         }
@@ -386,6 +416,7 @@ export const SwapComponent = ({
         amount: amountInWei.toString(),
         userWalletAddress: address!,
         slippage,
+        dexIds: selectedRoute?.dexIds,
       });
 
       const transactionData = swapQuote.data[0]?.tx;
@@ -394,11 +425,19 @@ export const SwapComponent = ({
         return;
       }
 
-      sendTransaction({
+      const txHash = await sendTransactionAsync({
         to: transactionData.to,
         data: transactionData.data,
         value: BigInt(transactionData.value || "0"),
       });
+      trackTransaction({
+        hash: txHash,
+        chainId,
+        walletType: "evm",
+        kind: "swap",
+        description: `Swap ${fromToken.tokenSymbol} → ${toToken.tokenSymbol}`,
+      });
+      onSwapSubmitted?.(txHash);
     } catch (error) {
       console.error("Error during swap transaction:", error);
     }
@@ -470,6 +509,22 @@ export const SwapComponent = ({
         </div>
         <div className="my-6 flex flex-col gap-6">
           <SwapChains chainId={chainId} setChainId={setChainId} />
+          <Tabs
+            value={orderMode}
+            onValueChange={(value) => setOrderMode(value as OrderMode)}
+          >
+            <TabsList className="w-full">
+              <TabsTrigger value="market" className="w-1/3">
+                Market
+              </TabsTrigger>
+              <TabsTrigger value="limit" className="w-1/3">
+                Limit
+              </TabsTrigger>
+              <TabsTrigger value="paper" className="w-1/3">
+                Paper
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
           <div>
             <div className="w-full bg-[hsl(var(--card-lighter))] px-3 py-2 rounded-2xl flex items-center gap-3">
               <div className="w-1/2">
@@ -535,35 +590,74 @@ export const SwapComponent = ({
           {errorMessage && (
             <p className="text-error text-sm mx-3">{errorMessage}</p>
           )}
-          {networkIsSolana ? (
-            <div>
-              {walletAddress ? (
-                <Button
-                  onClick={() => handleSolanaSwap(walletAddress)}
-                  className="w-full bg-brand text-white rounded-[14px] relative"
-                  disabled={loading}
-                >
-                  {loading ? "Swapping..." : "Swap"}
-                </Button>
-              ) : (
+          {orderMode === "market" ? (
+            <>
+              {networkIsSolana ? (
                 <div>
-                  <SolanaSwapButton onConnected={onConnectedSolanaWallet} />
+                  {walletAddress ? (
+                    <Button
+                      onClick={() => handleSolanaSwap(walletAddress)}
+                      className="w-full bg-brand text-white rounded-[14px] relative"
+                      disabled={loading}
+                    >
+                      {loading ? "Swapping..." : "Swap"}
+                    </Button>
+                  ) : (
+                    <div>
+                      <SolanaSwapButton onConnected={onConnectedSolanaWallet} />
+                    </div>
+                  )}
                 </div>
+              ) : (
+                <>
+                  {address && !isApproved ? (
+                    <Button onClick={handleApproval} className="bg-brand">
+                      Approve Token
+                    </Button>
+                  ) : (
+                    <SwapButton
+                      sendSwapRequest={sendSwapRequest}
+                      isApproved={isApproved}
+                      disabled={!isApproved || !fromAmount || !toAmount}
+                    />
+                  )}
+                </>
               )}
-            </div>
+            </>
+          ) : orderMode === "paper" ? (
+            <>
+              <PaperTradeForm
+                chainId={chainId}
+                fromToken={fromToken}
+                toToken={toToken}
+                quote={quote}
+                slippage={slippage}
+              />
+              <PaperPositions />
+            </>
           ) : (
             <>
-              {address && !isApproved ? (
+              {networkIsSolana && !walletAddress && (
+                <SolanaSwapButton onConnected={onConnectedSolanaWallet} />
+              )}
+              {!networkIsSolana && !address && <ConnectWalletMessage />}
+              {!networkIsSolana && address && !isApproved ? (
                 <Button onClick={handleApproval} className="bg-brand">
                   Approve Token
                 </Button>
               ) : (
-                <SwapButton
-                  sendSwapRequest={sendSwapRequest}
-                  isApproved={isApproved}
-                  disabled={!isApproved || !fromAmount || !toAmount}
+                <LimitOrderForm
+                  chainId={chainId}
+                  fromToken={fromToken}
+                  toToken={toToken}
+                  fromAmount={debounceAmount}
+                  slippage={slippage}
+                  currentPrice={quote ? priceFromQuote(quote) : undefined}
+                  walletType={networkIsSolana ? "solana" : "evm"}
+                  walletAddress={networkIsSolana ? walletAddress : address}
                 />
               )}
+              <OpenOrders chainId={chainId} />
             </>
           )}
           {fromAmount && toAmount && (
@@ -575,7 +669,16 @@ export const SwapComponent = ({
               </div>
             </div>
           )}
-          <Slippage onChange={(value: number) => setSlippage(value)} />
+          <Slippage
+            defaultValue={initialSlippage}
+            onChange={(value: number) => setSlippage(value)}
+          />
+          <QuoteDetails
+            routes={routes}
+            selectedRouteId={selectedRoute?.id ?? BEST_ROUTE_ID}
+            onSelect={(route) => setSelectedRouteId(route.id)}
+            toSymbol={toToken?.tokenSymbol}
+          />
 
           <SwapMessages
             error={error}
@@ -35,18 +35,33 @@ import {
 import useNetworkSelector from "@/store/tokenChains/networks";
 import GrowingGems from "../homepage/homepage-tabs/GrowingGems";
 import EnableNotification from "./EnableNotification";
+import FilterPresets from "@/components/ui/smart-table/FilterPresets";
+import useQueryState from "@/hooks/QueryState";
+import { HOT_TOKENS_PARAMS, HOT_TOKENS_PRESETS } from "@/utils/filterPresets";
+import {
+  DateRange,
+  dateRangeCodec,
+  enumCodec,
+  rangeCodec,
+  stringCodec,
+} from "@/utils/queryState";
+
+const SORTS = [
+  "latestDate",
+  "score",
+  "count",
+  "buySwapCount",
+  "sellSwapCount",
+  "buyPressure",
+  "sellPressure",
+  "buySpeed",
+  "growthRate",
+  "averageRank",
+] as const;
+
+type Sort = (typeof SORTS)[number];
 
-type Sort =
-  | "latestDate"
-  | "score"
-  | "count"
-  | "buySwapCount"
-  | "sellSwapCount"
-  | "buyPressure"
-  | "sellPressure"
-  | "buySpeed"
-  | "growthRate"
-  | "averageRank";
+const sortCodec = enumCodec(SORTS);
 
 const alertLinks: Record<string, string> = {
   base: "https://t.me/TokenTracker_base_bot",
@@ -61,25 +76,50 @@ function HotTokens() {
   // FILTERS
   const [page, setPage] = useState(1);
   const [limit, setLimit] = useState(200);
-  const [countRange, setCountRange] = useState<[number, number]>([
-    0, 5000000000,
-  ]);
-  const [buySwapRange, setBuySwapRange] = useState<[number, number]>([
-    0, 10000000000,
-  ]);
-  const [sellSwapRange, setSellSwapRange] = useState<[number, number]>([
-    0, 1500000000,
-  ]);
-  const [searchValue, setSearchValue] = useState<string>("");
+  // Filters and sorting live in the query string so reloads and shared
+  // links show the same view.
+  const [countRange, setCountRange] = useQueryState<[number, number]>(
+    HOT_TOKENS_PARAMS.count,
+    [0, 5000000000],
+    rangeCodec
+  );
+  const [buySwapRange, setBuySwapRange] = useQueryState<[number, number]>(
+    HOT_TOKENS_PARAMS.buySwaps,
+    [0, 10000000000],
+    rangeCodec
+  );
+  const [sellSwapRange, setSellSwapRange] = useQueryState<[number, number]>(
+    HOT_TOKENS_PARAMS.sellSwaps,
+    [0, 1500000000],
+    rangeCodec
+  );
+  const [searchValue, setSearchValue] = useQueryState(
+    HOT_TOKENS_PARAMS.search,
+    "",
+    stringCodec
+  );
   const [search] = useDebounce(searchValue, 200);
-  const [dateRange, setDateRange] = useState<{
-    from: Date | undefined;
-    to: Date | undefined;
-  }>({ from: undefined, to: undefined });
+  const [dateRange, setDateRange] = useQueryState<DateRange>(
+    HOT_TOKENS_PARAMS.dates,
+    { from: undefined, to: undefined },
+    dateRangeCodec
+  );
 
-  const [sortPerformanceBy, setPerformanceSortBy] = useState<Sort>("score");
-  const [sortNewBy, setNewSortBy] = useState<Sort>("latestDate");
-  const [sortGrowingBy, setGrowingSortBy] = useState<Sort>("buySpeed");
+  const [sortPerformanceBy, setPerformanceSortBy] = useQueryState<Sort>(
+    HOT_TOKENS_PARAMS.sortPerformance,
+    "score",
+    sortCodec
+  );
+  const [sortNewBy, setNewSortBy] = useQueryState<Sort>(
+    HOT_TOKENS_PARAMS.sortNew,
+    "latestDate",
+    sortCodec
+  );
+  const [sortGrowingBy, setGrowingSortBy] = useQueryState<Sort>(
+    HOT_TOKENS_PARAMS.sortGrowing,
+    "buySpeed",
+    sortCodec
+  );
 
   const { data: tokenData } = useQuery({
     queryKey: [
@@ -90,6 +130,7 @@ function HotTokens() {
       buySwapRange,
       sellSwapRange,
       search,
+      dateRange,
       sortPerformanceBy,
     ],
     queryFn: () =>
@@ -105,10 +146,10 @@ function HotTokens() {
           limit: limit,
           minCount: countRange[0],
           maxCount: countRange[1],
-          buySwapMin: countRange[0],
-          buySwapMax: countRange[1],
-          sellSwapMin: countRange[0],
-          sellSwapMax: countRange[1],
+          buySwapMin: buySwapRange[0],
+          buySwapMax: buySwapRange[1],
+          sellSwapMin: sellSwapRange[0],
+          sellSwapMax: sellSwapRange[1],
           search: search,
           fromDate: dateRange.from
             ? format(dateRange.from, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'")
@@ -131,6 +172,7 @@ function HotTokens() {
       buySwapRange,
       sellSwapRange,
       search,
+      dateRange,
       sortNewBy,
     ],
     queryFn: () =>
@@ -146,10 +188,10 @@ function HotTokens() {
           limit: limit,
           minCount: countRange[0],
           maxCount: countRange[1],
-          buySwapMin: countRange[0],
-          buySwapMax: countRange[1],
-          sellSwapMin: countRange[0],
-          sellSwapMax: countRange[1],
+          buySwapMin: buySwapRange[0],
+          buySwapMax: buySwapRange[1],
+          sellSwapMin: sellSwapRange[0],
+          sellSwapMax: sellSwapRange[1],
           search: search,
           fromDate: dateRange.from
             ? format(dateRange.from, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'")
@@ -322,6 +364,11 @@ function HotTokens() {
           placeholder="Search token"
         />
         <FilterDialog filters={filters} />
+        <FilterPresets
+          scope="hot-tokens"
+          params={Object.values(HOT_TOKENS_PARAMS)}
+          builtInPresets={HOT_TOKENS_PRESETS}
+        />
       </div>
 
       <div className="flex flex-wrap items-stretch justify-between">
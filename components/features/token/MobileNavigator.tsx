@@ -123,7 +123,11 @@ function MobileNavigator({
           value={true}
           options={{
             trueValueComponent: (
-              <TokenHolders token={token} tokenAddress={tokenAddress} />
+              <TokenHolders
+                token={token}
+                tokenAddress={tokenAddress}
+                network={network}
+              />
             ),
             // falseValueComponent: <Paywall />,
           }}
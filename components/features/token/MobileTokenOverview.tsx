@@ -13,6 +13,7 @@ import TransactionStats from "./TransactionStats";
 import { AiFillStar, AiOutlineStar } from "react-icons/ai";
 import TokenPrice from "./TokenPrice";
 import TokenBuySellTaxes from "./TokenBuySellTaxes";
+import { TokenRiskBadge } from "./TokenRiskVerdict";
 import dayjs from "dayjs";
 import { TokenOverview } from "@/types/token.type";
 import { useWatchlistStore } from "@/store";
@@ -190,6 +191,7 @@ function MobileTokenOverview({
             ) : (
               <div className="flex lg:flex-row flex-col gap-2">
                 <TokenBuySellTaxes token={tokenOverview.token} />
+                <TokenRiskBadge token={tokenOverview.token} />
               </div>
             )}
           </div>
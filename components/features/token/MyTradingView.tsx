@@ -1,187 +1,60 @@
 import { useEffect, useRef, useState } from "react";
+import { useAccount } from "wagmi";
+import { useWallet } from "@solana/wallet-adapter-react";
 import {
   ChartingLibraryWidgetOptions,
   IBasicDataFeed,
+  IChartingLibraryWidget,
   IDatafeedQuotesApi,
+  IDropdownApi,
   ISymbolValueFormatter,
   LibrarySymbolInfo,
   ResolutionString,
+  SaveLoadChartRecord,
   widget as TradingViewWidget,
 } from "@/public/static/charting_library";
-import { IDatafeed, IOhlcvData } from "@/types/datafeed.type";
+import { IOhlcvData, IOhlcvSeries } from "@/types/datafeed.type";
 import { usePathname } from "next/navigation";
-import { searchToken, getDataFeed } from "@/services/http/token.http";
+import { searchToken } from "@/services/http/token.http";
 import { useDebounce } from "use-debounce";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import Image from "next/image";
+import {
+  aggregateBars,
+  CHART_RESOLUTIONS,
+  createBarAggregator,
+  fetchOhlcvSeries,
+  liveSeedFor,
+  sourceBarsFor,
+} from "@/utils/ohlcv";
+import { openBarStream } from "@/utils/barStream";
+import { createCryptoPriceFormatter } from "@/utils/chartPriceFormat";
+import useChartStorage from "@/hooks/ChartSaveLoad";
+import useChartStorageStore from "@/store/chartStorage";
+import { chartTokenKey, createSaveLoadAdapter } from "@/utils/chartSaveLoad";
+import useActivityFeedStore from "@/store/activityFeed";
+import useChartMarksStore from "@/store/chartMarks";
+import { TradeMark, TradeMarkSource } from "@/types/trade-mark.type";
+import {
+  dedupeTradeMarks,
+  loadTradeMarks,
+  toBarMark,
+  toTimescaleMark,
+  TRADE_MARK_SOURCES,
+} from "@/utils/tradeMarks";
+import { explorerNetworkTxUrl } from "@/utils/explorer";
+import { walletRoute } from "@/utils/routeGenerator";
+import { createFlowIndicators } from "@/utils/flowIndicators";
+import {
+  FLOW_METRIC_NAMES,
+  fetchTradeFlow,
+  flowBars,
+  parseFlowTicker,
+} from "@/utils/tradeFlow";
 
-const chartResolutions = [
-  "10", "15", "30", "60", "240", "480", "720", "1440", "3D", "W", "M",
-] as ResolutionString[];
-
-// TradingView alias resolutions like "D"/"1D", "1W"/"1M" are all mapped here
-const chartSecondsPerResolution: Record<string, number> = {
-  "10":   10 * 60,
-  "15":   15 * 60,
-  "30":   30 * 60,
-  "60":   60 * 60,
-  "240":  240 * 60,
-  "480":  480 * 60,
-  "720":  720 * 60,
-  "1440": 24 * 60 * 60,
-  "D":    24 * 60 * 60,
-  "1D":   24 * 60 * 60,
-  "3D":   3 * 24 * 60 * 60,
-  "W":    7 * 24 * 60 * 60,
-  "1W":   7 * 24 * 60 * 60,
-  "M":    30 * 24 * 60 * 60,
-  "1M":   30 * 24 * 60 * 60,
-};
-
-function aggregateBars(rawBars: IOhlcvData[], resolution: string): IOhlcvData[] {
-  const intervalSec = chartSecondsPerResolution[resolution] || 300;
-  const buckets = new Map<number, IOhlcvData>();
-
-  for (const bar of rawBars) {
-    const bucketTime = Math.floor(bar.time / intervalSec) * intervalSec;
-    if (!buckets.has(bucketTime)) {
-      buckets.set(bucketTime, { ...bar, time: bucketTime });
-    } else {
-      const agg = buckets.get(bucketTime)!;
-      agg.high = Math.max(agg.high, bar.high);
-      agg.low = Math.min(agg.low, bar.low);
-      agg.close = bar.close;
-      agg.volume += bar.volume;
-    }
-  }
-
-  return Array.from(buckets.values()).sort((a, b) => a.time - b.time);
-}
-
-function getOhlcvFromFeed(feed: IDatafeed): IOhlcvData[] {
-  if (!feed.data) return [];
-  return feed.data.attributes.ohlcv_list
-    .map((item) => ({
-      time: item[0],
-      open: item[1],
-      high: item[2],
-      low: item[3],
-      close: item[4],
-      volume: item[5],
-    }))
-    .sort((a, b) => a.time - b.time);
-}
-
-// Merges minute/hour/day datasets — for overlapping timestamps, day takes priority over hour over minute
-function mergeOhlcv(
-  minuteData: IOhlcvData[],
-  hourData: IOhlcvData[],
-  dayData: IOhlcvData[]
-): IOhlcvData[] {
-  const merged: IOhlcvData[] = [];
-  let i = 0, j = 0, k = 0;
-
-  while (i < minuteData.length || j < hourData.length || k < dayData.length) {
-    const tMin = i < minuteData.length ? minuteData[i].time : Infinity;
-    const tHour = j < hourData.length ? hourData[j].time : Infinity;
-    const tDay = k < dayData.length ? dayData[k].time : Infinity;
-    const minT = Math.min(tMin, tHour, tDay);
-
-    if (tMin === minT && tHour === minT && tDay === minT) {
-      merged.push(dayData[k++]); i++; j++;
-    } else if (tHour === minT && tMin === minT) {
-      merged.push(hourData[j++]); i++;
-    } else if (tDay === minT && tHour === minT) {
-      merged.push(dayData[k++]); j++;
-    } else if (tDay === minT) {
-      merged.push(dayData[k++]);
-    } else if (tHour === minT) {
-      merged.push(hourData[j++]);
-    } else {
-      merged.push(minuteData[i++]);
-    }
-  }
-
-  return merged;
-}
-
-// Fetches full OHLCV history for a compare token via 3 parallel API calls (day/hour/minute) then merges them
-async function fetchFullOhlcv(address: string, network: string): Promise<{ data: IOhlcvData[]; meta: IDatafeed["meta"] | null }> {
-  const [dayFeed, hourFeed, minuteFeed] = await Promise.all([
-    getDataFeed({ params: { contractAddress: address, network, timeframe: "day", aggregate: 1 } }),
-    getDataFeed({ params: { contractAddress: address, network, timeframe: "hour", aggregate: 1 } }),
-    getDataFeed({ params: { contractAddress: address, network, timeframe: "minute", aggregate: 5 } }),
-  ]);
-
-  const dayData = getOhlcvFromFeed(dayFeed);
-  const hourData = getOhlcvFromFeed(hourFeed);
-  const minuteData = getOhlcvFromFeed(minuteFeed);
-
-  return {
-    data: mergeOhlcv(minuteData, hourData, dayData),
-    meta: dayFeed.meta ?? hourFeed.meta ?? minuteFeed.meta ?? null,
-  };
-}
-
-// Formats tiny prices using subscript zero notation: 0.000000942 → "0.0₆942"
-const SUBSCRIPT_DIGITS: Record<string, string> = {
-  "0": "₀", "1": "₁", "2": "₂", "3": "₃", "4": "₄",
-  "5": "₅", "6": "₆", "7": "₇", "8": "₈", "9": "₉",
-};
-
-function toSubscript(n: number): string {
-  return String(n).split("").map((c) => SUBSCRIPT_DIGITS[c] ?? c).join("");
-}
-
-function formatCryptoPrice(price: number, signPositive?: boolean): string {
-  if (!isFinite(price) || isNaN(price)) return "0";
-
-  const sign = signPositive && price > 0 ? "+" : "";
-  const isNegative = price < 0;
-  const negSign = isNegative ? "-" : "";
-  const absPrice = Math.abs(price);
-
-  if (absPrice === 0) return `${sign}0`;
-
-  if (absPrice >= 0.001) {
-    let decimals: number;
-    if (absPrice >= 1000) decimals = 2;
-    else if (absPrice >= 1) decimals = 4;
-    else if (absPrice >= 0.1) decimals = 5;
-    else decimals = 6;
-    return `${sign}${negSign}${absPrice.toFixed(decimals).replace(/\.?0+$/, "")}`;
-  }
-
-  const fixedStr = absPrice.toFixed(20);
-  const afterDecimal = fixedStr.split(".")[1] ?? "";
-  let leadingZeros = 0;
-  for (const ch of afterDecimal) {
-    if (ch === "0") leadingZeros++;
-    else break;
-  }
-
-  const sigDigits = afterDecimal.slice(leadingZeros, leadingZeros + 4).replace(/0+$/, "");
-  const significandRaw = sigDigits || "0";
-
-  if (leadingZeros > 3) {
-    return `${sign}${negSign}0.0${toSubscript(leadingZeros)}${significandRaw}`;
-  }
-
-  return `${sign}${negSign}${absPrice.toFixed(leadingZeros + 4).replace(/\.?0+$/, "")}`;
-}
-
-function createCryptoPriceFormatter(): ISymbolValueFormatter {
-  return {
-    format(price: number, signPositive?: boolean): string {
-      return formatCryptoPrice(price, signPositive);
-    },
-    formatChange(currentPrice: number, prevPrice: number, signPositive?: boolean): string {
-      return formatCryptoPrice(currentPrice - prevPrice, signPositive ?? true);
-    },
-  };
-}
+const chartResolutions = CHART_RESOLUTIONS as ResolutionString[];
 
 function buildCompareTicker(poolName: string, network: string, address: string): string {
   return `${poolName.trim()} / ${network} / ${address}`;
@@ -373,12 +246,12 @@ interface Props {
   tokenExchange: string;
   theme: "dark" | "light";
   customSymbols?: Array<{ symbol: string; full_name: string; description: string }>;
+  tokenAddress: string;
+  network: string;
 }
 
-const DAILY_RESOLUTIONS = new Set(["1440", "D", "1D", "3D", "W", "1W", "M", "1M"]);
-
 // Module-level cache for compare token bars — persists across resolution changes
-const compareBarsCache = new Map<string, IOhlcvData[]>();
+const compareBarsCache = new Map<string, IOhlcvSeries>();
 
 const MyTradingView = ({
   chartOptions,
@@ -388,13 +261,86 @@ const MyTradingView = ({
   theme,
   tokenDescription,
   tokenExchange,
+  tokenAddress,
+  network,
 }: Props) => {
   const chartContainerRef = useRef<HTMLDivElement>() as React.MutableRefObject<HTMLInputElement>;
   const [chartIsReady, setChartIsReady] = useState(false);
   const [compareOpen, setCompareOpen] = useState(false);
   const myWidget = useRef<any>();
-  const intervalId = useRef<NodeJS.Timeout | null>(null);
+  // Live bar streams keyed by TradingView's listenerGuid
+  const barStreams = useRef(new Map<string, () => void>());
   const pathname = usePathname();
+  const { owner, getStorage } = useChartStorage();
+  // Read by the widget callbacks, which outlive renders.
+  const layoutKey = useRef("");
+
+  useEffect(() => {
+    layoutKey.current = chartTokenKey(owner, network, tokenAddress);
+  }, [owner, network, tokenAddress]);
+
+  const { address: evmAddress } = useAccount();
+  const { publicKey } = useWallet();
+  const wallet = network === "solana" ? publicKey?.toString() : evmAddress;
+  const markSources = useChartMarksStore((state) => state.sources);
+  const connectedWallet = useRef<string>();
+  const marksMenu = useRef<IDropdownApi>();
+  // Marks on the chart by id, for the click handlers.
+  const shownMarks = useRef(new Map<string, TradeMark>());
+
+  const tradeMarks = (
+    symbolInfo: LibrarySymbolInfo,
+    from: number,
+    to: number,
+    sources: TradeMarkSource[]
+  ) => {
+    const ticker = symbolInfo.ticker ?? symbolInfo.name ?? "";
+    if (parseCompareTicker(ticker)) return Promise.resolve([]);
+    const enabled = useChartMarksStore.getState().sources;
+    const messages = useActivityFeedStore
+      .getState()
+      .items.map((item) => item.message);
+    return Promise.all(
+      sources
+        .filter((source) => enabled[source])
+        .map((source) =>
+          loadTradeMarks({
+            source,
+            network,
+            address: tokenAddress,
+            from,
+            to,
+            wallet: connectedWallet.current,
+            messages,
+          }).catch((error) => {
+            console.error(`Error loading ${source} chart marks:`, error);
+            return [];
+          })
+        )
+    ).then((lists) => {
+      const marks = dedupeTradeMarks(lists.flat());
+      marks.forEach((mark) => shownMarks.current.set(mark.id, mark));
+      return marks;
+    });
+  };
+
+  const marksMenuItems = () => {
+    const enabled = useChartMarksStore.getState().sources;
+    return TRADE_MARK_SOURCES.map(({ value, label }) => ({
+      title: `${enabled[value] ? "✓" : "✗"} ${label}`,
+      onSelect: () => useChartMarksStore.getState().toggleSource(value),
+    }));
+  };
+
+  const openMark = (id: string | number, target: "tx" | "wallet") => {
+    const mark = shownMarks.current.get(String(id));
+    if (!mark) return;
+    const txUrl =
+      target === "tx" && mark.txHash
+        ? explorerNetworkTxUrl(mark.txHash, network)
+        : undefined;
+    window.open(txUrl ?? walletRoute(mark.wallet, network), "_blank");
+  };
 
   const dataFeed = (
     minuteData: IOhlcvData[],
@@ -402,15 +348,47 @@ const MyTradingView = ({
     dayData: IOhlcvData[],
     tokenExchange: string,
   ): IBasicDataFeed | (IBasicDataFeed & IDatafeedQuotesApi) => {
-    const lastBar = dayData[dayData.length - 1] ?? minuteData[minuteData.length - 1];
+    const sourceDataFor = (resolution: string) =>
+      sourceBarsFor(resolution, { minuteData, hourData, dayData });
+    const tradeFlow = () => fetchTradeFlow(tokenAddress, network);
 
     return {
       onReady: (callback) => {
-        setTimeout(() => callback({ supported_resolutions: chartResolutions }), 0);
+        setTimeout(
+          () =>
+            callback({
+              supported_resolutions: chartResolutions,
+              supports_marks: true,
+              supports_timescale_marks: true,
+            }),
+          0
+        );
       },
 
       resolveSymbol: (symbolName, onSymbolResolvedCallback) => {
         setTimeout(() => {
+          const flow = parseFlowTicker(symbolName);
+          if (flow) {
+            onSymbolResolvedCallback({
+              name: FLOW_METRIC_NAMES[flow.metric],
+              description: `${FLOW_METRIC_NAMES[flow.metric]} of ${tokenDescription}`,
+              exchange: tokenExchange,
+              listed_exchange: tokenExchange,
+              ticker: symbolName,
+              timezone: "Etc/UTC",
+              minmov: 1,
+              session: "24x7",
+              type: "crypto",
+              pricescale: 100,
+              format: "price",
+              has_intraday: true,
+              has_weekly_and_monthly: true,
+              has_daily: true,
+              supported_resolutions: chartResolutions,
+            });
+            return;
+          }
+
           const parsed = parseCompareTicker(symbolName);
           const parts = symbolName.split(" / ");
           const name = parsed
@@ -443,27 +421,27 @@ const MyTradingView = ({
       getBars: (symbolInfo, resolution, periodParams, onResult, onError) => {
         const ticker = symbolInfo.ticker ?? symbolInfo.description ?? symbolInfo.name ?? "";
         const parsed = parseCompareTicker(ticker);
+        const flow = parseFlowTicker(ticker);
+
+        // Trade flow series for the flow indicators.
+        if (flow) {
+          tradeFlow()
+            .then((trades) => {
+              const aggregated = flowBars(trades, resolution, flow.metric, flow.threshold);
+              const bars = aggregated
+                .filter((bar) => bar.time >= periodParams.from && bar.time <= periodParams.to)
+                .map((bar) => ({ ...bar, time: bar.time * 1000 }));
+              const firstBarTime = aggregated.length > 0 ? aggregated[0].time : null;
+              const noData = bars.length === 0 && (firstBarTime === null || periodParams.to < firstBarTime);
+              onResult(bars, { noData });
+            })
+            .catch((err) => onError(String(err)));
+          return;
+        }
 
         if (!parsed) {
           setTimeout(() => {
-            // For hour-based resolutions (≥60min): prepend dayData history before hourData starts.
-            // The hour API returns ~8 days while dayData covers ~100 days — combining prevents left-side gaps.
-            let sourceData: IOhlcvData[];
-            if (DAILY_RESOLUTIONS.has(resolution)) {
-              sourceData = dayData;
-            } else if (parseInt(resolution) >= 60) {
-              if (hourData.length > 0 && dayData.length > 0) {
-                const hourStart = hourData[0].time;
-                const historical = dayData.filter((b) => b.time < hourStart);
-                sourceData = [...historical, ...hourData];
-              } else {
-                sourceData = hourData.length > 0 ? hourData : dayData;
-              }
-            } else {
-              sourceData = minuteData.length > 0 ? minuteData : hourData;
-            }
-
-            const aggregated = aggregateBars(sourceData, resolution);
+            const aggregated = aggregateBars(sourceDataFor(resolution), resolution);
             const bars = aggregated
               .filter((bar) => bar.time >= periodParams.from && bar.time <= periodParams.to)
               .map((bar) => ({
@@ -487,8 +465,11 @@ const MyTradingView = ({
         const { address, network } = parsed;
         const cacheKey = `${address}_${network}`;
 
-        const serveFromCache = (rawBars: IOhlcvData[]) => {
-          const aggregated = aggregateBars(rawBars, resolution);
+        const serveFromCache = (series: IOhlcvSeries) => {
+          const aggregated = aggregateBars(
+            sourceBarsFor(resolution, series),
+            resolution
+          );
           const bars = aggregated
             .filter((bar) => bar.time >= periodParams.from && bar.time <= periodParams.to)
             .map((bar) => ({
@@ -510,32 +491,60 @@ const MyTradingView = ({
           return;
         }
 
-        fetchFullOhlcv(address, network)
-          .then(({ data }) => {
-            compareBarsCache.set(cacheKey, data);
-            serveFromCache(data);
+        fetchOhlcvSeries(address, network)
+          .then((series) => {
+            compareBarsCache.set(cacheKey, series);
+            serveFromCache(series);
           })
           .catch((err) => {
             setTimeout(() => onError(String(err)), 0);
           });
       },
 
-      subscribeBars: (_symbolInfo, _resolution, onRealtimeCallback) => {
-        if (!lastBar) return;
-        intervalId.current = setInterval(() => {
-          onRealtimeCallback({
-            time: lastBar.time * 1000,
-            open: lastBar.open,
-            high: lastBar.high,
-            low: lastBar.low,
-            close: lastBar.close,
-            volume: lastBar.volume,
-          });
-        }, 10000);
+      subscribeBars: (symbolInfo, resolution, onRealtimeCallback, listenerGuid) => {
+        const ticker = symbolInfo.ticker ?? symbolInfo.description ?? symbolInfo.name ?? "";
+        // Flow series are only updated when the chart reloads.
+        if (parseFlowTicker(ticker)) return;
+        const parsed = parseCompareTicker(ticker);
+        const series = parsed
+          ? compareBarsCache.get(`${parsed.address}_${parsed.network}`)
+          : { minuteData, hourData, dayData };
+        const nextBar = createBarAggregator(
+          series ? liveSeedFor(resolution, series) : { bars: [], seconds: 0 },
+          resolution
+        );
+
+        barStreams.current.get(listenerGuid)?.();
+        barStreams.current.set(
+          listenerGuid,
+          openBarStream({
+            address: parsed?.address ?? tokenAddress,
+            network: parsed?.network ?? network,
+            onBar: (rawBar) => {
+              const bar = nextBar(rawBar);
+              if (bar) onRealtimeCallback({ ...bar, time: bar.time * 1000 });
+            },
+          })
+        );
       },
 
-      unsubscribeBars: () => {
-        if (intervalId.current) clearInterval(intervalId.current);
+      unsubscribeBars: (listenerGuid) => {
+        barStreams.current.get(listenerGuid)?.();
+        barStreams.current.delete(listenerGuid);
+      },
+
+      getMarks: (symbolInfo, from, to, onDataCallback) => {
+        tradeMarks(symbolInfo, from, to, ["trades", "mine", "followed"]).then(
+          (marks) => onDataCallback(marks.map(toBarMark))
+        );
+      },
+
+      // The user's own and followed swaps are repeated on the time scale so
+      // they stand out among the market trades.
+      getTimescaleMarks: (symbolInfo, from, to, onDataCallback) => {
+        tradeMarks(symbolInfo, from, to, ["mine", "followed"]).then((marks) =>
+          onDataCallback(marks.map(toTimescaleMark))
+        );
       },
 
       searchSymbols: (userInput, _exchange, _symbolType, onResultReadyCallback) => {
@@ -570,8 +579,49 @@ const MyTradingView = ({
   };
 
   useEffect(() => {
+    const symbol = chartOptions.symbol || "DefaultSymbol";
+    let layoutMenu: IDropdownApi | undefined;
+    let defaultLayout: object | undefined;
+
+    const pickedLayout = () =>
+      useChartStorageStore.getState().tokenLayouts[layoutKey.current] ?? null;
+
+    const pickLayout = (id: string | null) => {
+      useChartStorageStore.getState().setTokenLayout(layoutKey.current, id);
+      refreshLayoutMenu();
+    };
+
+    const refreshLayoutMenu = () =>
+      (myWidget.current as IChartingLibraryWidget | undefined)?.getSavedCharts(
+        (records) => {
+          const picked = records.find((record) => record.id === pickedLayout());
+          layoutMenu?.applyOptions({
+            title: picked?.name ?? "Default layout",
+            items: layoutMenuItems(records),
+          });
+        }
+      );
+
+    const layoutMenuItems = (records: SaveLoadChartRecord[]) => [
+      {
+        title: "Default layout",
+        onSelect: () => {
+          if (defaultLayout) myWidget.current.load(defaultLayout);
+          pickLayout(null);
+        },
+      },
+      ...records.map((record) => ({
+        title: `${record.name} (${record.short_symbol})`,
+        onSelect: () => myWidget.current.loadChartFromServer(record),
+      })),
+      {
+        title: "Save layout as…",
+        onSelect: () => myWidget.current.showSaveAsChartDialog(),
+      },
+    ];
+
     const widgetOptions: ChartingLibraryWidgetOptions = {
-      symbol: chartOptions.symbol || "DefaultSymbol",
+      symbol,
       datafeed: dataFeed(minuteData, hourData, dayData, tokenExchange),
       interval: (chartOptions.interval as ResolutionString) || ("240" as ResolutionString),
       container: chartContainerRef.current,
@@ -579,16 +629,21 @@ const MyTradingView = ({
       locale: "en",
       debug: false,
       disabled_features: ["use_localstorage_for_settings", "header_compare"],
-      enabled_features: ["study_templates"],
-      charts_storage_url: chartOptions.charts_storage_url,
-      charts_storage_api_version: chartOptions.charts_storage_api_version,
-      client_id: chartOptions.client_id,
-      user_id: chartOptions.user_id,
+      enabled_features: ["study_templates", "saveload_separate_drawings_storage"],
+      // Layouts, drawings and templates go to the user's chart storage.
+      save_load_adapter: createSaveLoadAdapter(getStorage, {
+        onChartSaved: pickLayout,
+        onChartLoaded: pickLayout,
+        onChartRemoved: (id) => id === pickedLayout() && pickLayout(null),
+      }),
+      auto_save_delay: 5,
       fullscreen: chartOptions.fullscreen,
       autosize: chartOptions.autosize,
       timezone: "Etc/UTC",
       theme: theme || "dark",
       header_widget_buttons_mode: "fullsize",
+      custom_indicators_getter: (PineJS) =>
+        Promise.resolve(createFlowIndicators(PineJS)),
       custom_formatters: {
         priceFormatterFactory: (
           _symbolInfo: LibrarySymbolInfo | null,
@@ -609,9 +664,55 @@ const MyTradingView = ({
         title: "Compare with another token",
         onClick: () => setCompareOpen(true),
       });
+      myWidget.current
+        .createDropdown({
+          title: "Default layout",
+          tooltip: "Chart layout for this token",
+          align: "left",
+          items: layoutMenuItems([]),
+        })
+        .then((menu: IDropdownApi) => {
+          layoutMenu = menu;
+          refreshLayoutMenu();
+        });
+      myWidget.current
+        .createDropdown({
+          title: "Markers",
+          tooltip: "Trades shown on the chart",
+          align: "left",
+          items: marksMenuItems(),
+        })
+        .then((menu: IDropdownApi) => (marksMenu.current = menu));
     });
 
+    myWidget.current.onChartReady(() => {
+      const tvWidget: IChartingLibraryWidget = myWidget.current;
+      tvWidget.save((state) => (defaultLayout = state));
+      // Layouts are shared between tokens, so a layout saved on another
+      // token is switched over to this one.
+      tvWidget.subscribe("chart_loaded", () => {
+        if (tvWidget.activeChart().symbol() !== symbol) {
+          tvWidget.activeChart().setSymbol(symbol);
+        }
+      });
+      tvWidget.subscribe("onMarkClick", (id) => openMark(id, "tx"));
+      tvWidget.subscribe("onTimescaleMarkClick", (id) =>
+        openMark(id, "wallet")
+      );
+      tvWidget.subscribe("onAutoSaveNeeded", () => {
+        if (pickedLayout()) tvWidget.saveChartToServer();
+      });
+      tvWidget.getSavedCharts((records) => {
+        const picked = records.find((record) => record.id === pickedLayout());
+        if (picked) tvWidget.loadChartFromServer(picked);
+        else if (pickedLayout()) pickLayout(null);
+      });
+    });
+
+    const streams = barStreams.current;
     return () => {
+      streams.forEach((close) => close());
+      streams.clear();
       myWidget.current?.remove();
     };
   }, [pathname]);
@@ -626,6 +727,16 @@ const MyTradingView = ({
     if (chartIsReady) myWidget.current.changeTheme(theme);
   }, [theme, chartIsReady]);
 
+  useEffect(() => {
+    connectedWallet.current = wallet;
+    marksMenu.current?.applyOptions({ items: marksMenuItems() });
+    if (!chartIsReady) return;
+    shownMarks.current.clear();
+    myWidget.current.activeChart().clearMarks();
+    myWidget.current.activeChart().refreshMarks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wallet, markSources, chartIsReady]);
+
   useEffect(() => {
     if (chartIsReady) {
       myWidget.current._options.datafeed = dataFeed(minuteData, hourData, dayData, tokenExchange);
@@ -641,8 +752,8 @@ const MyTradingView = ({
     const cacheKey = `${result.poolAddress}_${result.network}`;
     if (!compareBarsCache.has(cacheKey)) {
       try {
-        const { data } = await fetchFullOhlcv(result.poolAddress, result.network);
-        compareBarsCache.set(cacheKey, data);
+        const series = await fetchOhlcvSeries(result.poolAddress, result.network);
+        compareBarsCache.set(cacheKey, series);
       } catch {
         // If fetch fails, TradingView will call getBars and handle it there
       }
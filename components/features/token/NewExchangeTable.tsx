@@ -214,6 +214,7 @@ export default function NewExchangeTable({ initTokenData, type = 'DEX' }: Props)
             data={filteredData}
             columns={columns}
             searchColumnAccessorKey='exchange'
+            exportFileName='exchanges'
         >
             <FilterDialog filters={filters} />
         </ClientSideSmartTable >
@@ -0,0 +1,238 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import dayjs from "dayjs";
+import { v4 as uuidv4 } from "uuid";
+import { toast } from "react-toastify";
+import { IoNotificationsOutline } from "react-icons/io5";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import usePriceAlertsStore from "@/store/priceAlerts";
+import usePriceAlertWatcher, {
+  requestNotificationPermission,
+} from "@/hooks/PriceAlerts";
+import { IToken } from "@/types/token.type";
+import {
+  PriceAlert,
+  PriceAlertDirection,
+  PriceAlertKind,
+  PriceAlertWindow,
+} from "@/types/price-alert.type";
+import {
+  PRICE_ALERT_WINDOWS,
+  describeAlert,
+  initialAlertState,
+} from "@/utils/priceAlerts";
+import { tokenRoute } from "@/utils/routeGenerator";
+
+const alertKinds: { value: PriceAlertKind; label: string }[] = [
+  { value: "price", label: "Price (USD)" },
+  { value: "change", label: "Price change (%)" },
+  { value: "liquidity", label: "Liquidity (USD)" },
+  { value: "ratio", label: "Buy/sell ratio flip" },
+];
+
+interface Props {
+  token: IToken;
+  tokenAddress: string;
+  network: string;
+}
+
+function PriceAlerts({ token, tokenAddress, network }: Props) {
+  usePriceAlertWatcher(tokenAddress, network);
+  const alerts = usePriceAlertsStore((state) => state.alerts);
+  const addAlert = usePriceAlertsStore((state) => state.addAlert);
+  const toggleAlert = usePriceAlertsStore((state) => state.toggleAlert);
+  const removeAlert = usePriceAlertsStore((state) => state.removeAlert);
+
+  const [kind, setKind] = useState<PriceAlertKind>("price");
+  const [direction, setDirection] = useState<PriceAlertDirection>("above");
+  const [alertWindow, setAlertWindow] = useState<PriceAlertWindow>("h1");
+  const [threshold, setThreshold] = useState("");
+
+  const tokenName =
+    token.data?.[0]?.attributes?.name?.split("/")[0].trim() ?? tokenAddress;
+  const activeCount = alerts.filter(
+    (alert) =>
+      alert.status === "active" &&
+      alert.tokenAddress === tokenAddress &&
+      alert.network === network
+  ).length;
+  const canCreate = kind === "ratio" || threshold.trim() !== "";
+
+  const createAlert = async () => {
+    if (!canCreate || isNaN(+threshold)) return;
+    const alert: PriceAlert = {
+      id: uuidv4(),
+      tokenAddress,
+      network,
+      tokenName,
+      kind,
+      direction,
+      threshold: +threshold,
+      window: alertWindow,
+      status: "active",
+      createdAt: Date.now(),
+      triggerCount: 0,
+    };
+    addAlert({ ...alert, ...initialAlertState(alert, token) });
+    setThreshold("");
+    toast.success("Alert created");
+    if ((await requestNotificationPermission()) !== "granted") {
+      toast.info("Browser notifications are off, alerts will show in-app only");
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant={"outline"} className="h-8 px-2 gap-1 text-xs">
+          <IoNotificationsOutline size={16} />
+          Alerts
+          {activeCount > 0 && <span className="text-brand">{activeCount}</span>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Price alerts</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col gap-3 text-sm">
+          <Select
+            value={kind}
+            onValueChange={(value) => setKind(value as PriceAlertKind)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {alertKinds.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            {kind !== "ratio" && (
+              <>
+                <Select
+                  value={direction}
+                  onValueChange={(value) =>
+                    setDirection(value as PriceAlertDirection)
+                  }
+                >
+                  <SelectTrigger className="w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="above">Above</SelectItem>
+                    <SelectItem value="below">Below</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  placeholder={kind === "change" ? "%" : "USD"}
+                />
+              </>
+            )}
+            {(kind === "change" || kind === "ratio") && (
+              <Select
+                value={alertWindow}
+                onValueChange={(value) => setAlertWindow(value as PriceAlertWindow)}
+              >
+                <SelectTrigger className="w-[90px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRICE_ALERT_WINDOWS.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {item}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <Button
+            onClick={createAlert}
+            disabled={!canCreate}
+            className="bg-brand text-white"
+          >
+            Create alert for {tokenName}
+          </Button>
+          <div className="flex flex-col gap-2 max-h-[300px] overflow-auto">
+            {alerts.length === 0 && (
+              <div className="text-xs text-muted-foreground text-center">
+                No alerts yet
+              </div>
+            )}
+            {alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className={`border rounded-lg p-2 flex items-center justify-between gap-2 text-xs ${
+                  alert.tokenAddress === tokenAddress
+                    ? "border-brand"
+                    : "border-border"
+                }`}
+              >
+                <div className="flex flex-col gap-1">
+                  <Link
+                    href={tokenRoute(alert.tokenAddress, alert.network)}
+                    className="font-semibold hover:text-brand"
+                  >
+                    {alert.tokenName}{" "}
+                    <span className="text-muted-foreground uppercase">
+                      {alert.network}
+                    </span>
+                  </Link>
+                  <span>{describeAlert(alert)}</span>
+                  <span className="text-muted-foreground">
+                    {alert.lastTriggeredAt
+                      ? `Triggered ${alert.triggerCount}x, last ${dayjs(
+                          alert.lastTriggeredAt
+                        ).format("MMM D, HH:mm")}`
+                      : "Not triggered yet"}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={"outline"}
+                    className="h-6 px-2 text-xs"
+                    onClick={() => toggleAlert(alert.id)}
+                  >
+                    {alert.status === "active" ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    variant={"ghost"}
+                    className="h-6 px-2 text-xs"
+                    onClick={() => removeAlert(alert.id)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default PriceAlerts;
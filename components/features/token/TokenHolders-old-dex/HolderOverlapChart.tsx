@@ -0,0 +1,75 @@
+import { OverlapIntersection, OverlapToken } from "@/types/holders.type";
+import { minifyTokenName } from "@/utils/truncate";
+
+const MAX_ROWS = 10;
+
+interface Props {
+  tokens: OverlapToken[];
+  intersections: OverlapIntersection[];
+  holderCounts: number[];
+}
+
+// UpSet-style plot: one row per exact token combination, with a dot matrix
+// showing which tokens it contains and a bar for the number of wallets.
+export default function HolderOverlapChart({
+  tokens,
+  intersections,
+  holderCounts,
+}: Props) {
+  const rows = intersections.slice(0, MAX_ROWS);
+  const max = Math.max(1, ...rows.map((row) => row.wallets));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-sm w-full">
+        <thead>
+          <tr>
+            {tokens.map((token, index) => (
+              <th
+                key={`${token.network}_${token.address}`}
+                className="font-medium px-2 pb-2 text-center whitespace-nowrap"
+              >
+                {minifyTokenName(token.name)}
+                <div className="text-xs text-muted-foreground font-normal">
+                  {holderCounts[index]} holders
+                </div>
+              </th>
+            ))}
+            <th className="font-medium px-2 pb-2 text-left w-full">
+              Shared wallets
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.tokens.join(",")}>
+              {tokens.map((token, index) => (
+                <td
+                  key={`${token.network}_${token.address}`}
+                  className="px-2 py-1 text-center"
+                >
+                  <span
+                    className={`inline-block w-3 h-3 rounded-full ${
+                      row.tokens.includes(index)
+                        ? "bg-primary"
+                        : "bg-primary/10"
+                    }`}
+                  />
+                </td>
+              ))}
+              <td className="px-2 py-1">
+                <div className="flex items-center gap-2">
+                  <div
+                    className="h-3 rounded-sm bg-primary"
+                    style={{ width: `${(row.wallets / max) * 100}%` }}
+                  />
+                  <span>{row.wallets}</span>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
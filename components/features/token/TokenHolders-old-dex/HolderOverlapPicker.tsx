@@ -0,0 +1,134 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { searchToken } from "@/services/http/token.http";
+import { useWatchlistStore } from "@/store";
+import { OverlapToken } from "@/types/holders.type";
+import {
+  MAX_OVERLAP_TOKENS,
+  overlapTokensFromSearch,
+  sameToken,
+} from "@/utils/holders";
+import { minifyTokenName } from "@/utils/truncate";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { IoClose } from "react-icons/io5";
+import { useDebounce } from "use-debounce";
+
+interface Props {
+  tokens: OverlapToken[];
+  onAdd: (token: OverlapToken) => void;
+  onRemove: (token: OverlapToken) => void;
+}
+
+export default function HolderOverlapPicker({ tokens, onAdd, onRemove }: Props) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm] = useDebounce(searchTerm.trim(), 300);
+  const watchlist = useWatchlistStore((state) => state.watchlist);
+  const isFull = tokens.length >= MAX_OVERLAP_TOKENS;
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ["overlapSearch", debouncedSearchTerm],
+    queryFn: () =>
+      searchToken({ params: { currencyAddress: debouncedSearchTerm } }),
+    select: overlapTokensFromSearch,
+    enabled: !!debouncedSearchTerm,
+  });
+
+  const watchedTokens = watchlist.filter(
+    (item) =>
+      item.type === "token" &&
+      !tokens.some((token) => token.address === item.contractAddress)
+  );
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {tokens.map((token, index) => (
+          <div
+            key={`${token.network}_${token.address}`}
+            className="flex items-center gap-2 rounded-md border border-base-content/50 text-sm px-2 py-1"
+          >
+            <Avatar className="w-5 h-5">
+              <AvatarImage src={token.imageUrl} alt={token.name} />
+              <AvatarFallback>{token.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <span>{minifyTokenName(token.name)}</span>
+            <span className="text-muted-foreground uppercase text-xs">
+              {token.network}
+            </span>
+            {index > 0 && (
+              <IoClose
+                className="cursor-pointer"
+                onClick={() => onRemove(token)}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+      {!isFull && (
+        <>
+          <Input
+            className="border border-muted-foreground"
+            placeholder="Search a token name or contract"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+          {watchedTokens.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">From watchlist:</span>
+              {watchedTokens.map((item) => (
+                <button
+                  key={item.contractAddress}
+                  className="rounded-md border border-base-content/50 text-base-content/50 p-1 px-2"
+                  onClick={() => setSearchTerm(item.contractAddress)}
+                >
+                  {minifyTokenName(item.name)}
+                </button>
+              ))}
+            </div>
+          )}
+          {isFetching ? (
+            <span className="loading loading-bars loading-sm"></span>
+          ) : (
+            debouncedSearchTerm && (
+              <div className="flex flex-col gap-1">
+                {results.length === 0 && (
+                  <span className="text-sm text-muted-foreground">
+                    No tokens found.
+                  </span>
+                )}
+                {results.slice(0, 5).map((result) => {
+                  const selected = tokens.some((token) =>
+                    sameToken(token, result)
+                  );
+                  return (
+                    <Button
+                      key={`${result.network}_${result.address}`}
+                      variant="ghost"
+                      className="justify-start gap-2"
+                      disabled={selected}
+                      onClick={() => {
+                        onAdd(result);
+                        setSearchTerm("");
+                      }}
+                    >
+                      <Avatar className="w-5 h-5">
+                        <AvatarImage src={result.imageUrl} alt={result.name} />
+                        <AvatarFallback>{result.name.charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <span>{minifyTokenName(result.name)}</span>
+                      <span className="text-muted-foreground uppercase text-xs">
+                        {result.network}
+                      </span>
+                    </Button>
+                  );
+                })}
+              </div>
+            )
+          )}
+        </>
+      )}
+    </div>
+  );
+}
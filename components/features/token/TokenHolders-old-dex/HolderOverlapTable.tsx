@@ -0,0 +1,63 @@
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { OverlapToken, OverlapWallet } from "@/types/holders.type";
+import { walletRoute } from "@/utils/routeGenerator";
+import { minifyContract, minifyTokenName } from "@/utils/truncate";
+import Link from "next/link";
+
+interface Props {
+  tokens: OverlapToken[];
+  wallets: OverlapWallet[];
+}
+
+export default function HolderOverlapTable({ tokens, wallets }: Props) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Wallet</TableHead>
+          <TableHead>Tokens Held</TableHead>
+          {tokens.map((token) => (
+            <TableHead key={`${token.network}_${token.address}`}>
+              {minifyTokenName(token.name)}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {wallets.map((wallet) => {
+          // Profile the wallet on the chain of the first token it holds.
+          const network =
+            tokens[wallet.shares.findIndex((share) => share !== undefined)]
+              ?.network;
+          return (
+            <TableRow key={wallet.address}>
+              <TableCell>
+                <Link
+                  href={walletRoute(wallet.address, network)}
+                  className="underline underline-offset-2"
+                >
+                  {minifyContract(wallet.address)}
+                </Link>
+              </TableCell>
+              <TableCell>
+                {wallet.tokenCount} / {tokens.length}
+              </TableCell>
+              {wallet.shares.map((share, index) => (
+                <TableCell key={index} className="whitespace-nowrap">
+                  {share === undefined ? "-" : `${share.toFixed(2)}%`}
+                </TableCell>
+              ))}
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
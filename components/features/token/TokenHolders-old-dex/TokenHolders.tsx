@@ -1,6 +1,8 @@
 import { IToken } from "@/types/token.type";
+import { minifyContract } from "@/utils/truncate";
 import TokenHoldersAmountFilter from "./TokenHoldersAmountFilter";
 import TokenHoldersCompare from "./TokenHoldersCompare";
+import TokenHoldersConcentration from "./TokenHoldersConcentration";
 import TokenHoldersHolderStats from "./TokenHoldersHolderStats";
 import TokenHoldersMostActiveAddress from "./TokenHoldersMostActiveAddress";
 
@@ -8,16 +10,25 @@ import TokenHoldersMostActiveAddress from "./TokenHoldersMostActiveAddress";
 interface Props {
   token: IToken
   tokenAddress: string
+  network: string
 }
 
-export default function TokenHolders({ token, tokenAddress }: Props) {
+export default function TokenHolders({ token, tokenAddress, network }: Props) {
+  const tokenName =
+    token?.data?.[0]?.attributes?.name?.split(" / ")[0] ||
+    minifyContract(tokenAddress);
 
   return (
     <div className="flex flex-col gap-12 pt-8">
-      <TokenHoldersHolderStats tokenAddress={tokenAddress} />
-      <TokenHoldersAmountFilter tokenAddress={tokenAddress} />
-      <TokenHoldersCompare tokenAddress={tokenAddress} />
-      <TokenHoldersMostActiveAddress tokenAddress={tokenAddress} />
+      <TokenHoldersHolderStats tokenAddress={tokenAddress} network={network} />
+      <TokenHoldersConcentration tokenAddress={tokenAddress} network={network} />
+      <TokenHoldersAmountFilter tokenAddress={tokenAddress} network={network} />
+      <TokenHoldersCompare
+        tokenAddress={tokenAddress}
+        network={network}
+        tokenName={tokenName}
+      />
+      <TokenHoldersMostActiveAddress tokenAddress={tokenAddress} network={network} />
       {/* <TokenHoldersInterestScore tokenAddress={tokenAddress} /> */}
     </div>
   )
@@ -1,15 +1,13 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { minifyContract } from "@/utils/truncate";
+import { getRangeHolders } from "@/services/http/holders.http";
+import { apiErrorMessage } from "@/services/http/api-error";
+import { normalizeHolders } from "@/utils/holders";
+import formatDate from "@/utils/date";
 import { useQuery } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
 import { FiCopy } from "react-icons/fi";
 
-interface Holder {
-  Holder: {
-    Address: string;
-  };
-}
-
 interface FormState {
   from: number;
   to: number;
@@ -17,29 +15,33 @@ interface FormState {
 
 interface Props {
   tokenAddress: string
+  network: string
 }
 
 const fetchTokenHolders = async (network: string, id: string, from: number, to: number) => {
-  const toDate = new Date();
-  const fromDate = new Date();
-  fromDate.setDate(fromDate.getDate() - 6);
-  const response = await fetch(
-    `https://onchain.dextrading.com/rangeholders?network=${network}&till=${toDate.toISOString().split("T")[0]}&limit=20&token=${id}&minAmount=${from}&maxAmount=${to}`
-  );
-  const data = await response.json();
-  return data.data.EVM.TokenHolders;
+  const response = await getRangeHolders({
+    params: {
+      network,
+      till: formatDate(new Date(), "dash"),
+      limit: 20,
+      token: id,
+      minAmount: from,
+      maxAmount: to,
+    },
+  });
+  return normalizeHolders(response);
 };
 
-export default function TokenHolders({ tokenAddress }: Props) {
+export default function TokenHolders({ tokenAddress, network }: Props) {
   const [form, setForm] = useState<FormState>({ from: 0, to: 1000000 });
   const [showMore, setShowMore] = useState(true);
 
   const { data, isLoading, error } = useQuery(
     {
       queryKey:
-        ['tokenHolders', tokenAddress, form.from, form.to],
+        ['tokenHolders', tokenAddress, network, form.from, form.to],
       queryFn:
-        () => fetchTokenHolders('eth', tokenAddress, form.from, form.to),
+        () => fetchTokenHolders(network, tokenAddress, form.from, form.to),
     }
   );
 
@@ -101,20 +103,20 @@ export default function TokenHolders({ tokenAddress }: Props) {
         </div>
       ) : error ? (
         <div className="w-full flex justify-center items-center h-[150px]">
-          <span>Error loading token holders</span>
+          <span>{apiErrorMessage(error)}</span>
         </div>
       ) : (
         <>
           <div className="grid md:grid-cols-2 grid-cols-1 items-start justify-start xl:hidden gap-3 lg:pl-[60px]">
-            {data && (showMore ? data : data.slice(0, 10)).map((data: any, id: number) => (
+            {data && (showMore ? data : data.slice(0, 10)).map((holder, id) => (
               <div key={id} className="">
-                <Addresses key={id} value={id} address={data.Holder.Address} haveLine={id !== data.length - 1} />
+                <Addresses key={id} value={id} address={holder.address} haveLine={id !== data.length - 1} />
               </div>
             ))}
           </div>
           <div className="xl:grid hidden grid-cols-2 gap-3 lg:pl-[60px]">
-            {data && (showMore ? data : data.slice(0, 10)).map((data: any, id: number) => (
-              <Addresses key={id} value={id} address={data.Holder.Address} haveLine={id !== data.length - 1 && id !== data.length - 2} />
+            {data && (showMore ? data : data.slice(0, 10)).map((holder, id) => (
+              <Addresses key={id} value={id} address={holder.address} haveLine={id !== data.length - 1 && id !== data.length - 2} />
             ))}
           </div>
         </>
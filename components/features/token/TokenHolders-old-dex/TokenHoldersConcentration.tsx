@@ -0,0 +1,87 @@
+import { ApiErrorMessage } from "@/components/common/ApiErrorMessage";
+import { KeyValue } from "@/components/ui/key-value";
+import { Progress } from "@/components/ui/progress";
+import { useHolderCount, useTopHolders } from "@/hooks/Holders";
+import { concentrationMetrics, holderCohorts } from "@/utils/holders";
+import { useMemo } from "react";
+
+interface Props {
+  tokenAddress: string;
+  network: string;
+}
+
+export default function HolderConcentration({ tokenAddress, network }: Props) {
+  const { data: holders, isLoading, error } = useTopHolders(
+    tokenAddress,
+    network
+  );
+  const { data: holderCount } = useHolderCount(tokenAddress, network);
+
+  const metrics = useMemo(() => concentrationMetrics(holders ?? []), [holders]);
+  const cohorts = useMemo(() => holderCohorts(holders ?? []), [holders]);
+
+  if (isLoading)
+    return (
+      <div className="w-full h-[200px] flex justify-center items-center">
+        <span className="loading loading-bars loading-md"></span>
+      </div>
+    );
+
+  if (error) return <ApiErrorMessage error={error} />;
+
+  return (
+    <div className="xl:max-w-[1200px] xl:mx-auto xl:min-w-[1200px] border border-base-content/50 rounded-lg p-4">
+      <h2 className="text-2xl font-bold text-center sm:text-left">
+        Concentration
+      </h2>
+      <p className="text-sm text-muted-foreground mb-5">
+        Based on the top {metrics.sampleSize}
+        {holderCount !== undefined &&
+          ` of ${holderCount.toLocaleString()}`}{" "}
+        holders.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm mb-6">
+        <KeyValue
+          title="Top 10 Share"
+          value={metrics.top10Share.toFixed(2)}
+          symbol="percentage"
+          variant="dark"
+          stretch
+        />
+        <KeyValue
+          title="Top 50 Share"
+          value={metrics.top50Share.toFixed(2)}
+          symbol="percentage"
+          variant="dark"
+          stretch
+        />
+        <KeyValue
+          title="Gini Coefficient"
+          value={metrics.gini.toFixed(3)}
+          variant={metrics.gini > 0.8 ? "bad" : "dark"}
+          stretch
+        />
+        <KeyValue
+          title="Nakamoto Coefficient"
+          value={metrics.nakamoto ?? `> ${metrics.sampleSize}`}
+          variant={metrics.nakamoto && metrics.nakamoto <= 3 ? "bad" : "dark"}
+          stretch
+        />
+      </div>
+      <h3 className="font-medium text-lg mb-3">Cohorts</h3>
+      <div className="flex flex-col gap-3">
+        {cohorts.map((cohort) => (
+          <div key={cohort.id} className="flex flex-col gap-1 text-sm">
+            <div className="flex items-center justify-between">
+              <span>{cohort.label}</span>
+              <span className="text-muted-foreground">
+                {cohort.holders} holders · {cohort.share.toFixed(2)}%
+              </span>
+            </div>
+            <Progress value={Math.min(100, cohort.share)} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,132 +1,33 @@
 "use client";
-import useNetworkSelector from "@/store/tokenChains/networks";
+import { ApiErrorMessage } from "@/components/common/ApiErrorMessage";
+import { useTopHolders } from "@/hooks/Holders";
 import { minifyContract } from "@/utils/truncate";
-import { useParams } from "next/navigation";
 import randomColor from "randomcolor";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { FiCopy } from "react-icons/fi";
 import { Cell, Pie, PieChart, Tooltip } from "recharts";
 
 interface Props {
-  // token: IToken
   tokenAddress: string;
+  network: string;
 }
 
-export default function HolderStats({ tokenAddress }: Props) {
-  const params = useParams();
-  const [loading, setLoading] = useState(true);
-  const [data, setData] = useState([]);
-  const [data2, setData2] = useState([]);
-  const [pieChartData, setPieChartData] = useState([]);
-  const [sum, setSum] = useState(0);
-  const { selectedChain } = useNetworkSelector();
-
-  /*
-    useEffect(() => {
-      fetch(
-        `https://onchain.dextrading.com/token-holders?network=${
-          params.params[0] === "ethereum" ? "eth" : params.params[0]
-        }&token=${params.params[1]}`
-      )
-        .then((data) => data.json())
-        .then((json) => {
-          const rawData = Object.entries(json.date3[0]);
-          const d = rawData
-            .map((dd: any) => {
-              if (
-                dd[0] === "BalanceUpdate" ||
-                dd[0] === "count" ||
-                dd[0] === "supply" ||
-                dd[0] === "theil_index" ||
-                dd[0] === "standard_deviation" ||
-                dd[0] === "dispersion"
-              )
-                return;
-              return dd;
-            })
-            .filter((dd: any) => Boolean(dd));
-          const s = d.reduce((acc, curr) => {
-            return acc + parseFloat(curr[1] as string);
-          }, 0);
-  
-          setSum(s);
-          setData(d as any);
-        })
-        .finally(() => setLoading(false));
-    }, []);
-  */
-
-  useEffect(() => {
-    fetch(
-      `https://onchain.dextrading.com/token-holders?network=${selectedChain.id.toLowerCase()}&token=${tokenAddress}`
-    )
-      .then((response) => response.json())
-      .then((json) => {
-        if (json) {
-          const rawData = Object.entries(json.date3?.[0] ?? []);
-
-          // Mapping of original names to desired names
-          const nameMapping: { [key: string]: string } = {
-            entropy_label: "HolderDiversity",
-            gini_label: "EquityConcentration",
-            kurtosis_label: "OwnershipDistribution",
-            nakamoto_label: "FounderHolding",
-            quantile_label: "HolderPercentile",
-            skew_label: "OwnershipSkewness",
-          };
-
-          // Include only specific entries and apply name mapping
-          const d = rawData
-            .filter((dd: any) => {
-              const key = dd[0];
-              return Object.keys(nameMapping).includes(key);
-            })
-            .map((dd: any) => {
-              const key = dd[0];
-              return [nameMapping[key as keyof typeof nameMapping], dd[1]];
-            });
-
-          const s = d.reduce((acc, curr) => {
-            return acc + parseFloat(curr[1] as string);
-          }, 0);
-
-          setSum(s);
-          setData(d as any);
-        }
-      })
-      .finally(() => setLoading(false));
-  }, []);
-
-  useEffect(() => {
-    const to = new Date();
-    const from = new Date();
-    from.setDate(from.getDate() - 6);
-    fetch(
-      `https://onchain.dextrading.com/topHolders?network=${selectedChain.id.toLowerCase()}&till=${
-        to.toISOString().split("T")[0]
-      }&token=${tokenAddress}&limit=10`
-    )
-      .then((data) => data.json())
-      .then((json) => {
-        if (json.data) {
-          // value={d.Balance.Percentage}
-          // address={d.Balance.Address}
-
-          setPieChartData(
-            json.data.EVM.TokenHolders.map((item: any) => {
-              return {
-                name: minifyContract(item.Balance.Address),
-                value: +item.Balance.Percentage,
-              };
-            })
-          );
-          setData2(json.data.EVM.TokenHolders);
-        }
-      })
-      .finally(() => setLoading(false));
-  }, []);
-
-  
+export default function HolderStats({ tokenAddress, network }: Props) {
+  const {
+    data: holders,
+    isLoading: loading,
+    error,
+  } = useTopHolders(tokenAddress, network);
+
+  const topHolders = useMemo(() => (holders ?? []).slice(0, 10), [holders]);
+  const pieChartData = useMemo(
+    () =>
+      topHolders.map((holder) => ({
+        name: minifyContract(holder.address),
+        value: holder.share,
+      })),
+    [topHolders]
+  );
 
   if (loading)
     return (
@@ -135,6 +36,8 @@ export default function HolderStats({ tokenAddress }: Props) {
       </div>
     );
 
+  if (error) return <ApiErrorMessage error={error} />;
+
   return (
     <div className="xL:max-w-[1200px] xl:mx-auto xl:min-w-[1200px]">
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
@@ -142,16 +45,8 @@ export default function HolderStats({ tokenAddress }: Props) {
           <h2 className="text-2xl font-bold text-center sm:text-left">
             Holder Stats
           </h2>
-          {/* {data.map((d: any, idx: number, arr: any[]) => (
-            <RateLeft key={idx} title={d[0]} value={d[1]} />
-          ))} */}
-
           <PieChart width={300} height={300}>
-            <Pie
-              
-              data={pieChartData}
-              dataKey="value"
-            >
+            <Pie data={pieChartData} dataKey="value">
               {pieChartData.map((entry, index) => (
                 <Cell key={`cell-${index}`} fill={randomColor()} />
               ))}
@@ -163,11 +58,11 @@ export default function HolderStats({ tokenAddress }: Props) {
           <h2 className="w-full text-2xl font-bold sm:pl-[160px] xl:pl-[160px] text-center sm:text-left">
             Holders
           </h2>
-          {data2.map((d: any, idx: number, arr: any[]) => (
+          {topHolders.map((holder, idx, arr) => (
             <RateRight
-              key={idx}
-              value={d.Balance.Percentage}
-              address={d.Balance.Address}
+              key={holder.address}
+              value={+holder.share.toFixed(2)}
+              address={holder.address}
               haveLine={idx !== arr.length - 1}
             />
           ))}
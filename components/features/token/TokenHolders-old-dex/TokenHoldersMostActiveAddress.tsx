@@ -1,29 +1,40 @@
+import { ApiErrorMessage } from "@/components/common/ApiErrorMessage";
 import Copy from "@/components/ui/copy";
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getTopActiveTraders } from "@/services/http/holders.http";
+import { IActiveTrader } from "@/types/holders.type";
 import { minifyContract } from "@/utils/truncate";
-import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 
 interface Props {
   tokenAddress: string;
+  network: string;
 }
 
-export default function MostActiveAddress({ tokenAddress }: Props) {
-  const [loading, setLoading] = useState(true);
-  const [data, setData] = useState([]);
-
-  useEffect(() => {
-    setLoading(true);
-    const to = new Date();
-    const from = new Date();
-    from.setDate(from.getDate() - 6);
-    fetch(
-      `https://onchain.dextrading.com/TopTokenActiveTraders?limit=10&network=${'eth'}&address=${tokenAddress}&from=${from.toISOString()}&till=${to.toISOString()}`
-    )
-      .then((data) => data.json())
-      .then((json) => setData(json.data.ethereum.smartContractCalls))
-      .finally(() => setLoading(false));
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+export default function MostActiveAddress({ tokenAddress, network }: Props) {
+  const {
+    data = [],
+    isLoading: loading,
+    error,
+  } = useQuery({
+    queryKey: ["topActiveTraders", tokenAddress, network],
+    queryFn: () => {
+      const to = new Date();
+      const from = new Date();
+      from.setDate(from.getDate() - 6);
+      return getTopActiveTraders({
+        params: {
+          limit: 10,
+          network,
+          address: tokenAddress,
+          from: from.toISOString(),
+          till: to.toISOString(),
+        },
+      });
+    },
+    select: (response) => response.data?.ethereum?.smartContractCalls ?? [],
+    enabled: !!tokenAddress && !!network,
+  });
 
   if (loading)
     return (
@@ -32,6 +43,8 @@ export default function MostActiveAddress({ tokenAddress }: Props) {
       </div>
     );
 
+  if (error) return <ApiErrorMessage error={error} />;
+
   return (
       <Table className="table table-pin-rows table-pin-cols bg-base-100 rounded-lg overflow-hidden">
         <TableCaption>
@@ -47,8 +60,8 @@ export default function MostActiveAddress({ tokenAddress }: Props) {
           </TableRow>
         </TableHeader>
         <TableBody>
-          {data.map((d: any, idx: number) => (
-            <Record key={`${d.id}${idx}`} idx={idx + 1} data={d} />
+          {data.map((d, idx) => (
+            <Record key={`${d.address.address}${idx}`} idx={idx + 1} data={d} />
           ))}
         </TableBody>
       </Table>
@@ -56,7 +69,7 @@ export default function MostActiveAddress({ tokenAddress }: Props) {
 }
 
 
-const Record = ({ data, idx }: { data: any; idx: number }) => {
+const Record = ({ data, idx }: { data: IActiveTrader; idx: number }) => {
   return (
     <TableRow>
       <TableCell className="w-[100px]">
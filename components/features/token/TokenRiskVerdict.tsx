@@ -0,0 +1,113 @@
+import React, { useMemo } from "react";
+import clsx from "clsx";
+import { AiOutlineSafety } from "react-icons/ai";
+import { IoWarningOutline } from "react-icons/io5";
+import { MdOutlineDangerous } from "react-icons/md";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { RiskLevel } from "@/types/risk.type";
+import { IToken } from "@/types/token.type";
+import { evaluateRisk, RISK_RULES } from "@/utils/riskEngine";
+
+const levelLabel: Record<RiskLevel, string> = {
+  unknown: "Not enough data",
+  low: "Low risk",
+  medium: "Medium risk",
+  high: "High risk",
+  critical: "Critical risk",
+};
+
+const levelColor: Record<RiskLevel, string> = {
+  unknown: "text-muted-foreground",
+  low: "text-green-500",
+  medium: "text-yellow-500",
+  high: "text-orange-500",
+  critical: "text-red-500",
+};
+
+const LevelIcon = ({ level }: { level: RiskLevel }) =>
+  level === "low" ? (
+    <AiOutlineSafety className={clsx("text-lg", levelColor[level])} />
+  ) : level === "medium" || level === "unknown" ? (
+    <IoWarningOutline className={clsx("text-lg", levelColor[level])} />
+  ) : (
+    <MdOutlineDangerous className={clsx("text-lg", levelColor[level])} />
+  );
+
+export const TokenRiskBadge = ({ token }: { token: IToken }) => {
+  const verdict = useMemo(() => evaluateRisk(token), [token]);
+  if (verdict.level === "unknown") return null;
+  return (
+    <Badge
+      variant="outline"
+      className="gap-1 whitespace-nowrap"
+      title={verdict.findings.map((finding) => finding.title).join(", ")}
+    >
+      <LevelIcon level={verdict.level} />
+      {levelLabel[verdict.level]} · {verdict.score}
+    </Badge>
+  );
+};
+
+export default function TokenRiskVerdict({ token }: { token: IToken }) {
+  const verdict = useMemo(() => evaluateRisk(token), [token]);
+  const checked = RISK_RULES.length - verdict.unknown.length;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LevelIcon level={verdict.level} />
+          <span className={levelColor[verdict.level]}>
+            {levelLabel[verdict.level]}
+          </span>
+          {verdict.level !== "unknown" && (
+            <span className="text-muted-foreground text-base font-normal">
+              {verdict.score}/100
+            </span>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Combines contract, ownership, tax, liquidity and holder checks into
+          one score. Higher is riskier.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {verdict.findings.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {verdict.level === "unknown"
+              ? "No security data is available for this token yet."
+              : "None of the checks raised a flag."}
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-3">
+            {verdict.findings.map((finding) => (
+              <li key={finding.ruleId} className="flex items-start gap-3">
+                <span className="text-xs font-medium rounded bg-red-400/15 text-red-400 px-1.5 py-0.5 min-w-10 text-center">
+                  +{finding.points}
+                </span>
+                <div className="flex flex-col">
+                  <span className="text-sm font-medium">{finding.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {finding.detail}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+      <CardFooter className="text-xs text-muted-foreground">
+        {checked} of {RISK_RULES.length} checks had data · rule set v
+        {verdict.version}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -10,22 +10,13 @@ import { IDatafeed, IOhlcvData } from "@/types/datafeed.type";
 import { getDataFeed } from "@/services/http/token.http";
 import { useQuery } from "@tanstack/react-query";
 import MyTradingView from "./MyTradingView";
-import dynamic from "next/dynamic";
 import { Skeleton } from "@/components/ui/skeleton";
-
-const TVChartContainer = dynamic(
-  () => import("./TVChartContainer").then((mod) => mod.TVChartContainer),
-  { ssr: false }
-);
+import { ApiErrorMessage } from "@/components/common/ApiErrorMessage";
 
 const defaultWidgetProps: Partial<ChartingLibraryWidgetOptions> = {
   interval: "4H" as ResolutionString,
   library_path: "/static/charting_library/",
   locale: "en",
-  charts_storage_url: "https://saveload.tradingview.com",
-  charts_storage_api_version: "1.1",
-  client_id: "tradingview.com",
-  user_id: "public_user_id",
   fullscreen: false,
   autosize: true,
   debug: true,
@@ -99,23 +90,32 @@ export default function Chart({
     });
   };
 
-  const { data: minuteDatafeed, isSuccess: isMinuteDataSuccess } =
-    useQuery<IDatafeed>({
-      queryKey: ["ohlcvData", "minute", tokenAddress],
-      queryFn: () => fetchData("minute", 5),
-    });
+  const {
+    data: minuteDatafeed,
+    isSuccess: isMinuteDataSuccess,
+    error: minuteError,
+  } = useQuery<IDatafeed>({
+    queryKey: ["ohlcvData", "minute", tokenAddress],
+    queryFn: () => fetchData("minute", 5),
+  });
 
-  const { data: hourDatafeed, isSuccess: isHourDataSuccess } =
-    useQuery<IDatafeed>({
-      queryKey: ["ohlcvData", "hour", tokenAddress],
-      queryFn: () => fetchData("hour", 1),
-    });
+  const {
+    data: hourDatafeed,
+    isSuccess: isHourDataSuccess,
+    error: hourError,
+  } = useQuery<IDatafeed>({
+    queryKey: ["ohlcvData", "hour", tokenAddress],
+    queryFn: () => fetchData("hour", 1),
+  });
 
-  const { data: dayDatafeed, isSuccess: isDayDataSuccess } =
-    useQuery<IDatafeed>({
-      queryKey: ["ohlcvData", "day", tokenAddress],
-      queryFn: () => fetchData("day", 1),
-    });
+  const {
+    data: dayDatafeed,
+    isSuccess: isDayDataSuccess,
+    error: dayError,
+  } = useQuery<IDatafeed>({
+    queryKey: ["ohlcvData", "day", tokenAddress],
+    queryFn: () => fetchData("day", 1),
+  });
 
   const getOhlcvData = (data: IDatafeed): IOhlcvData[] => {
     if (!data.data) return [];
@@ -150,6 +150,8 @@ export default function Chart({
     [isMinuteDataSuccess, isHourDataSuccess, isDayDataSuccess]
   );
 
+  const datafeedError = minuteError || hourError || dayError;
+
   const { theme } = useTheme();
 
   return (
@@ -178,8 +180,12 @@ export default function Chart({
             theme={theme === "light" ? "light" : "dark"}
             tokenExchange={tokenExchange}
             tokenDescription={tokenDescription}
+            tokenAddress={tokenAddress}
+            network={network}
           />
         </div>
+      ) : datafeedError ? (
+        <ApiErrorMessage error={datafeedError} className="h-[600px]" />
       ) : (
         <Skeleton className="w-full h-[600px]" />
       )}
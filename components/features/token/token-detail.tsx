@@ -14,6 +14,7 @@ import TokenSecurityOldShit from "./TokenSecurity-old-shit/TokenSecurity";
 import TokenHolders from "./TokenHolders-old-dex/TokenHolders";
 import TokenMarkets from "./Token-markets";
 import TokenScoring from "./Token-scoring";
+import TokenRiskVerdict from "./TokenRiskVerdict";
 import { merge } from "@/utils/merger";
 import { getToken } from "@/services/http/token.http copy";
 import { useQuery } from "@tanstack/react-query";
@@ -107,6 +108,7 @@ export default function TokenDetail({
         <TabsContent value="security" className="mt-5">
           {/* FIXME: contract security must be uncommented and updated to replace the old next line */}
           {/* <ContractSecurity token={token} /> */}
+          <TokenRiskVerdict token={token} />
           <TokenSecurityOldShit token={token} tokenAddress={tokenAddress} />
         </TabsContent>
         <TabsContent value="holders" className="mt-5">
@@ -117,7 +119,11 @@ export default function TokenDetail({
               value={true}
               options={{
                 trueValueComponent: (
-                  <TokenHolders token={token} tokenAddress={tokenAddress} />
+                  <TokenHolders
+                    token={token}
+                    tokenAddress={tokenAddress}
+                    network={network}
+                  />
                 ),
                 // falseValueComponent: <Paywall />,
               }}
@@ -15,6 +15,7 @@ import TokenActiveHeaderContent from "./TokenActiveHeaderContent";
 import DesktopOverview from "./DesktopOverview";
 import MobileTokenOverview from "./MobileTokenOverview";
 import { Skeleton } from "@/components/ui/skeleton";
+import PriceAlerts from "./PriceAlerts";
 import dynamic from "next/dynamic";
 
 const ActiveHeader = dynamic(() => import("../header/active-header"), {
@@ -113,7 +114,12 @@ export default function TokenOverview({
       id="token-capture"
       className="flex flex-col items-stretch justify-stretch lg:flex-row gap-4 w-full relative"
     >
-      <div className="absolute top-1 right-1">
+      <div className="absolute top-1 right-1 z-10 flex items-center gap-2">
+        <PriceAlerts
+          token={token}
+          tokenAddress={tokenAddress}
+          network={network}
+        />
         {token.ScoreData?.details != undefined && (
           <div className="bg-yellow-50 md:py-2  py-1 px-3 rounded-lg">
             <h3 className="text-xs text-yellow-600 flex flex-row gap-2 items-center">
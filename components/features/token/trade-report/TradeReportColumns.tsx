@@ -1,7 +1,7 @@
 // src/components/trade-report/TradeReportColumns.tsx
 
 import React from "react";
-import { Column, ColumnDef, Row } from "@tanstack/react-table";
+import { Column, Row } from "@tanstack/react-table";
 import {
   Tooltip,
   TooltipContent,
@@ -23,6 +23,8 @@ import { TokenChain } from "@/store/tokenChains/networks";
 import dayjs from "dayjs";
 import { walletRoute } from "@/utils/routeGenerator";
 import Link from "next/link";
+import { makerTradeCount } from "@/utils/tradeReport";
+import { CustomColumnDef } from "@/types/table.type";
 
 interface SortableHeaderProps<T> {
   column: Column<T, unknown>;
@@ -84,10 +86,13 @@ const isEligibleNetwork = (network: string) =>
 export const columns = (
   tokenName: string,
   router: ReturnType<typeof useRouter>,
-  availableChains: TokenChain[]
-): ColumnDef<ITradingItem>[] => [
+  availableChains: TokenChain[],
+  repeatMakers: Map<string, number> = new Map()
+): CustomColumnDef<ITradingItem>[] => [
   {
     accessorKey: "block_timestamp",
+    name: "Date",
+    exportValue: (item) => item.attributes.block_timestamp,
     header: ({ column }) => <SortableHeader column={column} label="Date" />,
     cell: ({ row }) => {
       const blockTimestamp = new Date(
@@ -104,6 +109,8 @@ export const columns = (
   },
   {
     accessorKey: "kind",
+    name: "TX Type",
+    exportValue: (item) => item.attributes.kind,
     header: ({ column }) => <SortableHeader column={column} label="TX Type" />,
     cell: ({ row }) => (
       <span
@@ -121,6 +128,8 @@ export const columns = (
   },
   {
     accessorKey: "volume_in_usd",
+    name: "Value (usd)",
+    exportValue: (item) => item.attributes.volume_in_usd,
     header: ({ column }) => (
       <SortableHeader column={column} label="Value (usd)" />
     ),
@@ -136,6 +145,11 @@ export const columns = (
   },
   {
     accessorKey: "price_from_in_usd",
+    name: `${tokenName.split("/")[0]} Price`,
+    exportValue: (item) =>
+      item.attributes.kind === "buy"
+        ? item.attributes.price_to_in_usd
+        : item.attributes.price_from_in_usd,
     header: ({ column }) => (
       <SortableHeader
         column={column}
@@ -163,6 +177,11 @@ export const columns = (
   },
   {
     accessorKey: "from_token_amount",
+    name: `${tokenName.split("/")[1]} Amount`,
+    exportValue: (item) =>
+      item.attributes.kind === "buy"
+        ? item.attributes.from_token_amount
+        : item.attributes.to_token_amount,
     header: ({ column }) => (
       <SortableHeader
         column={column}
@@ -182,9 +201,12 @@ export const columns = (
   },
   {
     accessorKey: "tx_from_address",
+    name: "Maker",
+    exportValue: (item) => item.attributes.tx_from_address,
     header: "Maker",
     cell: ({ row }) => {
       const tx_from_address = row.original.attributes.tx_from_address;
+      const tradeCount = makerTradeCount(repeatMakers, tx_from_address);
       return (
         <TooltipProvider>
           <div className="flex items-center gap-3">
@@ -233,6 +255,14 @@ export const columns = (
             ) : (
               "N/A"
             )}
+            {tradeCount > 1 && (
+              <span
+                className="text-brand font-semibold"
+                title={`${tradeCount} trades by this maker on this page`}
+              >
+                ×{tradeCount}
+              </span>
+            )}
           </div>
         </TooltipProvider>
       );
@@ -240,6 +270,8 @@ export const columns = (
   },
   {
     accessorKey: "tx_hash",
+    name: "TX Hash",
+    exportValue: (item) => item.attributes.tx_hash,
     header: "TX Hash",
     cell: ({ row }) => {
       const tx_hash = row.original.attributes.tx_hash;
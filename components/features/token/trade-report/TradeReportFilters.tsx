@@ -0,0 +1,132 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TradeReportFilters as Filters,
+  TradeSide,
+  TradeWindow,
+} from "@/types/Tradinglist.type";
+import {
+  defaultTradeFilters,
+  isWhalePreset,
+  TRADE_WINDOWS,
+  whaleFilters,
+  WHALE_MIN_USD,
+} from "@/utils/tradeReport";
+
+const optionalNumber = (value: string) =>
+  value === "" || !isFinite(+value) ? undefined : +value;
+
+interface Props {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+function TradeReportFilters({ filters, onChange }: Props) {
+  const whalesOnly = isWhalePreset(filters);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <Select
+        value={filters.side}
+        onValueChange={(side) =>
+          onChange({ ...filters, side: side as TradeSide })
+        }
+      >
+        <SelectTrigger aria-label="Side" className="h-8 w-[90px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All</SelectItem>
+          <SelectItem value="buy">Buys</SelectItem>
+          <SelectItem value="sell">Sells</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min={0}
+        placeholder="Min USD"
+        aria-label="Minimum USD value"
+        className="h-8 w-[100px]"
+        value={filters.minUsd ?? ""}
+        onChange={(e) =>
+          onChange({ ...filters, minUsd: optionalNumber(e.target.value) })
+        }
+      />
+      <Input
+        type="number"
+        min={0}
+        placeholder="Max USD"
+        aria-label="Maximum USD value"
+        className="h-8 w-[100px]"
+        value={filters.maxUsd ?? ""}
+        onChange={(e) =>
+          onChange({ ...filters, maxUsd: optionalNumber(e.target.value) })
+        }
+      />
+      <Input
+        placeholder="Maker address"
+        aria-label="Maker address"
+        className="h-8 w-[180px]"
+        value={filters.maker}
+        onChange={(e) => onChange({ ...filters, maker: e.target.value })}
+      />
+      <Input
+        placeholder="DEX"
+        aria-label="DEX"
+        className="h-8 w-[100px]"
+        value={filters.dex}
+        onChange={(e) => onChange({ ...filters, dex: e.target.value })}
+      />
+      <Select
+        value={filters.window}
+        onValueChange={(window) =>
+          onChange({ ...filters, window: window as TradeWindow })
+        }
+      >
+        <SelectTrigger aria-label="Time window" className="h-8 w-[110px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TRADE_WINDOWS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        size="sm"
+        variant={whalesOnly ? "default" : "secondary"}
+        className="h-8"
+        title={`Trades of $${WHALE_MIN_USD.toLocaleString()} or more`}
+        onClick={() =>
+          onChange(
+            whalesOnly
+              ? { ...filters, minUsd: undefined }
+              : whaleFilters(filters)
+          )
+        }
+      >
+        Whales only
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="h-8"
+        onClick={() => onChange(defaultTradeFilters)}
+      >
+        Reset
+      </Button>
+    </div>
+  );
+}
+
+export default TradeReportFilters;
@@ -2,18 +2,37 @@
 
 "use client";
 
-import React from "react";
-import { Skeleton } from "@/components/ui/skeleton";
+import React, { useEffect, useMemo, useState } from "react";
 import { getTradingList } from "@/services/http/token.http";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { SortingState } from "@tanstack/react-table";
+import { useDebounce } from "use-debounce";
 import dayjs from "dayjs";
 import relativeTime from "dayjs/plugin/relativeTime";
-import { ITradingListResponse } from "@/types/Tradinglist.type";
+import {
+  ITradingListResponse,
+  TradeReportFilters as Filters,
+} from "@/types/Tradinglist.type";
 import { useRouter } from "next/navigation";
-import { ClientSideSmartTable } from "@/components/ui/smart-table/ClientSideSmartTable";
+import {
+  ClientSideSmartTable,
+  ServerSideSmartTable,
+} from "@/components/ui/smart-table";
 import { columns } from "./TradeReportColumns";
+import TradeReportFilters from "./TradeReportFilters";
 import useNetworkSelector from "@/store/tokenChains/networks";
 import { ErrorBoundary } from "@/components/common/ErrorBoundry";
+import { ApiErrorMessage } from "@/components/common/ApiErrorMessage";
+import {
+  defaultTradeFilters,
+  ignoredTradeFilters,
+  matchesTradeFilters,
+  pagesOnServer,
+  repeatMakers,
+  TRADE_REPORT_PAGE_SIZE,
+  tradeReportPages,
+  tradeReportParams,
+} from "@/utils/tradeReport";
 
 dayjs.extend(relativeTime);
 
@@ -24,41 +43,151 @@ interface Props {
   tokenName: string;
 }
 
-export default function TradeReport({
-  tokenAddress,
-  network,
-  tokenName,
-  tokenAddress2,
-}: Props) {
+function TradeReportTable({ tokenAddress, network, tokenName }: Props) {
   const router = useRouter();
   const { availableChains } = useNetworkSelector();
+  const [filters, setFilters] = useState<Filters>(defaultTradeFilters);
+  const [debouncedFilters] = useDebounce(filters, 400);
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [pageSize, setPageSize] = useState(TRADE_REPORT_PAGE_SIZE);
+  const [page, setPage] = useState(1);
+  // cursors[i] loads page i + 1; the first page has none.
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+
+  const resetPages = () => {
+    setPage(1);
+    setCursors([undefined]);
+  };
+
+  // Typing in the filters shouldn't keep the pages of the previous query.
+  useEffect(() => {
+    setPage(1);
+    setCursors([undefined]);
+  }, [debouncedFilters]);
+
+  const cursor = cursors[page - 1];
   const {
     isLoading,
+    isPlaceholderData,
     error,
     data: tradeReport,
   } = useQuery<ITradingListResponse>({
-    queryKey: ["TradeReport"],
+    queryKey: [
+      "TradeReport",
+      network,
+      tokenAddress,
+      debouncedFilters,
+      sorting,
+      pageSize,
+      cursor,
+    ],
     queryFn: () =>
-      getTradingList({ params: { network, address: tokenAddress } }),
+      getTradingList({
+        params: tradeReportParams({
+          address: tokenAddress,
+          network,
+          filters: debouncedFilters,
+          sorting,
+          cursor,
+          pageSize,
+        }),
+      }),
+    placeholderData: keepPreviousData,
   });
 
-  if (isLoading)
-    return (
-      <div className="flex flex-col items-center gap-3 mt-3">
-        <Skeleton className="h-4 w-[250px]" />
-        <Skeleton className="h-4 w-[200px]" />
-      </div>
+  useEffect(() => {
+    const nextCursor = tradeReport?.meta?.next_cursor;
+    if (isPlaceholderData || !nextCursor) return;
+    setCursors((known) =>
+      known.length > page ? known : [...known.slice(0, page), nextCursor]
     );
+  }, [tradeReport, isPlaceholderData, page]);
+
+  const data = useMemo(
+    () =>
+      (tradeReport?.data ?? []).filter((item) =>
+        matchesTradeFilters(item, debouncedFilters)
+      ),
+    [tradeReport, debouncedFilters]
+  );
+  const ignoredFilters = useMemo(
+    () => ignoredTradeFilters(tradeReport?.data ?? [], debouncedFilters),
+    [tradeReport, debouncedFilters]
+  );
+  const tableColumns = useMemo(
+    () => columns(tokenName, router, availableChains, repeatMakers(data)),
+    [tokenName, router, availableChains, data]
+  );
+
+  if (error) return <ApiErrorMessage error={error} />;
 
-  const data = tradeReport ? tradeReport.data : [];
+  const exportFileName = `trades-${tokenName.replace(/\W+/g, "-")}`;
 
   return (
     <ErrorBoundary>
-      <ClientSideSmartTable
-        data={data}
-        columns={columns(tokenName, router, availableChains)}
-        searchColumnAccessorKey="tx_hash"
-      />
+      <div className="flex flex-col gap-3">
+        <TradeReportFilters filters={filters} onChange={setFilters} />
+        {ignoredFilters.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            The server didn&apos;t apply the {ignoredFilters.join(", ")}{" "}
+            {ignoredFilters.length > 1 ? "filters" : "filter"}, so only the
+            trades it returned are narrowed down and more matching trades
+            may exist.
+          </p>
+        )}
+        {tradeReport && !pagesOnServer(tradeReport) ? (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Showing {data.length} of the {tradeReport.data.length} latest
+              trades, filtered and paged in the browser.
+            </p>
+            <ClientSideSmartTable
+              data={data}
+              columns={tableColumns}
+              exportFileName={exportFileName}
+            />
+          </>
+        ) : (
+          <ServerSideSmartTable
+            data={data}
+            columns={tableColumns}
+            loading={isLoading || isPlaceholderData}
+            page={page}
+            pageCount={cursors.length}
+            pageSize={pageSize}
+            setPage={(next) => cursors.length >= next && setPage(next)}
+            setPageSize={(size) => {
+              if (size === pageSize) return;
+              setPageSize(size);
+              resetPages();
+            }}
+            sorting={sorting}
+            setSorting={(next) => {
+              setSorting(next);
+              resetPages();
+            }}
+            exportFileName={exportFileName}
+            fetchAllRows={() =>
+              tradeReportPages({
+                address: tokenAddress,
+                network,
+                filters: debouncedFilters,
+                sorting,
+              })
+            }
+          />
+        )}
+      </div>
     </ErrorBoundary>
   );
 }
+
+// Keyed by token so switching tokens starts from a clean first page.
+export default function TradeReport(props: Props) {
+  return (
+    <TradeReportTable
+      key={`${props.network}:${props.tokenAddress}`}
+      {...props}
+    />
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import React from "react";
+import dayjs from "dayjs";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import Copy from "@/components/ui/copy";
+import useTransactionsStore from "@/store/transactions";
+import { TransactionStatus } from "@/types/transaction.type";
+import { explorerTxUrl } from "@/utils/explorer";
+import { minifyContract } from "@/utils/truncate";
+
+const statusClassName: Record<TransactionStatus, string> = {
+  pending: "text-yellow-600",
+  confirmed: "text-success",
+  failed: "text-error",
+  dropped: "text-muted-foreground",
+};
+
+function TransactionList() {
+  const transactions = useTransactionsStore((state) => state.transactions);
+  const clearTransactions = useTransactionsStore(
+    (state) => state.clearTransactions
+  );
+
+  if (transactions.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground text-center my-6">
+        No transactions yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex justify-end">
+        <Button variant={"ghost"} size={"sm"} onClick={clearTransactions}>
+          Clear finished
+        </Button>
+      </div>
+      {transactions.map((tx) => {
+        const explorerUrl = explorerTxUrl(tx.hash, tx.chainId);
+        return (
+          <div
+            key={tx.hash}
+            className="border border-border rounded-lg p-3 flex flex-col gap-1 text-sm"
+          >
+            <div className="flex items-center justify-between">
+              <span>{tx.description}</span>
+              <span className={statusClassName[tx.status]}>{tx.status}</span>
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <Copy text={minifyContract(tx.hash, 6, 6)} value={tx.hash} />
+              {explorerUrl && (
+                <Link
+                  href={explorerUrl}
+                  target="_blank"
+                  className="text-brand hover:underline"
+                >
+                  Explorer
+                </Link>
+              )}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {dayjs(tx.createdAt).format("MMM D, HH:mm:ss")}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TransactionList;
@@ -0,0 +1,11 @@
+"use client";
+
+import useTransactionTracker from "@/hooks/TransactionTracker";
+
+// Resumes tracking of pending transactions after a reload, on any page.
+function TransactionTracker() {
+  useTransactionTracker();
+  return null;
+}
+
+export default TransactionTracker;
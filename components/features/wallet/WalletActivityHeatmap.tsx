@@ -0,0 +1,44 @@
+import React, { useMemo } from "react";
+import { buildActivityHeatmap, WEEK_DAYS } from "@/utils/walletSummary";
+
+interface Props {
+  swapTimes?: string[];
+}
+
+const WalletActivityHeatmap = ({ swapTimes }: Props) => {
+  const grid = useMemo(() => buildActivityHeatmap(swapTimes), [swapTimes]);
+  const max = Math.max(1, ...grid.flat());
+
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <h2 className="text-base font-semibold">Activity</h2>
+      <div className="overflow-x-auto">
+        <div className="flex flex-col gap-[2px] min-w-[560px] text-[10px] text-muted-foreground">
+          {grid.map((hours, day) => (
+            <div key={WEEK_DAYS[day]} className="flex items-center gap-[2px]">
+              <span className="w-8 shrink-0">{WEEK_DAYS[day]}</span>
+              {hours.map((count, hour) => (
+                <div
+                  key={hour}
+                  title={`${WEEK_DAYS[day]} ${hour}:00 - ${count} swaps`}
+                  className="flex-1 h-4 rounded-sm bg-brand"
+                  style={{ opacity: count === 0 ? 0.08 : 0.2 + (count / max) * 0.8 }}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="flex items-center gap-[2px]">
+            <span className="w-8 shrink-0" />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <span key={hour} className="flex-1 text-center">
+                {hour % 3 === 0 ? hour : ""}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WalletActivityHeatmap;
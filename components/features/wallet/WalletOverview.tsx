@@ -0,0 +1,79 @@
+import React from "react";
+import { KeyValue } from "@/components/ui/key-value";
+import { WalletSummaryType } from "@/types/wallet-summary.type";
+import { formatCash } from "@/utils/numbers";
+
+interface Props {
+  summary: WalletSummaryType;
+}
+
+const WalletOverview = ({ summary }: Props) => {
+  const netProfit = summary.netProfit ?? 0;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 w-full border rounded-lg p-4 text-sm">
+      <KeyValue
+        title="Dextrader Score"
+        value={summary.DextraderScore ?? "-"}
+        variant="dark"
+        stretch
+      />
+      <KeyValue
+        title="Win Rate"
+        value={summary.winRate ?? "-"}
+        variant="dark"
+        stretch
+      />
+      <KeyValue
+        title="Net Profit"
+        value={formatCash(netProfit)}
+        symbol="dollar"
+        variant={netProfit >= 0 ? "good" : "bad"}
+        stretch
+      />
+      <KeyValue
+        title="Total Profit"
+        value={formatCash(summary.totalProfit ?? 0)}
+        symbol="dollar"
+        variant="good"
+        stretch
+      />
+      <KeyValue
+        title="Total Loss"
+        value={formatCash(summary.totalLoss ?? 0)}
+        symbol="dollar"
+        variant="bad"
+        stretch
+      />
+      <KeyValue
+        title="Current Balance"
+        value={formatCash(summary.CurrentBalance ?? 0)}
+        symbol="dollar"
+        variant="dark"
+        stretch
+      />
+      <KeyValue
+        title="Avg. Holding Time"
+        value={summary.avgHoldingTime ?? "-"}
+        description={summary.holdingTimeLabel}
+        variant="dark"
+        stretch
+      />
+      <KeyValue
+        title="Trader Type"
+        value={summary.labelTrader ?? "-"}
+        description={summary.details}
+        variant="dark"
+        stretch
+      />
+      <KeyValue
+        title="Bot Activity"
+        value={summary.BotActivity ?? "-"}
+        variant="dark"
+        stretch
+      />
+    </div>
+  );
+};
+
+export default WalletOverview;
@@ -0,0 +1,69 @@
+"use client";
+
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getWalletSummary } from "@/services/http/wallet.http";
+import { WALLET_PAGE_PARAMS } from "@/utils/pageParams";
+import { defaultWalletNetwork } from "@/utils/walletSummary";
+import { Skeleton } from "@/components/ui/skeleton";
+import ShareWallet from "@/components/ui/share-screenshot/ShareWallet";
+import WalletOverview from "./WalletOverview";
+import WalletPnl from "./WalletPnl";
+import WalletActivityHeatmap from "./WalletActivityHeatmap";
+import WalletTradedTokens from "./WalletTradedTokens";
+import WalletTransfers from "./WalletTransfers";
+
+interface Props {
+  params: IParam;
+}
+
+type IParam = {
+  params: string[];
+};
+
+const WalletPage = ({ params }: Props) => {
+  const walletAddress = params.params[WALLET_PAGE_PARAMS.WALLET_ADDRESS];
+  const network =
+    params.params[WALLET_PAGE_PARAMS.NETWORK] ??
+    defaultWalletNetwork(walletAddress);
+
+  const { data: summary, isLoading } = useQuery({
+    queryKey: ["walletSummary", walletAddress, network],
+    queryFn: () => getWalletSummary(walletAddress, { params: { network } }),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col gap-4 w-full mt-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div className="text-sm text-muted-foreground mt-4">
+        No data available for this wallet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 w-full mt-4">
+      <div className="flex justify-end">
+        <ShareWallet wallet={summary} walletAddress={walletAddress} />
+      </div>
+      <WalletOverview summary={summary} />
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <WalletPnl summary={summary} />
+        <WalletActivityHeatmap swapTimes={summary.SwapTime} />
+      </div>
+      <WalletTradedTokens tokens={summary.HotTokenHolders} network={network} />
+      <WalletTransfers summary={summary} />
+    </div>
+  );
+};
+
+export default WalletPage;
@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { WalletSummaryType } from "@/types/wallet-summary.type";
+import { toSeries } from "@/utils/walletSummary";
+
+type PnlPeriod = "week" | "month" | "year";
+
+interface Props {
+  summary: WalletSummaryType;
+}
+
+const WalletPnl = ({ summary }: Props) => {
+  const [period, setPeriod] = useState<PnlPeriod>("week");
+
+  const profits = useMemo(
+    () => toSeries(summary.totalProfits?.[period]),
+    [summary.totalProfits, period]
+  );
+
+  const percentage =
+    period === "week"
+      ? summary.percentageWeek
+      : period === "month"
+      ? summary.percentageMonth
+      : (summary.percentageYear as { [key: string]: number } | undefined);
+  const percentageChange = toSeries(percentage).reduce(
+    (total, item) => total + item.value,
+    0
+  );
+
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-base font-semibold">PnL</h2>
+        <Tabs
+          value={period}
+          onValueChange={(value) => setPeriod(value as PnlPeriod)}
+        >
+          <TabsList>
+            <TabsTrigger value="week">Week</TabsTrigger>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="year">Year</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+      <div
+        className={`text-sm ${
+          percentageChange >= 0 ? "text-green-400" : "text-red-500"
+        }`}
+      >
+        {percentageChange >= 0 && "+"}
+        {percentageChange.toFixed(2)}%
+      </div>
+      {profits.length > 0 ? (
+        <ResponsiveContainer width="100%" height={220}>
+          <BarChart data={profits}>
+            <XAxis dataKey="name" fontSize={10} />
+            <YAxis fontSize={10} />
+            <Tooltip
+              formatter={(value: number) => `$${value.toFixed(2)}`}
+              contentStyle={{ fontSize: 12 }}
+            />
+            <Bar dataKey="value">
+              {profits.map((item) => (
+                <Cell
+                  key={item.name}
+                  fill={item.value >= 0 ? "#4ade80" : "#ef4444"}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      ) : (
+        <div className="text-sm text-muted-foreground">No PnL data</div>
+      )}
+    </div>
+  );
+};
+
+export default WalletPnl;
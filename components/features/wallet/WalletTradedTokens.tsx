@@ -0,0 +1,79 @@
+import React from "react";
+import Link from "next/link";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { HotTokenHolder } from "@/types/wallet-summary.type";
+import { formatCash } from "@/utils/numbers";
+import { tokenRoute } from "@/utils/routeGenerator";
+import { sortTradedTokens } from "@/utils/walletSummary";
+
+interface Props {
+  tokens?: HotTokenHolder[];
+  network: string;
+}
+
+const WalletTradedTokens = ({ tokens, network }: Props) => {
+  const tradedTokens = sortTradedTokens(tokens);
+
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <h2 className="text-base font-semibold">Traded Tokens</h2>
+      {tradedTokens.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead>Buys / Sells</TableHead>
+              <TableHead>Bought</TableHead>
+              <TableHead>Sold</TableHead>
+              <TableHead>Balance</TableHead>
+              <TableHead>Profit</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tradedTokens.map((token) => {
+              const profit = token.currentProfit ?? token.Profit ?? 0;
+              return (
+                <TableRow key={token["Currency Address"]}>
+                  <TableCell>
+                    <Link
+                      href={tokenRoute(token["Currency Address"], network)}
+                      className="hover:text-brand"
+                    >
+                      {token.tokenName}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {token["Num of Buy Times"]} / {token["Num of Sell Times"]}
+                  </TableCell>
+                  <TableCell>
+                    ${formatCash(token["Buy Amount (USD)"] ?? 0)}
+                  </TableCell>
+                  <TableCell>
+                    ${formatCash(token["Sell Amount (USD)"] ?? 0)}
+                  </TableCell>
+                  <TableCell>${formatCash(token.currentValue ?? 0)}</TableCell>
+                  <TableCell
+                    className={profit >= 0 ? "text-green-400" : "text-red-500"}
+                  >
+                    ${formatCash(profit)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="text-sm text-muted-foreground">No traded tokens</div>
+      )}
+    </div>
+  );
+};
+
+export default WalletTradedTokens;
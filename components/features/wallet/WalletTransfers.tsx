@@ -0,0 +1,96 @@
+import React, { useMemo } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { KeyValue } from "@/components/ui/key-value";
+import { WalletSummaryType } from "@/types/wallet-summary.type";
+import { formatCash } from "@/utils/numbers";
+
+interface Props {
+  summary: WalletSummaryType;
+}
+
+const WalletTransfers = ({ summary }: Props) => {
+  const transfers = useMemo(
+    () =>
+      [
+        ...(summary.receiveHistory ?? []).map((item) => ({
+          ...item,
+          type: "Deposit" as const,
+        })),
+        ...(summary.sentHistory ?? []).map((item) => ({
+          ...item,
+          type: "Withdraw" as const,
+        })),
+      ].sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime()),
+    [summary.receiveHistory, summary.sentHistory]
+  );
+
+  return (
+    <div className="flex flex-col gap-3 w-full border rounded-lg p-4">
+      <h2 className="text-base font-semibold">Deposits & Withdrawals</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <KeyValue
+          title="Total Deposit"
+          value={formatCash(summary.totalDeposit ?? 0)}
+          description={summary.DepositDuration}
+          symbol="dollar"
+          variant="good"
+          stretch
+        />
+        <KeyValue
+          title="Total Withdraw"
+          value={formatCash(summary.totalWithdraw ?? 0)}
+          description={summary.WithdrawDuration}
+          symbol="dollar"
+          variant="bad"
+          stretch
+        />
+      </div>
+      {transfers.length > 0 ? (
+        <div className="max-h-[360px] overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Time</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfers.map((transfer, index) => (
+                <TableRow key={`${transfer.type}-${transfer.time}-${index}`}>
+                  <TableCell
+                    className={
+                      transfer.type === "Deposit"
+                        ? "text-green-400"
+                        : "text-red-500"
+                    }
+                  >
+                    {transfer.type}
+                  </TableCell>
+                  <TableCell>{formatCash(transfer.amount ?? 0, 4)}</TableCell>
+                  <TableCell>${formatCash(transfer.amount_usd ?? 0)}</TableCell>
+                  <TableCell>
+                    {transfer.interval ??
+                      new Date(transfer.time).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <div className="text-sm text-muted-foreground">No transfers</div>
+      )}
+    </div>
+  );
+};
+
+export default WalletTransfers;
@@ -0,0 +1,127 @@
+import React from "react";
+import Link from "next/link";
+import dayjs from "dayjs";
+import relativeTime from "dayjs/plugin/relativeTime";
+import clsx from "clsx";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ActivityItem } from "@/types/activity-feed.type";
+import { activityTradeTime } from "@/utils/activityFeed";
+import { nFormatter } from "@/utils/numberFormatter";
+import { tokenRoute, walletRoute } from "@/utils/routeGenerator";
+import { minifyContract } from "@/utils/truncate";
+
+dayjs.extend(relativeTime);
+
+const formatAmount = (value: string | null) => {
+  const amount = Number(value);
+  if (!value || !isFinite(amount)) return "-";
+  return amount >= 1 ? nFormatter(amount, 2) : amount.toPrecision(3);
+};
+
+const TokenAmount = ({
+  amount,
+  symbol,
+  imageUrl,
+}: {
+  amount: string | null;
+  symbol: string | null;
+  imageUrl: string;
+}) => (
+  <span className="flex items-center gap-1">
+    <Avatar className="w-4 h-4">
+      <AvatarImage src={imageUrl} alt={symbol ?? ""} />
+      <AvatarFallback className="text-[8px]">
+        {symbol?.charAt(0) ?? "?"}
+      </AvatarFallback>
+    </Avatar>
+    {formatAmount(amount)} {symbol}
+  </span>
+);
+
+function ActivityFeedItem({
+  item,
+  onRead,
+}: {
+  item: ActivityItem;
+  onRead: (key: string) => void;
+}) {
+  const { message } = item;
+  const network = message.report?.network ?? message.network;
+  const signer = message.report?.signer ?? message.signer;
+  const tokenAddress = message.raw_message?.Transfer?.Currency?.SmartContract;
+  const valueUsd = message.buy_amount_usd ?? message.report?.value;
+  const dex = message.dex_protocol ?? message.report?.dex_protocol;
+  const tradedAt = activityTradeTime(message) ?? item.receivedAt;
+  const isSell = message.report?.swapType?.toLowerCase().includes("sell");
+
+  return (
+    <div
+      className={clsx(
+        "border rounded-lg p-2 flex flex-col gap-1 text-xs",
+        !item.read && "border-brand"
+      )}
+      onClick={() => !item.read && onRead(item.key)}
+    >
+      <div className="flex items-center gap-2">
+        {!item.read && (
+          <span
+            aria-label="Unread"
+            className="w-2 h-2 rounded-full bg-brand shrink-0"
+          />
+        )}
+        <span className="font-semibold">{message.name}</span>
+        {item.source === "group" && (
+          <span className="text-muted-foreground">group</span>
+        )}
+        {message.report?.swapType && (
+          <span className={isSell ? "text-red-500" : "text-green-400"}>
+            {isSell ? "Sell" : "Buy"}
+          </span>
+        )}
+        <span className="ml-auto text-muted-foreground">
+          {dayjs(tradedAt).fromNow()}
+        </span>
+      </div>
+      <div className="flex items-center flex-wrap gap-1">
+        <TokenAmount
+          amount={message.sell_amount}
+          symbol={message.sell_currency_name}
+          imageUrl={message.sellImageUrl}
+        />
+        <span className="text-muted-foreground">→</span>
+        <TokenAmount
+          amount={message.buy_amount}
+          symbol={message.buy_currency_name}
+          imageUrl={message.buyImageUrl}
+        />
+        {valueUsd && isFinite(+valueUsd) && (
+          <span className="ml-auto font-semibold">
+            ${nFormatter(+valueUsd, 2)}
+          </span>
+        )}
+      </div>
+      <div className="flex items-center flex-wrap gap-2 text-muted-foreground">
+        {dex && <span>{dex}</span>}
+        {network && <span>{network}</span>}
+        {signer && (
+          <Link
+            href={walletRoute(signer, network ?? undefined)}
+            className="hover:text-brand"
+          >
+            {minifyContract(signer)}
+          </Link>
+        )}
+        {tokenAddress && network && (
+          <Link
+            href={tokenRoute(tokenAddress, network)}
+            className="ml-auto text-brand"
+          >
+            View token
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default React.memo(ActivityFeedItem);
@@ -1,11 +1,146 @@
-import React from "react";
+"use client";
 
-type WalletsNotificationsProps = any;
+import React, { useCallback, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import useActivityFeedStore from "@/store/activityFeed";
+import useUserStore from "@/store/User";
+import { ActivityFilter } from "@/types/activity-feed.type";
+import {
+  activityGroups,
+  groupFilter,
+  matchesActivityFilter,
+  unreadActivity,
+} from "@/utils/activityFeed";
+import ActivityFeedItem from "./ActivityFeedItem";
 
-// TODO: This is a stub implementation recreated because the original file
-// was not in Git history. Replace with real UI/logic if needed.
-const WalletsNotifications: React.FC<WalletsNotificationsProps> = () => {
-  return null; // No UI for now
-};
+const PAGE_SIZE = 30;
+
+const FilterChip = ({
+  label,
+  unread,
+  active,
+  onClick,
+}: {
+  label: string;
+  unread: number;
+  active: boolean;
+  onClick: () => void;
+}) => (
+  <Button
+    size="sm"
+    variant={active ? "default" : "secondary"}
+    className="h-7 gap-1 text-xs"
+    onClick={onClick}
+  >
+    {label}
+    {unread > 0 && (
+      <span className="bg-brand text-white text-[10px] rounded-full px-1.5">
+        {unread}
+      </span>
+    )}
+  </Button>
+);
+
+// Live swaps of followed wallets and groups, with unread state and history.
+function WalletsNotifications() {
+  const user = useUserStore((state) => state.user);
+  const items = useActivityFeedStore((state) => state.items);
+  const filter = useActivityFeedStore((state) => state.filter);
+  const setFilter = useActivityFeedStore((state) => state.setFilter);
+  const markRead = useActivityFeedStore((state) => state.markRead);
+  const markAllRead = useActivityFeedStore((state) => state.markAllRead);
+  const clearHistory = useActivityFeedStore((state) => state.clearHistory);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const groups = useMemo(() => activityGroups(items), [items]);
+  const filtered = useMemo(
+    () => items.filter((item) => matchesActivityFilter(item, filter)),
+    [items, filter]
+  );
+  const readItem = useCallback((key: string) => markRead([key]), [markRead]);
+  const unreadCount = (activityFilter: ActivityFilter) =>
+    unreadActivity(items, activityFilter);
+
+  const changeFilter = (next: ActivityFilter) => {
+    setFilter(next);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <h2 className="font-bold text-lg">Wallet Activity</h2>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto text-xs"
+          disabled={unreadCount(filter) === 0}
+          onClick={() => markAllRead(filter)}
+        >
+          Mark all read
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-xs"
+          disabled={items.length === 0}
+          onClick={clearHistory}
+        >
+          Clear
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <FilterChip
+          label="All"
+          unread={unreadCount("all")}
+          active={filter === "all"}
+          onClick={() => changeFilter("all")}
+        />
+        <FilterChip
+          label="Wallets"
+          unread={unreadCount("wallets")}
+          active={filter === "wallets"}
+          onClick={() => changeFilter("wallets")}
+        />
+        {groups.map((name) => (
+          <FilterChip
+            key={name}
+            label={name}
+            unread={unreadCount(groupFilter(name))}
+            active={filter === groupFilter(name)}
+            onClick={() => changeFilter(groupFilter(name))}
+          />
+        ))}
+      </div>
+
+      {filtered.length === 0 && (
+        <div className="text-xs text-muted-foreground text-center my-6">
+          {user
+            ? "No swaps yet. New swaps of the wallets you follow show up here."
+            : "Sign in to follow wallets and see their swaps live."}
+        </div>
+      )}
+      <div className="flex flex-col gap-2">
+        {filtered.slice(0, visibleCount).map((item) => (
+          <ActivityFeedItem
+            key={item.key}
+            item={item}
+            onRead={readItem}
+          />
+        ))}
+      </div>
+      {filtered.length > visibleCount && (
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+        >
+          Show more
+        </Button>
+      )}
+    </div>
+  );
+}
 
 export default WalletsNotifications;
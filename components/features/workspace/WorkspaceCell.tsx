@@ -0,0 +1,74 @@
+import React from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { LuX } from "react-icons/lu";
+import { IChartingLibraryWidget } from "@/public/static/charting_library";
+import CompareTokenPicker from "@/components/features/compare/CompareTokenPicker";
+import { WorkspaceToken } from "@/types/workspace.type";
+import { ohlcvSeriesQuery } from "@/utils/ohlcv";
+import { tokenRoute } from "@/utils/routeGenerator";
+import WorkspaceChart from "./WorkspaceChart";
+
+interface Props {
+  token: WorkspaceToken | null;
+  interval: string;
+  theme: "dark" | "light";
+  onChange: (token: WorkspaceToken | null) => void;
+  onChartReady: (widget: IChartingLibraryWidget) => () => void;
+}
+
+function WorkspaceCell({
+  token,
+  interval,
+  theme,
+  onChange,
+  onChartReady,
+}: Props) {
+  // Same query as the chart's datafeed, so the name costs no extra request.
+  const { data, isError } = useQuery({
+    ...ohlcvSeriesQuery(token?.address ?? "", token?.network ?? ""),
+    enabled: !!token,
+  });
+  const meta = data?.meta;
+
+  if (!token) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-3 h-full border border-dashed rounded-lg p-4">
+        <span className="text-sm text-muted-foreground">
+          Pick a token for this chart
+        </span>
+        <CompareTokenPicker disabled={false} onAdd={onChange} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full border rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1 text-xs border-b">
+        <Link
+          href={tokenRoute(token.address, token.network)}
+          className="hover:text-brand truncate"
+        >
+          {meta ? `${meta.base.symbol}/${meta.quote.symbol}` : token.address}
+        </Link>
+        <span className="text-muted-foreground">{token.network}</span>
+        {isError && <span className="text-error">No chart data</span>}
+        <LuX
+          className="ml-auto cursor-pointer shrink-0"
+          aria-label="Clear chart"
+          onClick={() => onChange(null)}
+        />
+      </div>
+      <div className="flex-1 min-h-0">
+        <WorkspaceChart
+          token={token}
+          interval={interval}
+          theme={theme}
+          onReady={onChartReady}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default WorkspaceCell;
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef } from "react";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import {
+  IBasicDataFeed,
+  IChartingLibraryWidget,
+  ResolutionString,
+  widget as TradingViewWidget,
+} from "@/public/static/charting_library";
+import { IOhlcvSeries } from "@/types/datafeed.type";
+import { WorkspaceToken } from "@/types/workspace.type";
+import { openBarStream } from "@/utils/barStream";
+import { createCryptoPriceFormatter } from "@/utils/chartPriceFormat";
+import {
+  aggregateBars,
+  CHART_RESOLUTIONS,
+  createBarAggregator,
+  liveSeedFor,
+  ohlcvSeriesQuery,
+  sourceBarsFor,
+} from "@/utils/ohlcv";
+import { parseWorkspaceTicker, workspaceTicker } from "@/utils/workspace";
+
+const chartResolutions = CHART_RESOLUTIONS as ResolutionString[];
+
+// Bars come from the shared react-query cache, so cells showing the same
+// token, and the token's compare page, load its history once.
+const workspaceDatafeed = (
+  queryClient: QueryClient,
+  streams: Map<string, () => void>
+): IBasicDataFeed => {
+  const history = (ticker: string) => {
+    const token = parseWorkspaceTicker(ticker);
+    return token
+      ? queryClient.fetchQuery(ohlcvSeriesQuery(token.address, token.network))
+      : Promise.reject(new Error(`Unknown symbol ${ticker}`));
+  };
+
+  return {
+    onReady: (callback) => {
+      setTimeout(() => callback({ supported_resolutions: chartResolutions }));
+    },
+
+    resolveSymbol: (ticker, onResolve, onError) => {
+      history(ticker)
+        .then(({ meta }) => {
+          const token = parseWorkspaceTicker(ticker)!;
+          onResolve({
+            name: meta ? `${meta.base.symbol}/${meta.quote.symbol}` : ticker,
+            ticker,
+            description: meta
+              ? `${meta.base.name} / ${meta.quote.name}`
+              : token.address,
+            exchange: token.network.toUpperCase(),
+            listed_exchange: token.network.toUpperCase(),
+            type: "crypto",
+            session: "24x7",
+            timezone: "Etc/UTC",
+            minmov: 1,
+            pricescale: 100000000,
+            format: "price",
+            has_intraday: true,
+            has_daily: true,
+            has_weekly_and_monthly: true,
+            supported_resolutions: chartResolutions,
+          });
+        })
+        .catch((error) => onError(String(error)));
+    },
+
+    getBars: (symbolInfo, resolution, periodParams, onResult, onError) => {
+      history(symbolInfo.ticker ?? symbolInfo.name)
+        .then((series) => {
+          const aggregated = aggregateBars(
+            sourceBarsFor(resolution, series),
+            resolution
+          );
+          const bars = aggregated
+            .filter(
+              (bar) =>
+                bar.time >= periodParams.from && bar.time <= periodParams.to
+            )
+            .map((bar) => ({ ...bar, time: bar.time * 1000 }));
+          const firstBarTime = aggregated[0]?.time;
+          onResult(bars, {
+            noData:
+              bars.length === 0 &&
+              (firstBarTime === undefined || periodParams.to < firstBarTime),
+          });
+        })
+        .catch((error) => onError(String(error)));
+    },
+
+    subscribeBars: (symbolInfo, resolution, onTick, listenerGuid) => {
+      const ticker = symbolInfo.ticker ?? symbolInfo.name;
+      const token = parseWorkspaceTicker(ticker);
+      if (!token) return;
+      const series = queryClient.getQueryData<IOhlcvSeries>(
+        ohlcvSeriesQuery(token.address, token.network).queryKey
+      );
+      const nextBar = createBarAggregator(
+        series ? liveSeedFor(resolution, series) : { bars: [], seconds: 0 },
+        resolution
+      );
+
+      streams.get(listenerGuid)?.();
+      streams.set(
+        listenerGuid,
+        openBarStream({
+          ...token,
+          onBar: (rawBar) => {
+            const bar = nextBar(rawBar);
+            if (bar) onTick({ ...bar, time: bar.time * 1000 });
+          },
+        })
+      );
+    },
+
+    unsubscribeBars: (listenerGuid) => {
+      streams.get(listenerGuid)?.();
+      streams.delete(listenerGuid);
+    },
+
+    searchSymbols: (_input, _exchange, _type, onResult) => onResult([]),
+  };
+};
+
+interface Props {
+  token: WorkspaceToken;
+  interval: string;
+  theme: "dark" | "light";
+  // Called once the chart can be driven through the widget API; the
+  // returned function runs before the widget is removed.
+  onReady: (widget: IChartingLibraryWidget) => () => void;
+}
+
+function WorkspaceChart({ token, interval, theme, onReady }: Props) {
+  const queryClient = useQueryClient();
+  const container = useRef<HTMLDivElement>(null);
+  const chart = useRef<IChartingLibraryWidget>();
+  const ready = useRef(false);
+  const ticker = workspaceTicker(token);
+
+  // The widget is created once per cell; token, interval and theme changes
+  // are applied to it below.
+  useEffect(() => {
+    if (!container.current) return;
+    const streams = new Map<string, () => void>();
+    let release: (() => void) | undefined;
+
+    const tvWidget = new TradingViewWidget({
+      symbol: ticker,
+      interval: interval as ResolutionString,
+      datafeed: workspaceDatafeed(queryClient, streams),
+      container: container.current,
+      library_path: "/static/charting_library/",
+      locale: "en",
+      timezone: "Etc/UTC",
+      theme,
+      autosize: true,
+      disabled_features: [
+        "use_localstorage_for_settings",
+        "header_compare",
+        "header_symbol_search",
+        "header_saveload",
+        "timeframes_toolbar",
+      ],
+      custom_formatters: {
+        priceFormatterFactory: () => createCryptoPriceFormatter(),
+      },
+    });
+    chart.current = tvWidget;
+    tvWidget.onChartReady(() => {
+      ready.current = true;
+      release = onReady(tvWidget);
+    });
+
+    return () => {
+      release?.();
+      ready.current = false;
+      streams.forEach((close) => close());
+      tvWidget.remove();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!ready.current || !chart.current) return;
+    if (chart.current.activeChart().symbol() !== ticker) {
+      chart.current.activeChart().setSymbol(ticker);
+    }
+  }, [ticker]);
+
+  useEffect(() => {
+    if (!ready.current || !chart.current) return;
+    if (chart.current.activeChart().resolution() !== interval) {
+      chart.current
+        .activeChart()
+        .setResolution(interval as ResolutionString);
+    }
+  }, [interval]);
+
+  useEffect(() => {
+    if (ready.current) chart.current?.changeTheme(theme);
+  }, [theme]);
+
+  return <div ref={container} className="h-full w-full" />;
+}
+
+export default WorkspaceChart;
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useState } from "react";
+import { useTheme } from "next-themes";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import useWorkspaceLayout from "@/hooks/Workspace";
+import { WorkspaceLayout } from "@/types/workspace.type";
+import { createChartSync } from "@/utils/chartSync";
+import { WORKSPACE_GRIDS, workspaceGrid } from "@/utils/workspace";
+import WorkspaceCell from "./WorkspaceCell";
+
+const SYNC_OPTIONS: {
+  key: keyof Pick<
+    WorkspaceLayout,
+    "syncSymbol" | "syncInterval" | "syncCrosshair"
+  >;
+  label: string;
+}[] = [
+  { key: "syncSymbol", label: "Sync symbol" },
+  { key: "syncInterval", label: "Sync interval" },
+  { key: "syncCrosshair", label: "Sync crosshair & time" },
+];
+
+function WorkspacePage() {
+  const { theme } = useTheme();
+  const { layout, getLayout, updateLayout, setCell } = useWorkspaceLayout();
+  const grid = workspaceGrid(layout.grid);
+
+  const [chartSync] = useState(() =>
+    createChartSync({
+      getOptions: () => {
+        const { syncInterval, syncCrosshair } = getLayout();
+        return { interval: syncInterval, crosshair: syncCrosshair };
+      },
+      // Unsynced charts keep their own interval.
+      onIntervalChange: (interval) => {
+        if (getLayout().syncInterval) updateLayout({ interval });
+      },
+    })
+  );
+
+  const toggleSync = (key: (typeof SYNC_OPTIONS)[number]["key"]) => {
+    const enabled = !layout[key];
+    updateLayout({ [key]: enabled });
+    if (key === "syncCrosshair" && !enabled) {
+      chartSync.clearCrosshairs();
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 w-full mt-4">
+      <div className="flex items-center gap-4 flex-wrap border rounded-lg p-3">
+        <div className="flex gap-1">
+          {WORKSPACE_GRIDS.map((option) => (
+            <Button
+              key={option.value}
+              size="sm"
+              variant={option.value === grid.value ? "default" : "outline"}
+              onClick={() => updateLayout({ grid: option.value })}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        {SYNC_OPTIONS.map((option) => (
+          <label key={option.key} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={layout[option.key]}
+              onCheckedChange={() => toggleSync(option.key)}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      <div
+        className={`grid grid-cols-1 gap-2 ${
+          grid.columns === 3 ? "md:grid-cols-3" : "md:grid-cols-2"
+        }`}
+      >
+        {layout.cells.slice(0, grid.cells).map((token, index) => (
+          <div
+            key={index}
+            className={grid.cells === 2 ? "h-[600px]" : "h-[420px]"}
+          >
+            <WorkspaceCell
+              token={token}
+              interval={layout.interval}
+              theme={theme === "light" ? "light" : "dark"}
+              onChange={(next) => setCell(index, next)}
+              onChartReady={(widget) =>
+                chartSync.register(index, widget)
+              }
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default WorkspacePage;
@@ -15,6 +15,9 @@ import NetworkSelector from "./NetworkSelector";
 import useNotification from "@/hooks/Notification";
 import useUserStore from "@/store/User";
 import NewsDrawer from "../features/header/news-drawer";
+import TransactionsDrawer from "../features/header/transactions-drawer";
+import CopyTradeDrawer from "../features/header/copy-trade-drawer";
+import ActivityDrawer from "../features/header/activity-drawer";
 
 
 const Logo = dynamic(() => import("../common/Logo"), {
@@ -34,7 +37,7 @@ interface Props {
 
 
 export default function Header({ className }: Props) {
-  const { walletList, groupMessages } = useNotification();
+  useNotification();
 
   const user = useUserStore((state) => state.user);
 
@@ -114,6 +117,9 @@ export default function Header({ className }: Props) {
                   <p className="h-0 w-0 invisible">Robots</p>
                 </Link>
               </Button>
+              <TransactionsDrawer />
+              <CopyTradeDrawer />
+              <ActivityDrawer />
               <NewsDrawer />
             </div>
           </div>
@@ -157,6 +163,9 @@ export default function Header({ className }: Props) {
               <p className="h-0 w-0 invisible">Robots</p>
             </Link>
 
+            <TransactionsDrawer />
+            <CopyTradeDrawer />
+            <ActivityDrawer />
             <NewsDrawer />
           </div>
         </div>
@@ -25,6 +25,7 @@ import { ReactNode, useState } from "react";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { DataTablePagination } from "./pagination";
 import { DataTableToolbarOld } from "./data-table-toolbarOld";
+import { DataTableExport } from "./data-table-export";
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
@@ -32,6 +33,8 @@ interface DataTableProps<TData, TValue> {
   searchColumnAccessorKey?: string;
   children?: ReactNode;
   disablePagination?: boolean;
+  exportFileName?: string;
+  disableExport?: boolean;
 }
 
 export function ClientSideSmartTable<TData, TValue>({
@@ -40,6 +43,8 @@ export function ClientSideSmartTable<TData, TValue>({
   searchColumnAccessorKey,
   children,
   disablePagination = false,
+  exportFileName = "table",
+  disableExport = false,
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
@@ -77,14 +82,23 @@ export function ClientSideSmartTable<TData, TValue>({
       : { getPaginationRowModel: getPaginationRowModel() }),
   });
 
+  const exportAction = disableExport ? null : (
+    <DataTableExport table={table} fileName={exportFileName} />
+  );
+
   return (
     <div className="space-y-4 w-full relative">
-      {searchColumnAccessorKey && <DataTableToolbarOld
-        table={table}
-        searchColumnAccessorKey={searchColumnAccessorKey}
-      >
-        {children}
-      </DataTableToolbarOld>}
+      {searchColumnAccessorKey ? (
+        <DataTableToolbarOld
+          table={table}
+          searchColumnAccessorKey={searchColumnAccessorKey}
+          exportAction={exportAction}
+        >
+          {children}
+        </DataTableToolbarOld>
+      ) : (
+        exportAction && <div className="flex justify-end">{exportAction}</div>
+      )}
       <div className="rounded-md">
         <ScrollArea className="w-full rounded-md pb-4">
           <ScrollBar orientation="horizontal" />
@@ -93,6 +93,18 @@ const FilterDialog = ({
     }))
   );
 
+  // Filters can change outside the dialog (URL, presets), so start each
+  // edit from the current values.
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setTempFilters(
+      filters.map((filter) => ({
+        ...filter,
+        state: filter.state,
+      }))
+    );
+  };
+
   const handleRangeChange = (index: number, newValue: [number, number]) => {
     const updatedFilters = [...tempFilters];
     (updatedFilters[index] as RangeFilter).state = newValue;
@@ -170,7 +182,7 @@ const FilterDialog = ({
   };
 
   return (
-    <Dialog>
+    <Dialog onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button
           variant="outline"
@@ -0,0 +1,172 @@
+import React, { useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { toast } from "react-toastify";
+import clsx from "clsx";
+import { LuBookmark, LuCheck, LuLink, LuPlus, LuX } from "react-icons/lu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import useFilterPresets from "@/hooks/FilterPresets";
+import { BuiltInFilterPreset, FilterValues } from "@/types/filter-preset.type";
+import { sameFilterValues } from "@/utils/filterPresets";
+import { readQueryParams, writeQueryParams } from "@/utils/queryState";
+import { stopPropagation } from "@/utils/stopPropagation";
+
+interface Props {
+  scope: string;
+  // Query params that make up the view; applying a preset resets the rest.
+  params: string[];
+  builtInPresets?: BuiltInFilterPreset[];
+}
+
+const FilterPresets = ({ scope, params, builtInPresets = [] }: Props) => {
+  const searchParams = useSearchParams();
+  const { presets, savePreset, removePreset } = useFilterPresets(scope);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+
+  const current: FilterValues = Object.fromEntries(
+    params
+      .map((param) => [param, searchParams.get(param)] as const)
+      .filter((entry): entry is [string, string] => entry[1] !== null)
+  );
+
+  const applyPreset = (values: FilterValues) =>
+    writeQueryParams({
+      ...Object.fromEntries(params.map((param) => [param, undefined])),
+      ...values,
+    });
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Error copying link:", error);
+      toast.error("Couldn't copy the link.");
+    }
+  };
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSaving(false);
+    setName("");
+    await savePreset(trimmed, readQueryParams(params));
+    toast.success(`Saved "${trimmed}"`);
+  };
+
+  const presetItem = (
+    preset: { id: string; name: string; values: FilterValues },
+    removable: boolean
+  ) => (
+    <DropdownMenuItem
+      key={preset.id}
+      className="flex items-center gap-2"
+      onClick={() => applyPreset(preset.values)}
+    >
+      <LuCheck
+        className={clsx("h-4 w-4", {
+          invisible: !sameFilterValues(preset.values, current),
+        })}
+      />
+      <span className="flex-1 truncate">{preset.name}</span>
+      {removable && (
+        <button
+          aria-label={`Delete ${preset.name}`}
+          className="text-muted-foreground hover:text-foreground"
+          onClick={(e) => {
+            stopPropagation(e);
+            removePreset(preset.id);
+          }}
+        >
+          <LuX className="h-4 w-4" />
+        </button>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="flex items-center gap-1">
+            <LuBookmark />
+            <span>Presets</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-60">
+          {builtInPresets.length > 0 && (
+            <>
+              <DropdownMenuLabel>Built-in</DropdownMenuLabel>
+              {builtInPresets.map((preset) => presetItem(preset, false))}
+            </>
+          )}
+          {presets.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>My presets</DropdownMenuLabel>
+              {presets.map((preset) => presetItem(preset, true))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="flex items-center gap-2"
+            disabled={Object.keys(current).length === 0}
+            onClick={() => setSaving(true)}
+          >
+            <LuPlus className="h-4 w-4" />
+            Save current filters…
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="flex items-center gap-2"
+            onClick={copyLink}
+          >
+            <LuLink className="h-4 w-4" />
+            Copy link
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={saving} onOpenChange={setSaving}>
+        <DialogContent className="max-w-sm">
+          <DialogTitle>Save preset</DialogTitle>
+          <DialogDescription>
+            Saves the current filters and sorting under a name.
+          </DialogDescription>
+          <Input
+            autoFocus
+            placeholder="Preset name"
+            value={name}
+            maxLength={40}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setSaving(false)}>
+              Cancel
+            </Button>
+            <Button disabled={!name.trim()} onClick={handleSave}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default FilterPresets;
@@ -30,6 +30,8 @@ import { ReactNode } from "react";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import TableLoading from "@/components/layout/Table-loading";
 import { ServerDataTableToolbar } from "./server-side-data-table-toolbar";
+import { DataTableExport } from "./data-table-export";
+import { TableRowsFetcher } from "@/types/table.type";
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
@@ -37,12 +39,20 @@ interface DataTableProps<TData, TValue> {
   children?: ReactNode;
   pageCount?: number;
   page?: number;
+  pageSize?: number;
   setPage?: (page: number) => void;
   setPageSize?: (pageSize: number) => void;
+  // When given, sorting is left to the server.
+  sorting?: SortingState;
+  setSorting?: (sorting: SortingState) => void;
   setSearchValue?: (value: string) => void;
   loading: boolean;
   columnVisibilityState?: VisibilityState;
   searchValue?: string;
+  exportFileName?: string;
+  disableExport?: boolean;
+  // Lets "All pages" exports walk every page instead of the loaded one.
+  fetchAllRows?: TableRowsFetcher<TData>;
 }
 
 export function ServerSideSmartTable<TData, TValue>({
@@ -52,13 +62,19 @@ export function ServerSideSmartTable<TData, TValue>({
   children,
   pageCount,
   page,
+  pageSize = 10,
   setPage,
   setPageSize,
+  sorting: serverSorting,
+  setSorting: setServerSorting,
   setSearchValue,
   searchValue,
   loading,
+  exportFileName = "table",
+  disableExport = false,
+  fetchAllRows,
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = useState<SortingState>([]);
+  const [localSorting, setLocalSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
   const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
 
@@ -75,7 +91,7 @@ export function ServerSideSmartTable<TData, TValue>({
     if (page && setPageSize && setPage) {
       const newState =
         typeof updater === "function"
-          ? updater({ pageIndex: page - 1, pageSize: 10 })
+          ? updater({ pageIndex: page - 1, pageSize })
           : updater;
       setPage(newState.pageIndex + 1);
       
@@ -83,11 +99,19 @@ export function ServerSideSmartTable<TData, TValue>({
     }
   };
 
+  const sorting = serverSorting ?? localSorting;
+  const handleSortingChange = (updater: Updater<SortingState>) => {
+    const newState = typeof updater === "function" ? updater(sorting) : updater;
+    if (setServerSorting) setServerSorting(newState);
+    else setLocalSorting(newState);
+  };
+
   const table = useReactTable({
     data,
     columns,
     pageCount,
     manualPagination: true,
+    manualSorting: !!setServerSorting,
     state: {
       sorting,
       columnVisibility,
@@ -95,13 +119,13 @@ export function ServerSideSmartTable<TData, TValue>({
       columnFilters,
       pagination: {
         pageIndex: page ? page - 1 : 1,
-        pageSize: 10,
+        pageSize,
       },
     },
     enableSorting: true,
     enableRowSelection: true,
     onRowSelectionChange: setRowSelection,
-    onSortingChange: setSorting,
+    onSortingChange: handleSortingChange,
     onColumnFiltersChange: setColumnFilters,
     onColumnVisibilityChange: setColumnVisibility,
     getCoreRowModel: getCoreRowModel(),
@@ -113,15 +137,28 @@ export function ServerSideSmartTable<TData, TValue>({
     onPaginationChange: handlePaginationChange,
   });
 
+  const exportAction = disableExport ? null : (
+    <DataTableExport
+      table={table}
+      fileName={exportFileName}
+      fetchAllRows={fetchAllRows}
+    />
+  );
+
   return (
     <div className="space-y-4 w-full">
-      {setSearchValue && <ServerDataTableToolbar
-        table={table}
-        searchValue={searchValue ?? ""}
-        setSearchValue={setSearchValue}
-      >
-        {children}
-      </ServerDataTableToolbar>}
+      {setSearchValue ? (
+        <ServerDataTableToolbar
+          table={table}
+          searchValue={searchValue ?? ""}
+          setSearchValue={setSearchValue}
+          exportAction={exportAction}
+        >
+          {children}
+        </ServerDataTableToolbar>
+      ) : (
+        exportAction && <div className="flex justify-end">{exportAction}</div>
+      )}
       <div className="rounded-md">
         <ScrollArea className="w-full rounded-md pb-4">
           <ScrollBar orientation="horizontal" />
@@ -186,7 +223,7 @@ export function ServerSideSmartTable<TData, TValue>({
           </div>
         </ScrollArea>
       </div>
-      {page && setPageSize && setPage && <DataTablePagination pageCount={pageCount} table={table} />}
+      {page && setPageSize && setPage && <DataTablePagination table={table} />}
     </div>
   );
 }
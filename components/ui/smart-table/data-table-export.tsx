@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Table } from "@tanstack/react-table";
+import { toast } from "react-toastify";
+import { LuDownload } from "react-icons/lu";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import useUserStore from "@/store/User";
+import {
+  TableExportFormat,
+  TableExportScope,
+  TableRowsFetcher,
+} from "@/types/table.type";
+import {
+  downloadTable,
+  exportColumns,
+  exportMatrix,
+} from "@/utils/tableExport";
+
+interface DataTableExportProps<TData> {
+  table: Table<TData>;
+  fileName: string;
+  // Server-side tables pass their fetcher so "All pages" isn't just the page
+  // in memory.
+  fetchAllRows?: TableRowsFetcher<TData>;
+}
+
+const FORMATS: { value: TableExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+];
+
+export function DataTableExport<TData>({
+  table,
+  fileName,
+  fetchAllRows,
+}: DataTableExportProps<TData>) {
+  const hasLicense = useUserStore((state) => !!state.hasLicense);
+  const [exportedRows, setExportedRows] = useState<number | null>(null);
+
+  const collectRows = async (scope: TableExportScope) => {
+    if (scope === "page") {
+      return table.getRowModel().rows.map((row) => row.original);
+    }
+    if (!fetchAllRows) {
+      return table.getPrePaginationRowModel().rows.map((row) => row.original);
+    }
+    const rows: TData[] = [];
+    setExportedRows(0);
+    for await (const page of fetchAllRows()) {
+      rows.push(...page);
+      setExportedRows(rows.length);
+    }
+    return rows;
+  };
+
+  const exportTable = async (
+    scope: TableExportScope,
+    format: TableExportFormat
+  ) => {
+    try {
+      const rows = await collectRows(scope);
+      const columns = exportColumns(table, hasLicense);
+      downloadTable(exportMatrix(columns, rows), fileName, format);
+    } catch (error) {
+      console.error("Error exporting table:", error);
+      toast.error("Export failed, please try again.");
+    } finally {
+      setExportedRows(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          disabled={exportedRows !== null}
+        >
+          <LuDownload className="mr-2 h-4 w-4" />
+          {exportedRows !== null ? `${exportedRows} rows…` : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(["page", "all"] as TableExportScope[]).map((scope) => (
+          <div key={scope}>
+            {scope === "all" && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>
+              {scope === "page" ? "Current page" : "All pages"}
+            </DropdownMenuLabel>
+            {FORMATS.map((format) => (
+              <DropdownMenuItem
+                key={format.value}
+                onClick={() => exportTable(scope, format.value)}
+              >
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+        {!hasLicense &&
+          table.getVisibleLeafColumns().some(
+            (column) => (column.columnDef as { lock?: boolean }).lock
+          ) && (
+            <p className="px-2 py-1 text-xs text-muted-foreground">
+              Locked columns need a license.
+            </p>
+          )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -11,12 +11,14 @@ interface DataTableToolbarProps<TData> {
   table: Table<TData>
   searchColumnAccessorKey: string
   children: ReactNode
+  exportAction?: ReactNode
 }
 
 export function DataTableToolbarOld<TData>({
   table,
   searchColumnAccessorKey,
-  children
+  children,
+  exportAction
 }: DataTableToolbarProps<TData>) {
   const isFiltered = table.getState().columnFilters.length > 0
 
@@ -61,7 +63,10 @@ export function DataTableToolbarOld<TData>({
           </Button>
         )}
       </div>
-      <DataTableViewOptions table={table} />
+      <div className="flex items-center gap-2">
+        {exportAction}
+        <DataTableViewOptions table={table} />
+      </div>
     </div>
   )
 }
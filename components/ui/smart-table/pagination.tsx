@@ -9,22 +9,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Table } from "@tanstack/react-table";
-import { useEffect, useState } from "react";
 
 interface DataTablePaginationProps<TData> {
   table: Table<TData>;
-  pageCount?: number
 }
 
 export function DataTablePagination<TData>({
   table,
-  pageCount
 }: DataTablePaginationProps<TData>) {
-  const [pageSize, setPageSize] = useState(pageCount ?? 10);
-
-  useEffect(() => {
-    setPageSize(pageCount ?? 10);
-  }, [pageCount]);
+  const pageSize = table.getState().pagination.pageSize;
 
   return (
     <div className="flex items-center justify-between px-2 mt-auto">
@@ -12,13 +12,15 @@ interface DataTableToolbarProps<TData> {
   setSearchValue: (value: string) => void
   searchValue?: string
   children: ReactNode
+  exportAction?: ReactNode
 }
 
 export function ServerDataTableToolbar<TData>({
   table,
   setSearchValue,
   searchValue,
-  children
+  children,
+  exportAction
 }: DataTableToolbarProps<TData>) {
   const isFiltered = table.getState().columnFilters.length > 0
   const [inputValue, setInputValue] = useState<string>(searchValue ?? "");
@@ -72,7 +74,10 @@ export function ServerDataTableToolbar<TData>({
           </Button>
         )}
       </div>
-      <DataTableViewOptions table={table} />
+      <div className="flex items-center gap-2">
+        {exportAction}
+        <DataTableViewOptions table={table} />
+      </div>
     </div>
   )
 }
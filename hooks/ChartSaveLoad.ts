@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useCookie } from "react-use";
+import useUserStore from "@/store/User";
+import { ChartStorage } from "@/types/chart-storage.type";
+import { localChartStorage, remoteChartStorage } from "@/utils/chartSaveLoad";
+
+// Chart layouts and templates live on the account when signed in and in
+// this browser otherwise. `getStorage` is stable so a widget created once
+// follows the user signing in or out.
+const useChartStorage = () => {
+  const [token] = useCookie("_DEX_TRADING_TOKN");
+  const user = useUserStore((state) => state.user);
+  const owner = user ? String(user.id) : "guest";
+  const storage = useRef<ChartStorage>(localChartStorage);
+
+  useEffect(() => {
+    storage.current =
+      user && token ? remoteChartStorage(token) : localChartStorage;
+  }, [user, token]);
+
+  const getStorage = useCallback(() => storage.current, []);
+
+  return { owner, getStorage };
+};
+
+export default useChartStorage;
@@ -0,0 +1,201 @@
+import { useCallback } from "react";
+import { parseUnits } from "viem";
+import { useAccount } from "wagmi";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { toast } from "react-toastify";
+import useCopyTradeStore from "@/store/copyTrade";
+import useBurnerSessionStore from "@/store/copyTrade/burnerSession";
+import { ActivityItem } from "@/types/activity-feed.type";
+import { CopyTradeRule, CopyTradeSignal } from "@/types/copy-trade.type";
+import {
+  copyTradeAmount,
+  copyTradeOrder,
+  copyTradeRejection,
+  copyTradeValueRejection,
+  leaderUnitPriceUsd,
+  parseCopySignal,
+  sameWallet,
+} from "@/utils/copyTrade";
+import {
+  burnerAddress,
+  executeBurnerOrder,
+  tokenDecimals,
+} from "@/utils/burnerWallet";
+import { getQuotes, getTokenBalances } from "@/utils/okx";
+import { nativeTokenAddress } from "@/utils/paperTrading";
+import { trackTransaction } from "./TransactionTracker";
+
+const walletTokenBalance = async (
+  owner: string,
+  chainId: string,
+  tokenAddress: string
+) => {
+  const response = await getTokenBalances({ address: owner, chains: chainId });
+  // OKX reports the gas token with an empty address.
+  const address =
+    tokenAddress === nativeTokenAddress(chainId) ? "" : tokenAddress;
+  const asset = response.data?.[0]?.tokenAssets.find(
+    (asset) => asset.tokenAddress.toLowerCase() === address.toLowerCase()
+  );
+  return asset ? +asset.balance : 0;
+};
+
+// OKX's USD price of one `fromTokenAddress`, quoted for swapping `amount`
+// of it into `toTokenAddress`.
+const swapUnitPriceUsd = async (
+  chainId: string,
+  fromTokenAddress: string,
+  toTokenAddress: string,
+  amount: string
+) => {
+  const decimals = await tokenDecimals(chainId, fromTokenAddress);
+  const response = await getQuotes({
+    chainId,
+    amount: parseUnits(amount, decimals).toString(),
+    fromTokenAddress,
+    toTokenAddress,
+  });
+  return Number(response.data?.[0]?.fromToken.tokenUnitPrice ?? 0);
+};
+
+/**
+ * Returns a handler that turns new swaps of followed wallets into copy-trade
+ * orders. Orders wait for the user to confirm them in the swap form unless the
+ * rule auto-confirms and a burner wallet can sign for the chain.
+ */
+const useCopyTradeMirror = () => {
+  const { address } = useAccount();
+  const { publicKey } = useWallet();
+  const { connection } = useConnection();
+  const addOrder = useCopyTradeStore((state) => state.addOrder);
+  const updateOrder = useCopyTradeStore((state) => state.updateOrder);
+
+  const mirrorSignal = useCallback(
+    async (signal: CopyTradeSignal, rule: CopyTradeRule) => {
+      // A locked burner can't sign, so its orders wait for review.
+      const burner = useBurnerSessionStore.getState().keys;
+      const burnerOwner = rule.autoConfirm
+        ? burnerAddress(burner, signal.chainId)
+        : undefined;
+      const owner =
+        burnerOwner ??
+        (signal.chainId === "501" ? publicKey?.toString() : address);
+
+      let rejection = copyTradeRejection(rule, signal);
+      const native = nativeTokenAddress(signal.chainId);
+      let amount = 0;
+      try {
+        const balance =
+          !rejection && rule.sizing.type === "wallet-percent" && owner
+            ? await walletTokenBalance(
+                owner,
+                signal.chainId,
+                signal.side === "buy" ? native : signal.tokenAddress
+              )
+            : undefined;
+        // Buys spend the gas token, whatever the leader paid with.
+        const fromPriceUsd =
+          rejection || rule.sizing.type === "wallet-percent"
+            ? 0
+            : signal.side === "buy"
+            ? await swapUnitPriceUsd(
+                signal.chainId,
+                native,
+                signal.tokenAddress,
+                "1"
+              )
+            : leaderUnitPriceUsd(signal);
+        amount = copyTradeAmount(rule.sizing, signal, {
+          fromPriceUsd,
+          balance,
+        });
+      } catch (error) {
+        console.error("Error sizing copy trade:", error);
+      }
+      if (!rejection && !(amount > 0)) {
+        rejection =
+          rule.sizing.type === "wallet-percent" && !owner
+            ? "Connect a wallet to size by balance"
+            : "Copy size is zero";
+      }
+
+      const order = copyTradeOrder(signal, rule, amount);
+      // Checked against a fresh quote before anything is signed, so a
+      // sizing mistake can't spend far more than the rule allows.
+      if (!rejection && order.valueUsd !== undefined) {
+        try {
+          const unitPrice = await swapUnitPriceUsd(
+            order.chainId,
+            order.fromTokenAddress,
+            order.toTokenAddress,
+            order.fromAmount
+          );
+          rejection = copyTradeValueRejection(
+            order,
+            unitPrice * +order.fromAmount
+          );
+        } catch (error) {
+          console.error("Error pricing copy trade:", error);
+          rejection = "Could not price the copy trade";
+        }
+      }
+      if (rejection) {
+        addOrder({ ...order, status: "skipped", reason: rejection });
+        return;
+      }
+      addOrder(order);
+
+      if (!burnerOwner) {
+        toast.info(
+          `Copy trade ready: ${order.side} ${order.tokenSymbol} after ${rule.label}`
+        );
+        return;
+      }
+
+      try {
+        const txHash = await executeBurnerOrder(burner, order, connection);
+        updateOrder(order.id, { status: "confirmed", txHash });
+        trackTransaction({
+          hash: txHash,
+          chainId: order.chainId,
+          walletType: order.chainId === "501" ? "solana" : "evm",
+          kind: "swap",
+          description: `Copy ${order.side} ${order.tokenSymbol}`,
+        });
+      } catch (error: any) {
+        updateOrder(order.id, {
+          status: "failed",
+          reason: error.shortMessage || error.message || "Unknown error",
+        });
+        toast.error(`Copy trade of ${order.tokenSymbol} failed`);
+      }
+    },
+    [address, publicKey, connection, addOrder, updateOrder]
+  );
+
+  return useCallback(
+    (items: ActivityItem[]) => {
+      const { rules, seenMessages, markSeen } = useCopyTradeStore.getState();
+      const incoming = items.filter((item) => !seenMessages.includes(item.key));
+      if (incoming.length === 0) return;
+      markSeen(incoming.map((item) => item.key));
+
+      incoming.forEach(({ key, message }) => {
+        const signal = parseCopySignal(key, message);
+        if (!signal) return;
+        const rule = rules.find(
+          (rule) =>
+            rule.enabled &&
+            sameWallet(rule.walletAddress, signal.walletAddress)
+        );
+        // The message feed starts with history; only copy what happened
+        // after the rule was switched on.
+        if (!rule || signal.tradedAt < rule.createdAt) return;
+        mirrorSignal(signal, rule);
+      });
+    },
+    [mirrorSignal]
+  );
+};
+
+export default useCopyTradeMirror;
@@ -0,0 +1,93 @@
+import { useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useCookie } from "react-use";
+import { toast } from "react-toastify";
+import { v4 as uuidv4 } from "uuid";
+import useFilterPresetsStore from "@/store/filterPresets";
+import useUserStore from "@/store/User";
+import {
+  listFilterPresets,
+  removeFilterPreset,
+  saveFilterPreset,
+} from "@/services/http/filter-presets.http";
+import { FilterPreset, FilterValues } from "@/types/filter-preset.type";
+
+// Presets are kept per user on this device and, when signed in, mirrored to
+// the account so they follow the user to other devices.
+const useFilterPresets = (scope: string) => {
+  const [token] = useCookie("_DEX_TRADING_TOKN");
+  const user = useUserStore((state) => state.user);
+  const owner = user ? String(user.id) : "guest";
+  const signedIn = !!user && !!token;
+  const allPresets = useFilterPresetsStore((state) => state.presets);
+
+  const presets = useMemo(
+    () =>
+      allPresets
+        .filter((preset) => preset.owner === owner && preset.scope === scope)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [allPresets, owner, scope]
+  );
+
+  const { data: remotePresets } = useQuery({
+    queryKey: ["filterPresets", scope, owner],
+    queryFn: () =>
+      listFilterPresets(token as string, scope).then(
+        (response) => response.data.presets ?? []
+      ),
+    enabled: signedIn,
+  });
+
+  // Presets whose upload failed before are sent again.
+  useEffect(() => {
+    if (!remotePresets) return;
+    const store = useFilterPresetsStore.getState();
+    store.syncPresets(owner, scope, remotePresets);
+    useFilterPresetsStore
+      .getState()
+      .presets.filter(
+        (preset) =>
+          preset.owner === owner && preset.scope === scope && !preset.synced
+      )
+      .forEach((preset) =>
+        saveFilterPreset(token as string, preset)
+          .then(() => store.markSynced(preset.id))
+          .catch((error) => console.error("Error saving filter preset:", error))
+      );
+  }, [remotePresets, owner, scope, token]);
+
+  const savePreset = async (name: string, values: FilterValues) => {
+    const preset: FilterPreset = {
+      id: uuidv4(),
+      name,
+      scope,
+      values,
+      owner,
+      createdAt: Date.now(),
+    };
+    useFilterPresetsStore.getState().savePreset(preset);
+    if (!signedIn) return;
+    try {
+      await saveFilterPreset(token as string, preset);
+      useFilterPresetsStore.getState().markSynced(preset.id);
+    } catch (error) {
+      console.error("Error saving filter preset:", error);
+      toast.error("Couldn't sync the preset to your account.");
+    }
+  };
+
+  const removePreset = async (id: string) => {
+    useFilterPresetsStore.getState().removePreset(id);
+    if (!signedIn) return;
+    try {
+      await removeFilterPreset(token as string, id);
+    } catch (error) {
+      console.error("Error removing filter preset:", error);
+      toast.error("Couldn't remove the preset from your account.");
+    }
+  };
+
+  return { presets, savePreset, removePreset };
+};
+
+export default useFilterPresets;
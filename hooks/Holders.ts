@@ -0,0 +1,63 @@
+import { useQueries, useQuery } from "@tanstack/react-query";
+import {
+  getTokenHolderStats,
+  getTopHolders,
+} from "@/services/http/holders.http";
+import {
+  HOLDER_SAMPLE_SIZE,
+  holderOverlap,
+  normalizeHolders,
+  overlapIntersections,
+} from "@/utils/holders";
+import { OverlapToken } from "@/types/holders.type";
+import formatDate from "@/utils/date";
+
+const topHoldersQuery = (tokenAddress: string, network: string) => ({
+  queryKey: ["topHolders", tokenAddress, network],
+  queryFn: () =>
+    getTopHolders({
+      params: {
+        network,
+        token: tokenAddress,
+        till: formatDate(new Date(), "dash"),
+        limit: HOLDER_SAMPLE_SIZE,
+      },
+    }),
+  select: normalizeHolders,
+  enabled: !!tokenAddress && !!network,
+});
+
+// Shared by the stats pie and the concentration panel so the holder tab makes
+// a single top-holders request.
+export const useTopHolders = (tokenAddress: string, network: string) =>
+  useQuery(topHoldersQuery(tokenAddress, network));
+
+// Reuses the top-holders cache, so the token being viewed costs nothing extra.
+export const useHolderOverlap = (tokens: OverlapToken[]) =>
+  useQueries({
+    queries: tokens.map((token) =>
+      topHoldersQuery(token.address, token.network)
+    ),
+    combine: (results) => {
+      const wallets = holderOverlap(results.map((result) => result.data ?? []));
+      return {
+        wallets,
+        intersections: overlapIntersections(wallets),
+        holderCounts: results.map((result) => result.data?.length ?? 0),
+        isLoading: results.some((result) => result.isLoading),
+        error: results.find((result) => result.error)?.error,
+      };
+    },
+  });
+
+export const useHolderCount = (tokenAddress: string, network: string) =>
+  useQuery({
+    queryKey: ["tokenHolderStats", tokenAddress, network],
+    queryFn: () =>
+      getTokenHolderStats({ params: { network, token: tokenAddress } }),
+    select: (response) => {
+      const count = Number(response.date3?.[0]?.count);
+      return Number.isFinite(count) ? count : undefined;
+    },
+    enabled: !!tokenAddress && !!network,
+  });
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useAccount, useSendTransaction, useSwitchChain } from "wagmi";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { parseUnits } from "viem";
+import { toast } from "react-toastify";
+import useLimitOrdersStore from "@/store/limitOrders";
+import useTransactionsStore from "@/store/transactions";
+import { LimitOrder } from "@/types/limit-order.type";
+import { swapRequest } from "@/utils/okx";
+import {
+  QuoteSource,
+  defaultQuoteSource,
+  fetchOrderPrice,
+  isTargetHit,
+  settledOrderChanges,
+} from "@/utils/limitOrders";
+import { decodeSwapTransaction } from "@/utils/solanaSwap";
+import { trackTransaction } from "./TransactionTracker";
+
+const POLL_INTERVAL = 15000;
+
+const useLimitOrderWatcher = ({
+  quoteSource = defaultQuoteSource,
+  interval = POLL_INTERVAL,
+}: {
+  quoteSource?: QuoteSource;
+  interval?: number;
+} = {}) => {
+  const { address, chainId } = useAccount();
+  const { sendTransactionAsync } = useSendTransaction();
+  const { switchChainAsync } = useSwitchChain();
+  const { connection } = useConnection();
+  const { publicKey, sendTransaction: sendSolanaTransaction } = useWallet();
+  const updateOrder = useLimitOrdersStore((state) => state.updateOrder);
+  const expireOrders = useLimitOrdersStore((state) => state.expireOrders);
+  const inFlight = useRef(new Set<string>());
+
+  const isWalletConnected = useCallback(
+    (order: LimitOrder) =>
+      order.walletType === "evm"
+        ? address?.toLowerCase() === order.walletAddress.toLowerCase()
+        : publicKey?.toString() === order.walletAddress,
+    [address, publicKey]
+  );
+
+  const executeOrder = useCallback(
+    async (order: LimitOrder) => {
+      const swapQuote = await swapRequest({
+        chainId: order.chainId,
+        fromTokenAddress: order.fromToken.tokenContractAddress,
+        toTokenAddress: order.toToken.tokenContractAddress,
+        amount: parseUnits(
+          order.fromAmount,
+          +order.fromToken.decimals
+        ).toString(),
+        userWalletAddress: order.walletAddress,
+        slippage: order.slippage,
+      });
+      const swapData = swapQuote.data?.[0];
+      if (!swapData) {
+        throw new Error(swapQuote.msg || "Failed to get swap data");
+      }
+
+      const description = `Limit order ${order.fromToken.tokenSymbol} → ${order.toToken.tokenSymbol}`;
+
+      if (order.walletType === "evm") {
+        // The calldata was quoted for the order's chain, which the wallet
+        // may have left since the order was placed.
+        const orderChainId = +order.chainId;
+        if (chainId !== orderChainId) {
+          await switchChainAsync({ chainId: orderChainId });
+        }
+        const txHash = await sendTransactionAsync({
+          chainId: orderChainId,
+          to: swapData.tx.to,
+          data: swapData.tx.data,
+          value: BigInt(swapData.tx.value || "0"),
+        });
+        trackTransaction({
+          hash: txHash,
+          chainId: order.chainId,
+          walletType: "evm",
+          kind: "swap",
+          description,
+        });
+        return txHash;
+      }
+
+      if (!publicKey) throw new Error("Solana wallet is not connected");
+      const recentBlockHash = await connection.getLatestBlockhash();
+      const tx = decodeSwapTransaction(
+        swapData.tx?.data || swapData.data,
+        recentBlockHash.blockhash,
+        publicKey
+      );
+      const signature = await sendSolanaTransaction(tx, connection, {
+        preflightCommitment: "confirmed",
+        maxRetries: 3,
+      });
+      trackTransaction({
+        hash: signature,
+        chainId: order.chainId,
+        walletType: "solana",
+        kind: "swap",
+        description,
+        lastValidBlockHeight: recentBlockHash.lastValidBlockHeight,
+      });
+      return signature;
+    },
+    [
+      chainId,
+      connection,
+      publicKey,
+      sendSolanaTransaction,
+      sendTransactionAsync,
+      switchChainAsync,
+    ]
+  );
+
+  const checkOrder = useCallback(
+    async (order: LimitOrder) => {
+      inFlight.current.add(order.id);
+      try {
+        const price = await fetchOrderPrice(order, quoteSource);
+        updateOrder(order.id, { lastPrice: price, lastCheckedAt: Date.now() });
+        if (!isTargetHit(order, price)) return;
+
+        updateOrder(order.id, { status: "triggered" });
+        toast.info(
+          `Limit order hit: ${order.fromToken.tokenSymbol} → ${order.toToken.tokenSymbol}, confirm it in your wallet`
+        );
+        try {
+          const txHash = await executeOrder(order);
+          // Filled once the transaction tracker sees it confirm.
+          updateOrder(order.id, { status: "submitted", txHash });
+          toast.success("Limit order submitted");
+        } catch (error: any) {
+          updateOrder(order.id, {
+            status: "failed",
+            error: error.shortMessage || error.message || "Unknown error",
+          });
+          toast.error("Limit order failed");
+        }
+      } catch (error) {
+        console.error("Error checking limit order:", error);
+      } finally {
+        inFlight.current.delete(order.id);
+      }
+    },
+    [executeOrder, quoteSource, updateOrder]
+  );
+
+  // A trigger whose wallet prompt was closed or outlived the page is
+  // checked again from scratch.
+  useEffect(() => {
+    useLimitOrdersStore
+      .getState()
+      .orders.filter((order) => order.status === "triggered")
+      .forEach((order) => updateOrder(order.id, { status: "open" }));
+  }, [updateOrder]);
+
+  useEffect(() => {
+    const settle = () => {
+      const { transactions } = useTransactionsStore.getState();
+      useLimitOrdersStore
+        .getState()
+        .orders.filter((order) => order.status === "submitted")
+        .forEach((order) => {
+          const changes = settledOrderChanges(order, transactions);
+          if (changes) updateOrder(order.id, changes);
+        });
+    };
+    settle();
+    return useTransactionsStore.subscribe(settle);
+  }, [updateOrder]);
+
+  useEffect(() => {
+    const tick = () => {
+      expireOrders(Date.now());
+      useLimitOrdersStore
+        .getState()
+        .orders.filter(
+          (order) =>
+            order.status === "open" &&
+            !inFlight.current.has(order.id) &&
+            isWalletConnected(order)
+        )
+        .forEach(checkOrder);
+    };
+    tick();
+    const timer = setInterval(tick, interval);
+    return () => clearInterval(timer);
+  }, [checkOrder, expireOrders, interval, isWalletConnected]);
+};
+
+export default useLimitOrderWatcher;
@@ -1,67 +1,69 @@
-import {
-  getGroupMessages,
-  getMessages,
-} from "@/services/http/followed-wallets.http";
-import { useQuery } from "@tanstack/react-query";
-import { useState } from "react";
+import { useEffect, useRef } from "react";
 import { useCookie } from "react-use";
 import { toast } from "react-toastify";
 import useHeaderStore from "@/store/ActiveHeader";
 import useUserStore from "@/store/User";
+import useActivityFeedStore from "@/store/activityFeed";
+import { ActivitySource } from "@/types/activity-feed.type";
+import { openActivityStream } from "@/utils/activityStream";
+import { describeActivity } from "@/utils/activityFeed";
+import useCopyTradeMirror from "./CopyTrade";
 
+// Larger batches get one summary toast instead of one toast per swap.
+const MAX_TOASTS_PER_BATCH = 3;
+
+/**
+ * Keeps the followed wallet activity feed connected while a user is signed
+ * in. New swaps go into the feed history, are passed on to copy trading and
+ * raise toasts when notifications are on.
+ */
 const useNotification = () => {
   const [values] = useCookie("_DEX_TRADING_TOKN");
   const user = useUserStore((state) => state.user);
-
-  const [latestWalletId, setLatestWalletId] = useState<null | number>(null);
-  const [latestGroupId, setLatestGroupId] = useState<null | number>(null);
   const notificationIsOn = useHeaderStore((state) => state.notificationIsOn);
+  const mirror = useCopyTradeMirror();
+
+  // Read from the stream callback so toggling doesn't reconnect the feed.
+  const notificationRef = useRef(notificationIsOn);
+  const mirrorRef = useRef(mirror);
+  useEffect(() => {
+    notificationRef.current = notificationIsOn;
+    mirrorRef.current = mirror;
+  }, [notificationIsOn, mirror]);
 
-  const { data: walletList } = useQuery({
-    queryKey: ["messages"],
-    queryFn: () => {
-      if (values) {
-        return getMessages(values).then((response) => {
-          if (
-            latestWalletId &&
-            response.data.messages[0].id !== latestWalletId
-          ) {
-            toast.info("New Swap for wallet Detected!");
-          }
-          setLatestWalletId(response.data.messages[0].id);
-          return response.data.messages;
-        });
-      }
-      return Promise.resolve(undefined);
-    },
-    enabled: notificationIsOn && user && values ? true : false,
-    refetchInterval: 10000,
-  });
+  const isStreaming = !!user && !!values;
 
-  const { data: groupMessages } = useQuery({
-    queryKey: ["groupMessages"],
-    queryFn: () => {
-      if (values) {
-        return getGroupMessages(values).then((response) => {
-          if (
-            latestGroupId &&
-            response.data.groupmessages[0].id !== latestGroupId
-          ) {
-            toast.info("New Swap for Group Detected!");
-          }
+  useEffect(() => {
+    if (!isStreaming || !values) return;
 
-          setLatestGroupId(response.data.groupmessages[0].id);
+    // On a first visit the feed starts with history, which isn't news.
+    const isFirstLoad = useActivityFeedStore.getState().items.length === 0;
+    const loaded = new Set<ActivitySource>();
 
-          return response.data.groupmessages;
-        });
-      }
-      return Promise.resolve(undefined);
-    },
-    enabled: notificationIsOn && user && values ? true : false,
-    refetchInterval: 10000,
-  });
+    return openActivityStream({
+      token: values,
+      onMessages: (source, messages) => {
+        const quiet = isFirstLoad && !loaded.has(source);
+        loaded.add(source);
+        const fresh = useActivityFeedStore
+          .getState()
+          .addMessages(source, messages, quiet);
+        if (fresh.length === 0) return;
 
-  return { walletList, groupMessages };
+        mirrorRef.current(fresh);
+        if (quiet || !notificationRef.current) return;
+        if (fresh.length > MAX_TOASTS_PER_BATCH) {
+          toast.info(
+            `${fresh.length} new swaps from followed ${
+              source === "group" ? "groups" : "wallets"
+            }`
+          );
+        } else {
+          fresh.forEach((item) => toast.info(describeActivity(item)));
+        }
+      },
+    });
+  }, [isStreaming, values]);
 };
 
 export default useNotification;
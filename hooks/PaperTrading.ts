@@ -0,0 +1,69 @@
+import { useEffect } from "react";
+import { parseUnits } from "viem";
+import usePaperTradingStore from "@/store/paperTrading";
+import { QuoteSource, defaultQuoteSource } from "@/utils/limitOrders";
+import { nativeTokenAddress } from "@/utils/paperTrading";
+
+const REFRESH_INTERVAL = 30000;
+
+// Re-marks every open paper position by quoting one unit of it against the
+// chain's gas token; OKX returns USD unit prices for both legs.
+const usePaperPriceRefresh = ({
+  quoteSource = defaultQuoteSource,
+  interval = REFRESH_INTERVAL,
+}: {
+  quoteSource?: QuoteSource;
+  interval?: number;
+} = {}) => {
+  const markPrice = usePaperTradingStore((state) => state.markPrice);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = async () => {
+      const holdings = usePaperTradingStore
+        .getState()
+        .holdings.filter((holding) => holding.amount > 0);
+      for (const holding of holdings) {
+        const native = nativeTokenAddress(holding.chainId);
+        if (
+          holding.token.tokenContractAddress.toLowerCase() ===
+          native.toLowerCase()
+        ) {
+          continue;
+        }
+        try {
+          const response = await quoteSource({
+            chainId: holding.chainId,
+            amount: parseUnits("1", +holding.token.decimals).toString(),
+            fromTokenAddress: holding.token.tokenContractAddress,
+            toTokenAddress: native,
+          });
+          const quote = response.data?.[0];
+          if (!quote || cancelled) continue;
+          markPrice(
+            holding.chainId,
+            holding.token.tokenContractAddress,
+            +(quote.fromToken.tokenUnitPrice ?? 0)
+          );
+          markPrice(
+            holding.chainId,
+            native,
+            +(quote.toToken.tokenUnitPrice ?? 0)
+          );
+        } catch (error) {
+          console.error("Error refreshing paper position price:", error);
+        }
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, interval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [quoteSource, interval, markPrice]);
+};
+
+export default usePaperPriceRefresh;
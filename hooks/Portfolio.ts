@@ -0,0 +1,100 @@
+import { useMemo } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { getTokenBalances } from "@/utils/okx";
+import { searchToken } from "@/services/http/token.http";
+import useNetworkSelector from "@/store/tokenChains/networks";
+import { networkIdFromChainId } from "@/utils/explorer";
+import {
+  buildHoldings,
+  portfolioChains,
+  priceFromPools,
+  priceKey,
+} from "@/utils/portfolio";
+import {
+  PortfolioAddress,
+  PortfolioTokenPrice,
+} from "@/types/portfolio.type";
+
+// Tokens worth less than this are left priced by OKX alone, which keeps the
+// number of `/idsearch` calls bounded for wallets full of airdrop dust.
+const MIN_PRICED_VALUE = 1;
+const MAX_PRICED_TOKENS = 30;
+
+const usePortfolio = (addresses: PortfolioAddress[]) => {
+  const availableChains = useNetworkSelector((state) => state.availableChains);
+
+  const { balances, isLoading, failed } = useQueries({
+    queries: addresses.map(({ address }) => {
+      const chains = portfolioChains(availableChains, address).join(",");
+      return {
+        queryKey: ["portfolioBalances", address, chains],
+        queryFn: () => getTokenBalances({ address, chains }),
+        enabled: chains.length > 0,
+        refetchInterval: 60000,
+      };
+    }),
+    combine: (results) => ({
+      balances: results.map((result, index) => ({
+        owner: addresses[index]?.address,
+        assets: result.data?.data?.[0]?.tokenAssets ?? [],
+      })),
+      isLoading: results.some((result) => result.isLoading),
+      failed: results
+        .map((result, index) => (result.isError ? addresses[index] : null))
+        .filter((address): address is PortfolioAddress => !!address),
+    }),
+  });
+
+  const tokensToPrice = useMemo(() => {
+    const unique = new Map<string, { chainId: string; tokenAddress: string }>();
+    balances
+      .flatMap(({ assets }) => assets)
+      .filter(
+        (asset) =>
+          asset.tokenAddress &&
+          +asset.balance * (+asset.tokenPrice || 0) >= MIN_PRICED_VALUE
+      )
+      .sort(
+        (a, b) => +b.balance * +b.tokenPrice - +a.balance * +a.tokenPrice
+      )
+      .forEach((asset) =>
+        unique.set(priceKey(asset.chainIndex, asset.tokenAddress), {
+          chainId: asset.chainIndex,
+          tokenAddress: asset.tokenAddress,
+        })
+      );
+    return Array.from(unique.entries()).slice(0, MAX_PRICED_TOKENS);
+  }, [balances]);
+
+  const prices = useQueries({
+    queries: tokensToPrice.map(([, { chainId, tokenAddress }]) => ({
+      queryKey: ["portfolioPrice", chainId, tokenAddress],
+      queryFn: () =>
+        searchToken({ params: { currencyAddress: tokenAddress } }),
+      select: (token: Awaited<ReturnType<typeof searchToken>>) =>
+        priceFromPools(
+          token,
+          networkIdFromChainId(chainId) ?? "",
+          tokenAddress
+        ),
+      staleTime: 60000,
+    })),
+    combine: (results) =>
+      results.reduce<Record<string, PortfolioTokenPrice>>(
+        (result, query, index) => {
+          if (query.data) result[tokensToPrice[index][0]] = query.data;
+          return result;
+        },
+        {}
+      ),
+  });
+
+  const holdings = useMemo(
+    () => buildHoldings(balances, prices),
+    [balances, prices]
+  );
+
+  return { holdings, isLoading, failed };
+};
+
+export default usePortfolio;
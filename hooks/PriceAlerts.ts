@@ -0,0 +1,76 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toast } from "react-toastify";
+import { getToken } from "@/services/http/token.http";
+import usePriceAlertsStore from "@/store/priceAlerts";
+import { evaluateAlert } from "@/utils/priceAlerts";
+
+const POLL_INTERVAL = 30000;
+
+export const requestNotificationPermission = async () => {
+  if (typeof Notification === "undefined") return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+};
+
+export const deliverAlert = (message: string) => {
+  toast.info(message);
+  if (
+    typeof Notification !== "undefined" &&
+    Notification.permission === "granted" &&
+    document.visibilityState !== "visible"
+  ) {
+    new Notification("Dextrading price alert", {
+      body: message,
+      icon: "/dextrading-logo.svg",
+    });
+  }
+};
+
+// Shares the token page's ["token", address, network] query and evaluates
+// the active alerts for that token every time it refetches.
+const usePriceAlertWatcher = (tokenAddress: string, network: string) => {
+  const hasAlerts = usePriceAlertsStore((state) =>
+    state.alerts.some(
+      (alert) =>
+        alert.status === "active" &&
+        alert.tokenAddress === tokenAddress &&
+        alert.network === network
+    )
+  );
+  const updateAlert = usePriceAlertsStore((state) => state.updateAlert);
+
+  const { data: token, dataUpdatedAt } = useQuery({
+    queryKey: ["token", tokenAddress, network],
+    queryFn: () => getToken(tokenAddress, { params: { network } }),
+    enabled: !!tokenAddress && !!network && hasAlerts,
+    refetchInterval: POLL_INTERVAL,
+  });
+
+  useEffect(() => {
+    if (!token) return;
+    usePriceAlertsStore
+      .getState()
+      .alerts.filter(
+        (alert) =>
+          alert.status === "active" &&
+          alert.tokenAddress === tokenAddress &&
+          alert.network === network
+      )
+      .forEach((alert) => {
+        const { changes, message } = evaluateAlert(alert, token);
+        if (message) {
+          deliverAlert(message);
+          updateAlert(alert.id, {
+            ...changes,
+            lastTriggeredAt: Date.now(),
+            triggerCount: alert.triggerCount + 1,
+          });
+        } else if (Object.keys(changes).length > 0) {
+          updateAlert(alert.id, changes);
+        }
+      });
+  }, [token, dataUpdatedAt, tokenAddress, network, updateAlert]);
+};
+
+export default usePriceAlertWatcher;
@@ -0,0 +1,38 @@
+import { useCallback, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { QueryCodec, writeQueryParams } from "@/utils/queryState";
+
+/**
+ * `useState` backed by a URL query param, so the value survives reloads and
+ * shared links. The param is dropped while the value equals `initial`.
+ */
+const useQueryState = <T>(param: string, initial: T, codec: QueryCodec<T>) => {
+  const searchParams = useSearchParams();
+  const [fallback] = useState(initial);
+  const raw = searchParams.get(param);
+
+  const value = useMemo(
+    () => (raw === null ? undefined : codec.parse(raw)) ?? fallback,
+    [raw, codec, fallback]
+  );
+
+  const setValue = useCallback(
+    (next: T) => {
+      const current = new URLSearchParams(window.location.search).get(param);
+      const currentValue =
+        (current === null ? undefined : codec.parse(current)) ?? fallback;
+      const serialized = codec.serialize(next);
+      // Keeps relative values like `now-1h` when the same moment is set back.
+      if (serialized === codec.serialize(currentValue)) return;
+      writeQueryParams({
+        [param]:
+          serialized === codec.serialize(fallback) ? undefined : serialized,
+      });
+    },
+    [param, codec, fallback]
+  );
+
+  return [value, setValue] as const;
+};
+
+export default useQueryState;
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { getTransactionReceipt } from "wagmi/actions";
+import { BrowserProvider } from "ethers";
+import { toast, TypeOptions } from "react-toastify";
+import { config } from "@/config/wagmi.config";
+import useTransactionsStore from "@/store/transactions";
+import {
+  NewTrackedTransaction,
+  TrackedTransaction,
+  TransactionStatus,
+} from "@/types/transaction.type";
+
+const POLL_INTERVAL = 5000;
+// An EVM transaction that still has no receipt after this long was most
+// likely replaced or evicted from the mempool.
+const EVM_DROP_TIMEOUT = 30 * 60 * 1000;
+const SOLANA_DROP_TIMEOUT = 3 * 60 * 1000;
+
+const toastTypes: Record<TransactionStatus, TypeOptions> = {
+  pending: "info",
+  confirmed: "success",
+  failed: "error",
+  dropped: "warning",
+};
+
+export const notifyTransaction = (tx: TrackedTransaction) => {
+  const message = `${tx.description}: ${tx.status}`;
+  if (tx.status === "pending") {
+    toast.loading(message, { toastId: tx.hash });
+  } else if (toast.isActive(tx.hash)) {
+    toast.update(tx.hash, {
+      render: message,
+      type: toastTypes[tx.status],
+      isLoading: false,
+      autoClose: 5000,
+    });
+  } else {
+    toast(message, { type: toastTypes[tx.status] });
+  }
+};
+
+export const trackTransaction = (transaction: NewTrackedTransaction) => {
+  useTransactionsStore.getState().addTransaction(transaction);
+  notifyTransaction(useTransactionsStore.getState().transactions[0]);
+};
+
+const fetchEvmStatus = async (
+  tx: TrackedTransaction
+): Promise<TransactionStatus> => {
+  try {
+    const chainId = config.chains.find((chain) => chain.id === +tx.chainId)?.id;
+    if (chainId) {
+      const receipt = await getTransactionReceipt(config, {
+        hash: tx.hash as `0x${string}`,
+        chainId,
+      });
+      return receipt.status === "success" ? "confirmed" : "failed";
+    }
+    // Chains missing from the wagmi config are read through the wallet.
+    const provider = new BrowserProvider(window.ethereum);
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+    if (receipt) return receipt.status === 1 ? "confirmed" : "failed";
+  } catch (error) {
+    // No receipt yet
+  }
+  return Date.now() - tx.createdAt > EVM_DROP_TIMEOUT ? "dropped" : "pending";
+};
+
+const useTransactionTracker = () => {
+  const { connection } = useConnection();
+  const updateTransaction = useTransactionsStore(
+    (state) => state.updateTransaction
+  );
+  const inFlight = useRef(new Set<string>());
+
+  const fetchSolanaStatus = useCallback(
+    async (tx: TrackedTransaction): Promise<TransactionStatus> => {
+      const { value } = await connection.getSignatureStatus(tx.hash, {
+        searchTransactionHistory: true,
+      });
+      if (value?.err) return "failed";
+      if (
+        value?.confirmationStatus === "confirmed" ||
+        value?.confirmationStatus === "finalized"
+      ) {
+        return "confirmed";
+      }
+      if (!value) {
+        const expired = tx.lastValidBlockHeight
+          ? (await connection.getBlockHeight()) > tx.lastValidBlockHeight
+          : Date.now() - tx.createdAt > SOLANA_DROP_TIMEOUT;
+        if (expired) return "dropped";
+      }
+      return "pending";
+    },
+    [connection]
+  );
+
+  const checkTransaction = useCallback(
+    async (tx: TrackedTransaction) => {
+      inFlight.current.add(tx.hash);
+      try {
+        const status =
+          tx.walletType === "evm"
+            ? await fetchEvmStatus(tx)
+            : await fetchSolanaStatus(tx);
+        if (status !== "pending") {
+          updateTransaction(tx.hash, { status });
+          notifyTransaction({ ...tx, status });
+        }
+      } catch (error) {
+        console.error("Error checking transaction status:", error);
+      } finally {
+        inFlight.current.delete(tx.hash);
+      }
+    },
+    [fetchSolanaStatus, updateTransaction]
+  );
+
+  useEffect(() => {
+    const tick = () => {
+      useTransactionsStore
+        .getState()
+        .transactions.filter(
+          (tx) => tx.status === "pending" && !inFlight.current.has(tx.hash)
+        )
+        .forEach(checkTransaction);
+    };
+    tick();
+    const timer = setInterval(tick, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [checkTransaction]);
+};
+
+export default useTransactionTracker;
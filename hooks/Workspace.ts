@@ -0,0 +1,40 @@
+import useUserStore from "@/store/User";
+import useWorkspaceStore from "@/store/workspace";
+import { UserData } from "@/types/user.types";
+import { WorkspaceLayout, WorkspaceToken } from "@/types/workspace.type";
+import { defaultWorkspaceLayout, setWorkspaceCell } from "@/utils/workspace";
+
+const workspaceOwner = (user: UserData | null) =>
+  user ? String(user.id) : "guest";
+
+// The chart workspace of the signed-in user, or of the guest on this device.
+const useWorkspaceLayout = () => {
+  const user = useUserStore((state) => state.user);
+  const saved = useWorkspaceStore(
+    (state) => state.layouts[workspaceOwner(user)]
+  );
+  const layout: WorkspaceLayout = { ...defaultWorkspaceLayout, ...saved };
+
+  // Chart callbacks outlive renders, so these read the stores when called.
+  const getLayout = (): WorkspaceLayout => ({
+    ...defaultWorkspaceLayout,
+    ...useWorkspaceStore.getState().layouts[
+      workspaceOwner(useUserStore.getState().user)
+    ],
+  });
+
+  const updateLayout = (changes: Partial<WorkspaceLayout>) =>
+    useWorkspaceStore
+      .getState()
+      .setLayout(workspaceOwner(useUserStore.getState().user), {
+        ...getLayout(),
+        ...changes,
+      });
+
+  const setCell = (index: number, token: WorkspaceToken | null) =>
+    updateLayout({ cells: setWorkspaceCell(getLayout(), index, token) });
+
+  return { layout, getLayout, updateLayout, setCell };
+};
+
+export default useWorkspaceLayout;
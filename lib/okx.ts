@@ -0,0 +1,140 @@
+import crypto from "crypto";
+
+// Server-only helpers for the OKX DEX API. The HMAC secret never leaves the
+// server: route handlers under app/api/okx/* sign and forward the request,
+// the browser only talks to those routes.
+
+const OKX_BASE_URL = "https://www.okx.com";
+const AGGREGATOR_PATH = "/api/v5/dex/aggregator";
+const BALANCE_PATH = "/api/v5/dex/balance";
+
+export const OKX_REFERRER_ADDRESS =
+  "7MgHTgmy3K5hUpNg5NaCRa6c5an3qcPv1KwNhLvh4FnC";
+export const OKX_FEE_PERCENT = "1.32";
+
+export type OkxAggregatorEndpoint =
+  | "quote"
+  | "swap"
+  | "approve-transaction"
+  | "get-liquidity";
+
+export type OkxBalanceEndpoint = "all-token-balances-by-address";
+
+function preHash(
+  timestamp: string,
+  method: string,
+  request_path: string,
+  query_string: string
+) {
+  return timestamp + method + request_path + query_string;
+}
+
+function sign(message: string, secret_key: string) {
+  return crypto
+    .createHmac("sha256", secret_key)
+    .update(message)
+    .digest("base64");
+}
+
+function getCredentials() {
+  const { OKX_API_KEY, OKX_API_SECRET, OKX_PASSPHRASE, OKX_API_PROJECT_ID } =
+    process.env;
+  if (!OKX_API_KEY || !OKX_API_SECRET || !OKX_PASSPHRASE) {
+    throw new Error("OKX API credentials are not defined");
+  }
+  return {
+    key: OKX_API_KEY,
+    secret: OKX_API_SECRET,
+    passphrase: OKX_PASSPHRASE,
+    projectId: OKX_API_PROJECT_ID ?? "",
+  };
+}
+
+// Only forwards the parameters each endpoint expects, so callers can't
+// override the fee or referrer that the server injects.
+export const pickParams = (
+  searchParams: URLSearchParams,
+  allowed: string[]
+): Record<string, string> =>
+  allowed.reduce<Record<string, string>>((params, key) => {
+    const value = searchParams.get(key);
+    if (value !== null && value !== "") {
+      params[key] = value;
+    }
+    return params;
+  }, {});
+
+const signedRequest = async (
+  request_path: string,
+  params: Record<string, string>
+) => {
+  const { key, secret, passphrase, projectId } = getCredentials();
+  const query = new URLSearchParams(params).toString();
+  const query_string = query ? `?${query}` : "";
+  const timestamp = new Date().toISOString().slice(0, -5) + "Z";
+
+  const response = await fetch(`${OKX_BASE_URL}${request_path}${query_string}`, {
+    headers: {
+      "OK-ACCESS-KEY": key,
+      "OK-ACCESS-SIGN": sign(
+        preHash(timestamp, "GET", request_path, query_string),
+        secret
+      ),
+      "OK-ACCESS-TIMESTAMP": timestamp,
+      "OK-ACCESS-PASSPHRASE": passphrase,
+      "OK-ACCESS-PROJECT": projectId,
+    },
+    cache: "no-store",
+  });
+
+  return { status: response.status, body: await response.json() };
+};
+
+export const signedAggregatorRequest = (
+  endpoint: OkxAggregatorEndpoint,
+  params: Record<string, string>
+) => signedRequest(`${AGGREGATOR_PATH}/${endpoint}`, params);
+
+export const signedBalanceRequest = (
+  endpoint: OkxBalanceEndpoint,
+  params: Record<string, string>
+) => signedRequest(`${BALANCE_PATH}/${endpoint}`, params);
+
+// Shared body of the app/api/okx/* route handlers. Errors are returned in
+// the same `{ code, msg, data }` shape OKX uses so the swap widgets can keep
+// reading `response.msg`.
+const proxyRequest = async (
+  request: () => Promise<{ status: number; body: unknown }>
+) => {
+  try {
+    const { status, body } = await request();
+    return Response.json(body, { status });
+  } catch (error: any) {
+    return Response.json(
+      { code: "-1", msg: error.message ?? "OKX request failed", data: [] },
+      { status: 500 }
+    );
+  }
+};
+
+export const proxyAggregatorRequest = (
+  searchParams: URLSearchParams,
+  endpoint: OkxAggregatorEndpoint,
+  allowed: string[],
+  serverParams: Record<string, string> = {}
+) =>
+  proxyRequest(() =>
+    signedAggregatorRequest(endpoint, {
+      ...pickParams(searchParams, allowed),
+      ...serverParams,
+    })
+  );
+
+export const proxyBalanceRequest = (
+  searchParams: URLSearchParams,
+  endpoint: OkxBalanceEndpoint,
+  allowed: string[]
+) =>
+  proxyRequest(() =>
+    signedBalanceRequest(endpoint, pickParams(searchParams, allowed))
+  );
@@ -10,6 +10,8 @@ import { useLoadingStore } from "@/store";
 import LoadingOverlay from "@/components/layout/LoadingOverlay";
 import AppWalletProvider from "@/components/features/swap/AppWalletProvider";
 import { SessionProvider } from "next-auth/react";
+import LimitOrderWatcher from "@/components/features/swap/LimitOrderWatcher";
+import TransactionTracker from "@/components/features/transactions/TransactionTracker";
 
 export default function Providers({ children }: { children: React.ReactNode }) {
   const isLoading = useLoadingStore((state) => state.isLoading);
@@ -34,6 +36,8 @@ export default function Providers({ children }: { children: React.ReactNode }) {
               </ErrorBoundary>
             </QueryProvider>
             <Toaster />
+            <LimitOrderWatcher />
+            <TransactionTracker />
             {isLoading && <LoadingOverlay />}
           </WagmiiProvider>
         </AppWalletProvider>
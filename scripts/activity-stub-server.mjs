@@ -0,0 +1,188 @@
+// Local stand-in for the followed wallet activity backend. Serves the polling
+// endpoints and an SSE stream that pushes a fake swap every few seconds.
+//
+//   npm run stub:activity
+//   NEXT_PUBLIC_BASE_URL_FIVE=http://localhost:4010 npm run dev
+//
+// Websocket upgrades are refused, so the client falls back to SSE. The tests
+// start it through `startActivityStubServer`.
+import http from "node:http";
+import { pathToFileURL } from "node:url";
+
+const MAX_HISTORY = 50;
+
+const TOKENS = [
+  ["PEPE", "0x6982508145454ce325ddbe47a25d4ec3d2311933"],
+  ["LINK", "0x514910771af9ca656af840dff83e8264ecf986ca"],
+  ["UNI", "0x1f9840a85d5af5b2bf1d1762f925bdaddc4201f984"],
+];
+const GROUPS = ["Smart money", "Early buyers"];
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Authorization",
+};
+
+const json = (response, body) => {
+  response.writeHead(200, { ...cors, "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+};
+
+// `pushInterval` of 0 only pushes on `push`. `accept.sse` switches the stream
+// off: a refused request gets a 503.
+export const startActivityStubServer = async ({
+  port = 0,
+  pushInterval = 0,
+  sse = true,
+} = {}) => {
+  let nextId = 1;
+  const history = { wallet: [], group: [] };
+  const accept = { sse };
+  // Stream connection attempts and polls.
+  const requests = { sse: 0, polling: 0 };
+  const clients = new Set();
+
+  const fakeSwap = (source, name) => {
+    const [symbol, address] = TOKENS[Math.floor(Math.random() * TOKENS.length)];
+    const isSell = Math.random() < 0.4;
+    const tokenAmount = (Math.random() * 1e6).toFixed(2);
+    const ethAmount = (Math.random() * 3).toFixed(4);
+    const valueUsd = (+ethAmount * 2500).toFixed(2);
+    const signer = `0x${Math.random().toString(16).slice(2).padEnd(40, "0")}`;
+    const tradeTime = new Date().toISOString();
+    return {
+      id: nextId++,
+      name:
+        name ??
+        (source === "group"
+          ? GROUPS[Math.floor(Math.random() * GROUPS.length)]
+          : "Stub wallet"),
+      sellImageUrl: "",
+      buyImageUrl: "",
+      buy_amount_usd: valueUsd,
+      buy_amount: isSell ? ethAmount : tokenAmount,
+      sell_amount: isSell ? tokenAmount : ethAmount,
+      buy_currency_name: isSell ? "WETH" : symbol,
+      sell_currency_name: isSell ? symbol : "WETH",
+      signer,
+      network: "eth",
+      market_address: address,
+      dex_protocol: "uniswap_v3",
+      raw_message: { Transfer: { Currency: { SmartContract: address } } },
+      trade_time: tradeTime,
+      report: {
+        detailed: "",
+        dex_protocol: "uniswap_v3",
+        market_address: address,
+        network: "eth",
+        paidTokenAmount: isSell ? tokenAmount : ethAmount,
+        paidTokenName: isSell ? symbol : "WETH",
+        price: "0",
+        receivedTokenAmount: isSell ? ethAmount : tokenAmount,
+        receivedTokenName: isSell ? "WETH" : symbol,
+        signer,
+        swapType: isSell ? "sell" : "buy",
+        trade_time: tradeTime,
+        value: valueUsd,
+      },
+    };
+  };
+
+  // Records `count` new swaps and pushes them to every stream client as one
+  // event. Returns the swaps.
+  /**
+   * @param {"wallet" | "group"} source
+   * @param {{ count?: number; name?: string }} [options]
+   */
+  const push = (source, { count = 1, name } = {}) => {
+    const messages = Array.from({ length: count }, () =>
+      fakeSwap(source, name)
+    );
+    history[source] = [...[...messages].reverse(), ...history[source]].slice(
+      0,
+      MAX_HISTORY
+    );
+    const event = `data: ${JSON.stringify(
+      count === 1 ? { source, message: messages[0] } : { source, messages }
+    )}\n\n`;
+    clients.forEach((response) => response.write(event));
+    return messages;
+  };
+
+  const timer =
+    pushInterval > 0
+      ? setInterval(
+          () => push(Math.random() < 0.5 ? "wallet" : "group"),
+          pushInterval
+        )
+      : undefined;
+
+  const server = http.createServer((request, response) => {
+    const { pathname } = new URL(request.url, "http://localhost");
+    if (request.method === "OPTIONS") {
+      response.writeHead(204, cors);
+      return response.end();
+    }
+    if (pathname === "/getMessages") {
+      requests.polling++;
+      return json(response, { messages: history.wallet });
+    }
+    if (pathname === "/getGroupMessages") {
+      return json(response, { groupmessages: history.group });
+    }
+    if (pathname === "/messages/stream") {
+      requests.sse++;
+      if (!accept.sse) {
+        response.writeHead(503, cors);
+        return response.end();
+      }
+      response.writeHead(200, {
+        ...cors,
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      response.write(": connected\n\n");
+      clients.add(response);
+      request.on("close", () => clients.delete(response));
+      return;
+    }
+    response.writeHead(404, cors);
+    response.end();
+  });
+
+  server.on("upgrade", (_request, socket) => socket.destroy());
+
+  await new Promise((resolve) => server.listen(port, resolve));
+
+  // Cuts every open stream, as a backend restart would.
+  const dropConnections = () => {
+    clients.forEach((response) => response.destroy());
+  };
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.address().port}`,
+    accept,
+    requests,
+    connections: () => clients.size,
+    push,
+    dropConnections,
+    close: () =>
+      new Promise((resolve) => {
+        clearInterval(timer);
+        dropConnections();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+const isScript =
+  !!process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href;
+
+if (isScript) {
+  const PORT = Number(process.env.PORT ?? 4010);
+  const PUSH_INTERVAL = Number(process.env.PUSH_INTERVAL ?? 5000);
+  startActivityStubServer({ port: PORT, pushInterval: PUSH_INTERVAL }).then(
+    ({ baseUrl }) => console.log(`Activity stub server on ${baseUrl}`)
+  );
+}
@@ -0,0 +1,69 @@
+import axios from "axios";
+import { ZodIssue } from "zod";
+
+export type ApiError =
+  | { kind: "network"; message: string; status?: number }
+  | { kind: "server-busy"; message: string; status?: number }
+  | { kind: "validation"; message: string; url: string; issues: ZodIssue[] }
+  | { kind: "auth"; message: string; status: number };
+
+// Thrown by `fetchData`, so react-query's `error` carries the normalized
+// shape instead of a raw Axios error.
+export class ApiClientError extends Error {
+  readonly error: ApiError;
+
+  constructor(error: ApiError) {
+    super(error.message);
+    this.name = "ApiClientError";
+    this.error = error;
+  }
+}
+
+export const isApiClientError = (error: unknown): error is ApiClientError =>
+  error instanceof ApiClientError;
+
+const BUSY_STATUSES = [429, 502, 503, 504];
+
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiClientError(error)) return error.error;
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === 401 || status === 403) {
+      return { kind: "auth", message: "Please sign in again.", status };
+    }
+    if (status && BUSY_STATUSES.includes(status)) {
+      return {
+        kind: "server-busy",
+        message: "Server is busy, please try again shortly.",
+        status,
+      };
+    }
+    return {
+      kind: "network",
+      message: status
+        ? `Request failed with status ${status}.`
+        : "Network error, check your connection.",
+      status,
+    };
+  }
+  return {
+    kind: "network",
+    message: error instanceof Error ? error.message : "Request failed.",
+  };
+};
+
+// Only transient failures are worth retrying; a 4xx or a malformed payload
+// will fail the same way again.
+export const isRetryable = (error: ApiError) =>
+  error.kind === "server-busy" ||
+  (error.kind === "network" && (!error.status || error.status >= 500));
+
+export const apiErrorMessage = (error: unknown) => {
+  const apiError = toApiError(error);
+  switch (apiError.kind) {
+    case "validation":
+      return "Received unexpected data from the server.";
+    default:
+      return apiError.message;
+  }
+};
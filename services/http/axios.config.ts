@@ -4,37 +4,93 @@ import axios, {
   AxiosResponse,
   InternalAxiosRequestConfig,
 } from "axios";
+import { z } from "zod";
+import {
+  ApiClientError,
+  ApiError,
+  isRetryable,
+  toApiError,
+} from "./api-error";
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// The fields of `T` a response schema may check, each with the type `T`
+// declares for it.
+type Checked<T> = T extends (infer Item)[]
+  ? Checked<Item>[]
+  : T extends object
+  ? { [K in keyof T]?: Checked<T[K]> }
+  : T;
+
+// Schemas check the fields components read and pass the rest through, so
+// their output has to fit `T` field by field: a checked field whose type
+// drifts from the interface fails the type-check.
+export type ResponseSchema<T> = z.ZodType<Checked<T>, z.ZodTypeDef, unknown>;
+
+const validateResponse = <T>(
+  schema: ResponseSchema<T>,
+  data: unknown,
+  url: string
+): T => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiClientError({
+      kind: "validation",
+      message: `Unexpected response shape from ${url}`,
+      url,
+      issues: result.error.issues,
+    });
+  }
+  // Only the unchecked fields are taken on trust.
+  return result.data as T;
+};
+
+/**
+ * GET with retries. Failures are thrown as `ApiClientError`; pass a zod
+ * `schema` to validate the payload instead of trusting the `T` cast.
+ */
 export const fetchData = async <T>(
   url: string,
-  options?: AxiosRequestConfig
+  options?: AxiosRequestConfig,
+  schema?: ResponseSchema<T>
 ): Promise<T> => {
   const maxRetries = 10;
   let attempts = 0;
+  let lastError: ApiError = {
+    kind: "network",
+    message: "Maximum retries exceeded",
+  };
 
   while (attempts < maxRetries) {
     try {
       const response = await axiosInstance.get<T>(url, options);
       if (response.data && (response.data as any).error === 'server busy') {
-        throw new Error('server busy');
+        throw new ApiClientError({
+          kind: "server-busy",
+          message: "Server is busy, please try again shortly.",
+        });
       }
-      return response.data;
+      return schema
+        ? validateResponse<T>(schema, response.data, url)
+        : response.data;
     } catch (error: any) {
+      // Aborted by the caller (e.g. react-query cancelling a stale query).
+      if (axios.isCancel(error)) throw error;
+
       attempts++;
-      logError(`API call failed on attempt ${attempts}:`, error.message);
+      lastError = toApiError(error);
+      logError(`API call failed on attempt ${attempts}:`, lastError.message);
       logError("Error Url is:", url);
 
-      if (attempts >= maxRetries) {
-        throw new Error('Maximum retries exceeded');
+      if (!isRetryable(lastError) || attempts >= maxRetries) {
+        throw new ApiClientError(lastError);
       }
 
       await delay(2000 * attempts); // Exponential backoff
     }
   }
 
-  throw new Error('Maximum retries exceeded');
+  throw new ApiClientError(lastError);
 };
 
 export const axiosInstance = axios.create({
@@ -0,0 +1,59 @@
+import {
+  ChartStorageKind,
+  ChartStorageRecords,
+} from "@/types/chart-storage.type";
+import axios from "axios";
+
+export const listChartRecords = <K extends ChartStorageKind>(
+  token: string,
+  kind: K
+) =>
+  axios.get<{ records: ChartStorageRecords[K][] }>(
+    `${process.env.NEXT_PUBLIC_BASE_URL_FIVE}/chartstorage/${kind}`,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }
+  );
+export const getChartRecord = <K extends ChartStorageKind>(
+  token: string,
+  kind: K,
+  key: string
+) =>
+  axios.get<{ record: ChartStorageRecords[K] | null }>(
+    `${process.env.NEXT_PUBLIC_BASE_URL_FIVE}/chartstorage/${kind}/${encodeURIComponent(key)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }
+  );
+export const saveChartRecord = <K extends ChartStorageKind>(
+  token: string,
+  kind: K,
+  key: string,
+  record: ChartStorageRecords[K]
+) =>
+  axios.put(
+    `${process.env.NEXT_PUBLIC_BASE_URL_FIVE}/chartstorage/${kind}/${encodeURIComponent(key)}`,
+    record,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }
+  );
+export const removeChartRecord = (
+  token: string,
+  kind: ChartStorageKind,
+  key: string
+) =>
+  axios.delete(
+    `${process.env.NEXT_PUBLIC_BASE_URL_FIVE}/chartstorage/${kind}/${encodeURIComponent(key)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }
+  );
@@ -0,0 +1,25 @@
+import { FilterPreset } from "@/types/filter-preset.type";
+import axios from "axios";
+
+export const listFilterPresets = (token: string, scope: string) =>
+  axios.get<{ presets: FilterPreset[] }>(
+    `${process.env.NEXT_PUBLIC_BASE_URL_FIVE}/filterpresets`,
+    {
+      params: { scope },
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }
+  );
+export const saveFilterPreset = (token: string, preset: FilterPreset) =>
+  axios.post(`${process.env.NEXT_PUBLIC_BASE_URL_FIVE}/filterpresets`, preset, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+export const removeFilterPreset = (token: string, id: string) =>
+  axios.delete(`${process.env.NEXT_PUBLIC_BASE_URL_FIVE}/filterpresets/${id}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
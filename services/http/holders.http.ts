@@ -0,0 +1,53 @@
+import { AxiosRequestConfig } from "axios";
+import { fetchData } from "./axios.config";
+import {
+  IActiveTradersResponse,
+  IOnchainHoldersResponse,
+  ITokenHolderStatsResponse,
+} from "@/types/holders.type";
+import { onchainHoldersSchema, tokenHolderStatsSchema } from "./schemas";
+
+const ONCHAIN_URL = "https://onchain.dextrading.com";
+
+// Every endpoint takes the network id from `store/tokenChains/networks`
+// (`eth`, `solana`, `bsc`, ...) as its `network` param.
+
+export const getTopHolders = (
+  options: AxiosRequestConfig
+): Promise<IOnchainHoldersResponse> =>
+  fetchData<IOnchainHoldersResponse>(
+    `${ONCHAIN_URL}/topHolders`,
+    // topHolders?network=eth&token=0x...&till=2024-01-01&limit=10
+    options,
+    onchainHoldersSchema
+  );
+
+export const getRangeHolders = (
+  options: AxiosRequestConfig
+): Promise<IOnchainHoldersResponse> =>
+  fetchData<IOnchainHoldersResponse>(
+    `${ONCHAIN_URL}/rangeholders`,
+    // rangeholders?network=eth&token=0x...&till=...&minAmount=0&maxAmount=1000
+    options,
+    onchainHoldersSchema
+  );
+
+// The current snapshot only. Holder count over time is out of scope for the
+// holder tab: no onchain endpoint returns a count per date.
+export const getTokenHolderStats = (
+  options: AxiosRequestConfig
+): Promise<ITokenHolderStatsResponse> =>
+  fetchData<ITokenHolderStatsResponse>(
+    `${ONCHAIN_URL}/token-holders`,
+    // token-holders?network=eth&token=0x...
+    options,
+    tokenHolderStatsSchema
+  );
+
+export const getTopActiveTraders = (
+  options: AxiosRequestConfig
+): Promise<IActiveTradersResponse> =>
+  fetchData<IActiveTradersResponse>(
+    `${ONCHAIN_URL}/TopTokenActiveTraders`,
+    options
+  );
@@ -0,0 +1,175 @@
+import { z } from "zod";
+
+// Response schemas for the endpoints the token pages depend on. They check
+// the fields components read and pass everything else through untouched, so
+// the inferred data still satisfies the interfaces in `types/`; `fetchData`
+// checks that against the interface each call returns.
+
+// The API sends `null` for missing values where the interfaces declare them
+// optional, so both come out as `undefined`.
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+const optionalString = optional(z.string());
+
+const priceChangePercentageSchema = z
+  .object({
+    m5: optionalString,
+    h1: optionalString,
+    h6: optionalString,
+    h24: optionalString,
+  })
+  .passthrough();
+
+const poolSchema = z
+  .object({
+    id: z.string().optional(),
+    type: z.string().optional(),
+    attributes: z
+      .object({
+        address: optionalString,
+        name: optionalString,
+        base_token_price_usd: optionalString,
+        quote_token_price_usd: optionalString,
+        reserve_in_usd: optionalString,
+        price_change_percentage: optional(priceChangePercentageSchema),
+        transactions: optional(z.record(z.any())),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export const tokenSchema = z
+  .object({
+    data: z.array(poolSchema).optional(),
+  })
+  .passthrough();
+
+const datafeedTokenSchema = z.object({
+  address: z.string(),
+  name: z.string(),
+  symbol: z.string(),
+});
+
+export const datafeedSchema = z
+  .object({
+    data: z
+      .object({
+        id: z.string(),
+        type: z.string(),
+        attributes: z.object({
+          ohlcv_list: z.array(z.array(z.number())),
+        }),
+      })
+      .nullable(),
+    meta: z.object({
+      base: datafeedTokenSchema,
+      quote: datafeedTokenSchema,
+    }),
+  })
+  .passthrough();
+
+export const tradingListSchema = z
+  .object({
+    data: z.array(
+      z
+        .object({
+          id: z.string(),
+          type: z.string(),
+          attributes: z
+            .object({
+              block_number: z.number(),
+              tx_hash: z.string(),
+              tx_from_address: z.string(),
+              from_token_amount: z.string(),
+              to_token_amount: z.string(),
+              price_from_in_usd: z.string(),
+              price_to_in_usd: z.string(),
+              block_timestamp: z.string(),
+              kind: z.string(),
+              volume_in_usd: z.string(),
+              from_token_address: z.string(),
+              to_token_address: z.string(),
+            })
+            .passthrough(),
+        })
+        .passthrough()
+    ),
+    meta: z
+      .object({ next_cursor: z.string().nullish() })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export const tokenDetailsSchema = z.array(
+  z
+    .object({
+      tokenName: z.string(),
+      contractAddress: z.string(),
+      id: z.string(),
+      type: z.string(),
+      imageUrl: optionalString,
+      attributes: z
+        .object({
+          address: z.string(),
+          name: z.string(),
+          symbol: z.string(),
+        })
+        .passthrough(),
+    })
+    .passthrough()
+);
+
+const amountSchema = optional(z.union([z.string(), z.number()]));
+
+const onchainHolderRowSchema = z
+  .object({
+    Holder: z.object({ Address: z.string().optional() }).passthrough(),
+    Balance: z
+      .object({
+        Address: z.string().optional(),
+        Amount: amountSchema,
+        Percentage: amountSchema,
+      })
+      .passthrough(),
+    BalanceUpdate: z
+      .object({
+        Address: z.string().optional(),
+        Account: z
+          .object({
+            Owner: z.string().optional(),
+            Address: z.string().optional(),
+          })
+          .passthrough(),
+        Holding: amountSchema,
+        Balance: amountSchema,
+        Percentage: amountSchema,
+      })
+      .partial()
+      .passthrough(),
+  })
+  .partial()
+  .passthrough();
+
+// `data.EVM.TokenHolders`, `data.Solana.BalanceUpdates`, ...
+export const onchainHoldersSchema = z
+  .object({
+    data: z
+      .record(
+        z.record(z.array(onchainHolderRowSchema).optional()).optional()
+      )
+      .nullish(),
+  })
+  .passthrough();
+
+export const tokenHolderStatsSchema = z
+  .object({
+    date3: optional(
+      z.array(
+        z.object({ count: amountSchema, supply: amountSchema }).passthrough()
+      )
+    ),
+  })
+  .passthrough();
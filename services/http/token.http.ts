@@ -8,6 +8,12 @@ import { IchainInfo } from "@/types/chain-info.type";
 import { IStrength } from "@/types/strength-ratio.type";
 import { ITradingListResponse } from "@/types/Tradinglist.type";
 import { ITokenDetail } from "@/types/TokenDetail.type";
+import {
+  datafeedSchema,
+  tokenDetailsSchema,
+  tokenSchema,
+  tradingListSchema,
+} from "./schemas";
 
 export const spotlightSearch = (
   options: AxiosRequestConfig
@@ -20,16 +26,26 @@ export const spotlightSearch = (
 export const searchToken = (options: AxiosRequestConfig): Promise<IToken> =>
   fetchData<IToken>(
     `${process.env.NEXT_PUBLIC_BASE_URL_ONE}/idsearch`,
-    options
+    options,
+    tokenSchema
   );
 
+// `network` and `address` are the only params the backend is known to
+// honour: it answers with the token's recent trades in one response. The
+// trade report also sends `limit`, `cursor`, `sort`, `kind`,
+// `min_volume_usd`, `max_volume_usd`, `maker`, `dex` and `from_timestamp`
+// (see `tradeReportParams`) for a backend that pages and filters. Such a
+// backend marks it by answering with `meta.next_cursor`; without it the
+// report pages the one response in the browser and flags the filters the
+// server didn't apply.
 export const getTradingList = (
   options: AxiosRequestConfig
 ): Promise<ITradingListResponse> =>
   fetchData<ITradingListResponse>(
     `${process.env.NEXT_PUBLIC_BASE_URL_ONE}/tradinglist`,
     // tradinglist?address=0xe2c845369bdeb94d34bd6f98e33388aef499cd0e&network=eth
-    options
+    options,
+    tradingListSchema
   );
 
 export const getToken = (
@@ -38,7 +54,8 @@ export const getToken = (
 ): Promise<IToken> =>
   fetchData<IToken>(
     `${process.env.NEXT_PUBLIC_BASE_URL_ONE}/token/${tokenAddress}`,
-    options
+    options,
+    tokenSchema
   );
 export const getTokenDescription = (tokenAddress: string): Promise<any> =>
   axios.get(
@@ -77,7 +94,8 @@ export const getTokenDetails = (
 ): Promise<ITokenDetail[]> =>
   fetchData<ITokenDetail[]>(
     `${process.env.NEXT_PUBLIC_BASE_URL_ONE}/fetch-token-details`,
-    options
+    options,
+    tokenDetailsSchema
   );
 
 export const getLatestTokenDetails = (
@@ -85,7 +103,8 @@ export const getLatestTokenDetails = (
 ): Promise<ITokenDetail[]> =>
   fetchData<ITokenDetail[]>(
     `${process.env.NEXT_PUBLIC_BASE_URL_ONE}/fetch-latest-token-details`,
-    options
+    options,
+    tokenDetailsSchema
   );
 
 export const getTradeReport = (
@@ -118,5 +137,6 @@ export const getChainData = (
 export const getDataFeed = (options?: AxiosRequestConfig): Promise<IDatafeed> =>
   fetchData<IDatafeed>(
     `${process.env.NEXT_PUBLIC_BASE_URL_ONE}/ohlcv`,
-    options
+    options,
+    datafeedSchema
   );
@@ -0,0 +1,13 @@
+import { AxiosRequestConfig } from "axios";
+import { fetchData } from "./axios.config";
+import { WalletSummaryType } from "@/types/wallet-summary.type";
+
+export const getWalletSummary = (
+  walletAddress: string,
+  options: AxiosRequestConfig
+): Promise<WalletSummaryType> =>
+  fetchData<WalletSummaryType>(
+    `${process.env.NEXT_PUBLIC_BASE_URL_ONE}/walletsummary/${walletAddress}`,
+    // walletsummary/0x...?network=eth
+    options
+  );
@@ -0,0 +1,103 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  ActivityFilter,
+  ActivityItem,
+  ActivitySource,
+} from "@/types/activity-feed.type";
+import { NotificationMessage } from "@/types/notification-message.type";
+import {
+  activityKey,
+  activityTradeTime,
+  matchesActivityFilter,
+} from "@/utils/activityFeed";
+
+const MAX_ITEMS = 500;
+
+const sortTime = (item: ActivityItem) =>
+  activityTradeTime(item.message) ?? item.receivedAt;
+
+interface ActivityFeedState {
+  items: ActivityItem[];
+  filter: ActivityFilter;
+  // Adds the messages not in the history yet and returns them.
+  addMessages: (
+    source: ActivitySource,
+    messages: NotificationMessage[],
+    read?: boolean
+  ) => ActivityItem[];
+  markRead: (keys: string[]) => void;
+  markAllRead: (filter?: ActivityFilter) => void;
+  setFilter: (filter: ActivityFilter) => void;
+  clearHistory: () => void;
+}
+
+const useActivityFeedStore = create(
+  persist<ActivityFeedState>(
+    (set, get) => ({
+      items: [],
+      filter: "all",
+
+      addMessages: (source, messages, read = false) => {
+        const known = new Set(get().items.map((item) => item.key));
+        const receivedAt = Date.now();
+        const fresh: ActivityItem[] = [];
+        messages.forEach((message) => {
+          const key = activityKey(source, message);
+          if (known.has(key)) return;
+          known.add(key);
+          fresh.push({ key, source, message, receivedAt, read });
+        });
+        if (fresh.length === 0) return fresh;
+
+        set({
+          items: [...fresh, ...get().items]
+            .sort((a, b) => sortTime(b) - sortTime(a))
+            .slice(0, MAX_ITEMS),
+        });
+        return fresh;
+      },
+
+      markRead: (keys) => {
+        set({
+          items: get().items.map((item) =>
+            keys.includes(item.key) ? { ...item, read: true } : item
+          ),
+        });
+      },
+
+      markAllRead: (filter = "all") => {
+        set({
+          items: get().items.map((item) =>
+            matchesActivityFilter(item, filter) ? { ...item, read: true } : item
+          ),
+        });
+      },
+
+      setFilter: (filter) => {
+        set({ filter });
+      },
+
+      clearHistory: () => {
+        set({ items: [] });
+      },
+    }),
+    {
+      name: "activity-feed-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useActivityFeedStore;
@@ -0,0 +1,37 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { TradeMarkSource } from "@/types/trade-mark.type";
+
+interface ChartMarksState {
+  sources: Record<TradeMarkSource, boolean>;
+  toggleSource: (source: TradeMarkSource) => void;
+}
+
+const useChartMarksStore = create(
+  persist<ChartMarksState>(
+    (set) => ({
+      sources: { trades: true, mine: true, followed: true },
+      toggleSource: (source) =>
+        set((state) => ({
+          sources: { ...state.sources, [source]: !state.sources[source] },
+        })),
+    }),
+    {
+      name: "chart-marks-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useChartMarksStore;
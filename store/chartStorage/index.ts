@@ -0,0 +1,76 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  ChartStorageKind,
+  ChartStorageRecords,
+} from "@/types/chart-storage.type";
+
+type GuestRecords = {
+  [K in ChartStorageKind]: Record<string, ChartStorageRecords[K]>;
+};
+
+interface ChartStorageState {
+  // Chart storage of signed-out users; signed-in users keep theirs on the
+  // server.
+  records: GuestRecords;
+  // Layout picked per `owner:network:address`.
+  tokenLayouts: Record<string, string>;
+  putRecord: <K extends ChartStorageKind>(
+    kind: K,
+    key: string,
+    record: ChartStorageRecords[K]
+  ) => void;
+  removeRecord: (kind: ChartStorageKind, key: string) => void;
+  setTokenLayout: (tokenKey: string, layoutId: string | null) => void;
+}
+
+const useChartStorageStore = create(
+  persist<ChartStorageState>(
+    (set) => ({
+      records: {
+        charts: {},
+        studyTemplates: {},
+        drawingTemplates: {},
+        chartTemplates: {},
+        lineTools: {},
+      },
+      tokenLayouts: {},
+      putRecord: (kind, key, record) =>
+        set((state) => ({
+          records: {
+            ...state.records,
+            [kind]: { ...state.records[kind], [key]: record },
+          },
+        })),
+      removeRecord: (kind, key) =>
+        set((state) => {
+          const { [key]: _removed, ...rest } = state.records[kind];
+          return { records: { ...state.records, [kind]: rest } };
+        }),
+      setTokenLayout: (tokenKey, layoutId) =>
+        set((state) => {
+          const { [tokenKey]: _previous, ...rest } = state.tokenLayouts;
+          return {
+            tokenLayouts: layoutId ? { ...rest, [tokenKey]: layoutId } : rest,
+          };
+        }),
+    }),
+    {
+      name: "chart-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useChartStorageStore;
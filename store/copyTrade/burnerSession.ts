@@ -0,0 +1,23 @@
+import { create } from "zustand";
+import { BurnerWallet } from "@/types/copy-trade.type";
+
+// Decrypted burner keys for this page session. Kept out of the persisted
+// copy-trade store so they never reach localStorage.
+interface BurnerSessionState {
+  keys: BurnerWallet;
+  // Encrypts burners created while unlocked.
+  passphrase?: string;
+  unlock: (keys: BurnerWallet, passphrase: string) => void;
+  lock: () => void;
+}
+
+const useBurnerSessionStore = create<BurnerSessionState>((set) => ({
+  keys: {},
+  passphrase: undefined,
+
+  unlock: (keys, passphrase) => set({ keys, passphrase }),
+
+  lock: () => set({ keys: {}, passphrase: undefined }),
+}));
+
+export default useBurnerSessionStore;
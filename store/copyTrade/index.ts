@@ -0,0 +1,94 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  BurnerKeystore,
+  CopyTradeOrder,
+  CopyTradeRule,
+} from "@/types/copy-trade.type";
+import { sameWallet } from "@/utils/copyTrade";
+
+const MAX_ORDERS = 50;
+const MAX_SEEN_MESSAGES = 200;
+
+interface CopyTradeState {
+  rules: CopyTradeRule[];
+  orders: CopyTradeOrder[];
+  // Notification messages already turned into orders (or rejected).
+  seenMessages: string[];
+  // Encrypted; unlocked keys live in the burner session store.
+  burner: BurnerKeystore;
+  saveRule: (rule: CopyTradeRule) => void;
+  removeRule: (walletAddress: string) => void;
+  addOrder: (order: CopyTradeOrder) => void;
+  updateOrder: (id: string, changes: Partial<CopyTradeOrder>) => void;
+  markSeen: (messageKeys: string[]) => void;
+  setBurner: (burner: BurnerKeystore) => void;
+}
+
+const useCopyTradeStore = create(
+  persist<CopyTradeState>(
+    (set, get) => ({
+      rules: [],
+      orders: [],
+      seenMessages: [],
+      burner: {},
+
+      saveRule: (rule) => {
+        const rules = get().rules.filter(
+          (existing) => !sameWallet(existing.walletAddress, rule.walletAddress)
+        );
+        set({ rules: [...rules, rule] });
+      },
+
+      removeRule: (walletAddress) => {
+        set({
+          rules: get().rules.filter(
+            (rule) => !sameWallet(rule.walletAddress, walletAddress)
+          ),
+        });
+      },
+
+      addOrder: (order) => {
+        set({ orders: [order, ...get().orders].slice(0, MAX_ORDERS) });
+      },
+
+      updateOrder: (id, changes) => {
+        set({
+          orders: get().orders.map((order) =>
+            order.id === id ? { ...order, ...changes } : order
+          ),
+        });
+      },
+
+      markSeen: (messageKeys) => {
+        set({
+          seenMessages: [...messageKeys, ...get().seenMessages].slice(
+            0,
+            MAX_SEEN_MESSAGES
+          ),
+        });
+      },
+
+      setBurner: (burner) => {
+        set({ burner });
+      },
+    }),
+    {
+      name: "copy-trade-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useCopyTradeStore;
@@ -0,0 +1,67 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { FilterPreset } from "@/types/filter-preset.type";
+import { mergeFilterPresets } from "@/utils/filterPresets";
+
+interface FilterPresetsState {
+  presets: FilterPreset[];
+  savePreset: (preset: FilterPreset) => void;
+  removePreset: (id: string) => void;
+  markSynced: (id: string) => void;
+  // Merges the server's copy of the owner's presets of a scope.
+  syncPresets: (owner: string, scope: string, presets: FilterPreset[]) => void;
+}
+
+const useFilterPresetsStore = create(
+  persist<FilterPresetsState>(
+    (set) => ({
+      presets: [],
+      savePreset: (preset) =>
+        set((state) => ({
+          presets: [
+            ...state.presets.filter(
+              (item) =>
+                item.id !== preset.id &&
+                !(
+                  item.owner === preset.owner &&
+                  item.scope === preset.scope &&
+                  item.name === preset.name
+                )
+            ),
+            preset,
+          ],
+        })),
+      removePreset: (id) =>
+        set((state) => ({
+          presets: state.presets.filter((preset) => preset.id !== id),
+        })),
+      markSynced: (id) =>
+        set((state) => ({
+          presets: state.presets.map((preset) =>
+            preset.id === id ? { ...preset, synced: true } : preset
+          ),
+        })),
+      syncPresets: (owner, scope, presets) =>
+        set((state) => ({
+          presets: mergeFilterPresets(state.presets, owner, scope, presets),
+        })),
+    }),
+    {
+      name: "filter-presets-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useFilterPresetsStore;
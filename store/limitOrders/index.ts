@@ -0,0 +1,72 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { LimitOrder } from "@/types/limit-order.type";
+
+interface LimitOrdersState {
+  orders: LimitOrder[];
+  addOrder: (order: LimitOrder) => void;
+  updateOrder: (id: string, changes: Partial<LimitOrder>) => void;
+  cancelOrder: (id: string) => void;
+  removeOrder: (id: string) => void;
+  expireOrders: (now: number) => void;
+}
+
+const useLimitOrdersStore = create(
+  persist<LimitOrdersState>(
+    (set, get) => ({
+      orders: [],
+
+      addOrder: (order) => {
+        set({ orders: [order, ...get().orders] });
+      },
+
+      updateOrder: (id, changes) => {
+        set({
+          orders: get().orders.map((order) =>
+            order.id === id ? { ...order, ...changes } : order
+          ),
+        });
+      },
+
+      cancelOrder: (id) => {
+        get().updateOrder(id, { status: "cancelled" });
+      },
+
+      removeOrder: (id) => {
+        set({ orders: get().orders.filter((order) => order.id !== id) });
+      },
+
+      expireOrders: (now) => {
+        const { orders } = get();
+        if (
+          orders.some((order) => order.status === "open" && order.expiresAt <= now)
+        ) {
+          set({
+            orders: orders.map((order) =>
+              order.status === "open" && order.expiresAt <= now
+                ? { ...order, status: "expired" }
+                : order
+            ),
+          });
+        }
+      },
+    }),
+    {
+      name: "limit-orders-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useLimitOrdersStore;
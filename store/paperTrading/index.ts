@@ -0,0 +1,103 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { v4 as uuidv4 } from "uuid";
+import { LimitOrderToken } from "@/types/limit-order.type";
+import {
+  NewPaperTrade,
+  PaperHolding,
+  PaperTrade,
+} from "@/types/paper-trading.type";
+import {
+  applyPaperTrade,
+  depositHolding,
+  holdingId,
+} from "@/utils/paperTrading";
+
+const MAX_TRADES = 100;
+
+interface PaperTradingState {
+  holdings: PaperHolding[];
+  trades: PaperTrade[];
+  deposit: (
+    chainId: string,
+    token: LimitOrderToken,
+    amount: number,
+    priceUsd: number
+  ) => void;
+  // Throws when the virtual balance can't cover the trade.
+  fillTrade: (trade: NewPaperTrade) => void;
+  markPrice: (chainId: string, tokenAddress: string, priceUsd: number) => void;
+  removeHolding: (id: string) => void;
+  reset: () => void;
+}
+
+const usePaperTradingStore = create(
+  persist<PaperTradingState>(
+    (set, get) => ({
+      holdings: [],
+      trades: [],
+
+      deposit: (chainId, token, amount, priceUsd) => {
+        set({
+          holdings: depositHolding(
+            get().holdings,
+            chainId,
+            token,
+            amount,
+            priceUsd
+          ),
+        });
+      },
+
+      fillTrade: (trade) => {
+        const holdings = applyPaperTrade(get().holdings, trade);
+        set({
+          holdings,
+          trades: [
+            { ...trade, id: uuidv4(), createdAt: Date.now() },
+            ...get().trades,
+          ].slice(0, MAX_TRADES),
+        });
+      },
+
+      markPrice: (chainId, tokenAddress, priceUsd) => {
+        const id = holdingId(chainId, tokenAddress);
+        if (!priceUsd || !get().holdings.some((holding) => holding.id === id)) {
+          return;
+        }
+        set({
+          holdings: get().holdings.map((holding) =>
+            holding.id === id
+              ? { ...holding, lastPriceUsd: priceUsd, lastPricedAt: Date.now() }
+              : holding
+          ),
+        });
+      },
+
+      removeHolding: (id) => {
+        set({ holdings: get().holdings.filter((holding) => holding.id !== id) });
+      },
+
+      reset: () => {
+        set({ holdings: [], trades: [] });
+      },
+    }),
+    {
+      name: "paper-trading-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default usePaperTradingStore;
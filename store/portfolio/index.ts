@@ -0,0 +1,55 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { PortfolioAddress } from "@/types/portfolio.type";
+
+interface PortfolioState {
+  // Read-only addresses picked from the followed wallets.
+  watchedAddresses: PortfolioAddress[];
+  addWatchedAddress: (address: PortfolioAddress) => void;
+  removeWatchedAddress: (address: string) => void;
+}
+
+const usePortfolioStore = create(
+  persist<PortfolioState>(
+    (set, get) => ({
+      watchedAddresses: [],
+
+      addWatchedAddress: (address) => {
+        if (
+          get().watchedAddresses.some(
+            (item) =>
+              item.address.toLowerCase() === address.address.toLowerCase()
+          )
+        ) {
+          return;
+        }
+        set({ watchedAddresses: [...get().watchedAddresses, address] });
+      },
+
+      removeWatchedAddress: (address) => {
+        set({
+          watchedAddresses: get().watchedAddresses.filter(
+            (item) => item.address !== address
+          ),
+        });
+      },
+    }),
+    {
+      name: "portfolio-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default usePortfolioStore;
@@ -0,0 +1,65 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { PriceAlert } from "@/types/price-alert.type";
+
+interface PriceAlertsState {
+  alerts: PriceAlert[];
+  addAlert: (alert: PriceAlert) => void;
+  updateAlert: (id: string, changes: Partial<PriceAlert>) => void;
+  toggleAlert: (id: string) => void;
+  removeAlert: (id: string) => void;
+}
+
+const usePriceAlertsStore = create(
+  persist<PriceAlertsState>(
+    (set, get) => ({
+      alerts: [],
+
+      addAlert: (alert) => {
+        set({ alerts: [alert, ...get().alerts] });
+      },
+
+      updateAlert: (id, changes) => {
+        set({
+          alerts: get().alerts.map((alert) =>
+            alert.id === id ? { ...alert, ...changes } : alert
+          ),
+        });
+      },
+
+      toggleAlert: (id) => {
+        const alert = get().alerts.find((item) => item.id === id);
+        if (!alert) return;
+        // Resuming drops the stale snapshot; the next poll re-baselines instead
+        // of reporting a crossing that happened while paused.
+        get().updateAlert(
+          id,
+          alert.status === "active"
+            ? { status: "paused" }
+            : { status: "active", lastValue: undefined, lastSide: undefined }
+        );
+      },
+
+      removeAlert: (id) => {
+        set({ alerts: get().alerts.filter((alert) => alert.id !== id) });
+      },
+    }),
+    {
+      name: "price-alerts-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default usePriceAlertsStore;
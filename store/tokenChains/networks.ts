@@ -16,6 +16,10 @@ export type TokenChain = {
     small: string;
     large: string;
   };
+  explorer?: {
+    tx: string;
+    address: string;
+  };
 };
 
 // Define the type for the store's state
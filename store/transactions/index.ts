@@ -0,0 +1,76 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  NewTrackedTransaction,
+  TrackedTransaction,
+} from "@/types/transaction.type";
+
+const MAX_TRANSACTIONS = 50;
+
+interface TransactionsState {
+  transactions: TrackedTransaction[];
+  addTransaction: (transaction: NewTrackedTransaction) => void;
+  updateTransaction: (
+    hash: string,
+    changes: Partial<TrackedTransaction>
+  ) => void;
+  clearTransactions: () => void;
+}
+
+const useTransactionsStore = create(
+  persist<TransactionsState>(
+    (set, get) => ({
+      transactions: [],
+
+      addTransaction: (transaction) => {
+        const now = Date.now();
+        const tracked: TrackedTransaction = {
+          ...transaction,
+          status: "pending",
+          createdAt: now,
+          updatedAt: now,
+        };
+        set({
+          transactions: [
+            tracked,
+            ...get().transactions.filter((tx) => tx.hash !== transaction.hash),
+          ].slice(0, MAX_TRANSACTIONS),
+        });
+      },
+
+      updateTransaction: (hash, changes) => {
+        set({
+          transactions: get().transactions.map((tx) =>
+            tx.hash === hash ? { ...tx, ...changes, updatedAt: Date.now() } : tx
+          ),
+        });
+      },
+
+      // Pending transactions are kept so they keep being tracked.
+      clearTransactions: () => {
+        set({
+          transactions: get().transactions.filter(
+            (tx) => tx.status === "pending"
+          ),
+        });
+      },
+    }),
+    {
+      name: "transactions-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useTransactionsStore;
@@ -0,0 +1,36 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { WorkspaceLayout } from "@/types/workspace.type";
+
+interface WorkspaceState {
+  // Keyed by user id, "guest" when signed out.
+  layouts: Record<string, WorkspaceLayout>;
+  setLayout: (owner: string, layout: WorkspaceLayout) => void;
+}
+
+const useWorkspaceStore = create(
+  persist<WorkspaceState>(
+    (set) => ({
+      layouts: {},
+      setLayout: (owner, layout) =>
+        set((state) => ({ layouts: { ...state.layouts, [owner]: layout } })),
+    }),
+    {
+      name: "workspace-storage",
+      storage: {
+        getItem: (name) => {
+          const item = localStorage.getItem(name);
+          return item ? JSON.parse(item) : null;
+        },
+        setItem: (name, value) => {
+          localStorage.setItem(name, JSON.stringify(value));
+        },
+        removeItem: (name) => {
+          localStorage.removeItem(name);
+        },
+      },
+    }
+  )
+);
+
+export default useWorkspaceStore;
@@ -1,5 +1,8 @@
 export interface ITradingListResponse {
   data: ITradingItem[];
+  // Only sent by a backend that pages, see `getTradingList`. The cursor of
+  // the following page, null on the last one.
+  meta?: { next_cursor?: string | null };
 }
 
 export interface ITradingItem {
@@ -23,4 +26,18 @@ export interface Attributes {
   volume_in_usd: string;
   from_token_address: string;
   to_token_address: string;
+  dex_id?: string;
+}
+
+export type TradeSide = "all" | "buy" | "sell";
+
+export type TradeWindow = "all" | "1h" | "6h" | "24h" | "7d";
+
+export interface TradeReportFilters {
+  side: TradeSide;
+  minUsd?: number;
+  maxUsd?: number;
+  maker: string;
+  dex: string;
+  window: TradeWindow;
 }
@@ -0,0 +1,16 @@
+import { NotificationMessage } from "./notification-message.type";
+
+// Followed wallets and wallet groups have separate feeds.
+export type ActivitySource = "wallet" | "group";
+
+export interface ActivityItem {
+  // `<source>:<message id>`, since the two feeds are numbered independently.
+  key: string;
+  source: ActivitySource;
+  message: NotificationMessage;
+  receivedAt: number;
+  read: boolean;
+}
+
+// "wallets" shows followed wallets only, `group:<name>` a single group.
+export type ActivityFilter = "all" | "wallets" | `group:${string}`;
@@ -0,0 +1,62 @@
+// Records behind the charting library's save/load adapter. Every kind is
+// stored as a flat list of records addressed by a string key.
+
+export interface StoredChart {
+  id: string;
+  name: string;
+  symbol: string;
+  resolution: string;
+  content: string;
+  timestamp: number;
+}
+
+export interface StoredStudyTemplate {
+  name: string;
+  content: string;
+}
+
+export interface StoredDrawingTemplate {
+  toolName: string;
+  name: string;
+  content: string;
+}
+
+export interface StoredChartTemplate {
+  name: string;
+  content: Record<string, any>;
+}
+
+// Drawings of one chart, with the library's Maps flattened to entries.
+export interface StoredLineTools {
+  layoutId: string;
+  chartId: string;
+  symbol?: string;
+  sources: [string, unknown][];
+  groups: [string, unknown][];
+}
+
+export interface ChartStorageRecords {
+  charts: StoredChart;
+  studyTemplates: StoredStudyTemplate;
+  drawingTemplates: StoredDrawingTemplate;
+  chartTemplates: StoredChartTemplate;
+  lineTools: StoredLineTools;
+}
+
+export type ChartStorageKind = keyof ChartStorageRecords;
+
+export interface ChartStorage {
+  list: <K extends ChartStorageKind>(
+    kind: K
+  ) => Promise<ChartStorageRecords[K][]>;
+  get: <K extends ChartStorageKind>(
+    kind: K,
+    key: string
+  ) => Promise<ChartStorageRecords[K] | null>;
+  put: <K extends ChartStorageKind>(
+    kind: K,
+    key: string,
+    record: ChartStorageRecords[K]
+  ) => Promise<void>;
+  remove: (kind: ChartStorageKind, key: string) => Promise<void>;
+}
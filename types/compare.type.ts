@@ -0,0 +1,29 @@
+import { IToken } from "./token.type";
+
+export interface CompareToken {
+  network: string;
+  address: string;
+}
+
+export type CompareRange = "24h" | "7d" | "30d" | "all";
+
+// One timestamp of the overlay chart; every token key holds its % change
+// since the common start.
+export type ComparePoint = { time: number } & Record<string, number>;
+
+export type CompareMetricFormat =
+  | "price"
+  | "usd"
+  | "percent"
+  | "count"
+  | "flag"
+  | "text";
+
+export interface CompareMetric {
+  group: string;
+  label: string;
+  format: CompareMetricFormat;
+  // Which way is better, used to highlight the leading token.
+  better?: "higher" | "lower";
+  value: (token: IToken) => number | string | boolean | undefined;
+}
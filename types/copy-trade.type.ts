@@ -0,0 +1,83 @@
+// How much of the followed wallet's swap to copy:
+// "fixed-usd": always spend the same USD amount
+// "wallet-percent": spend a share of our own balance of the token being sold
+// "mirror": the leader's amount scaled by a ratio (1 = same size)
+export type CopySizing =
+  | { type: "fixed-usd"; amountUsd: number }
+  | { type: "wallet-percent"; percent: number }
+  | { type: "mirror"; ratio: number };
+
+export interface CopyTradeRule {
+  walletAddress: string;
+  label: string;
+  enabled: boolean;
+  sizing: CopySizing;
+  // Fraction, e.g. 0.02 for 2%, same unit as the swap form.
+  maxSlippage: number;
+  // Token addresses or symbols. An empty allow list allows everything.
+  allowTokens: string[];
+  denyTokens: string[];
+  // Only honoured when a burner wallet exists for the swap's chain family.
+  autoConfirm: boolean;
+  createdAt: number;
+}
+
+export type CopyTradeSide = "buy" | "sell";
+
+// A followed wallet's swap, normalized from a notification message.
+export interface CopyTradeSignal {
+  messageKey: string;
+  walletAddress: string;
+  chainId: string;
+  side: CopyTradeSide;
+  tokenAddress: string;
+  tokenSymbol: string;
+  // What the leader spent, in units of the token they sold. That is the
+  // token we sell on a sell, but on a buy it may be any token, so buys are
+  // sized from `leaderValueUsd`.
+  leaderAmount: number;
+  leaderValueUsd: number;
+  tradedAt: number;
+}
+
+export type CopyTradeStatus = "pending" | "confirmed" | "skipped" | "failed";
+
+export interface CopyTradeOrder {
+  id: string;
+  messageKey: string;
+  walletAddress: string;
+  walletLabel: string;
+  chainId: string;
+  side: CopyTradeSide;
+  tokenSymbol: string;
+  fromTokenAddress: string;
+  toTokenAddress: string;
+  fromAmount: string;
+  // What the rule means to spend; unset for "wallet-percent".
+  valueUsd?: number;
+  slippage: number;
+  status: CopyTradeStatus;
+  createdAt: number;
+  reason?: string;
+  txHash?: string;
+}
+
+export interface BurnerWallet {
+  // Hex private key for EVM chains, base58 secret key for Solana.
+  evm?: string;
+  solana?: string;
+}
+
+export type BurnerFamily = keyof BurnerWallet;
+
+// A burner key encrypted with the user's passphrase: PBKDF2-SHA256 derives
+// an AES-GCM key. Binary fields are base64; the address stays readable so
+// the wallet can be shown while locked.
+export interface EncryptedBurnerKey {
+  address: string;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export type BurnerKeystore = Partial<Record<BurnerFamily, EncryptedBurnerKey>>;
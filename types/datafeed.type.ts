@@ -37,4 +37,11 @@ export interface IOhlcvData {
   low: number;
   close: number;
   volume: number;
-}
\ No newline at end of file
+}
+
+// A token's `/ohlcv` history: 5-minute, hour and day candles.
+export interface IOhlcvSeries {
+  minuteData: IOhlcvData[];
+  hourData: IOhlcvData[];
+  dayData: IOhlcvData[];
+}
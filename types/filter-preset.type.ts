@@ -0,0 +1,17 @@
+// Filter state as it appears in the URL query, keyed by query param.
+export type FilterValues = Record<string, string>;
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  // The view the preset belongs to, e.g. "hot-tokens".
+  scope: string;
+  values: FilterValues;
+  // User id, or "guest" for presets saved while signed out.
+  owner: string;
+  createdAt: number;
+  // Whether the account has it. Unsynced presets are uploaded again.
+  synced?: boolean;
+}
+
+export type BuiltInFilterPreset = Pick<FilterPreset, "id" | "name" | "values">;
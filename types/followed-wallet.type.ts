@@ -12,3 +12,45 @@ export interface FollowedGroup {
   id?: number;
   created_at?: string;
 }
+
+// Shape of the JSON export, also accepted by the importer.
+export interface FollowedExport {
+  version: 1;
+  wallets: FollowedWallet[];
+  groups: FollowedGroup[];
+}
+
+// A parsed import file. Entries that don't match the format are left out
+// and described in `issues`.
+export interface FollowedImportFile extends FollowedExport {
+  issues: string[];
+}
+
+export type FollowedImportStatus = "new" | "duplicate" | "invalid";
+
+export interface FollowedImportWallet {
+  wallet: FollowedWallet;
+  status: FollowedImportStatus;
+  reason?: string;
+}
+
+export interface FollowedImportGroup {
+  group: FollowedGroup;
+  status: FollowedImportStatus;
+  reason?: string;
+  // Member addresses dropped because they failed validation.
+  invalidAddresses: string[];
+}
+
+export interface FollowedImportPlan {
+  wallets: FollowedImportWallet[];
+  groups: FollowedImportGroup[];
+  // Entries of the file that were skipped, see `FollowedImportFile`.
+  issues: string[];
+}
+
+export interface FollowedImportProgress {
+  done: number;
+  total: number;
+  failed: string[];
+}
@@ -0,0 +1,93 @@
+// Raw rows returned by the onchain holder endpoints. EVM chains answer with
+// `Holder`/`Balance`, Solana with `BalanceUpdate`, so every field is optional.
+export interface IOnchainHolderRow {
+  Holder?: { Address?: string };
+  Balance?: {
+    Address?: string;
+    Amount?: string | number;
+    Percentage?: string | number;
+  };
+  BalanceUpdate?: {
+    Address?: string;
+    Account?: { Owner?: string; Address?: string };
+    Holding?: string | number;
+    Balance?: string | number;
+    Percentage?: string | number;
+  };
+}
+
+export interface IOnchainHoldersResponse {
+  data?: Record<
+    string,
+    Record<string, IOnchainHolderRow[] | undefined> | undefined
+  > | null;
+}
+
+// `token-holders` puts the holder count, the supply and the distribution
+// labels (`gini_label`, `entropy_label`, ...) in `date3[0]`.
+export interface ITokenHolderStats {
+  count?: string | number;
+  supply?: string | number;
+}
+
+export interface ITokenHolderStatsResponse {
+  date3?: ITokenHolderStats[];
+}
+
+export interface IActiveTradersResponse {
+  data?: { ethereum?: { smartContractCalls?: IActiveTrader[] } } | null;
+}
+
+export interface IActiveTrader {
+  address: { address: string };
+  count: number;
+  gasValue: number;
+  gas_value_usd: number;
+  max_date: string;
+}
+
+export type HolderBalance = {
+  address: string;
+  amount: number;
+  // Percentage of total supply, 0-100.
+  share: number;
+};
+
+export type HolderCohortId = "whale" | "large" | "medium" | "small";
+
+export type HolderCohort = {
+  id: HolderCohortId;
+  label: string;
+  holders: number;
+  share: number;
+};
+
+export type HolderConcentration = {
+  top10Share: number;
+  top50Share: number;
+  gini: number;
+  // Undefined when the sampled holders never reach a majority.
+  nakamoto?: number;
+  sampleSize: number;
+};
+
+export type OverlapToken = {
+  address: string;
+  network: string;
+  name: string;
+  imageUrl?: string;
+};
+
+export type OverlapWallet = {
+  address: string;
+  // Supply share per selected token, undefined where the wallet is not a
+  // top holder.
+  shares: (number | undefined)[];
+  tokenCount: number;
+};
+
+export type OverlapIntersection = {
+  // Indices into the selected tokens.
+  tokens: number[];
+  wallets: number;
+};
@@ -0,0 +1,42 @@
+export type LimitOrderStatus =
+  | "open"
+  | "triggered"
+  // Sent by the wallet, waiting for the transaction to confirm.
+  | "submitted"
+  | "filled"
+  | "failed"
+  | "cancelled"
+  | "expired";
+
+// "above": fill once the price climbs to the target (take profit / limit sell)
+// "below": fill once the price drops to the target (stop loss / limit buy)
+export type LimitOrderCondition = "above" | "below";
+
+export interface LimitOrderToken {
+  decimals: string;
+  tokenContractAddress: string;
+  tokenLogoUrl: string;
+  tokenName: string;
+  tokenSymbol: string;
+}
+
+export interface LimitOrder {
+  id: string;
+  chainId: string;
+  walletType: "evm" | "solana";
+  walletAddress: string;
+  fromToken: LimitOrderToken;
+  toToken: LimitOrderToken;
+  fromAmount: string;
+  // Price of one fromToken expressed in toToken.
+  targetPrice: number;
+  condition: LimitOrderCondition;
+  slippage: number;
+  createdAt: number;
+  expiresAt: number;
+  status: LimitOrderStatus;
+  lastPrice?: number;
+  lastCheckedAt?: number;
+  txHash?: string;
+  error?: string;
+}
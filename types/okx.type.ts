@@ -0,0 +1,71 @@
+export interface OkxQuoteToken {
+  decimal: string;
+  tokenContractAddress: string;
+  tokenSymbol: string;
+  tokenUnitPrice: string | null;
+}
+
+export interface OkxDexProtocol {
+  dexName: string;
+  percent: string;
+}
+
+export interface OkxSubRouter {
+  dexProtocol: OkxDexProtocol[];
+  fromToken: OkxQuoteToken;
+  toToken: OkxQuoteToken;
+}
+
+export interface OkxDexRouter {
+  router: string;
+  routerPercent: string;
+  subRouterList: OkxSubRouter[];
+}
+
+export interface OkxQuoteCompare {
+  dexName: string;
+  dexLogo: string;
+  tradeFee: string;
+  amountOut: string;
+  priceImpactPercentage?: string;
+}
+
+export interface OkxQuote {
+  chainId: string;
+  dexRouterList: OkxDexRouter[];
+  estimateGasFee: string;
+  fromToken: OkxQuoteToken;
+  toToken: OkxQuoteToken;
+  fromTokenAmount: string;
+  toTokenAmount: string;
+  priceImpactPercentage?: string;
+  quoteCompareList: OkxQuoteCompare[];
+  tradeFee: string;
+}
+
+export interface OkxLiquiditySource {
+  id: string;
+  name: string;
+  logo: string;
+}
+
+export interface OkxResponse<T> {
+  code: string;
+  msg: string;
+  data: T[];
+}
+
+export interface OkxTokenAsset {
+  chainIndex: string;
+  // Empty for the chain's native token.
+  tokenAddress: string;
+  symbol: string;
+  balance: string;
+  tokenPrice: string;
+  tokenType: string;
+  isRiskToken: boolean;
+}
+
+export interface OkxTokenAssets {
+  tokenAssets: OkxTokenAsset[];
+}
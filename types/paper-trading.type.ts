@@ -0,0 +1,41 @@
+import { LimitOrderToken } from "./limit-order.type";
+import { StrategyTableType } from "./strategy-table.type";
+
+export interface PaperHolding {
+  // `${chainId}:${tokenContractAddress}`
+  id: string;
+  chainId: string;
+  token: LimitOrderToken;
+  amount: number;
+  // USD paid for the amount still held; shrinks pro rata on every sale.
+  costBasisUsd: number;
+  soldAmount: number;
+  soldValueUsd: number;
+  realizedPnl: number;
+  lastPriceUsd?: number;
+  lastPricedAt?: number;
+}
+
+export interface PaperTrade {
+  id: string;
+  chainId: string;
+  fromToken: LimitOrderToken;
+  toToken: LimitOrderToken;
+  fromAmount: number;
+  toAmount: number;
+  fromPriceUsd: number;
+  toPriceUsd: number;
+  slippage: number;
+  createdAt: number;
+}
+
+export type NewPaperTrade = Omit<PaperTrade, "id" | "createdAt">;
+
+export interface PaperPositionRow extends StrategyTableType {
+  id: string;
+  chainId: string;
+  tokenSymbol: string;
+  amount: number;
+  valueUsd: number;
+  realizedPnl: number;
+}
@@ -0,0 +1,29 @@
+export type PortfolioAddressSource = "evm" | "solana" | "followed";
+
+export interface PortfolioAddress {
+  address: string;
+  label: string;
+  source: PortfolioAddressSource;
+}
+
+export interface PortfolioTokenPrice {
+  priceUsd?: number;
+  change24h?: number;
+  imageUrl?: string;
+}
+
+export interface PortfolioHolding {
+  // `${chainId}:${tokenAddress}`, balances of the same token are summed
+  // across addresses.
+  id: string;
+  chainId: string;
+  network?: string;
+  tokenAddress: string;
+  symbol: string;
+  balance: number;
+  priceUsd: number;
+  valueUsd: number;
+  change24h?: number;
+  imageUrl?: string;
+  owners: string[];
+}
@@ -0,0 +1,31 @@
+// "price": base token USD price crosses the threshold
+// "change": price_change_percentage over `window` crosses the threshold (in %)
+// "liquidity": reserve_in_usd crosses the threshold
+// "ratio": the dominant side of buys vs sells over `window` flips
+export type PriceAlertKind = "price" | "change" | "liquidity" | "ratio";
+
+export type PriceAlertDirection = "above" | "below";
+
+export type PriceAlertWindow = "m5" | "h1" | "h24";
+
+export type PriceAlertStatus = "active" | "paused";
+
+export type TradeSide = "buy" | "sell";
+
+export interface PriceAlert {
+  id: string;
+  tokenAddress: string;
+  network: string;
+  tokenName: string;
+  kind: PriceAlertKind;
+  direction: PriceAlertDirection;
+  threshold: number;
+  window: PriceAlertWindow;
+  status: PriceAlertStatus;
+  createdAt: number;
+  // Last observed value, so alerts fire on the crossing and not on every poll.
+  lastValue?: number;
+  lastSide?: TradeSide;
+  lastTriggeredAt?: number;
+  triggerCount: number;
+}
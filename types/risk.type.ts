@@ -0,0 +1,44 @@
+import { IToken } from "./token.type";
+
+// "unknown" when the payload had none of the signals the rules read.
+export type RiskLevel = "unknown" | "low" | "medium" | "high" | "critical";
+
+export type RiskCategory =
+  | "honeypot"
+  | "contract"
+  | "ownership"
+  | "tax"
+  | "liquidity"
+  | "holders";
+
+export interface RiskFinding {
+  ruleId: string;
+  title: string;
+  category: RiskCategory;
+  // Points the rule added to the score.
+  points: number;
+  detail: string;
+}
+
+export interface RiskRule {
+  id: string;
+  title: string;
+  category: RiskCategory;
+  // Upper bound of the points the rule can add.
+  weight: number;
+  // Forces a critical verdict whatever the total.
+  critical?: boolean;
+  // Returns the points (0..weight) and why, or null when the payload lacks
+  // the signal the rule needs.
+  evaluate: (token: IToken) => { points: number; detail: string } | null;
+}
+
+export interface RiskVerdict {
+  version: string;
+  // 0 (no risk found) to 100.
+  score: number;
+  level: RiskLevel;
+  findings: RiskFinding[];
+  // Rules whose signal was missing from the payload.
+  unknown: string[];
+}
@@ -3,5 +3,14 @@ import { ColumnDef } from '@tanstack/react-table';
 // Extend ColumnDef with a custom property 'lock'
 export type CustomColumnDef<T> = ColumnDef<T> & {
     lock?: boolean;
-    name?: string
+    name?: string;
+    // Raw value written to exports when the accessor doesn't give one.
+    exportValue?: (row: T) => unknown;
 };
+
+export type TableExportFormat = "csv" | "xlsx";
+
+export type TableExportScope = "page" | "all";
+
+// Yields the rows of every page, already filtered and sorted by the server.
+export type TableRowsFetcher<T> = () => AsyncIterable<T[]>;
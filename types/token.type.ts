@@ -480,6 +480,8 @@ export interface Details {
   holder_count?: string;
   token_name?: string;
   token_symbol?: string;
+  // Fraction (0..1) of the LP supply that is locked, like the holder
+  // `percent` values.
   locked_percentage?: number;
   dex_listings?: DexListing[];
   total_liquidity?: number;
@@ -0,0 +1,13 @@
+// Series computed from the trade list for the flow indicators.
+export type FlowMetric = "pressure" | "buyers" | "whales" | "delta";
+
+// Trades of one chart bar.
+export interface FlowBucket {
+  // Unix seconds, the bar's start.
+  time: number;
+  buyUsd: number;
+  sellUsd: number;
+  buyers: Set<string>;
+  whaleBuyUsd: number;
+  whaleSellUsd: number;
+}
@@ -0,0 +1,17 @@
+// Where a chart trade mark comes from: the token's trade list, the
+// connected wallet's swaps or followed wallets' activity.
+export type TradeMarkSource = "trades" | "mine" | "followed";
+
+export interface TradeMark {
+  id: string;
+  source: TradeMarkSource;
+  side: "buy" | "sell";
+  // Unix seconds.
+  time: number;
+  amountUsd: number;
+  wallet: string;
+  // Followed wallets' names.
+  walletLabel?: string;
+  // Activity messages don't carry the transaction.
+  txHash?: string;
+}
@@ -0,0 +1,24 @@
+export type TransactionKind = "approve" | "swap";
+
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "dropped";
+
+export interface TrackedTransaction {
+  hash: string;
+  // OKX chain id, e.g. "1" for Ethereum and "501" for Solana.
+  chainId: string;
+  walletType: "evm" | "solana";
+  kind: TransactionKind;
+  description: string;
+  status: TransactionStatus;
+  createdAt: number;
+  updatedAt: number;
+  // Solana only: after this block height the blockhash expires and a
+  // transaction that never landed is considered dropped.
+  lastValidBlockHeight?: number;
+  error?: string;
+}
+
+export type NewTrackedTransaction = Omit<
+  TrackedTransaction,
+  "status" | "createdAt" | "updatedAt"
+>;
@@ -0,0 +1,18 @@
+export type WorkspaceGrid = "1x2" | "2x2" | "3x3";
+
+export interface WorkspaceToken {
+  network: string;
+  address: string;
+}
+
+export interface WorkspaceLayout {
+  grid: WorkspaceGrid;
+  // One slot per cell of the largest grid; smaller grids show the first
+  // ones, so switching grids doesn't lose charts.
+  cells: (WorkspaceToken | null)[];
+  interval: string;
+  syncSymbol: boolean;
+  syncInterval: boolean;
+  // Crosshair and visible time range.
+  syncCrosshair: boolean;
+}
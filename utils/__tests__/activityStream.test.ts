@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import EventSource from "eventsource";
+import WebSocket from "ws";
+import { startActivityStubServer } from "@/scripts/activity-stub-server.mjs";
+import useActivityFeedStore from "@/store/activityFeed";
+import { ActivityFilter } from "@/types/activity-feed.type";
+import {
+  ActivityStreamOptions,
+  openActivityStream,
+} from "@/utils/activityStream";
+import {
+  activityGroups,
+  groupFilter,
+  matchesActivityFilter,
+  unreadActivity,
+} from "@/utils/activityFeed";
+
+// The feed store persists to localStorage, which node doesn't have.
+vi.hoisted(() => {
+  const values = new Map<string, string>();
+  globalThis.localStorage = {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => void values.set(key, value),
+    removeItem: (key: string) => void values.delete(key),
+  } as Storage;
+});
+
+type StubServer = Awaited<ReturnType<typeof startActivityStubServer>>;
+
+let server: StubServer | undefined;
+let closeStream: (() => void) | undefined;
+
+beforeEach(() => {
+  useActivityFeedStore.setState({ items: [], filter: "all" });
+});
+
+afterEach(async () => {
+  closeStream?.();
+  closeStream = undefined;
+  await server?.close();
+  server = undefined;
+  vi.unstubAllEnvs();
+});
+
+const items = () => useActivityFeedStore.getState().items;
+
+// Feeds the stub server's activity into the store, as `useNotification` does,
+// with the Node websocket and SSE clients and a short backoff.
+const connect = (
+  stub: StubServer,
+  options: Partial<ActivityStreamOptions> = {}
+) => {
+  vi.stubEnv("NEXT_PUBLIC_BASE_URL_FIVE", stub.baseUrl);
+  const batches: number[] = [];
+  closeStream = openActivityStream({
+    token: "token",
+    baseUrl: stub.baseUrl,
+    onMessages: (source, messages) => {
+      const fresh = useActivityFeedStore
+        .getState()
+        .addMessages(source, messages);
+      if (fresh.length > 0) batches.push(fresh.length);
+    },
+    retryDelay: () => 5,
+    maxAttempts: 2,
+    pollInterval: 60_000,
+    WebSocketImpl: WebSocket as unknown as typeof globalThis.WebSocket,
+    EventSourceImpl: EventSource as unknown as typeof globalThis.EventSource,
+    ...options,
+  });
+  return { batches };
+};
+
+// Connected over SSE, as the stub refuses websockets, and done with the poll
+// that runs when the stream opens.
+const waitForStream = async (stub: StubServer, polls = 1) => {
+  await vi.waitFor(() => expect(stub.connections()).toBe(1));
+  await vi.waitFor(() => expect(stub.requests.polling).toBe(polls));
+};
+
+describe("openActivityStream against the stub server", () => {
+  it("adds one entry per message of a burst", async () => {
+    server = await startActivityStubServer();
+    const { batches } = connect(server);
+    await waitForStream(server);
+
+    const burst = server.push("wallet", { count: 5 });
+    await vi.waitFor(() => expect(items()).toHaveLength(5));
+    expect(items().map((item) => item.key).sort()).toEqual(
+      burst.map((message) => `wallet:${message.id}`).sort()
+    );
+    expect(batches).toEqual([5]);
+  });
+
+  it("doesn't add messages again after a reconnect", async () => {
+    server = await startActivityStubServer();
+    connect(server);
+    await waitForStream(server);
+    server.push("wallet", { count: 2 });
+    server.push("group", { name: "Smart money" });
+    await vi.waitFor(() => expect(items()).toHaveLength(3));
+
+    server.dropConnections();
+    // The reopened stream polls the history, which holds all three again.
+    await waitForStream(server, 2);
+    expect(server.requests.sse).toBe(2);
+    expect(items()).toHaveLength(3);
+
+    server.push("wallet");
+    await vi.waitFor(() => expect(items()).toHaveLength(4));
+  });
+
+  it("counts unread activity until it is read", async () => {
+    server = await startActivityStubServer();
+    connect(server);
+    await waitForStream(server);
+    const [first] = server.push("wallet", { count: 3 });
+    server.push("group", { name: "Smart money" });
+    await vi.waitFor(() => expect(items()).toHaveLength(4));
+
+    expect(unreadActivity(items())).toBe(4);
+    useActivityFeedStore.getState().markRead([`wallet:${first.id}`]);
+    expect(unreadActivity(items())).toBe(3);
+    expect(unreadActivity(items(), "wallets")).toBe(2);
+
+    useActivityFeedStore.getState().markAllRead("wallets");
+    expect(unreadActivity(items(), "wallets")).toBe(0);
+    expect(unreadActivity(items())).toBe(1);
+  });
+
+  it("filters by group", async () => {
+    server = await startActivityStubServer();
+    connect(server);
+    await waitForStream(server);
+    server.push("group", { count: 2, name: "Smart money" });
+    server.push("group", { name: "Early buyers" });
+    server.push("wallet");
+    await vi.waitFor(() => expect(items()).toHaveLength(4));
+
+    const count = (filter: ActivityFilter) =>
+      items().filter((item) => matchesActivityFilter(item, filter)).length;
+    expect(activityGroups(items())).toEqual(["Early buyers", "Smart money"]);
+    expect(count("all")).toBe(4);
+    expect(count("wallets")).toBe(1);
+    expect(count(groupFilter("Smart money"))).toBe(2);
+    expect(count(groupFilter("Early buyers"))).toBe(1);
+    expect(unreadActivity(items(), groupFilter("Smart money"))).toBe(2);
+  });
+
+  it("falls back to polling when the stream is unavailable", async () => {
+    server = await startActivityStubServer({ sse: false });
+    server.push("wallet", { count: 2 });
+    server.push("group", { name: "Early buyers" });
+    connect(server, { pollInterval: 20 });
+
+    await vi.waitFor(() => expect(items()).toHaveLength(3));
+    expect(server.requests.sse).toBe(2);
+    expect(server.connections()).toBe(0);
+
+    server.push("wallet");
+    await vi.waitFor(() => expect(items()).toHaveLength(4));
+    expect(server.requests.polling).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,199 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import EventSource from "eventsource";
+import WebSocket from "ws";
+import { IOhlcvData } from "@/types/datafeed.type";
+import { BarStreamOptions, openBarStream } from "@/utils/barStream";
+import { createBarAggregator } from "@/utils/ohlcv";
+import { backoffDelay } from "@/utils/stream";
+import {
+  MockStreamServer,
+  startMockStreamServer,
+} from "./mockStreamServer";
+
+const HOUR = 60 * 60;
+const T0 = 1_700_000_000 - (1_700_000_000 % HOUR);
+
+const bar = (time: number, close: number, volume = 1): IOhlcvData => ({
+  time,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume,
+});
+
+let server: MockStreamServer | undefined;
+let closeStream: (() => void) | undefined;
+
+afterEach(async () => {
+  closeStream?.();
+  closeStream = undefined;
+  await server?.close();
+  server = undefined;
+  vi.unstubAllEnvs();
+});
+
+// Opens a bar stream on the mock server with the Node websocket and SSE
+// clients and a short, recorded backoff.
+const connect = (
+  mock: MockStreamServer,
+  options: Partial<BarStreamOptions> = {}
+) => {
+  const bars: IOhlcvData[] = [];
+  const retryDelay = vi.fn((_attempt: number) => 5);
+  closeStream = openBarStream({
+    address: "0xpool",
+    network: "eth",
+    baseUrl: mock.baseUrl,
+    onBar: (received) => bars.push(received),
+    retryDelay,
+    maxAttempts: 2,
+    pollInterval: 60_000,
+    WebSocketImpl: WebSocket as unknown as typeof globalThis.WebSocket,
+    EventSourceImpl: EventSource as unknown as typeof globalThis.EventSource,
+    ...options,
+  });
+  return { bars, retryDelay };
+};
+
+describe("backoffDelay", () => {
+  it("doubles from a second and caps at 30s, plus jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect([0, 1, 2, 3, 4, 5, 10].map(backoffDelay)).toEqual([
+      1000, 2000, 4000, 8000, 16000, 30000, 30000,
+    ]);
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    expect(backoffDelay(0)).toBeLessThan(1250);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("openBarStream against a mock server", () => {
+  it("streams bars over a websocket", async () => {
+    server = await startMockStreamServer();
+    const { bars } = connect(server);
+    await vi.waitFor(() => expect(server!.connections().websocket).toBe(1));
+
+    server.send({ time: T0, open: 1, high: 2, low: 0.5, close: 1.5 });
+    server.send([(T0 + 60) * 1000, 1.5, 1.6, 1.4, 1.6, 12]);
+    await vi.waitFor(() => expect(bars).toHaveLength(2));
+    expect(bars).toEqual([
+      { time: T0, open: 1, high: 2, low: 0.5, close: 1.5, volume: 0 },
+      {
+        time: T0 + 60,
+        open: 1.5,
+        high: 1.6,
+        low: 1.4,
+        close: 1.6,
+        volume: 12,
+      },
+    ]);
+    expect(server.requests).toMatchObject({ sse: 0, polling: 0 });
+  });
+
+  it("reconnects with growing backoff after the server drops", async () => {
+    server = await startMockStreamServer();
+    const mock = server;
+    // Down until the fourth retry.
+    const retryDelay = vi.fn((attempt: number) => {
+      if (attempt === 4) mock.accept.websocket = true;
+      return 5;
+    });
+    const { bars } = connect(mock, { maxAttempts: 5, retryDelay });
+    await vi.waitFor(() => expect(mock.connections().websocket).toBe(1));
+
+    mock.accept.websocket = false;
+    mock.dropConnections();
+    await vi.waitFor(() => expect(retryDelay).toHaveBeenCalledTimes(4));
+    await vi.waitFor(() => expect(mock.connections().websocket).toBe(1));
+    expect(retryDelay.mock.calls.map(([attempt]) => attempt)).toEqual([
+      1, 2, 3, 4,
+    ]);
+    expect(mock.requests.websocket).toBe(5);
+    mock.send(bar(T0, 2));
+    await vi.waitFor(() => expect(bars).toEqual([bar(T0, 2)]));
+
+    // A successful connection resets the backoff.
+    mock.dropConnections();
+    await vi.waitFor(() => expect(retryDelay).toHaveBeenCalledTimes(5));
+    expect(retryDelay).toHaveBeenLastCalledWith(1);
+    expect(mock.requests.sse).toBe(0);
+  });
+
+  it("falls back from websocket to SSE", async () => {
+    server = await startMockStreamServer({ websocket: false });
+    const { bars, retryDelay } = connect(server);
+    await vi.waitFor(() => expect(server!.connections().sse).toBe(1));
+
+    expect(server.requests.websocket).toBe(2);
+    // The attempt count restarts on the next transport.
+    expect(retryDelay.mock.calls.map(([attempt]) => attempt)).toEqual([1, 0]);
+    server.send(bar(T0, 3));
+    await vi.waitFor(() => expect(bars).toEqual([bar(T0, 3)]));
+  });
+
+  it("falls back to polling when neither push transport connects", async () => {
+    const candles = [
+      [T0 + 60, 4, 4, 4, 4, 1],
+      [T0, 3, 3, 3, 3, 1],
+      [T0 - 60, 2, 2, 2, 2, 1],
+    ];
+    server = await startMockStreamServer({
+      websocket: false,
+      sse: false,
+      candles: () => candles,
+    });
+    vi.stubEnv("NEXT_PUBLIC_BASE_URL_ONE", server.baseUrl);
+    const { bars } = connect(server);
+
+    await vi.waitFor(() => expect(bars).toHaveLength(2));
+    expect(server.requests).toMatchObject({ websocket: 2, sse: 2 });
+    expect(server.requests.polling).toBeGreaterThan(0);
+    // The latest two candles, oldest first.
+    expect(bars).toEqual([bar(T0, 3), bar(T0 + 60, 4)]);
+  });
+
+  it("rolls streamed minutes over into the next bucket", async () => {
+    server = await startMockStreamServer();
+    // Hour candles, the last one still open with the volume so far.
+    const nextBar = createBarAggregator(
+      { bars: [bar(T0 - HOUR, 1, 50), bar(T0, 2, 30)], seconds: HOUR },
+      "60"
+    );
+    const updates: IOhlcvData[] = [];
+    connect(server, {
+      onBar: (rawBar) => {
+        const update = nextBar(rawBar);
+        if (update) updates.push(update);
+      },
+    });
+    await vi.waitFor(() => expect(server!.connections().websocket).toBe(1));
+
+    // Minutes already in the open hour candle only move its prices.
+    server.send({ ...bar(T0, 2, 7), high: 2.5 });
+    server.send({ ...bar(T0 + 59 * 60, 1.8, 4), low: 1.2 });
+    // The next hour starts from the streamed minutes alone.
+    server.send(bar(T0 + HOUR, 1.9, 5));
+    server.send(bar(T0 + HOUR + 60, 2.1, 6));
+    // Late minutes of a closed bucket are ignored.
+    server.send(bar(T0 + 30 * 60, 9, 100));
+    await vi.waitFor(() => expect(updates).toHaveLength(4));
+
+    expect(updates[1]).toEqual({
+      time: T0,
+      open: 2,
+      high: 2.5,
+      low: 1.2,
+      close: 1.8,
+      volume: 30,
+    });
+    expect(updates[3]).toEqual({
+      time: T0 + HOUR,
+      open: 1.9,
+      high: 2.1,
+      low: 1.9,
+      close: 2.1,
+      volume: 11,
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  burnerKeyAddress,
+  createEvmBurnerKey,
+  createSolanaBurnerKey,
+  decryptBurner,
+  decryptBurnerKey,
+  encryptBurnerKey,
+} from "@/utils/burnerWallet";
+
+const PASSPHRASE = "correct horse battery";
+
+describe("burner keystore", () => {
+  it("round-trips both key families", async () => {
+    const burner = {
+      evm: createEvmBurnerKey(),
+      solana: createSolanaBurnerKey(),
+    };
+    const keystore = {
+      evm: await encryptBurnerKey("evm", burner.evm, PASSPHRASE),
+      solana: await encryptBurnerKey("solana", burner.solana, PASSPHRASE),
+    };
+
+    expect(keystore.evm?.address).toBe(burnerKeyAddress("evm", burner.evm));
+    expect(keystore.solana?.address).toBe(
+      burnerKeyAddress("solana", burner.solana)
+    );
+    await expect(decryptBurner(keystore, PASSPHRASE)).resolves.toEqual(burner);
+  });
+
+  it("never stores the key itself", async () => {
+    const key = createEvmBurnerKey();
+    const encrypted = await encryptBurnerKey("evm", key, PASSPHRASE);
+    expect(JSON.stringify(encrypted)).not.toContain(key.slice(2));
+    // Fresh salt and iv every time.
+    const again = await encryptBurnerKey("evm", key, PASSPHRASE);
+    expect(again.ciphertext).not.toBe(encrypted.ciphertext);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    const encrypted = await encryptBurnerKey(
+      "evm",
+      createEvmBurnerKey(),
+      PASSPHRASE
+    );
+    await expect(
+      decryptBurnerKey(encrypted, "wrong passphrase")
+    ).rejects.toThrow("Wrong passphrase");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { CopyTradeSignal } from "@/types/copy-trade.type";
+import {
+  copyTradeAmount,
+  copyTradeOrder,
+  copyTradeValueRejection,
+  defaultCopyTradeRule,
+  leaderUnitPriceUsd,
+} from "@/utils/copyTrade";
+import { NATIVE_TOKEN_ADDRESS } from "@/utils/paperTrading";
+
+const PEPE = "0x6982508145454ce325ddbe47a25d4ec3d2311933";
+const ETH_USD = 2000;
+
+// The leader paid 1,000 USDC for PEPE.
+const usdcBuy: CopyTradeSignal = {
+  messageKey: "message-1",
+  walletAddress: "0x1111111111111111111111111111111111111111",
+  chainId: "1",
+  side: "buy",
+  tokenAddress: PEPE,
+  tokenSymbol: "PEPE",
+  leaderAmount: 1000,
+  leaderValueUsd: 1000,
+  tradedAt: 0,
+};
+
+// The leader sold 2M PEPE for $20.
+const pepeSell: CopyTradeSignal = {
+  ...usdcBuy,
+  side: "sell",
+  leaderAmount: 2_000_000,
+  leaderValueUsd: 20,
+};
+
+const rule = defaultCopyTradeRule(usdcBuy.walletAddress, "Leader");
+
+describe("copyTradeAmount", () => {
+  it("sizes buys in gas token from the USD value", () => {
+    const fixed = { type: "fixed-usd", amountUsd: 50 } as const;
+    const mirror = { type: "mirror", ratio: 0.5 } as const;
+    const fromPriceUsd = ETH_USD;
+
+    expect(copyTradeAmount(fixed, usdcBuy, { fromPriceUsd })).toBe(0.025);
+    expect(copyTradeAmount(mirror, usdcBuy, { fromPriceUsd })).toBe(0.25);
+  });
+
+  it("sizes sells at the leader's price of the token", () => {
+    const fromPriceUsd = leaderUnitPriceUsd(pepeSell);
+    expect(
+      copyTradeAmount({ type: "fixed-usd", amountUsd: 5 }, pepeSell, {
+        fromPriceUsd,
+      })
+    ).toBeCloseTo(500_000);
+    expect(
+      copyTradeAmount({ type: "mirror", ratio: 2 }, pepeSell, {
+        fromPriceUsd,
+      })
+    ).toBeCloseTo(4_000_000);
+  });
+
+  it("takes a share of the balance for wallet-percent", () => {
+    expect(
+      copyTradeAmount({ type: "wallet-percent", percent: 10 }, usdcBuy, {
+        fromPriceUsd: 0,
+        balance: 3,
+      })
+    ).toBeCloseTo(0.3);
+  });
+
+  it("is zero without a price", () => {
+    expect(
+      copyTradeAmount(rule.sizing, usdcBuy, { fromPriceUsd: 0 })
+    ).toBe(0);
+    const unpriced = { ...pepeSell, leaderValueUsd: 0 };
+    expect(
+      copyTradeAmount({ type: "mirror", ratio: 1 }, unpriced, {
+        fromPriceUsd: leaderUnitPriceUsd(unpriced),
+      })
+    ).toBe(0);
+  });
+});
+
+describe("copyTradeOrder", () => {
+  it("buys with the gas token and records the USD target", () => {
+    const order = copyTradeOrder(usdcBuy, rule, 0.025);
+    expect(order).toMatchObject({
+      fromTokenAddress: NATIVE_TOKEN_ADDRESS.evm,
+      toTokenAddress: PEPE,
+      fromAmount: "0.025",
+      valueUsd: 50,
+    });
+  });
+});
+
+describe("copyTradeValueRejection", () => {
+  const order = copyTradeOrder(usdcBuy, rule, 0.025);
+
+  it("lets orders near the rule's target through", () => {
+    expect(copyTradeValueRejection(order, 0.025 * ETH_USD)).toBeUndefined();
+    expect(copyTradeValueRejection(order, 60)).toBeUndefined();
+  });
+
+  it("refuses orders far from the rule's target", () => {
+    // 1,000 ETH for a $50 rule: the leader's USDC amount taken as gas token.
+    expect(copyTradeValueRejection(order, 1000 * ETH_USD)).toMatch(
+      /the rule targets \$50\.00/
+    );
+    expect(copyTradeValueRejection(order, 10)).toBeDefined();
+    expect(copyTradeValueRejection(order, 0)).toBe(
+      "Could not price the copy trade"
+    );
+  });
+
+  it("has no USD target to check for wallet-percent", () => {
+    const percentOrder = copyTradeOrder(
+      usdcBuy,
+      { ...rule, sizing: { type: "wallet-percent", percent: 10 } },
+      0.3
+    );
+    expect(percentOrder.valueUsd).toBeUndefined();
+    expect(copyTradeValueRejection(percentOrder, 1_000_000)).toBeUndefined();
+  });
+});
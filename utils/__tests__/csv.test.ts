@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "@/utils/csv";
+
+describe("toCsv", () => {
+  it("quotes fields with commas, quotes and line breaks", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines"]])).toBe(
+      '"a,b","say ""hi""","two\nlines"'
+    );
+  });
+
+  it("escapes text that a spreadsheet would run as a formula", () => {
+    expect(
+      toCsv([["=HYPERLINK(\"x\")", "+1", "-rug", "@SUM(A1)", "\tx", "ok"]])
+    ).toBe('"\'=HYPERLINK(""x"")",\'+1,\'-rug,\'@SUM(A1),\'\tx,ok');
+  });
+
+  it("keeps numbers numeric, negative ones included", () => {
+    expect(toCsv([[-1.5, 0, 42]])).toBe("-1.5,0,42");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads escaped formulas back as the original text", () => {
+    const row = ["=1+1", "-rug", "'quoted", "plain"];
+    expect(parseCsv(toCsv([row]))).toEqual([row]);
+  });
+});
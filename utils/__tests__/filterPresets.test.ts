@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { mergeFilterPresets } from "@/utils/filterPresets";
+import { FilterPreset } from "@/types/filter-preset.type";
+
+const preset = (preset: Partial<FilterPreset>): FilterPreset => ({
+  id: "id",
+  name: "Preset",
+  scope: "hot-tokens",
+  values: {},
+  owner: "1",
+  createdAt: 0,
+  ...preset,
+});
+
+describe("mergeFilterPresets", () => {
+  it("keeps local presets the account doesn't have yet", () => {
+    const local = [preset({ id: "unsynced" })];
+    const remote = [preset({ id: "remote" })];
+    expect(
+      mergeFilterPresets(local, "1", "hot-tokens", remote).map(({ id }) => id)
+    ).toEqual(["unsynced", "remote"]);
+  });
+
+  it("drops synced presets removed from the account", () => {
+    const local = [preset({ id: "removed", synced: true })];
+    expect(mergeFilterPresets(local, "1", "hot-tokens", [])).toEqual([]);
+  });
+
+  it("takes the account's copy of a preset by id", () => {
+    const local = [preset({ id: "a", name: "Old" })];
+    const remote = [preset({ id: "a", name: "New", owner: "" })];
+    expect(mergeFilterPresets(local, "1", "hot-tokens", remote)).toEqual([
+      preset({ id: "a", name: "New", synced: true }),
+    ]);
+  });
+
+  it("leaves other owners and scopes alone", () => {
+    const local = [
+      preset({ id: "guest", owner: "guest", synced: true }),
+      preset({ id: "other", scope: "trades", synced: true }),
+    ];
+    expect(mergeFilterPresets(local, "1", "hot-tokens", [])).toEqual(local);
+  });
+});
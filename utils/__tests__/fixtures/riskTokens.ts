@@ -0,0 +1,109 @@
+import { IToken, TokenSecurity } from "@/types/token.type";
+
+// Trimmed `/token` payloads carrying only the fields the risk rules read.
+
+const safeSecurity: TokenSecurity = {
+  details: {
+    sell_tax: "0",
+    buy_tax: "0",
+    locked_percentage: 0.95,
+    holdersChart: {
+      regularHoldersData: [
+        { address: "0xpool", percent: "0.4", is_contract: 1, is_locked: 0 },
+        { address: "0xdead", percent: "0.2", is_contract: 0, is_locked: 1 },
+        { address: "0xa1", percent: "0.02", is_contract: 0, is_locked: 0 },
+        { address: "0xa2", percent: "0.015", is_contract: 0, is_locked: 0 },
+        { address: "0xa3", percent: "0.01", is_contract: 0, is_locked: 0 },
+      ],
+    },
+  },
+  sourceCodeControl: {
+    is_open_source: "1",
+    isProxy: "0",
+    isHoneypot: "0",
+    isMintable: "0",
+  },
+  restriction: { isBlacklisted: "0" },
+  tradingControl: {
+    cannotBuy: "0",
+    cannotSellAll: "0",
+    transfer_pausable: "0",
+  },
+  ownershipControl: {
+    hiddenOwner: "0",
+    canTakeBackOwnership: "0",
+    ownerChangeBalance: "0",
+  },
+  taxControl: { slippage_modifiable: "0", personalSlippageModifiable: "0" },
+};
+
+export const safeToken = {
+  id: "eth_0xsafe",
+  data: [{ attributes: { reserve_in_usd: "850000.12" } }],
+  FunctionCallsData: {
+    renounceOwnership: { status: "renounced" },
+    extraFunctions: [],
+    malFunc: { count: 0, uniqueNames: [], similarNames: [] },
+    maliciousLibraries: { count: 0, libraries: [] },
+  },
+  SecurityData: { tokenSecurity: safeSecurity },
+  ScoreData: { status: "Safe" },
+} as unknown as IToken;
+
+export const honeypotToken = {
+  ...safeToken,
+  SecurityData: {
+    tokenSecurity: {
+      ...safeSecurity,
+      sourceCodeControl: { ...safeSecurity.sourceCodeControl, isHoneypot: "1" },
+    },
+  },
+} as IToken;
+
+export const riskyToken = {
+  id: "bsc_0xrisky",
+  data: [{ attributes: { reserve_in_usd: "3200" } }],
+  FunctionCallsData: {
+    renounceOwnership: { status: "not renounced" },
+    extraFunctions: [{ Name: "setFee" }, { Name: "setMaxTx" }],
+    malFunc: { count: 2, uniqueNames: ["drain"], similarNames: [] },
+    maliciousLibraries: { count: 0, libraries: [] },
+  },
+  SecurityData: {
+    tokenSecurity: {
+      details: {
+        sell_tax: "0.3",
+        buy_tax: "0.05",
+        locked_percentage: 0.01,
+        holdersChart: {
+          regularHoldersData: [
+            { address: "0xb1", percent: "0.35", is_contract: 0, is_locked: 0 },
+            { address: "0xb2", percent: "0.2", is_contract: 0, is_locked: 0 },
+          ],
+        },
+      },
+      sourceCodeControl: {
+        is_open_source: "0",
+        isProxy: "1",
+        isHoneypot: "0",
+        isMintable: "1",
+      },
+      restriction: { isBlacklisted: "1" },
+      tradingControl: {
+        cannotBuy: "0",
+        cannotSellAll: "0",
+        transfer_pausable: "1",
+      },
+      ownershipControl: {
+        hiddenOwner: "1",
+        canTakeBackOwnership: "0",
+        ownerChangeBalance: "0",
+      },
+      taxControl: { slippage_modifiable: "1" },
+    },
+  },
+  ScoreData: { status: "Danger" },
+} as unknown as IToken;
+
+// A token the backend has no security data for yet.
+export const bareToken = { id: "base_0xnew" } as IToken;
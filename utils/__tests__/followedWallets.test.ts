@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  exportFollowed,
+  parseFollowedFile,
+  planFollowedImport,
+} from "@/utils/followedWallets";
+
+const EVM = "0x52908400098527886E0F7030069857D2E4169EE7";
+const SOLANA = "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU";
+
+describe("parseFollowedFile (json)", () => {
+  it("reads its own export back", () => {
+    const text = exportFollowed(
+      [{ address: EVM, label: "Whale" }],
+      [{ label: "Degens", addresses: [SOLANA], notificationThreshold: 1 }],
+      "json"
+    );
+    expect(parseFollowedFile(text, "json")).toEqual({
+      version: 1,
+      wallets: [{ address: EVM, label: "Whale" }],
+      groups: [
+        { label: "Degens", addresses: [SOLANA], notificationThreshold: 1 },
+      ],
+      issues: [],
+    });
+  });
+
+  it("reads a bare array as wallets", () => {
+    const text = JSON.stringify([{ address: EVM }]);
+    const parsed = parseFollowedFile(text, "json");
+    expect(parsed.wallets).toEqual([{ address: EVM, label: "" }]);
+    expect(parsed.issues).toEqual([]);
+  });
+
+  it("skips entries that don't match the format and says why", () => {
+    const text = JSON.stringify({
+      wallets: [{ address: EVM, label: "Ok" }, { address: 42 }, "nope"],
+      groups: [
+        { label: "Bad threshold", addresses: [EVM], notificationThreshold: -1 },
+        { label: "No addresses" },
+      ],
+    });
+    const parsed = parseFollowedFile(text, "json");
+
+    expect(parsed.wallets).toEqual([{ address: EVM, label: "Ok" }]);
+    expect(parsed.groups).toEqual([]);
+    expect(parsed.issues).toEqual([
+      "Wallet 2 address: Expected string, received number",
+      "Wallet 3: Expected object, received string",
+      expect.stringMatching(/^Group 1 notificationThreshold: /),
+      "Group 2 addresses: Required",
+    ]);
+  });
+
+  it("reports a file of the wrong shape", () => {
+    const parsed = parseFollowedFile('{"wallets": "all of them"}', "json");
+    expect(parsed.wallets).toEqual([]);
+    expect(parsed.issues).toHaveLength(1);
+    expect(parsed.issues[0]).toMatch(/^File/);
+  });
+
+  it("throws on text that isn't JSON", () => {
+    expect(() => parseFollowedFile("{", "json")).toThrow();
+  });
+});
+
+describe("planFollowedImport", () => {
+  it("carries the file's issues into the dry run", () => {
+    const parsed = parseFollowedFile(
+      JSON.stringify([{ address: EVM }, { label: "No address" }]),
+      "json"
+    );
+    const plan = planFollowedImport(parsed, [], []);
+    expect(plan.wallets.map((item) => item.status)).toEqual(["new"]);
+    expect(plan.issues).toEqual(["Wallet 2 address: Required"]);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { IToken } from "@/types/token.type";
+import { overlapTokensFromSearch } from "@/utils/holders";
+
+const searchResult = (...ids: string[]) =>
+  ({
+    data: ids.map((id) => ({
+      attributes: { name: "PEPE / WETH" },
+      relationships: { base_token: { data: { id } } },
+    })),
+  }) as unknown as IToken;
+
+describe("overlapTokensFromSearch", () => {
+  it("keeps underscores in the network id", () => {
+    const tokens = overlapTokensFromSearch(
+      searchResult("polygon_pos_0xabc", "arbitrum_nova_0xdef", "eth_0x123")
+    );
+    expect(tokens.map(({ network, address }) => [network, address])).toEqual([
+      ["polygon_pos", "0xabc"],
+      ["arbitrum_nova", "0xdef"],
+      ["eth", "0x123"],
+    ]);
+  });
+
+  it("skips ids without a network or address", () => {
+    expect(
+      overlapTokensFromSearch(searchResult("0xabc", "eth_", "_0xabc"))
+    ).toEqual([]);
+  });
+});
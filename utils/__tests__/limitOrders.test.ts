@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from "vitest";
+import { LimitOrder } from "@/types/limit-order.type";
+import { OkxQuote } from "@/types/okx.type";
+import {
+  TrackedTransaction,
+  TransactionStatus,
+} from "@/types/transaction.type";
+import {
+  conditionForTarget,
+  fetchOrderPrice,
+  isTargetHit,
+  priceFromQuote,
+  QuoteSource,
+  settledOrderChanges,
+} from "@/utils/limitOrders";
+
+const USDC = "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48";
+const WETH = "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2";
+
+const order = (changes: Partial<LimitOrder> = {}): LimitOrder => ({
+  id: "order-1",
+  chainId: "1",
+  walletType: "evm",
+  walletAddress: "0x1111111111111111111111111111111111111111",
+  fromToken: {
+    decimals: "18",
+    tokenContractAddress: WETH,
+    tokenLogoUrl: "",
+    tokenName: "Wrapped Ether",
+    tokenSymbol: "WETH",
+  },
+  toToken: {
+    decimals: "6",
+    tokenContractAddress: USDC,
+    tokenLogoUrl: "",
+    tokenName: "USD Coin",
+    tokenSymbol: "USDC",
+  },
+  fromAmount: "0.5",
+  targetPrice: 3000,
+  condition: "above",
+  slippage: 0.5,
+  createdAt: 0,
+  expiresAt: Infinity,
+  status: "open",
+  ...changes,
+});
+
+// 0.5 WETH quoted for `usdcOut` USDC.
+const quote = (usdcOut: number) =>
+  ({
+    chainId: "1",
+    fromToken: { decimal: "18" },
+    toToken: { decimal: "6" },
+    fromTokenAmount: "500000000000000000",
+    toTokenAmount: String(usdcOut * 1e6),
+  }) as OkxQuote;
+
+// Serves the given prices one call after another, like a market moving
+// between polls.
+const mockQuoteSource = (usdcOuts: number[]) => {
+  const prices = [...usdcOuts];
+  return vi.fn<QuoteSource>(async () => ({
+    code: "0",
+    msg: "",
+    data: [quote(prices.shift()!)],
+  }));
+};
+
+describe("priceFromQuote", () => {
+  it("prices one from-token in to-tokens from the raw amounts", () => {
+    expect(priceFromQuote(quote(1400))).toBe(2800);
+  });
+});
+
+describe("conditionForTarget", () => {
+  it("waits for a rise above the current price and a drop below it", () => {
+    expect(conditionForTarget(3000, 2800)).toBe("above");
+    expect(conditionForTarget(2500, 2800)).toBe("below");
+  });
+});
+
+describe("fetchOrderPrice", () => {
+  it("quotes the order's amount in base units on its chain", async () => {
+    const source = mockQuoteSource([1400]);
+    await expect(fetchOrderPrice(order(), source)).resolves.toBe(2800);
+    expect(source).toHaveBeenCalledWith({
+      chainId: "1",
+      amount: "500000000000000000",
+      fromTokenAddress: WETH,
+      toTokenAddress: USDC,
+    });
+  });
+
+  it("fails when the quote source returns no route", async () => {
+    const source = vi.fn<QuoteSource>(async () => ({
+      code: "82000",
+      msg: "Insufficient liquidity",
+      data: [],
+    }));
+    await expect(fetchOrderPrice(order(), source)).rejects.toThrow(
+      "Insufficient liquidity"
+    );
+  });
+});
+
+describe("order triggers", () => {
+  // Polls like the watcher until the order's target is hit.
+  const pollsUntilHit = async (limitOrder: LimitOrder, source: QuoteSource) => {
+    for (let poll = 1; poll <= 10; poll++) {
+      const price = await fetchOrderPrice(limitOrder, source);
+      if (isTargetHit(limitOrder, price)) return poll;
+    }
+    return null;
+  };
+
+  it("fills a take-profit once the price climbs to the target", async () => {
+    const source = mockQuoteSource([1400, 1450, 1499.99, 1500, 1600]);
+    await expect(pollsUntilHit(order(), source)).resolves.toBe(4);
+  });
+
+  it("fills a stop-loss once the price drops to the target", async () => {
+    const stopLoss = order({ targetPrice: 2500, condition: "below" });
+    const source = mockQuoteSource([1400, 1300, 1200]);
+    await expect(pollsUntilHit(stopLoss, source)).resolves.toBe(3);
+  });
+
+  it("keeps waiting while the price moves away from the target", async () => {
+    const source = mockQuoteSource(Array(10).fill(1000));
+    await expect(pollsUntilHit(order(), source)).resolves.toBeNull();
+  });
+});
+
+describe("settledOrderChanges", () => {
+  const submitted = order({ status: "submitted", txHash: "0xabc" });
+  const transaction = (status: TransactionStatus): TrackedTransaction => ({
+    hash: "0xabc",
+    chainId: "1",
+    walletType: "evm",
+    kind: "swap",
+    description: "Limit order WETH → USDC",
+    status,
+    createdAt: 0,
+    updatedAt: 0,
+  });
+
+  it("waits while the transaction is pending or untracked", () => {
+    expect(settledOrderChanges(submitted, [transaction("pending")])).toBe(
+      undefined
+    );
+    expect(settledOrderChanges(submitted, [])).toBe(undefined);
+  });
+
+  it("fills the order once the transaction confirms", () => {
+    expect(settledOrderChanges(submitted, [transaction("confirmed")])).toEqual(
+      { status: "filled" }
+    );
+  });
+
+  it("fails the order when the transaction fails or is dropped", () => {
+    expect(settledOrderChanges(submitted, [transaction("dropped")])).toEqual({
+      status: "failed",
+      error: "Transaction dropped",
+    });
+    expect(
+      settledOrderChanges(submitted, [
+        { ...transaction("failed"), error: "execution reverted" },
+      ])
+    ).toEqual({ status: "failed", error: "execution reverted" });
+  });
+});
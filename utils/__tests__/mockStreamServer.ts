@@ -0,0 +1,118 @@
+import http from "http";
+import { AddressInfo, Socket } from "net";
+import WebSocket, { Server as WebSocketServer } from "ws";
+
+const token = (symbol: string) => ({
+  address: `0x${symbol.toLowerCase()}`,
+  name: symbol,
+  symbol,
+});
+
+// A local stand-in for the bar stream backend: websocket and SSE on
+// `/ohlcv/stream` and `/ohlcv` for polling clients. `accept` switches the
+// push transports on and off; a refused websocket upgrade is dropped and a
+// refused SSE request gets a 503.
+export const startMockStreamServer = async ({
+  websocket = true,
+  sse = true,
+  candles = () => [],
+}: {
+  websocket?: boolean;
+  sse?: boolean;
+  // `/ohlcv` minute candles as `[time, open, high, low, close, volume]`.
+  candles?: () => number[][];
+} = {}) => {
+  const accept = { websocket, sse };
+  // Connection attempts and polls per transport.
+  const requests = { websocket: 0, sse: 0, polling: 0 };
+  const sockets = new Set<WebSocket>();
+  const eventStreams = new Set<http.ServerResponse>();
+  const wss = new WebSocketServer({ noServer: true });
+
+  const server = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname === "/ohlcv/stream") {
+      requests.sse++;
+      if (!accept.sse) {
+        res.writeHead(503).end();
+        return;
+      }
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+      res.write(": connected\n\n");
+      eventStreams.add(res);
+      req.on("close", () => eventStreams.delete(res));
+      return;
+    }
+    if (pathname === "/ohlcv") {
+      requests.polling++;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          data: {
+            id: "ohlcv",
+            type: "ohlcv_request_response",
+            attributes: { ohlcv_list: candles() },
+          },
+          meta: { base: token("PEPE"), quote: token("WETH") },
+        })
+      );
+      return;
+    }
+    res.writeHead(404).end();
+  });
+
+  server.on("upgrade", (req, socket, head) => {
+    requests.websocket++;
+    if (!accept.websocket) {
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(req, socket as Socket, head, (ws) => {
+      sockets.add(ws);
+      ws.on("close", () => sockets.delete(ws));
+    });
+  });
+
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+
+  const dropConnections = () => {
+    sockets.forEach((ws) => ws.terminate());
+    eventStreams.forEach((res) => res.destroy());
+  };
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    accept,
+    requests,
+    // Open push connections per transport.
+    connections: () => ({
+      websocket: sockets.size,
+      sse: eventStreams.size,
+    }),
+    // Pushes a payload to every websocket and SSE client.
+    send: (payload: unknown) => {
+      const data = JSON.stringify(payload);
+      sockets.forEach((ws) => ws.send(data));
+      eventStreams.forEach((res) => res.write(`data: ${data}\n\n`));
+    },
+    // Cuts every open connection, as a backend restart would.
+    dropConnections,
+    close: () =>
+      new Promise<void>((resolve) => {
+        dropConnections();
+        wss.close();
+        server.close(() => resolve());
+      }),
+  };
+};
+
+export type MockStreamServer = Awaited<
+  ReturnType<typeof startMockStreamServer>
+>;
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { IOhlcvData } from "@/types/datafeed.type";
+import { createBarAggregator, liveSeedFor } from "@/utils/ohlcv";
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const D0 = 1_699_920_000 - (1_699_920_000 % DAY);
+
+const candle = (
+  time: number,
+  { open = 1, high = 1, low = 1, close = 1, volume = 1 } = {}
+): IOhlcvData => ({ time, open, high, low, close, volume });
+
+// `count` bars `step` seconds apart, the last one at `last`.
+const series = (last: number, step: number, count: number) =>
+  Array.from({ length: count }, (_, index) =>
+    candle(last - (count - 1 - index) * step)
+  );
+
+describe("liveSeedFor", () => {
+  const now = D0 + 10 * HOUR + 35 * MINUTE;
+  // ~8 hours of 5-minute bars, 8 days of hours, 100 days.
+  const history = {
+    minuteData: series(now, 5 * MINUTE, 100),
+    hourData: series(D0 + 10 * HOUR, HOUR, 8 * 24),
+    dayData: series(D0, DAY, 100),
+  };
+
+  it("seeds intraday buckets from the 5-minute bars", () => {
+    expect(liveSeedFor("60", history)).toEqual({
+      bars: history.minuteData,
+      seconds: 5 * MINUTE,
+    });
+    expect(liveSeedFor("240", history).seconds).toBe(5 * MINUTE);
+  });
+
+  it("uses hour bars when the minute bars start inside the bucket", () => {
+    expect(liveSeedFor("1440", history)).toEqual({
+      bars: history.hourData,
+      seconds: HOUR,
+    });
+  });
+
+  it("falls back to day bars", () => {
+    const seed = liveSeedFor("1440", { ...history, hourData: [] });
+    expect(seed).toEqual({ bars: history.dayData, seconds: DAY });
+  });
+
+  it("is empty without history", () => {
+    expect(
+      liveSeedFor("60", { minuteData: [], hourData: [], dayData: [] })
+    ).toEqual({ bars: [], seconds: 0 });
+  });
+});
+
+describe("createBarAggregator", () => {
+  const hour = D0 + 10 * HOUR;
+  // The open hour so far as 5-minute bars.
+  const seed = {
+    bars: [
+      candle(hour, { open: 1, high: 3, low: 0.5, close: 2, volume: 10 }),
+      candle(hour + 5 * MINUTE, { close: 2, high: 2, low: 2, volume: 4 }),
+    ],
+    seconds: 5 * MINUTE,
+  };
+
+  it("keeps the seed bar when a minute is stamped at its start", () => {
+    const next = createBarAggregator(seed, "60");
+    expect(
+      next(candle(hour + 5 * MINUTE, { close: 2.2, high: 2.2, volume: 3 }))
+    ).toEqual({
+      time: hour,
+      open: 1,
+      high: 3,
+      low: 0.5,
+      close: 2.2,
+      volume: 14,
+    });
+  });
+
+  it("adds the volume of minutes after the seed", () => {
+    const next = createBarAggregator(seed, "60");
+    next(candle(hour + 10 * MINUTE, { volume: 2 }));
+    // A repeated update of the same minute replaces it.
+    expect(next(candle(hour + 10 * MINUTE, { volume: 5 }))?.volume).toBe(19);
+  });
+
+  it("starts the next bucket from streamed bars only", () => {
+    const next = createBarAggregator(seed, "60");
+    expect(next(candle(hour + HOUR, { close: 4, volume: 2 }))).toEqual({
+      time: hour + HOUR,
+      open: 1,
+      high: 1,
+      low: 1,
+      close: 4,
+      volume: 2,
+    });
+    expect(next(candle(hour + 20 * MINUTE))).toBeNull();
+  });
+});
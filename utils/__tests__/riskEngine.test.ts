@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import { IToken } from "@/types/token.type";
+import { RiskRule } from "@/types/risk.type";
+import { evaluateRisk, RISK_RULES } from "@/utils/riskEngine";
+import {
+  bareToken,
+  honeypotToken,
+  riskyToken,
+  safeToken,
+} from "./fixtures/riskTokens";
+
+const rule = (id: string) => RISK_RULES.find((item) => item.id === id)!;
+
+// Points every rule gives the risky fixture; a new rule needs a row here.
+const riskyPoints: Record<string, number> = {
+  honeypot: 0,
+  "cannot-sell-all": 0,
+  "cannot-buy": 0,
+  "malicious-functions": 20,
+  "malicious-libraries": 0,
+  "extra-functions": 6,
+  "closed-source": 25,
+  proxy: 10,
+  mintable: 15,
+  "transfer-pausable": 15,
+  blacklist: 10,
+  "not-renounced": 10,
+  "hidden-owner": 20,
+  "reclaim-ownership": 0,
+  "owner-changes-balance": 0,
+  "sell-tax": 25,
+  "tax-asymmetry": 25,
+  "tax-modifiable": 15,
+  "low-liquidity": 25,
+  "unlocked-liquidity": 15,
+  "holder-concentration": 20,
+  "score-status": 20,
+};
+
+const withDetails = (details: object) => {
+  const security = safeToken.SecurityData!.tokenSecurity!;
+  return {
+    ...safeToken,
+    SecurityData: {
+      tokenSecurity: {
+        ...security,
+        details: { ...security.details, ...details },
+      },
+    },
+  } as IToken;
+};
+
+const fixedRule = (points: number, critical = false): RiskRule => ({
+  id: `fixed-${points}`,
+  title: "Fixed",
+  category: "contract",
+  weight: 100,
+  critical,
+  evaluate: () => ({ points, detail: "Fixed points." }),
+});
+
+describe("risk rules", () => {
+  it("has an expectation for every rule", () => {
+    expect(Object.keys(riskyPoints).sort()).toEqual(
+      RISK_RULES.map((item) => item.id).sort()
+    );
+  });
+
+  it.each(RISK_RULES.map((item) => item.id))(
+    "%s scores the risky fixture and clears the safe one",
+    (id) => {
+      expect(rule(id).evaluate(riskyToken)?.points).toBe(riskyPoints[id]);
+      expect(rule(id).evaluate(safeToken)?.points).toBe(0);
+    }
+  );
+
+  it.each(RISK_RULES.map((item) => item.id))(
+    "%s reports a missing signal as null",
+    (id) => {
+      expect(rule(id).evaluate(bareToken)).toBeNull();
+    }
+  );
+
+  it("flags a honeypot", () => {
+    expect(rule("honeypot").evaluate(honeypotToken)?.points).toBe(100);
+  });
+
+  it("reads locked liquidity as a fraction", () => {
+    expect(
+      rule("unlocked-liquidity").evaluate(
+        withDetails({ locked_percentage: 0.01 })
+      )
+    ).toEqual({ points: 15, detail: "1.0% of the liquidity is locked." });
+    expect(
+      rule("unlocked-liquidity").evaluate(withDetails({ locked_percentage: 1 }))
+        ?.points
+    ).toBe(0);
+    expect(
+      rule("unlocked-liquidity").evaluate(
+        withDetails({ locked_percentage: 0.3 })
+      )?.points
+    ).toBe(8);
+  });
+
+  it("steps the sell tax", () => {
+    const points = (sell_tax: string) =>
+      rule("sell-tax").evaluate(withDetails({ sell_tax }))?.points;
+    expect(points("0.04")).toBe(0);
+    expect(points("0.05")).toBe(5);
+    expect(points("0.1")).toBe(15);
+    expect(points("0.6")).toBe(35);
+  });
+
+  it("falls back to the low-liquidity flag without a pool reserve", () => {
+    const token = { isLowLiquidity: true } as IToken;
+    expect(rule("low-liquidity").evaluate(token)?.points).toBe(25);
+  });
+});
+
+describe("evaluateRisk", () => {
+  it("rates the safe fixture low with no findings", () => {
+    const verdict = evaluateRisk(safeToken);
+    expect(verdict).toMatchObject({ score: 0, level: "low", findings: [] });
+    expect(verdict.unknown).toEqual([]);
+  });
+
+  it("rates a honeypot critical", () => {
+    const verdict = evaluateRisk(honeypotToken);
+    expect(verdict.level).toBe("critical");
+    expect(verdict.findings[0].ruleId).toBe("honeypot");
+  });
+
+  it("caps the score and sorts findings by points", () => {
+    const verdict = evaluateRisk(riskyToken);
+    expect(verdict.score).toBe(100);
+    expect(verdict.level).toBe("critical");
+    const points = verdict.findings.map((finding) => finding.points);
+    expect(points).toEqual([...points].sort((a, b) => b - a));
+  });
+
+  it("rates a payload without any signal unknown", () => {
+    const verdict = evaluateRisk(bareToken);
+    expect(verdict.level).toBe("unknown");
+    expect(verdict.unknown).toHaveLength(RISK_RULES.length);
+  });
+
+  it.each([
+    [0, "low"],
+    [14, "low"],
+    [15, "medium"],
+    [39, "medium"],
+    [40, "high"],
+    [69, "high"],
+    [70, "critical"],
+  ])("maps a score of %i to %s", (points, level) => {
+    expect(evaluateRisk(safeToken, [fixedRule(points)]).level).toBe(level);
+  });
+
+  it("lets a critical rule override the score", () => {
+    const verdict = evaluateRisk(safeToken, [fixedRule(20, true)]);
+    expect(verdict).toMatchObject({ score: 20, level: "critical" });
+  });
+
+  it("keeps points within the rule's weight", () => {
+    const verdict = evaluateRisk(safeToken, [
+      { ...fixedRule(500), weight: 30 },
+    ]);
+    expect(verdict.score).toBe(30);
+  });
+});
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getTradingList } from "@/services/http/token.http";
+import { loadTradeMarks } from "@/utils/tradeMarks";
+import { ITradingItem } from "@/types/Tradinglist.type";
+
+vi.mock("@/services/http/token.http", () => ({ getTradingList: vi.fn() }));
+
+const FROM = Date.parse("2026-01-01T00:00:00Z") / 1000;
+const TO = FROM + 24 * 3600;
+
+const trade = (
+  hash: string,
+  volumeUsd: number,
+  time = FROM + 3600,
+  maker = "0x52908400098527886E0F7030069857D2E4169EE7"
+): ITradingItem => ({
+  id: hash,
+  type: "trade",
+  attributes: {
+    block_number: 1,
+    tx_hash: hash,
+    tx_from_address: maker,
+    from_token_amount: "1",
+    to_token_amount: "1",
+    price_from_in_currency_token: "1",
+    price_to_in_currency_token: "1",
+    price_from_in_usd: "1",
+    price_to_in_usd: "1",
+    block_timestamp: new Date(time * 1000).toISOString(),
+    kind: "buy",
+    volume_in_usd: String(volumeUsd),
+    from_token_address: "0xa",
+    to_token_address: "0xb",
+  },
+});
+
+beforeEach(() => {
+  vi.mocked(getTradingList).mockReset();
+});
+
+describe("loadTradeMarks", () => {
+  it("marks the largest trades when the server ignores the sort", async () => {
+    vi.mocked(getTradingList).mockResolvedValue({
+      data: [
+        ...Array.from({ length: 120 }, (_, index) =>
+          trade(`small-${index}`, 10 + index)
+        ),
+        trade("whale", 50000),
+        trade("too-early", 90000, FROM - 60),
+      ],
+    });
+    const marks = await loadTradeMarks({
+      source: "trades",
+      network: "eth",
+      address: "0xpool-sort",
+      from: FROM,
+      to: TO,
+    });
+
+    expect(marks).toHaveLength(100);
+    expect(marks[0].txHash).toBe("whale");
+    expect(marks.map((mark) => mark.txHash)).not.toContain("too-early");
+    expect(marks.map((mark) => mark.txHash)).not.toContain("small-0");
+  });
+
+  it("only marks the connected wallet's swaps as mine", async () => {
+    vi.mocked(getTradingList).mockResolvedValue({
+      data: [
+        trade("theirs", 100, FROM + 60, "0xsomeoneelse"),
+        trade("ours", 5),
+      ],
+    });
+    const marks = await loadTradeMarks({
+      source: "mine",
+      network: "eth",
+      address: "0xpool-mine",
+      from: FROM,
+      to: TO,
+      wallet: "0x52908400098527886e0f7030069857d2e4169ee7",
+    });
+    expect(marks.map((mark) => mark.txHash)).toEqual(["ours"]);
+  });
+});
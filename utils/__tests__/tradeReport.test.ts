@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  defaultTradeFilters,
+  ignoredTradeFilters,
+  matchesTradeFilters,
+  pagesOnServer,
+  whaleFilters,
+} from "@/utils/tradeReport";
+import { Attributes, ITradingItem } from "@/types/Tradinglist.type";
+
+const NOW = Date.parse("2026-01-01T12:00:00Z");
+
+const trade = (attributes: Partial<Attributes>): ITradingItem => ({
+  id: attributes.tx_hash ?? "tx",
+  type: "trade",
+  attributes: {
+    block_number: 1,
+    tx_hash: "tx",
+    tx_from_address: "0x52908400098527886E0F7030069857D2E4169EE7",
+    from_token_amount: "1",
+    to_token_amount: "1",
+    price_from_in_currency_token: "1",
+    price_to_in_currency_token: "1",
+    price_from_in_usd: "1",
+    price_to_in_usd: "1",
+    block_timestamp: "2026-01-01T11:30:00Z",
+    kind: "buy",
+    volume_in_usd: "500",
+    from_token_address: "0xa",
+    to_token_address: "0xb",
+    dex_id: "uniswap_v3",
+    ...attributes,
+  },
+});
+
+describe("pagesOnServer", () => {
+  it("needs a next_cursor in the meta, even a null one", () => {
+    expect(pagesOnServer({ data: [], meta: { next_cursor: "abc" } })).toBe(
+      true
+    );
+    expect(pagesOnServer({ data: [], meta: { next_cursor: null } })).toBe(
+      true
+    );
+    expect(pagesOnServer({ data: [] })).toBe(false);
+    expect(pagesOnServer({ data: [], meta: {} })).toBe(false);
+  });
+});
+
+describe("matchesTradeFilters", () => {
+  it("matches maker addresses case-insensitively on EVM", () => {
+    const filters = {
+      ...defaultTradeFilters,
+      maker: "0x52908400098527886e0f7030069857d2e4169ee7",
+    };
+    expect(matchesTradeFilters(trade({}), filters, NOW)).toBe(true);
+  });
+
+  it("drops trades outside the window", () => {
+    const filters = { ...defaultTradeFilters, window: "1h" as const };
+    const old = trade({ block_timestamp: "2026-01-01T10:00:00Z" });
+    expect(matchesTradeFilters(trade({}), filters, NOW)).toBe(true);
+    expect(matchesTradeFilters(old, filters, NOW)).toBe(false);
+  });
+});
+
+describe("ignoredTradeFilters", () => {
+  it("is empty when the server applied every filter", () => {
+    const items = [trade({ volume_in_usd: "20000" })];
+    expect(
+      ignoredTradeFilters(items, whaleFilters(defaultTradeFilters), NOW)
+    ).toEqual([]);
+  });
+
+  it("names the filters some returned trade fails", () => {
+    const items = [
+      trade({ volume_in_usd: "20000" }),
+      trade({ volume_in_usd: "50", kind: "sell" }),
+    ];
+    const filters = { ...whaleFilters(defaultTradeFilters), dex: "uniswap" };
+    expect(ignoredTradeFilters(items, filters, NOW)).toEqual(["min volume"]);
+    expect(
+      ignoredTradeFilters(items, { ...filters, side: "buy" }, NOW)
+    ).toEqual(["side", "min volume"]);
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  ActivityFilter,
+  ActivityItem,
+  ActivitySource,
+} from "@/types/activity-feed.type";
+import { NotificationMessage } from "@/types/notification-message.type";
+
+export const activityKey = (
+  source: ActivitySource,
+  message: NotificationMessage
+) => `${source}:${message.id}`;
+
+export const groupFilter = (name: string): ActivityFilter => `group:${name}`;
+
+export const matchesActivityFilter = (
+  item: ActivityItem,
+  filter: ActivityFilter
+) => {
+  if (filter === "all") return true;
+  if (filter === "wallets") return item.source === "wallet";
+  return item.source === "group" && groupFilter(item.message.name) === filter;
+};
+
+export const unreadActivity = (
+  items: ActivityItem[],
+  filter: ActivityFilter = "all"
+) =>
+  items.filter((item) => !item.read && matchesActivityFilter(item, filter))
+    .length;
+
+// Names of the groups that have activity in the history, for the filter tabs.
+export const activityGroups = (items: ActivityItem[]) =>
+  Array.from(
+    new Set(
+      items
+        .filter((item) => item.source === "group" && item.message.name)
+        .map((item) => item.message.name)
+    )
+  ).sort();
+
+export const activityTradeTime = (message: NotificationMessage) => {
+  const tradeTime = message.report?.trade_time ?? message.trade_time;
+  return tradeTime ? new Date(tradeTime).getTime() : undefined;
+};
+
+export const describeActivity = ({ message }: ActivityItem) => {
+  const sold = [message.sell_amount, message.sell_currency_name]
+    .filter(Boolean)
+    .join(" ");
+  const bought = [message.buy_amount, message.buy_currency_name]
+    .filter(Boolean)
+    .join(" ");
+  return `${message.name}: swapped ${sold || "tokens"} for ${bought || "tokens"}`;
+};
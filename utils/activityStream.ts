@@ -0,0 +1,114 @@
+import {
+  getGroupMessages,
+  getMessages,
+} from "@/services/http/followed-wallets.http";
+import { ActivitySource } from "@/types/activity-feed.type";
+import { NotificationMessage } from "@/types/notification-message.type";
+import { openStream, StreamTransport } from "./stream";
+
+export interface ActivityStreamOptions {
+  // Auth token of the signed in user.
+  token: string;
+  onMessages: (source: ActivitySource, messages: NotificationMessage[]) => void;
+  baseUrl?: string;
+  transports?: StreamTransport[];
+  pollInterval?: number;
+  maxAttempts?: number;
+  retryDelay?: (attempt: number) => number;
+  // Injectable so the feed can be driven by the stub server or a mock.
+  WebSocketImpl?: typeof WebSocket;
+  EventSourceImpl?: typeof EventSource;
+}
+
+const DEFAULT_TRANSPORTS: StreamTransport[] = ["websocket", "sse", "polling"];
+const POLL_INTERVAL = 10000;
+const MAX_ATTEMPTS = 3;
+
+const isMessage = (value: unknown): value is NotificationMessage =>
+  !!value && typeof value === "object" && "id" in value;
+
+/**
+ * Accepts pushed events shaped `{ source, message }` or `{ source, messages }`
+ * as well as the `{ messages }` / `{ groupmessages }` bodies of the polling
+ * endpoints.
+ */
+export const parseActivityEvent = (
+  payload: unknown
+): { source: ActivitySource; messages: NotificationMessage[] } | null => {
+  let data = payload;
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  if (!data || typeof data !== "object") return null;
+
+  const event = data as Record<string, unknown>;
+  let source: ActivitySource = event.source === "group" ? "group" : "wallet";
+  let list: unknown = event.messages ?? event.message;
+  if (Array.isArray(event.groupmessages)) {
+    source = "group";
+    list = event.groupmessages;
+  }
+
+  const messages = (Array.isArray(list) ? list : [list]).filter(isMessage);
+  return messages.length > 0 ? { source, messages } : null;
+};
+
+const streamUrl = (baseUrl: string, token: string) =>
+  `${baseUrl}/messages/stream?${new URLSearchParams({ token })}`;
+
+// Opens the followed wallet activity feed. Whenever a push connection opens
+// the latest messages are fetched once, so nothing sent while disconnected is
+// lost. Returns a function that closes the feed.
+export const openActivityStream = ({
+  token,
+  onMessages,
+  baseUrl = process.env.NEXT_PUBLIC_BASE_URL_FIVE ?? "",
+  transports = DEFAULT_TRANSPORTS,
+  pollInterval = POLL_INTERVAL,
+  maxAttempts = MAX_ATTEMPTS,
+  retryDelay,
+  WebSocketImpl = typeof WebSocket !== "undefined" ? WebSocket : undefined,
+  EventSourceImpl = typeof EventSource !== "undefined" ? EventSource : undefined,
+}: ActivityStreamOptions) => {
+  let closed = false;
+
+  const emit = (payload: unknown) => {
+    const event = parseActivityEvent(payload);
+    if (event && !closed) onMessages(event.source, event.messages);
+  };
+
+  const poll = async () => {
+    try {
+      const [wallets, groups] = await Promise.all([
+        getMessages(token),
+        getGroupMessages(token),
+      ]);
+      emit(wallets.data);
+      emit(groups.data);
+    } catch (error) {
+      console.error("Error polling wallet activity:", error);
+    }
+  };
+
+  const close = openStream({
+    url: baseUrl ? streamUrl(baseUrl, token) : "",
+    transports,
+    onMessage: emit,
+    poll,
+    pollInterval,
+    onOpen: poll,
+    maxAttempts,
+    retryDelay,
+    WebSocketImpl,
+    EventSourceImpl,
+  });
+
+  return () => {
+    closed = true;
+    close();
+  };
+};
@@ -0,0 +1,129 @@
+import { IOhlcvData } from "@/types/datafeed.type";
+import { getDataFeed } from "@/services/http/token.http";
+import { openStream, StreamTransport } from "./stream";
+
+export type BarStreamTransport = StreamTransport;
+
+export interface BarStreamOptions {
+  address: string;
+  network: string;
+  onBar: (bar: IOhlcvData) => void;
+  // Base URL of the stream endpoint; websocket URLs are derived from it.
+  baseUrl?: string;
+  transports?: BarStreamTransport[];
+  pollInterval?: number;
+  // Failed connection attempts before dropping to the next transport.
+  maxAttempts?: number;
+  retryDelay?: (attempt: number) => number;
+  // Injectable so the stream can be driven by a mock server.
+  WebSocketImpl?: typeof WebSocket;
+  EventSourceImpl?: typeof EventSource;
+}
+
+const DEFAULT_TRANSPORTS: BarStreamTransport[] = ["websocket", "sse", "polling"];
+const POLL_INTERVAL = 15000;
+const MAX_ATTEMPTS = 3;
+
+// Accepts `{ time, open, high, low, close, volume }` or the `/ohlcv` tuple
+// `[time, open, high, low, close, volume]`, with time in seconds or ms.
+export const parseStreamBar = (payload: unknown): IOhlcvData | null => {
+  let data = payload;
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+  if (data && typeof data === "object" && "ohlcv" in data) {
+    data = (data as { ohlcv: unknown }).ohlcv;
+  }
+
+  let bar: IOhlcvData | null = null;
+  if (Array.isArray(data) && data.length >= 5) {
+    const [time, open, high, low, close, volume] = data.map(Number);
+    bar = { time, open, high, low, close, volume: volume || 0 };
+  } else if (data && typeof data === "object" && "close" in data) {
+    const item = data as Record<string, unknown>;
+    bar = {
+      time: Number(item.time),
+      open: Number(item.open ?? item.close),
+      high: Number(item.high ?? item.close),
+      low: Number(item.low ?? item.close),
+      close: Number(item.close),
+      volume: Number(item.volume ?? 0),
+    };
+  }
+
+  if (!bar || !isFinite(bar.time) || !isFinite(bar.close)) return null;
+  if (bar.time > 1e12) bar.time = Math.floor(bar.time / 1000);
+  return bar;
+};
+
+const streamUrl = (baseUrl: string, address: string, network: string) =>
+  `${baseUrl}/ohlcv/stream?${new URLSearchParams({
+    contractAddress: address,
+    network,
+  })}`;
+
+// Opens a live bar feed, preferring websocket and falling back to SSE and then
+// to polling the latest `/ohlcv` minute candles. Returns a function that
+// closes the stream.
+export const openBarStream = ({
+  address,
+  network,
+  onBar,
+  baseUrl = process.env.NEXT_PUBLIC_BASE_URL_ONE ?? "",
+  transports = DEFAULT_TRANSPORTS,
+  pollInterval = POLL_INTERVAL,
+  maxAttempts = MAX_ATTEMPTS,
+  retryDelay,
+  WebSocketImpl = typeof WebSocket !== "undefined" ? WebSocket : undefined,
+  EventSourceImpl = typeof EventSource !== "undefined" ? EventSource : undefined,
+}: BarStreamOptions) => {
+  let closed = false;
+
+  const emit = (payload: unknown) => {
+    const bar = parseStreamBar(payload);
+    if (bar && !closed) onBar(bar);
+  };
+
+  const poll = async () => {
+    try {
+      const feed = await getDataFeed({
+        params: {
+          contractAddress: address,
+          network,
+          timeframe: "minute",
+          aggregate: 1,
+        },
+      });
+      // The previous candle is included so a bucket rollover between two
+      // polls still gets its final close.
+      (feed.data?.attributes.ohlcv_list ?? [])
+        .slice()
+        .sort((a, b) => a[0] - b[0])
+        .slice(-2)
+        .forEach(emit);
+    } catch (error) {
+      console.error("Error polling chart bars:", error);
+    }
+  };
+
+  const close = openStream({
+    url: baseUrl ? streamUrl(baseUrl, address, network) : "",
+    transports,
+    onMessage: emit,
+    poll,
+    pollInterval,
+    maxAttempts,
+    retryDelay,
+    WebSocketImpl,
+    EventSourceImpl,
+  });
+
+  return () => {
+    closed = true;
+    close();
+  };
+};
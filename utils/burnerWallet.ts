@@ -0,0 +1,340 @@
+import {
+  createPublicClient,
+  createWalletClient,
+  erc20Abi,
+  http,
+  maxUint256,
+  parseUnits,
+} from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import base58 from "bs58";
+import { config } from "@/config/wagmi.config";
+import { approveTransaction, searchSwapToken, swapRequest } from "./okx";
+import { decodeSwapTransaction } from "./solanaSwap";
+import { NATIVE_TOKEN_ADDRESS } from "./paperTrading";
+import {
+  BurnerFamily,
+  BurnerKeystore,
+  BurnerWallet,
+  CopyTradeOrder,
+  EncryptedBurnerKey,
+} from "@/types/copy-trade.type";
+
+// A burner is a throwaway hot wallet whose key lives in this browser, which
+// lets copy trades be signed without a wallet prompt. Keys are stored
+// encrypted with a passphrase and only decrypted into memory.
+
+const PBKDF2_ITERATIONS = 310_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const passphraseKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const encryptBurnerKey = async (
+  family: BurnerFamily,
+  key: string,
+  passphrase: string
+): Promise<EncryptedBurnerKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await passphraseKey(passphrase, salt),
+    new TextEncoder().encode(key)
+  );
+  return {
+    address: burnerKeyAddress(family, key),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+export const decryptBurnerKey = async (
+  encrypted: EncryptedBurnerKey,
+  passphrase: string
+) => {
+  try {
+    const key = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(encrypted.iv) },
+      await passphraseKey(passphrase, fromBase64(encrypted.salt)),
+      fromBase64(encrypted.ciphertext)
+    );
+    return new TextDecoder().decode(key);
+  } catch {
+    // AES-GCM fails authentication on a wrong passphrase.
+    throw new Error("Wrong passphrase");
+  }
+};
+
+export const decryptBurner = async (
+  keystore: BurnerKeystore,
+  passphrase: string
+): Promise<BurnerWallet> => {
+  const burner: BurnerWallet = {};
+  for (const family of ["evm", "solana"] as const) {
+    const encrypted = keystore[family];
+    if (encrypted) {
+      burner[family] = await decryptBurnerKey(encrypted, passphrase);
+    }
+  }
+  return burner;
+};
+
+export const createEvmBurnerKey = () => generatePrivateKey();
+
+export const createSolanaBurnerKey = () =>
+  base58.encode(Keypair.generate().secretKey);
+
+export const evmBurnerAddress = (key: string) =>
+  privateKeyToAccount(key as `0x${string}`).address;
+
+export const solanaBurnerKeypair = (key: string) =>
+  Keypair.fromSecretKey(base58.decode(key));
+
+export const burnerKeyAddress = (family: BurnerFamily, key: string) =>
+  family === "solana"
+    ? solanaBurnerKeypair(key).publicKey.toString()
+    : evmBurnerAddress(key);
+
+export const burnerFamily = (chainId: string): BurnerFamily =>
+  chainId === "501" ? "solana" : "evm";
+
+export const burnerAddress = (burner: BurnerWallet, chainId: string) =>
+  chainId === "501"
+    ? burner.solana && solanaBurnerKeypair(burner.solana).publicKey.toString()
+    : burner.evm && evmBurnerAddress(burner.evm);
+
+const evmChain = (chainId: string) => {
+  const chain = config.chains.find((chain) => chain.id.toString() === chainId);
+  if (!chain) {
+    throw new Error(`Burner wallet does not support chain ${chainId}`);
+  }
+  return chain;
+};
+
+export const tokenDecimals = async (chainId: string, tokenAddress: string) => {
+  const response = await searchSwapToken({
+    chainId,
+    inputContent: tokenAddress,
+  });
+  const token = [
+    ...(response.data?.systemList ?? []),
+    ...(response.data?.thirdPartyList ?? []),
+  ][0];
+  if (!token) throw new Error(`Unknown token ${tokenAddress}`);
+  return +token.decimals;
+};
+
+const executeEvmOrder = async (key: string, order: CopyTradeOrder) => {
+  const account = privateKeyToAccount(key as `0x${string}`);
+  const chain = evmChain(order.chainId);
+  const walletClient = createWalletClient({
+    account,
+    chain,
+    transport: http(),
+  });
+  const publicClient = createPublicClient({ chain, transport: http() });
+  const amount = parseUnits(
+    order.fromAmount,
+    await tokenDecimals(order.chainId, order.fromTokenAddress)
+  );
+
+  if (order.fromTokenAddress.toLowerCase() !== NATIVE_TOKEN_ADDRESS.evm) {
+    const approveTx = await approveTransaction({
+      chainId: order.chainId,
+      tokenContractAddress: order.fromTokenAddress as `0x${string}`,
+      approveAmount: amount.toString(),
+    });
+    const spender = approveTx.data?.[0]?.dexContractAddress;
+    if (!spender) throw new Error("Failed to get the DEX spender address");
+
+    const allowance = await publicClient.readContract({
+      address: order.fromTokenAddress as `0x${string}`,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [account.address, spender],
+    });
+    if (allowance < amount) {
+      const approveHash = await walletClient.writeContract({
+        address: order.fromTokenAddress as `0x${string}`,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [spender, maxUint256],
+      });
+      await publicClient.waitForTransactionReceipt({ hash: approveHash });
+    }
+  }
+
+  const swapQuote = await swapRequest({
+    chainId: order.chainId,
+    fromTokenAddress: order.fromTokenAddress,
+    toTokenAddress: order.toTokenAddress,
+    amount: amount.toString(),
+    userWalletAddress: account.address,
+    slippage: order.slippage,
+  });
+  const tx = swapQuote.data?.[0]?.tx;
+  if (!tx) throw new Error(swapQuote.msg || "Failed to get swap data");
+
+  return walletClient.sendTransaction({
+    to: tx.to,
+    data: tx.data,
+    value: BigInt(tx.value || "0"),
+  });
+};
+
+const executeSolanaOrder = async (
+  key: string,
+  order: CopyTradeOrder,
+  connection: Connection
+) => {
+  const keypair = solanaBurnerKeypair(key);
+  const amount = parseUnits(
+    order.fromAmount,
+    await tokenDecimals(order.chainId, order.fromTokenAddress)
+  );
+  const swapQuote = await swapRequest({
+    chainId: order.chainId,
+    fromTokenAddress: order.fromTokenAddress,
+    toTokenAddress: order.toTokenAddress,
+    amount: amount.toString(),
+    userWalletAddress: keypair.publicKey.toString(),
+    slippage: order.slippage,
+  });
+  const swapData = swapQuote.data?.[0];
+  if (!swapData) throw new Error(swapQuote.msg || "Failed to get swap data");
+
+  const recentBlockHash = await connection.getLatestBlockhash();
+  const tx = decodeSwapTransaction(
+    swapData.tx?.data || swapData.data,
+    recentBlockHash.blockhash,
+    keypair.publicKey
+  );
+  if (tx instanceof VersionedTransaction) {
+    tx.sign([keypair]);
+  } else {
+    tx.sign(keypair);
+  }
+  return connection.sendRawTransaction(tx.serialize(), {
+    preflightCommitment: "confirmed",
+    maxRetries: 3,
+  });
+};
+
+/** Signs and sends the order from the burner; resolves to the tx hash. */
+export const executeBurnerOrder = async (
+  burner: BurnerWallet,
+  order: CopyTradeOrder,
+  connection: Connection
+): Promise<string> => {
+  if (order.chainId === "501") {
+    if (!burner.solana) throw new Error("No Solana burner wallet");
+    return executeSolanaOrder(burner.solana, order, connection);
+  }
+  if (!burner.evm) throw new Error("No EVM burner wallet");
+  return executeEvmOrder(burner.evm, order);
+};
+
+// Fee of a plain SOL transfer with one signature.
+const SOLANA_TRANSFER_FEE = 5000;
+
+const withdrawEvm = async (key: string, chainId: string, to: string) => {
+  const account = privateKeyToAccount(key as `0x${string}`);
+  const chain = evmChain(chainId);
+  const publicClient = createPublicClient({ chain, transport: http() });
+  const walletClient = createWalletClient({
+    account,
+    chain,
+    transport: http(),
+  });
+  const [balance, gasPrice] = await Promise.all([
+    publicClient.getBalance({ address: account.address }),
+    publicClient.getGasPrice(),
+  ]);
+  // A plain transfer always costs 21000 gas; the price gets some headroom
+  // so the transfer still lands if it rises before inclusion.
+  const gas = BigInt(21000);
+  const price = (gasPrice * BigInt(6)) / BigInt(5);
+  const value = balance - gas * price;
+  if (value <= BigInt(0)) throw new Error("Nothing to withdraw");
+  return walletClient.sendTransaction({
+    to: to as `0x${string}`,
+    value,
+    gas,
+    gasPrice: price,
+  });
+};
+
+const withdrawSolana = async (
+  key: string,
+  to: string,
+  connection: Connection
+) => {
+  const keypair = solanaBurnerKeypair(key);
+  const balance = await connection.getBalance(keypair.publicKey);
+  const lamports = balance - SOLANA_TRANSFER_FEE;
+  if (lamports <= 0) throw new Error("Nothing to withdraw");
+
+  const tx = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: keypair.publicKey,
+      toPubkey: new PublicKey(to),
+      lamports,
+    })
+  );
+  tx.feePayer = keypair.publicKey;
+  tx.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+  tx.sign(keypair);
+  return connection.sendRawTransaction(tx.serialize(), {
+    preflightCommitment: "confirmed",
+    maxRetries: 3,
+  });
+};
+
+/**
+ * Sends the burner's whole gas token balance on `chainId` to `to`, less the
+ * fee; resolves to the tx hash. Other tokens stay in the burner, export its
+ * key to move them.
+ */
+export const withdrawBurner = async (
+  burner: BurnerWallet,
+  chainId: string,
+  to: string,
+  connection: Connection
+): Promise<string> => {
+  if (chainId === "501") {
+    if (!burner.solana) throw new Error("No Solana burner wallet");
+    return withdrawSolana(burner.solana, to, connection);
+  }
+  if (!burner.evm) throw new Error("No EVM burner wallet");
+  return withdrawEvm(burner.evm, chainId, to);
+};
@@ -0,0 +1,59 @@
+import { ISymbolValueFormatter } from "@/public/static/charting_library";
+
+// Formats tiny prices using subscript zero notation: 0.000000942 → "0.0₆942"
+const SUBSCRIPT_DIGITS: Record<string, string> = {
+  "0": "₀", "1": "₁", "2": "₂", "3": "₃", "4": "₄",
+  "5": "₅", "6": "₆", "7": "₇", "8": "₈", "9": "₉",
+};
+
+function toSubscript(n: number): string {
+  return String(n).split("").map((c) => SUBSCRIPT_DIGITS[c] ?? c).join("");
+}
+
+function formatCryptoPrice(price: number, signPositive?: boolean): string {
+  if (!isFinite(price) || isNaN(price)) return "0";
+
+  const sign = signPositive && price > 0 ? "+" : "";
+  const isNegative = price < 0;
+  const negSign = isNegative ? "-" : "";
+  const absPrice = Math.abs(price);
+
+  if (absPrice === 0) return `${sign}0`;
+
+  if (absPrice >= 0.001) {
+    let decimals: number;
+    if (absPrice >= 1000) decimals = 2;
+    else if (absPrice >= 1) decimals = 4;
+    else if (absPrice >= 0.1) decimals = 5;
+    else decimals = 6;
+    return `${sign}${negSign}${absPrice.toFixed(decimals).replace(/\.?0+$/, "")}`;
+  }
+
+  const fixedStr = absPrice.toFixed(20);
+  const afterDecimal = fixedStr.split(".")[1] ?? "";
+  let leadingZeros = 0;
+  for (const ch of afterDecimal) {
+    if (ch === "0") leadingZeros++;
+    else break;
+  }
+
+  const sigDigits = afterDecimal.slice(leadingZeros, leadingZeros + 4).replace(/0+$/, "");
+  const significandRaw = sigDigits || "0";
+
+  if (leadingZeros > 3) {
+    return `${sign}${negSign}0.0${toSubscript(leadingZeros)}${significandRaw}`;
+  }
+
+  return `${sign}${negSign}${absPrice.toFixed(leadingZeros + 4).replace(/\.?0+$/, "")}`;
+}
+
+export function createCryptoPriceFormatter(): ISymbolValueFormatter {
+  return {
+    format(price: number, signPositive?: boolean): string {
+      return formatCryptoPrice(price, signPositive);
+    },
+    formatChange(currentPrice: number, prevPrice: number, signPositive?: boolean): string {
+      return formatCryptoPrice(currentPrice - prevPrice, signPositive ?? true);
+    },
+  };
+}
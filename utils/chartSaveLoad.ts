@@ -0,0 +1,209 @@
+import {
+  ChartMetaInfo,
+  IExternalSaveLoadAdapter,
+  LineToolsAndGroupsState,
+  ResolutionString,
+} from "@/public/static/charting_library";
+import {
+  getChartRecord,
+  listChartRecords,
+  removeChartRecord,
+  saveChartRecord,
+} from "@/services/http/chart-storage.http";
+import useChartStorageStore from "@/store/chartStorage";
+import { ChartStorage, StoredLineTools } from "@/types/chart-storage.type";
+import { v4 as uuidv4 } from "uuid";
+
+export const chartTokenKey = (
+  owner: string,
+  network: string,
+  address: string
+) => `${owner}:${network}:${address}`;
+
+// Signed-out users keep everything in this browser.
+export const localChartStorage: ChartStorage = {
+  list: async (kind) =>
+    Object.values(useChartStorageStore.getState().records[kind]),
+  get: async (kind, key) =>
+    useChartStorageStore.getState().records[kind][key] ?? null,
+  put: async (kind, key, record) =>
+    useChartStorageStore.getState().putRecord(kind, key, record),
+  remove: async (kind, key) =>
+    useChartStorageStore.getState().removeRecord(kind, key),
+};
+
+export const remoteChartStorage = (token: string): ChartStorage => ({
+  list: (kind) =>
+    listChartRecords(token, kind).then(
+      (response) => response.data.records ?? []
+    ),
+  get: (kind, key) =>
+    getChartRecord(token, kind, key).then(
+      (response) => response.data.record ?? null
+    ),
+  put: async (kind, key, record) => {
+    await saveChartRecord(token, kind, key, record);
+  },
+  remove: async (kind, key) => {
+    await removeChartRecord(token, kind, key);
+  },
+});
+
+const templateKey = (toolName: string, name: string) => `${toolName}/${name}`;
+
+// Unsaved layouts have no id; their drawings are kept under "default".
+const lineToolsKey = (layoutId: string | undefined, chartId: string | number) =>
+  `${layoutId ?? "default"}/${chartId}`;
+
+// Applies the library's delta, where a null entry removes the drawing.
+const mergeEntries = (
+  saved: [string, unknown][],
+  changes: Map<string, unknown> | null
+) => {
+  const merged = new Map(saved);
+  changes?.forEach((value, key) =>
+    value === null ? merged.delete(key) : merged.set(key, value)
+  );
+  return Array.from(merged.entries());
+};
+
+const missing = (what: string) =>
+  Promise.reject(new Error(`${what} not found`));
+
+interface SaveLoadCallbacks {
+  onChartSaved?: (id: string) => void;
+  onChartLoaded?: (id: string) => void;
+  onChartRemoved?: (id: string) => void;
+}
+
+// The charting library's save/load adapter on top of a ChartStorage.
+// `getStorage` is read on every call so signing in or out switches storage
+// without recreating the widget.
+export const createSaveLoadAdapter = (
+  getStorage: () => ChartStorage,
+  callbacks: SaveLoadCallbacks = {}
+): IExternalSaveLoadAdapter => ({
+  getAllCharts: async () => {
+    const charts = await getStorage().list("charts");
+    return charts
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(
+        (chart): ChartMetaInfo => ({
+          // The library passes ids through untouched, so uuids are fine.
+          id: chart.id as unknown as number,
+          name: chart.name,
+          symbol: chart.symbol,
+          resolution: chart.resolution as ResolutionString,
+          timestamp: chart.timestamp,
+        })
+      );
+  },
+  removeChart: async (id) => {
+    await getStorage().remove("charts", String(id));
+    callbacks.onChartRemoved?.(String(id));
+  },
+  saveChart: async (chartData) => {
+    const id = chartData.id ?? uuidv4();
+    await getStorage().put("charts", id, {
+      id,
+      name: chartData.name,
+      symbol: chartData.symbol,
+      resolution: chartData.resolution,
+      content: chartData.content,
+      timestamp: Math.floor(Date.now() / 1000),
+    });
+    callbacks.onChartSaved?.(id);
+    return id;
+  },
+  getChartContent: async (chartId) => {
+    const chart = await getStorage().get("charts", String(chartId));
+    if (!chart) return missing("Chart layout");
+    callbacks.onChartLoaded?.(chart.id);
+    return chart.content;
+  },
+
+  getAllStudyTemplates: async () => {
+    const templates = await getStorage().list("studyTemplates");
+    return templates.map((template) => ({ name: template.name }));
+  },
+  removeStudyTemplate: (info) =>
+    getStorage().remove("studyTemplates", info.name),
+  saveStudyTemplate: (data) =>
+    getStorage().put("studyTemplates", data.name, {
+      name: data.name,
+      content: data.content,
+    }),
+  getStudyTemplateContent: async (info) => {
+    const template = await getStorage().get("studyTemplates", info.name);
+    return template ? template.content : missing("Study template");
+  },
+
+  getDrawingTemplates: async (toolName) => {
+    const templates = await getStorage().list("drawingTemplates");
+    return templates
+      .filter((template) => template.toolName === toolName)
+      .map((template) => template.name);
+  },
+  loadDrawingTemplate: async (toolName, name) => {
+    const template = await getStorage().get(
+      "drawingTemplates",
+      templateKey(toolName, name)
+    );
+    return template ? template.content : missing("Drawing template");
+  },
+  removeDrawingTemplate: (toolName, name) =>
+    getStorage().remove("drawingTemplates", templateKey(toolName, name)),
+  saveDrawingTemplate: (toolName, name, content) =>
+    getStorage().put("drawingTemplates", templateKey(toolName, name), {
+      toolName,
+      name,
+      content,
+    }),
+
+  getChartTemplateContent: async (name) => {
+    const template = await getStorage().get("chartTemplates", name);
+    return { content: template?.content };
+  },
+  getAllChartTemplates: async () => {
+    const templates = await getStorage().list("chartTemplates");
+    return templates.map((template) => template.name);
+  },
+  saveChartTemplate: (name, content) =>
+    getStorage().put("chartTemplates", name, { name, content }),
+  removeChartTemplate: (name) => getStorage().remove("chartTemplates", name),
+
+  saveLineToolsAndGroups: async (layoutId, chartId, state) => {
+    const storage = getStorage();
+    const key = lineToolsKey(layoutId, chartId);
+    const saved = await storage.get("lineTools", key);
+    const record: StoredLineTools = {
+      layoutId: layoutId ?? "default",
+      chartId: String(chartId),
+      symbol: state.symbol ?? saved?.symbol,
+      sources: mergeEntries(saved?.sources ?? [], state.sources),
+      groups: mergeEntries(saved?.groups ?? [], state.groups),
+    };
+    await storage.put("lineTools", key, record);
+  },
+  loadLineToolsAndGroups: async (layoutId, chartId, requestType, context) => {
+    const saved = await getStorage().get(
+      "lineTools",
+      lineToolsKey(layoutId, chartId)
+    );
+    if (!saved) return null;
+    // Main series drawings are kept per symbol, so a layout reused on
+    // another token doesn't bring the previous token's lines along.
+    const sources =
+      requestType === "mainSeriesLineTools" && context.symbol
+        ? saved.sources.filter(
+            ([, source]) =>
+              (source as { symbol?: string })?.symbol === context.symbol
+          )
+        : saved.sources;
+    return {
+      sources: new Map(sources) as LineToolsAndGroupsState["sources"],
+      groups: new Map(saved.groups) as LineToolsAndGroupsState["groups"],
+      symbol: saved.symbol,
+    };
+  },
+});
@@ -0,0 +1,119 @@
+import {
+  EntityId,
+  IChartingLibraryWidget,
+  ResolutionString,
+} from "@/public/static/charting_library";
+
+export interface ChartSyncOptions {
+  interval: boolean;
+  crosshair: boolean;
+}
+
+// Links the charts of a grid: interval changes, the visible time range and
+// the crosshair's time follow the chart the user is working in. The
+// library can't move another chart's crosshair, so it's drawn there as a
+// vertical line.
+export const createChartSync = ({
+  getOptions,
+  onIntervalChange,
+}: {
+  getOptions: () => ChartSyncOptions;
+  onIntervalChange: (interval: string) => void;
+}) => {
+  const charts = new Map<number, IChartingLibraryWidget>();
+  const crosshairs = new Map<number, EntityId>();
+  // Set while applying a change to the other charts, whose own change
+  // events mustn't be echoed back.
+  let applying = false;
+  // Charts whose range was just set; the library reports that change
+  // asynchronously.
+  const followingRange = new Set<number>();
+
+  const others = (id: number) =>
+    Array.from(charts.entries()).filter(([key]) => key !== id);
+
+  const apply = (
+    id: number,
+    change: (widget: IChartingLibraryWidget) => void
+  ) => {
+    if (applying) return;
+    applying = true;
+    try {
+      others(id).forEach(([, widget]) => change(widget));
+    } finally {
+      applying = false;
+    }
+  };
+
+  const moveCrosshair = (id: number, time: number | null) => {
+    const widget = charts.get(id);
+    if (!widget) return;
+    const chart = widget.activeChart();
+    const line = crosshairs.get(id);
+    if (time === null) {
+      if (line !== undefined) chart.removeEntity(line);
+      crosshairs.delete(id);
+      return;
+    }
+    if (line !== undefined) {
+      chart.getShapeById(line).setPoints([{ time }]);
+      return;
+    }
+    const created = chart.createShape(
+      { time },
+      {
+        shape: "vertical_line",
+        lock: true,
+        disableSelection: true,
+        disableSave: true,
+        disableUndo: true,
+        showInObjectsTree: false,
+        overrides: { linecolor: "#9598a1", linestyle: 2, linewidth: 1 },
+      }
+    );
+    if (created) crosshairs.set(id, created);
+  };
+
+  const clearCrosshairs = () =>
+    Array.from(charts.keys()).forEach((id) => moveCrosshair(id, null));
+
+  const register = (id: number, widget: IChartingLibraryWidget) => {
+    charts.set(id, widget);
+    const chart = widget.activeChart();
+
+    chart.onIntervalChanged().subscribe(null, (interval) => {
+      if (applying) return;
+      onIntervalChange(interval);
+      if (!getOptions().interval) return;
+      apply(id, (other) =>
+        other.activeChart().setResolution(interval as ResolutionString)
+      );
+    });
+
+    chart.onVisibleRangeChanged().subscribe(null, (range) => {
+      if (followingRange.delete(id) || !getOptions().crosshair) return;
+      others(id).forEach(([otherId, other]) => {
+        followingRange.add(otherId);
+        other
+          .activeChart()
+          .setVisibleRange(range, { applyDefaultRightMargin: false })
+          .catch(() => followingRange.delete(otherId));
+      });
+    });
+
+    chart.crossHairMoved().subscribe(null, ({ time }) => {
+      if (!getOptions().crosshair) return;
+      // The chart under the mouse shows its own crosshair.
+      moveCrosshair(id, null);
+      others(id).forEach(([otherId]) => moveCrosshair(otherId, time));
+    });
+
+    return () => {
+      charts.delete(id);
+      crosshairs.delete(id);
+      followingRange.delete(id);
+    };
+  };
+
+  return { register, clearCrosshairs };
+};
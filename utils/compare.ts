@@ -0,0 +1,313 @@
+import {
+  CompareMetric,
+  ComparePoint,
+  CompareRange,
+  CompareToken,
+} from "@/types/compare.type";
+import { IOhlcvData } from "@/types/datafeed.type";
+import { IToken } from "@/types/token.type";
+import { aggregateBars } from "./ohlcv";
+import { QueryCodec } from "./queryState";
+import { evaluateRisk } from "./riskEngine";
+import { minifyContract } from "./truncate";
+
+export const MIN_COMPARE_TOKENS = 2;
+export const MAX_COMPARE_TOKENS = 4;
+export const COMPARE_PARAM = "tokens";
+export const COMPARE_COLORS = ["#e91e63", "#0088FE", "#00C49F", "#FFBB28"];
+
+export const compareTokenKey = ({ network, address }: CompareToken) =>
+  `${network}:${address}`;
+
+// `?tokens=eth:0xabc,solana:So1...`
+export const compareTokensCodec: QueryCodec<CompareToken[]> = {
+  parse: (raw) => {
+    const tokens = raw
+      .split(",")
+      .map((entry) => {
+        const [network, address] = entry.split(":");
+        return network && address ? { network, address } : undefined;
+      })
+      .filter((token): token is CompareToken => !!token);
+    return tokens
+      .filter(
+        (token, index) =>
+          tokens.findIndex(
+            (other) => compareTokenKey(other) === compareTokenKey(token)
+          ) === index
+      )
+      .slice(0, MAX_COMPARE_TOKENS);
+  },
+  serialize: (tokens) => tokens.map(compareTokenKey).join(","),
+};
+
+export const COMPARE_RANGES: {
+  value: CompareRange;
+  label: string;
+  seconds: number;
+  resolution: string;
+}[] = [
+  { value: "24h", label: "24H", seconds: 86400, resolution: "15" },
+  { value: "7d", label: "7D", seconds: 7 * 86400, resolution: "60" },
+  { value: "30d", label: "30D", seconds: 30 * 86400, resolution: "240" },
+  { value: "all", label: "All", seconds: Infinity, resolution: "1440" },
+];
+
+/**
+ * Rebases every series to its close at the first timestamp all of them
+ * have data for, so tokens with very different prices share one axis.
+ * Gaps are filled with the last known close.
+ */
+export const normalizeCompareSeries = (
+  series: { key: string; bars: IOhlcvData[] }[],
+  range: CompareRange,
+  now = Date.now() / 1000
+): ComparePoint[] => {
+  const { seconds, resolution } =
+    COMPARE_RANGES.find((item) => item.value === range) ?? COMPARE_RANGES[0];
+  const bucketed = series.map(({ key, bars }) => ({
+    key,
+    bars: aggregateBars(
+      bars.filter((bar) => bar.time >= now - seconds && bar.close > 0),
+      resolution
+    ),
+  }));
+  if (bucketed.some(({ bars }) => bars.length === 0)) return [];
+
+  const start = Math.max(...bucketed.map(({ bars }) => bars[0].time));
+  const times = Array.from(
+    new Set(
+      bucketed.flatMap(({ bars }) =>
+        bars.filter((bar) => bar.time >= start).map((bar) => bar.time)
+      )
+    )
+  ).sort((a, b) => a - b);
+
+  const cursors = bucketed.map(({ key, bars }) => {
+    const first = bars.findLastIndex((bar) => bar.time <= start);
+    return { key, bars, index: first, base: bars[first].close };
+  });
+
+  return times.map((time) => {
+    const point: ComparePoint = { time };
+    cursors.forEach((cursor) => {
+      while (
+        cursor.index + 1 < cursor.bars.length &&
+        cursor.bars[cursor.index + 1].time <= time
+      ) {
+        cursor.index++;
+      }
+      point[cursor.key] =
+        (cursor.bars[cursor.index].close / cursor.base - 1) * 100;
+    });
+    return point;
+  });
+};
+
+export const compareTokenName = (
+  token: IToken | undefined,
+  { address }: CompareToken
+) => token?.data?.[0]?.attributes?.name ?? minifyContract(address);
+
+const pool = (token: IToken) => token.data?.[0]?.attributes;
+
+const numeric = (value: string | number | undefined | null) =>
+  value === undefined || value === null || value === "" || isNaN(+value)
+    ? undefined
+    : +value;
+
+const latestHolderStats = (token: IToken) =>
+  token.TokenHoldersData?.date3?.[token.TokenHoldersData.date3.length - 1];
+
+export const COMPARE_METRICS: CompareMetric[] = [
+  {
+    group: "Price",
+    label: "Price",
+    format: "price",
+    value: (token) => numeric(pool(token)?.base_token_price_usd),
+  },
+  ...(["m5", "h1", "h6", "h24"] as const).map(
+    (bucket): CompareMetric => ({
+      group: "Price",
+      label: `Change ${bucket}`,
+      format: "percent",
+      better: "higher",
+      value: (token) =>
+        numeric(pool(token)?.price_change_percentage?.[bucket]),
+    })
+  ),
+  ...(["h1", "h24"] as const).map(
+    (bucket): CompareMetric => ({
+      group: "Market",
+      label: `Volume ${bucket}`,
+      format: "usd",
+      better: "higher",
+      value: (token) => numeric(pool(token)?.volume_usd?.[bucket]),
+    })
+  ),
+  {
+    group: "Market",
+    label: "Liquidity",
+    format: "usd",
+    better: "higher",
+    value: (token) => numeric(pool(token)?.reserve_in_usd),
+  },
+  {
+    group: "Market",
+    label: "FDV",
+    format: "usd",
+    value: (token) => numeric(pool(token)?.fdv_usd),
+  },
+  ...(["h1", "h24"] as const).flatMap((bucket): CompareMetric[] => [
+    {
+      group: "Transactions",
+      label: `Buys ${bucket}`,
+      format: "count",
+      better: "higher",
+      value: (token) => pool(token)?.transactions?.[bucket]?.buys,
+    },
+    {
+      group: "Transactions",
+      label: `Sells ${bucket}`,
+      format: "count",
+      value: (token) => pool(token)?.transactions?.[bucket]?.sells,
+    },
+  ]),
+  {
+    group: "Transactions",
+    label: "Buyers h24",
+    format: "count",
+    better: "higher",
+    value: (token) => pool(token)?.transactions?.h24?.buyers,
+  },
+  {
+    group: "Transactions",
+    label: "Sellers h24",
+    format: "count",
+    value: (token) => pool(token)?.transactions?.h24?.sellers,
+  },
+  {
+    group: "Score",
+    label: "Total score",
+    format: "count",
+    better: "higher",
+    value: (token) => token.ScoreData?.totalScore,
+  },
+  {
+    group: "Score",
+    label: "Entry",
+    format: "count",
+    better: "higher",
+    value: (token) => token.ScoreData?.score1,
+  },
+  {
+    group: "Score",
+    label: "Reliability",
+    format: "count",
+    better: "higher",
+    value: (token) => token.ScoreData?.score2,
+  },
+  {
+    group: "Score",
+    label: "Security",
+    format: "count",
+    better: "higher",
+    value: (token) => token.ScoreData?.score3,
+  },
+  {
+    group: "Score",
+    label: "Holders",
+    format: "count",
+    better: "higher",
+    value: (token) => token.ScoreData?.score4,
+  },
+  {
+    group: "Score",
+    label: "Status",
+    format: "text",
+    value: (token) => token.ScoreData?.status,
+  },
+  {
+    group: "Security",
+    label: "Risk score",
+    format: "count",
+    better: "lower",
+    value: (token) => {
+      const verdict = evaluateRisk(token);
+      return verdict.level === "unknown" ? undefined : verdict.score;
+    },
+  },
+  {
+    group: "Security",
+    label: "Ownership renounced",
+    format: "flag",
+    value: (token) =>
+      token.FunctionCallsData?.renounceOwnership?.status === undefined
+        ? undefined
+        : token.FunctionCallsData.renounceOwnership.status === "renounced",
+  },
+  {
+    group: "Security",
+    label: "Malicious functions",
+    format: "count",
+    better: "lower",
+    value: (token) => token.FunctionCallsData?.malFunc?.count,
+  },
+  {
+    group: "Security",
+    label: "Malicious libraries",
+    format: "count",
+    better: "lower",
+    value: (token) => token.FunctionCallsData?.maliciousLibraries?.count,
+  },
+  {
+    group: "Holders",
+    label: "Holders",
+    format: "count",
+    better: "higher",
+    value: (token) =>
+      numeric(
+        token.SecurityData?.tokenSecurity?.details?.holder_count ??
+          latestHolderStats(token)?.count
+      ),
+  },
+  {
+    group: "Holders",
+    label: "Gini",
+    format: "count",
+    better: "lower",
+    value: (token) => latestHolderStats(token)?.gini,
+  },
+  {
+    group: "Holders",
+    label: "Nakamoto",
+    format: "count",
+    better: "higher",
+    value: (token) => latestHolderStats(token)?.nakamoto,
+  },
+];
+
+// Index of the leading token for a metric, if it has a direction and at
+// least two tokens report it.
+export const leadingTokenIndex = (
+  metric: CompareMetric,
+  values: ReturnType<CompareMetric["value"]>[]
+) => {
+  if (!metric.better) return -1;
+  const numbers = values
+    .map((value, index) => ({ value, index }))
+    .filter(
+      (entry): entry is { value: number; index: number } =>
+        typeof entry.value === "number"
+    );
+  if (numbers.length < 2) return -1;
+  return numbers.reduce((best, entry) =>
+    metric.better === "higher"
+      ? entry.value > best.value
+        ? entry
+        : best
+      : entry.value < best.value
+      ? entry
+      : best
+  ).index;
+};
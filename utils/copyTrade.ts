@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from "uuid";
+import { NotificationMessage } from "@/types/notification-message.type";
+import {
+  CopySizing,
+  CopyTradeOrder,
+  CopyTradeRule,
+  CopyTradeSignal,
+} from "@/types/copy-trade.type";
+import { chainIdFromNetworkId, isEvmAddress } from "./portfolio";
+import { nativeTokenAddress } from "./paperTrading";
+
+export const defaultCopyTradeRule = (
+  walletAddress: string,
+  label: string
+): CopyTradeRule => ({
+  walletAddress,
+  label,
+  enabled: true,
+  sizing: { type: "fixed-usd", amountUsd: 50 },
+  maxSlippage: 0.02,
+  allowTokens: [],
+  denyTokens: [],
+  autoConfirm: false,
+  createdAt: Date.now(),
+});
+
+export const sameWallet = (a: string, b: string) =>
+  isEvmAddress(a) ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+/**
+ * Turns a swap notification into a copyable signal. Returns null for messages
+ * that don't carry enough to rebuild the swap, or on chains we can't swap on.
+ */
+export const parseCopySignal = (
+  messageKey: string,
+  message: NotificationMessage
+): CopyTradeSignal | null => {
+  const report = message.report;
+  const network = report?.network ?? message.network;
+  const walletAddress = report?.signer ?? message.signer;
+  const tokenAddress = message.raw_message?.Transfer?.Currency?.SmartContract;
+  const chainId = network ? chainIdFromNetworkId(network) : undefined;
+  if (!walletAddress || !tokenAddress || !chainId) return null;
+
+  const side = report?.swapType?.toLowerCase().includes("sell")
+    ? "sell"
+    : "buy";
+  const leaderAmount = +(report?.paidTokenAmount ?? message.sell_amount ?? 0);
+  const leaderValueUsd = +(report?.value ?? message.buy_amount_usd ?? 0);
+  if (!(leaderAmount > 0)) return null;
+
+  const tradeTime = report?.trade_time ?? message.trade_time;
+  return {
+    messageKey,
+    walletAddress,
+    chainId: chainId.toString(),
+    side,
+    tokenAddress,
+    tokenSymbol:
+      (side === "buy" ? report?.receivedTokenName : report?.paidTokenName) ??
+      tokenAddress,
+    leaderAmount,
+    leaderValueUsd,
+    // Unknown times count as old so history is never replayed as new trades.
+    tradedAt: tradeTime ? new Date(tradeTime).getTime() : 0,
+  };
+};
+
+const matchesToken = (entry: string, signal: CopyTradeSignal) => {
+  const value = entry.trim().toLowerCase();
+  return (
+    value === signal.tokenAddress.toLowerCase() ||
+    value === signal.tokenSymbol.toLowerCase()
+  );
+};
+
+// Why the rule rejects the signal, or undefined when it may be copied.
+export const copyTradeRejection = (
+  rule: CopyTradeRule,
+  signal: CopyTradeSignal
+): string | undefined => {
+  if (rule.denyTokens.some((entry) => matchesToken(entry, signal))) {
+    return `${signal.tokenSymbol} is on the deny list`;
+  }
+  if (
+    rule.allowTokens.length > 0 &&
+    !rule.allowTokens.some((entry) => matchesToken(entry, signal))
+  ) {
+    return `${signal.tokenSymbol} is not on the allow list`;
+  }
+  return undefined;
+};
+
+// How far an order's quoted USD value may stray from the rule's target
+// before it is refused, as a fraction of the target.
+export const MAX_COPY_VALUE_DRIFT = 0.25;
+
+// USD the rule means to spend on the signal. "wallet-percent" is sized from
+// our own balance, so it has no USD target.
+export const copyTradeTargetUsd = (
+  sizing: CopySizing,
+  signal: CopyTradeSignal
+) => {
+  switch (sizing.type) {
+    case "fixed-usd":
+      return sizing.amountUsd;
+    case "wallet-percent":
+      return undefined;
+    case "mirror":
+      return signal.leaderValueUsd * sizing.ratio;
+  }
+};
+
+// USD price of the token the leader sold, from their own trade. For a sell
+// that is the token we sell too; a buy may have been paid in any token, so
+// it says nothing about the gas token we buy with.
+export const leaderUnitPriceUsd = (signal: CopyTradeSignal) =>
+  signal.leaderValueUsd > 0 ? signal.leaderValueUsd / signal.leaderAmount : 0;
+
+/**
+ * Amount of the token being sold, in whole units. `fromPriceUsd` is that
+ * token's USD price, `balance` our balance of it, only needed for
+ * "wallet-percent".
+ */
+export const copyTradeAmount = (
+  sizing: CopySizing,
+  signal: CopyTradeSignal,
+  { fromPriceUsd, balance }: { fromPriceUsd: number; balance?: number }
+) => {
+  if (sizing.type === "wallet-percent") {
+    return ((balance ?? 0) * sizing.percent) / 100;
+  }
+  const targetUsd = copyTradeTargetUsd(sizing, signal) ?? 0;
+  return targetUsd > 0 && fromPriceUsd > 0 ? targetUsd / fromPriceUsd : 0;
+};
+
+// Why an order quoted at `quotedUsd` must not go out, or undefined when it
+// is close enough to what the rule meant to spend.
+export const copyTradeValueRejection = (
+  order: CopyTradeOrder,
+  quotedUsd: number
+): string | undefined => {
+  if (order.valueUsd === undefined) return undefined;
+  if (!(quotedUsd > 0)) return "Could not price the copy trade";
+  const drift = Math.abs(quotedUsd - order.valueUsd) / order.valueUsd;
+  if (drift <= MAX_COPY_VALUE_DRIFT) return undefined;
+  return (
+    `Quoted at $${quotedUsd.toFixed(2)}, ` +
+    `the rule targets $${order.valueUsd.toFixed(2)}`
+  );
+};
+
+export const describeSizing = (sizing: CopySizing) => {
+  switch (sizing.type) {
+    case "fixed-usd":
+      return `$${sizing.amountUsd} per trade`;
+    case "wallet-percent":
+      return `${sizing.percent}% of balance`;
+    case "mirror":
+      return `${sizing.ratio}x their size`;
+  }
+};
+
+// Buys are copied from the chain's gas token, sells back into it.
+export const copyTradeOrder = (
+  signal: CopyTradeSignal,
+  rule: CopyTradeRule,
+  fromAmount: number
+): CopyTradeOrder => {
+  const valueUsd = copyTradeTargetUsd(rule.sizing, signal);
+  const native = nativeTokenAddress(signal.chainId);
+  return {
+    id: uuidv4(),
+    messageKey: signal.messageKey,
+    walletAddress: signal.walletAddress,
+    walletLabel: rule.label,
+    chainId: signal.chainId,
+    side: signal.side,
+    tokenSymbol: signal.tokenSymbol,
+    fromTokenAddress: signal.side === "buy" ? native : signal.tokenAddress,
+    toTokenAddress: signal.side === "buy" ? signal.tokenAddress : native,
+    fromAmount: fromAmount.toFixed(8).replace(/\.?0+$/, ""),
+    valueUsd,
+    slippage: rule.maxSlippage,
+    status: "pending",
+    createdAt: Date.now(),
+  };
+};
+
+export const parseTokenList = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
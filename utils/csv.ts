@@ -0,0 +1,56 @@
+// Minimal RFC 4180 reader: quoted fields may hold commas, quotes ("") and
+// line breaks. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endField = () => {
+    // Undoes the formula escape of `toCsv`.
+    row.push(/^'[=+\-@\t\r]/.test(field) ? field.slice(1) : field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+};
+
+// Spreadsheets run text cells starting with these as formulas, and token
+// names and wallet labels are anyone's to set. Numbers are left as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvField = (value: unknown) => {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) =>
+  rows.map((row) => row.map(csvField).join(",")).join("\n");
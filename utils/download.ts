@@ -0,0 +1,13 @@
+// Saves generated text as a file through a temporary object URL.
+export const downloadFile = (
+  fileName: string,
+  content: BlobPart,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
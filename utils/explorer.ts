@@ -0,0 +1,25 @@
+import networks from "./networks.json";
+import swapNetworks from "./swap_chains.json";
+import { TokenChain } from "@/store/tokenChains/networks";
+
+export const networkIdFromChainId = (chainId: string | number) =>
+  swapNetworks.find((network) => network.chainId === +chainId)?.id;
+
+const explorerOf = (networkId?: string) =>
+  (networks as TokenChain[]).find((network) => network.id === networkId)
+    ?.explorer;
+
+export const explorerTxUrl = (hash: string, chainId: string | number) => {
+  const explorer = explorerOf(networkIdFromChainId(chainId));
+  return explorer ? `${explorer.tx}${hash}` : undefined;
+};
+
+export const explorerNetworkTxUrl = (hash: string, networkId: string) => {
+  const explorer = explorerOf(networkId);
+  return explorer ? `${explorer.tx}${hash}` : undefined;
+};
+
+export const explorerAddressUrl = (address: string, networkId: string) => {
+  const explorer = explorerOf(networkId);
+  return explorer ? `${explorer.address}${address}` : undefined;
+};
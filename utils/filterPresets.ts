@@ -0,0 +1,71 @@
+import {
+  BuiltInFilterPreset,
+  FilterPreset,
+  FilterValues,
+} from "@/types/filter-preset.type";
+
+// Query params of the hot tokens view.
+export const HOT_TOKENS_PARAMS = {
+  search: "q",
+  count: "count",
+  buySwaps: "buys",
+  sellSwaps: "sells",
+  dates: "dates",
+  sortPerformance: "perfSort",
+  sortNew: "newSort",
+  sortGrowing: "growSort",
+} as const;
+
+const { buySwaps, count, dates, sortNew, sortPerformance } = HOT_TOKENS_PARAMS;
+
+export const HOT_TOKENS_PRESETS: BuiltInFilterPreset[] = [
+  {
+    id: "fresh-1h",
+    name: "Fresh launches under 1h",
+    values: { [dates]: "now-1h,", [sortNew]: "latestDate" },
+  },
+  {
+    id: "fresh-24h",
+    name: "Launched today",
+    values: { [dates]: "now-24h," },
+  },
+  {
+    id: "buy-pressure",
+    name: "Strong buy pressure",
+    values: { [buySwaps]: "100,10000000000", [sortPerformance]: "buyPressure" },
+  },
+  {
+    id: "most-active",
+    name: "Most active",
+    values: { [count]: "500,5000000000", [sortPerformance]: "count" },
+  },
+];
+
+export const sameFilterValues = (a: FilterValues, b: FilterValues) => {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+};
+
+// Merges the account's presets of an owner and scope into the local ones by
+// id. Local presets the account doesn't have are kept unless they were
+// synced before, i.e. removed on another device.
+export const mergeFilterPresets = (
+  local: FilterPreset[],
+  owner: string,
+  scope: string,
+  remote: FilterPreset[]
+) => {
+  const remoteIds = new Set(remote.map((preset) => preset.id));
+  return [
+    ...local.filter(
+      (preset) =>
+        preset.owner !== owner ||
+        preset.scope !== scope ||
+        (!preset.synced && !remoteIds.has(preset.id))
+    ),
+    ...remote.map((preset) => ({ ...preset, owner, scope, synced: true })),
+  ];
+};
@@ -0,0 +1,161 @@
+import {
+  CustomIndicator,
+  IContext,
+  IPineStudyResult,
+  LibraryPineStudy,
+  PineJS,
+  StudyInputValue,
+  StudyMetaInfo,
+} from "@/public/static/charting_library";
+import { FlowMetric } from "@/types/trade-flow.type";
+import { flowTicker } from "./tradeFlow";
+import { WHALE_MIN_USD } from "./tradeReport";
+
+type Inputs = <T extends StudyInputValue>(index: number) => T;
+
+interface FlowStudyInput {
+  id: string;
+  name: string;
+  defval: number;
+  min: number;
+  max: number;
+}
+
+interface FlowStudy {
+  name: string;
+  shortName: string;
+  metric: FlowMetric;
+  color: string;
+  // 0 line, 1 histogram, 5 columns.
+  plotType: number;
+  format: { type: "price" | "volume" | "percent"; precision?: number };
+  // Integer inputs.
+  inputs?: FlowStudyInput[];
+  // The flow symbol to request, for studies with a threshold input.
+  ticker?: (inputs: Inputs) => string;
+  // Turns the bar's raw flow value into the plotted one.
+  compute?: (value: number, context: IContext, inputs: Inputs) => number;
+}
+
+// Each study loads its metric as a second symbol from the chart's datafeed
+// (see utils/tradeFlow) and maps it onto the main series' bars. Bars
+// without trades count as 0.
+const flowIndicator = (
+  PineJS: PineJS,
+  study: FlowStudy
+): CustomIndicator => ({
+  name: study.name,
+  // Cast since the library's enums are const enums that can't be used from
+  // isolated modules; the literals are their values.
+  metainfo: {
+    _metainfoVersion: 53,
+    id: `${study.name}@tv-basicstudies-1`,
+    name: study.name,
+    description: study.name,
+    shortDescription: study.shortName,
+    is_hidden_study: false,
+    is_price_study: false,
+    isCustomIndicator: true,
+    format: study.format,
+    plots: [{ id: "plot_0", type: "line" }],
+    defaults: {
+      styles: {
+        plot_0: {
+          linestyle: 0,
+          linewidth: 2,
+          plottype: study.plotType,
+          trackPrice: false,
+          transparency: 0,
+          visible: true,
+          color: study.color,
+        },
+      },
+      inputs: Object.fromEntries(
+        (study.inputs ?? []).map((input) => [input.id, input.defval])
+      ),
+    },
+    styles: { plot_0: { title: study.shortName, histogramBase: 0 } },
+    inputs: (study.inputs ?? []).map((input) => ({
+      ...input,
+      type: "integer",
+    })),
+  } as unknown as StudyMetaInfo,
+  constructor: function (this: LibraryPineStudy<IPineStudyResult>) {
+    this.init = function (context: IContext, inputs: Inputs) {
+      context.new_sym(
+        study.ticker?.(inputs) ?? flowTicker(study.metric),
+        PineJS.Std.period(context)
+      );
+    };
+    this.main = function (context: IContext, inputs: Inputs) {
+      context.select_sym(0);
+      const mainTime = context.new_var(PineJS.Std.time(context));
+      context.select_sym(1);
+      const flowTime = context.new_var(PineJS.Std.time(context));
+      const flow = context.new_var(PineJS.Std.close(context));
+      const value = PineJS.Std.nz(flow.adopt(flowTime, mainTime, 1));
+      context.select_sym(0);
+      return [study.compute ? study.compute(value, context, inputs) : value];
+    };
+  },
+});
+
+// Flow studies computed from our trade list instead of candles.
+export const createFlowIndicators = (PineJS: PineJS): CustomIndicator[] => [
+  flowIndicator(PineJS, {
+    name: "Net Buy Pressure",
+    shortName: "Buy pressure",
+    metric: "pressure",
+    color: "#16a34a",
+    plotType: 1,
+    format: { type: "percent", precision: 1 },
+  }),
+  flowIndicator(PineJS, {
+    name: "Unique Buyer Momentum",
+    shortName: "Buyer momentum",
+    metric: "buyers",
+    color: "#3b82f6",
+    plotType: 1,
+    format: { type: "price", precision: 1 },
+    inputs: [
+      {
+        id: "in_0",
+        name: "Length",
+        defval: 12,
+        min: 1,
+        max: 200,
+      },
+    ],
+    // Buyers in the bar against the average of the last `Length` bars.
+    compute: (buyers, context, inputs) =>
+      buyers -
+      PineJS.Std.sma(context.new_var(buyers), inputs<number>(0), context),
+  }),
+  flowIndicator(PineJS, {
+    name: "Whale Flow",
+    shortName: "Whale flow",
+    metric: "whales",
+    color: "#8b5cf6",
+    plotType: 5,
+    format: { type: "volume" },
+    inputs: [
+      {
+        id: "in_0",
+        name: "Min trade (USD)",
+        defval: WHALE_MIN_USD,
+        min: 100,
+        max: 10000000,
+      },
+    ],
+    ticker: (inputs) => flowTicker("whales", inputs<number>(0)),
+  }),
+  flowIndicator(PineJS, {
+    name: "Cumulative Volume Delta",
+    shortName: "CVD",
+    metric: "delta",
+    color: "#f59e0b",
+    plotType: 0,
+    format: { type: "volume" },
+    compute: (delta, context) => PineJS.Std.cum(delta, context),
+  }),
+];
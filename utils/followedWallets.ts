@@ -0,0 +1,325 @@
+import base58 from "bs58";
+import { getAddress, isAddress } from "viem";
+import { z } from "zod";
+import {
+  FollowedExport,
+  FollowedGroup,
+  FollowedImportFile,
+  FollowedImportPlan,
+  FollowedImportProgress,
+  FollowedWallet,
+} from "@/types/followed-wallet.type";
+import { addGroup, addWallet } from "@/services/http/followed-wallets.http";
+import { parseCsv, toCsv } from "./csv";
+import { sameWallet } from "./copyTrade";
+import { minifyContract } from "./truncate";
+
+export type FollowedFileFormat = "csv" | "json";
+
+const CSV_COLUMNS = ["address", "label", "group", "notificationThreshold"];
+const IMPORT_BATCH_SIZE = 5;
+
+export const groupThreshold = (group: FollowedGroup) =>
+  group.notificationThreshold ?? group.notification_threshold ?? 0;
+
+/**
+ * Validates an EVM or Solana address. Mixed-case EVM addresses must carry a
+ * valid checksum; EVM addresses come back checksummed.
+ */
+export const normalizeWalletAddress = (
+  raw: string
+): { address: string } | { error: string } => {
+  const address = raw.trim();
+  if (/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return isAddress(address)
+      ? { address: getAddress(address) }
+      : { error: "Invalid EVM checksum" };
+  }
+  try {
+    if (base58.decode(address).length === 32) return { address };
+  } catch {
+    // Not base58; reported below.
+  }
+  return { error: "Not an EVM or Solana address" };
+};
+
+const sameLabel = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const parseCsvFile = (text: string): FollowedImportFile => {
+  const rows = parseCsv(text);
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = header.includes("address");
+  const columns = hasHeader ? header : CSV_COLUMNS.map((c) => c.toLowerCase());
+  const column = (row: string[], name: string) =>
+    row[columns.indexOf(name.toLowerCase())]?.trim() ?? "";
+
+  const wallets: FollowedWallet[] = [];
+  const groups: FollowedGroup[] = [];
+  (hasHeader ? rows.slice(1) : rows).forEach((row) => {
+    const address = column(row, "address");
+    const groupLabel = column(row, "group");
+    if (!groupLabel) {
+      wallets.push({ address, label: column(row, "label") });
+      return;
+    }
+
+    // Groups are spread over one row per member address.
+    let group = groups.find((group) => sameLabel(group.label, groupLabel));
+    if (!group) {
+      group = { label: groupLabel, addresses: [], notificationThreshold: 0 };
+      groups.push(group);
+    }
+    if (address) group.addresses.push(address);
+    const threshold = column(row, "notificationThreshold");
+    if (threshold && !group.notificationThreshold) {
+      group.notificationThreshold = +threshold || 0;
+    }
+  });
+  return { version: 1, wallets, groups, issues: [] };
+};
+
+const jsonWalletSchema = z.object({
+  address: z.string(),
+  label: z.string().optional(),
+});
+
+const thresholdSchema = z.number().int().nonnegative().optional();
+
+const jsonGroupSchema = z.object({
+  label: z.string(),
+  addresses: z.array(z.string()),
+  notificationThreshold: thresholdSchema,
+  notification_threshold: thresholdSchema,
+});
+
+// The export format, or a bare array read as a list of wallets. Entries
+// are checked one by one so a bad entry doesn't sink the whole file.
+const jsonFileSchema = z.union([
+  z.array(z.unknown()).transform((wallets) => ({
+    wallets,
+    groups: [] as unknown[],
+  })),
+  z.object({
+    wallets: z.array(z.unknown()).default([]),
+    groups: z.array(z.unknown()).default([]),
+  }),
+]);
+
+const describeIssue = (where: string, error: z.ZodError) => {
+  const issue = error.issues[0];
+  const path = issue.path.join(".");
+  return `${where}${path ? ` ${path}` : ""}: ${issue.message}`;
+};
+
+const parseJsonFile = (text: string): FollowedImportFile => {
+  const file = jsonFileSchema.safeParse(JSON.parse(text));
+  if (!file.success) {
+    return {
+      version: 1,
+      wallets: [],
+      groups: [],
+      issues: [describeIssue("File", file.error)],
+    };
+  }
+
+  const issues: string[] = [];
+  const wallets: FollowedWallet[] = [];
+  file.data.wallets.forEach((entry, index) => {
+    const wallet = jsonWalletSchema.safeParse(entry);
+    if (wallet.success) {
+      wallets.push({
+        address: wallet.data.address,
+        label: wallet.data.label ?? "",
+      });
+    } else {
+      issues.push(describeIssue(`Wallet ${index + 1}`, wallet.error));
+    }
+  });
+  const groups: FollowedGroup[] = [];
+  file.data.groups.forEach((entry, index) => {
+    const group = jsonGroupSchema.safeParse(entry);
+    if (group.success) {
+      groups.push({
+        label: group.data.label,
+        addresses: group.data.addresses,
+        notificationThreshold:
+          group.data.notificationThreshold ??
+          group.data.notification_threshold ??
+          0,
+      });
+    } else {
+      issues.push(describeIssue(`Group ${index + 1}`, group.error));
+    }
+  });
+  return { version: 1, wallets, groups, issues };
+};
+
+// Throws when a JSON file doesn't parse.
+export const parseFollowedFile = (
+  text: string,
+  format: FollowedFileFormat
+): FollowedImportFile =>
+  format === "json" ? parseJsonFile(text) : parseCsvFile(text);
+
+export const detectFollowedFormat = (
+  text: string,
+  fileName?: string
+): FollowedFileFormat => {
+  if (fileName) return fileName.toLowerCase().endsWith(".json") ? "json" : "csv";
+  return /^\s*[[{]/.test(text) ? "json" : "csv";
+};
+
+/**
+ * Dry run of an import: validates every address and marks what already
+ * exists in the account or earlier in the file as a duplicate.
+ */
+export const planFollowedImport = (
+  parsed: FollowedImportFile,
+  existingWallets: FollowedWallet[],
+  existingGroups: FollowedGroup[]
+): FollowedImportPlan => {
+  const seenWallets = [...existingWallets];
+  const wallets = parsed.wallets.map((wallet) => {
+    const result = normalizeWalletAddress(wallet.address);
+    if ("error" in result) {
+      return { wallet, status: "invalid" as const, reason: result.error };
+    }
+    const normalized = {
+      address: result.address,
+      label: wallet.label.trim() || minifyContract(result.address),
+    };
+    if (seenWallets.some((seen) => sameWallet(seen.address, result.address))) {
+      return {
+        wallet: normalized,
+        status: "duplicate" as const,
+        reason: "Already followed",
+      };
+    }
+    seenWallets.push(normalized);
+    return { wallet: normalized, status: "new" as const };
+  });
+
+  const seenGroups = [...existingGroups];
+  const groups = parsed.groups.map((group) => {
+    const addresses: string[] = [];
+    const invalidAddresses: string[] = [];
+    group.addresses.forEach((address) => {
+      const result = normalizeWalletAddress(address);
+      if ("error" in result) invalidAddresses.push(address);
+      else if (!addresses.some((added) => sameWallet(added, result.address))) {
+        addresses.push(result.address);
+      }
+    });
+    const normalized = {
+      label: group.label.trim(),
+      addresses,
+      notificationThreshold: groupThreshold(group),
+    };
+
+    let reason: string | undefined;
+    if (!normalized.label) reason = "Missing group name";
+    else if (addresses.length === 0) reason = "No valid addresses";
+    else if (normalized.notificationThreshold > addresses.length) {
+      reason = "Threshold is higher than the number of wallets";
+    }
+    if (reason) {
+      return {
+        group: normalized,
+        status: "invalid" as const,
+        reason,
+        invalidAddresses,
+      };
+    }
+    if (seenGroups.some((seen) => sameLabel(seen.label, normalized.label))) {
+      return {
+        group: normalized,
+        status: "duplicate" as const,
+        reason: "A group with this name exists",
+        invalidAddresses,
+      };
+    }
+    seenGroups.push(normalized);
+    return { group: normalized, status: "new" as const, invalidAddresses };
+  });
+
+  return { wallets, groups, issues: parsed.issues };
+};
+
+/**
+ * Creates the new wallets and groups of a plan through the single-item
+ * endpoints, a few requests at a time. Failures don't stop the import; their
+ * labels are collected in the progress.
+ */
+export const runFollowedImport = async (
+  token: string,
+  plan: FollowedImportPlan,
+  onProgress: (progress: FollowedImportProgress) => void,
+  batchSize = IMPORT_BATCH_SIZE
+) => {
+  const tasks = [
+    ...plan.wallets
+      .filter((item) => item.status === "new")
+      .map((item) => ({
+        label: item.wallet.label,
+        run: () => addWallet(token, item.wallet),
+      })),
+    ...plan.groups
+      .filter((item) => item.status === "new")
+      .map((item) => ({
+        label: item.group.label,
+        run: () => addGroup(token, item.group),
+      })),
+  ];
+
+  const progress: FollowedImportProgress = {
+    done: 0,
+    total: tasks.length,
+    failed: [],
+  };
+  onProgress({ ...progress });
+
+  for (let start = 0; start < tasks.length; start += batchSize) {
+    const batch = tasks.slice(start, start + batchSize);
+    const results = await Promise.allSettled(batch.map((task) => task.run()));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        console.error("Error importing followed wallet:", result.reason);
+        progress.failed.push(batch[index].label);
+      }
+    });
+    progress.done += batch.length;
+    onProgress({ ...progress, failed: [...progress.failed] });
+  }
+  return progress;
+};
+
+export const exportFollowed = (
+  wallets: FollowedWallet[],
+  groups: FollowedGroup[],
+  format: FollowedFileFormat
+) => {
+  const data: FollowedExport = {
+    version: 1,
+    wallets: wallets.map(({ address, label }) => ({ address, label })),
+    groups: groups.map((group) => ({
+      label: group.label,
+      addresses: group.addresses,
+      notificationThreshold: groupThreshold(group),
+    })),
+  };
+  if (format === "json") return JSON.stringify(data, null, 2);
+
+  return toCsv([
+    CSV_COLUMNS,
+    ...data.wallets.map((wallet) => [wallet.address, wallet.label, "", ""]),
+    ...data.groups.flatMap((group) =>
+      group.addresses.map((address) => [
+        address,
+        "",
+        group.label,
+        group.notificationThreshold,
+      ])
+    ),
+  ]);
+};
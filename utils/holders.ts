@@ -0,0 +1,221 @@
+import {
+  HolderBalance,
+  HolderCohort,
+  HolderCohortId,
+  HolderConcentration,
+  IOnchainHolderRow,
+  IOnchainHoldersResponse,
+  OverlapIntersection,
+  OverlapToken,
+  OverlapWallet,
+} from "@/types/holders.type";
+import { IToken } from "@/types/token.type";
+import { isEvmAddress } from "./portfolio";
+
+// Holders sampled for the concentration metrics; the onchain API ranks by
+// balance so this covers everything that moves the top-N shares.
+export const HOLDER_SAMPLE_SIZE = 100;
+
+// The response nests rows under a chain family and a dataset name
+// (`data.EVM.TokenHolders`, `data.Solana.BalanceUpdates`), so flatten
+// whatever is there.
+export const holderRows = (
+  response?: IOnchainHoldersResponse
+): IOnchainHolderRow[] =>
+  Object.values(response?.data ?? {}).flatMap((family) =>
+    Object.values(family ?? {}).flatMap((rows) => rows ?? [])
+  );
+
+export const toHolderBalance = (row: IOnchainHolderRow): HolderBalance => ({
+  address:
+    row.Holder?.Address ??
+    row.Balance?.Address ??
+    row.BalanceUpdate?.Account?.Owner ??
+    row.BalanceUpdate?.Account?.Address ??
+    row.BalanceUpdate?.Address ??
+    "",
+  amount:
+    +(
+      row.Balance?.Amount ??
+      row.BalanceUpdate?.Holding ??
+      row.BalanceUpdate?.Balance ??
+      0
+    ) || 0,
+  share: +(row.Balance?.Percentage ?? row.BalanceUpdate?.Percentage ?? 0) || 0,
+});
+
+export const normalizeHolders = (
+  response?: IOnchainHoldersResponse
+): HolderBalance[] =>
+  holderRows(response)
+    .map(toHolderBalance)
+    .filter((holder) => !!holder.address)
+    .sort((a, b) => b.share - a.share || b.amount - a.amount);
+
+// 0 when every holder owns the same amount, approaching 1 when a single
+// holder owns everything.
+export const giniCoefficient = (values: number[]) => {
+  const sorted = values.filter((value) => value > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  if (n < 2 || total === 0) return 0;
+
+  const weighted = sorted.reduce(
+    (sum, value, index) => sum + (index + 1) * value,
+    0
+  );
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+};
+
+// Smallest number of holders that together own more than half the supply.
+export const nakamotoCoefficient = (holders: HolderBalance[]) => {
+  let cumulative = 0;
+  for (let i = 0; i < holders.length; i++) {
+    cumulative += holders[i].share;
+    if (cumulative > 50) return i + 1;
+  }
+  return undefined;
+};
+
+const topShare = (holders: HolderBalance[], count: number) =>
+  Math.min(
+    100,
+    holders.slice(0, count).reduce((sum, holder) => sum + holder.share, 0)
+  );
+
+/** Expects `holders` sorted by share, as returned by `normalizeHolders`. */
+export const concentrationMetrics = (
+  holders: HolderBalance[]
+): HolderConcentration => {
+  const hasAmounts = holders.some((holder) => holder.amount > 0);
+
+  return {
+    top10Share: topShare(holders, 10),
+    top50Share: topShare(holders, 50),
+    gini: giniCoefficient(
+      holders.map((holder) => (hasAmounts ? holder.amount : holder.share))
+    ),
+    nakamoto: nakamotoCoefficient(holders),
+    sampleSize: holders.length,
+  };
+};
+
+// Buckets by percentage of supply so they mean the same thing on every chain
+// regardless of decimals or token price.
+export const HOLDER_COHORTS: {
+  id: HolderCohortId;
+  label: string;
+  minShare: number;
+}[] = [
+  { id: "whale", label: "Whales (≥ 1%)", minShare: 1 },
+  { id: "large", label: "Large (0.1% - 1%)", minShare: 0.1 },
+  { id: "medium", label: "Medium (0.01% - 0.1%)", minShare: 0.01 },
+  { id: "small", label: "Small (< 0.01%)", minShare: 0 },
+];
+
+export const holderCohorts = (holders: HolderBalance[]): HolderCohort[] => {
+  const cohorts: HolderCohort[] = HOLDER_COHORTS.map(({ id, label }) => ({
+    id,
+    label,
+    holders: 0,
+    share: 0,
+  }));
+
+  holders.forEach((holder) => {
+    const cohort =
+      cohorts[
+        HOLDER_COHORTS.findIndex(({ minShare }) => holder.share >= minShare)
+      ] ?? cohorts[cohorts.length - 1];
+    cohort.holders++;
+    cohort.share += holder.share;
+  });
+
+  return cohorts;
+};
+
+export const MAX_OVERLAP_TOKENS = 5;
+
+// EVM addresses are case-insensitive, base58 ones are not.
+const walletKey = (address: string) =>
+  isEvmAddress(address) ? address.toLowerCase() : address;
+
+export const sameToken = (a: OverlapToken, b: OverlapToken) =>
+  a.network === b.network && walletKey(a.address) === walletKey(b.address);
+
+/** Wallets that are top holders of at least two of the given tokens. */
+export const holderOverlap = (
+  holderSets: HolderBalance[][]
+): OverlapWallet[] => {
+  const wallets = new Map<string, OverlapWallet>();
+
+  holderSets.forEach((holders, tokenIndex) => {
+    holders.forEach((holder) => {
+      const key = walletKey(holder.address);
+      const wallet = wallets.get(key) ?? {
+        address: holder.address,
+        shares: holderSets.map(() => undefined),
+        tokenCount: 0,
+      };
+      if (wallet.shares[tokenIndex] === undefined) wallet.tokenCount++;
+      wallet.shares[tokenIndex] =
+        (wallet.shares[tokenIndex] ?? 0) + holder.share;
+      wallets.set(key, wallet);
+    });
+  });
+
+  const totalShare = (wallet: OverlapWallet) =>
+    wallet.shares.reduce<number>((sum, share) => sum + (share ?? 0), 0);
+
+  return Array.from(wallets.values())
+    .filter((wallet) => wallet.tokenCount > 1)
+    .sort(
+      (a, b) => b.tokenCount - a.tokenCount || totalShare(b) - totalShare(a)
+    );
+};
+
+// Exclusive intersections as drawn by an UpSet plot: each wallet counts once,
+// under the exact combination of tokens it holds.
+export const overlapIntersections = (
+  wallets: OverlapWallet[]
+): OverlapIntersection[] => {
+  const counts = new Map<string, OverlapIntersection>();
+
+  wallets.forEach((wallet) => {
+    const tokens = wallet.shares
+      .map((share, index) => (share === undefined ? -1 : index))
+      .filter((index) => index >= 0);
+    const key = tokens.join(",");
+    const intersection = counts.get(key) ?? { tokens, wallets: 0 };
+    intersection.wallets++;
+    counts.set(key, intersection);
+  });
+
+  return Array.from(counts.values()).sort(
+    (a, b) => b.wallets - a.wallets || b.tokens.length - a.tokens.length
+  );
+};
+
+// Base tokens of the pools returned by `/idsearch`, one entry per token.
+export const overlapTokensFromSearch = (token?: IToken): OverlapToken[] => {
+  const tokens: OverlapToken[] = [];
+  (token?.data ?? []).forEach((pool) => {
+    // `polygon_pos_0x...`: network ids may contain underscores, addresses
+    // never do.
+    const id = pool.relationships?.base_token?.data?.id ?? "";
+    const underscore = id.lastIndexOf("_");
+    const network = id.slice(0, Math.max(0, underscore));
+    const address = id.slice(underscore + 1);
+    if (!network || !address) return;
+
+    const candidate = {
+      address,
+      network,
+      name: pool.attributes?.name?.split(" / ")[0] ?? address,
+      imageUrl: pool.imageUrl2,
+    };
+    if (!tokens.some((existing) => sameToken(existing, candidate))) {
+      tokens.push(candidate);
+    }
+  });
+  return tokens;
+};
@@ -0,0 +1,77 @@
+import { formatUnits, parseUnits } from "viem";
+import { getQuotes } from "@/utils/okx";
+import { OkxQuote, OkxResponse } from "@/types/okx.type";
+import {
+  LimitOrder,
+  LimitOrderCondition,
+} from "@/types/limit-order.type";
+import { TrackedTransaction } from "@/types/transaction.type";
+
+// Anything shaped like `getQuotes` can drive the order book, which keeps the
+// trigger logic usable against a mocked quote source.
+export type QuoteSource = (params: {
+  chainId: string;
+  amount: string;
+  fromTokenAddress: string;
+  toTokenAddress: string;
+}) => Promise<OkxResponse<OkxQuote>>;
+
+export const defaultQuoteSource: QuoteSource = getQuotes;
+
+export const LIMIT_ORDER_EXPIRY_OPTIONS = [
+  { label: "1 hour", value: 60 * 60 * 1000 },
+  { label: "24 hours", value: 24 * 60 * 60 * 1000 },
+  { label: "7 days", value: 7 * 24 * 60 * 60 * 1000 },
+  { label: "30 days", value: 30 * 24 * 60 * 60 * 1000 },
+];
+
+// Price of one fromToken in toToken, taken from the raw quote amounts.
+export const priceFromQuote = (quote: OkxQuote) => {
+  const fromAmount = +formatUnits(
+    BigInt(quote.fromTokenAmount),
+    +quote.fromToken.decimal
+  );
+  const toAmount = +formatUnits(
+    BigInt(quote.toTokenAmount),
+    +quote.toToken.decimal
+  );
+  return fromAmount > 0 ? toAmount / fromAmount : 0;
+};
+
+export const conditionForTarget = (
+  targetPrice: number,
+  currentPrice: number
+): LimitOrderCondition => (targetPrice >= currentPrice ? "above" : "below");
+
+export const isTargetHit = (order: LimitOrder, price: number) =>
+  order.condition === "above"
+    ? price >= order.targetPrice
+    : price <= order.targetPrice;
+
+export const fetchOrderPrice = async (
+  order: LimitOrder,
+  quoteSource: QuoteSource = defaultQuoteSource
+) => {
+  const response = await quoteSource({
+    chainId: order.chainId,
+    amount: parseUnits(order.fromAmount, +order.fromToken.decimals).toString(),
+    fromTokenAddress: order.fromToken.tokenContractAddress,
+    toTokenAddress: order.toToken.tokenContractAddress,
+  });
+  if (!response.data?.[0]) {
+    throw new Error(response.msg || "Failed to fetch quotes.");
+  }
+  return priceFromQuote(response.data[0]);
+};
+
+// The outcome of a submitted order once its tracked transaction settles.
+export const settledOrderChanges = (
+  order: LimitOrder,
+  transactions: TrackedTransaction[]
+): Partial<LimitOrder> | undefined => {
+  const tx = transactions.find((item) => item.hash === order.txHash);
+  if (!tx || tx.status === "pending") return undefined;
+  return tx.status === "confirmed"
+    ? { status: "filled" }
+    : { status: "failed", error: tx.error ?? `Transaction ${tx.status}` };
+};
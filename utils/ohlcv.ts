@@ -0,0 +1,238 @@
+import { IDatafeed, IOhlcvData, IOhlcvSeries } from "@/types/datafeed.type";
+import { getDataFeed } from "@/services/http/token.http";
+
+// TradingView alias resolutions like "D"/"1D", "1W"/"1M" are all mapped here
+export const chartSecondsPerResolution: Record<string, number> = {
+  "10":   10 * 60,
+  "15":   15 * 60,
+  "30":   30 * 60,
+  "60":   60 * 60,
+  "240":  240 * 60,
+  "480":  480 * 60,
+  "720":  720 * 60,
+  "1440": 24 * 60 * 60,
+  "D":    24 * 60 * 60,
+  "1D":   24 * 60 * 60,
+  "3D":   3 * 24 * 60 * 60,
+  "W":    7 * 24 * 60 * 60,
+  "1W":   7 * 24 * 60 * 60,
+  "M":    30 * 24 * 60 * 60,
+  "1M":   30 * 24 * 60 * 60,
+};
+
+export const CHART_RESOLUTIONS = [
+  "10", "15", "30", "60", "240", "480", "720", "1440", "3D", "W", "M",
+];
+
+const DAILY_RESOLUTIONS = new Set(["1440", "D", "1D", "3D", "W", "1W", "M", "1M"]);
+
+// Picks the raw history to aggregate for a resolution. For hour-based
+// resolutions (≥60min) dayData is prepended before hourData starts: the hour
+// API returns ~8 days while dayData covers ~100 days, so combining them
+// prevents left-side gaps.
+export function sourceBarsFor(
+  resolution: string,
+  { minuteData, hourData, dayData }: IOhlcvSeries
+): IOhlcvData[] {
+  if (DAILY_RESOLUTIONS.has(resolution)) return dayData;
+  if (parseInt(resolution) >= 60) {
+    if (hourData.length > 0 && dayData.length > 0) {
+      const hourStart = hourData[0].time;
+      const historical = dayData.filter((b) => b.time < hourStart);
+      return [...historical, ...hourData];
+    }
+    return hourData.length > 0 ? hourData : dayData;
+  }
+  return minuteData.length > 0 ? minuteData : hourData;
+}
+
+export const bucketTimeOf = (time: number, resolution: string) => {
+  const intervalSec = chartSecondsPerResolution[resolution] || 300;
+  return Math.floor(time / intervalSec) * intervalSec;
+};
+
+export function aggregateBars(rawBars: IOhlcvData[], resolution: string): IOhlcvData[] {
+  const buckets = new Map<number, IOhlcvData>();
+
+  for (const bar of rawBars) {
+    const bucketTime = bucketTimeOf(bar.time, resolution);
+    if (!buckets.has(bucketTime)) {
+      buckets.set(bucketTime, { ...bar, time: bucketTime });
+    } else {
+      const agg = buckets.get(bucketTime)!;
+      agg.high = Math.max(agg.high, bar.high);
+      agg.low = Math.min(agg.low, bar.low);
+      agg.close = bar.close;
+      agg.volume += bar.volume;
+    }
+  }
+
+  return Array.from(buckets.values()).sort((a, b) => a.time - b.time);
+}
+
+// Seconds covered by one bar of each series, finest first.
+const SERIES_SECONDS: [keyof IOhlcvSeries, number][] = [
+  ["minuteData", 5 * 60],
+  ["hourData", 60 * 60],
+  ["dayData", 24 * 60 * 60],
+];
+
+export interface BarSeed {
+  bars: IOhlcvData[];
+  // Seconds each seed bar covers.
+  seconds: number;
+}
+
+// History the live bucket starts from: the finest series reaching back to
+// the bucket's start. Unlike `sourceBarsFor`, the open bucket mustn't mix an
+// hour or day bar with the minute bars inside it.
+export function liveSeedFor(resolution: string, series: IOhlcvSeries): BarSeed {
+  const latest = Math.max(
+    0,
+    ...SERIES_SECONDS.map(
+      ([key]) => series[key][series[key].length - 1]?.time ?? 0
+    )
+  );
+  const bucket = bucketTimeOf(latest, resolution);
+  for (const [key, seconds] of SERIES_SECONDS) {
+    const bars = series[key];
+    if (bars.length > 0 && bars[0].time <= bucket) return { bars, seconds };
+  }
+  return { bars: [], seconds: 0 };
+}
+
+// Folds streamed raw bars into the chart's current bucket, on top of the
+// seed's bars in that bucket. Raw bars are keyed by their own timestamp, so
+// repeated updates of the same still-open candle replace each other instead
+// of adding their volume twice. The stream sends 1-minute bars: those still
+// inside the seed's last bar only move its prices, as their volume is
+// already counted there.
+export function createBarAggregator(seed: BarSeed, resolution: string) {
+  const lastSeed = seed.bars[seed.bars.length - 1];
+  const seedBucket = lastSeed ? bucketTimeOf(lastSeed.time, resolution) : 0;
+  const seedEnd = lastSeed ? lastSeed.time + seed.seconds : 0;
+  let currentBucket = seedBucket;
+  let seeded = seed.bars.filter(
+    (bar) => bucketTimeOf(bar.time, resolution) === currentBucket
+  );
+  let streamed = new Map<number, IOhlcvData>();
+
+  return (bar: IOhlcvData): IOhlcvData | null => {
+    const bucket = bucketTimeOf(bar.time, resolution);
+    if (bucket < currentBucket) return null;
+    if (bucket > currentBucket) {
+      currentBucket = bucket;
+      seeded = [];
+      streamed = new Map();
+    }
+    const counted = bucket === seedBucket && bar.time < seedEnd;
+    streamed.set(bar.time, counted ? { ...bar, volume: 0 } : bar);
+    // Stable, so a seed bar opens the bucket over a streamed bar stamped at
+    // the same time.
+    const sorted = [...seeded, ...Array.from(streamed.values())].sort(
+      (a, b) => a.time - b.time
+    );
+    return aggregateBars(sorted, resolution)[0] ?? null;
+  };
+}
+
+export function getOhlcvFromFeed(feed: IDatafeed): IOhlcvData[] {
+  if (!feed.data) return [];
+  return feed.data.attributes.ohlcv_list
+    .map((item) => ({
+      time: item[0],
+      open: item[1],
+      high: item[2],
+      low: item[3],
+      close: item[4],
+      volume: item[5],
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Merges minute/hour/day datasets — for overlapping timestamps, day takes priority over hour over minute
+export function mergeOhlcv(
+  minuteData: IOhlcvData[],
+  hourData: IOhlcvData[],
+  dayData: IOhlcvData[]
+): IOhlcvData[] {
+  const merged: IOhlcvData[] = [];
+  let i = 0, j = 0, k = 0;
+
+  while (i < minuteData.length || j < hourData.length || k < dayData.length) {
+    const tMin = i < minuteData.length ? minuteData[i].time : Infinity;
+    const tHour = j < hourData.length ? hourData[j].time : Infinity;
+    const tDay = k < dayData.length ? dayData[k].time : Infinity;
+    const minT = Math.min(tMin, tHour, tDay);
+
+    if (tMin === minT && tHour === minT && tDay === minT) {
+      merged.push(dayData[k++]); i++; j++;
+    } else if (tHour === minT && tMin === minT) {
+      merged.push(hourData[j++]); i++;
+    } else if (tDay === minT && tHour === minT) {
+      merged.push(dayData[k++]); j++;
+    } else if (tDay === minT) {
+      merged.push(dayData[k++]);
+    } else if (tHour === minT) {
+      merged.push(hourData[j++]);
+    } else {
+      merged.push(minuteData[i++]);
+    }
+  }
+
+  return merged;
+}
+
+// Fetches minute (5m), hour and day OHLCV history for a token in parallel
+export async function fetchOhlcvSeries(
+  address: string,
+  network: string
+): Promise<IOhlcvSeries & { meta: IDatafeed["meta"] | null }> {
+  const [dayFeed, hourFeed, minuteFeed] = await Promise.all([
+    getDataFeed({ params: { contractAddress: address, network, timeframe: "day", aggregate: 1 } }),
+    getDataFeed({ params: { contractAddress: address, network, timeframe: "hour", aggregate: 1 } }),
+    getDataFeed({ params: { contractAddress: address, network, timeframe: "minute", aggregate: 5 } }),
+  ]);
+
+  return {
+    dayData: getOhlcvFromFeed(dayFeed),
+    hourData: getOhlcvFromFeed(hourFeed),
+    minuteData: getOhlcvFromFeed(minuteFeed),
+    meta: dayFeed.meta ?? hourFeed.meta ?? minuteFeed.meta ?? null,
+  };
+}
+
+// Fetches full OHLCV history for a token then merges the three timeframes
+export async function fetchFullOhlcv(address: string, network: string): Promise<{ data: IOhlcvData[]; meta: IDatafeed["meta"] | null }> {
+  const { minuteData, hourData, dayData, meta } = await fetchOhlcvSeries(address, network);
+
+  return {
+    data: mergeOhlcv(minuteData, hourData, dayData),
+    meta,
+  };
+}
+
+// Query options for a token's minute, hour and day history. Charts share
+// this cache entry instead of each calling /ohlcv.
+export const ohlcvSeriesQuery = (address: string, network: string) => ({
+  queryKey: ["ohlcvSeries", network, address],
+  queryFn: () => fetchOhlcvSeries(address, network),
+  staleTime: 5 * 60 * 1000,
+});
+
+const mergeSeries = ({
+  minuteData,
+  hourData,
+  dayData,
+  meta,
+}: IOhlcvSeries & { meta: IDatafeed["meta"] | null }) => ({
+  data: mergeOhlcv(minuteData, hourData, dayData),
+  meta,
+});
+
+// The same cache entry, merged for charts that only need a close per bar.
+// Not for candles: merged bars overlap, see `sourceBarsFor`.
+export const fullOhlcvQuery = (address: string, network: string) => ({
+  ...ohlcvSeriesQuery(address, network),
+  select: mergeSeries,
+});
@@ -1,81 +1,29 @@
-// lib/okxApi.ts
 import axios from "axios";
-import crypto from "crypto";
-import CryptoJS from "crypto-js";
+import {
+  OkxLiquiditySource,
+  OkxQuote,
+  OkxResponse,
+  OkxTokenAssets,
+} from "@/types/okx.type";
 
-const okxInstance = axios.create({
-  baseURL: "https://www.okx.com/api/v5",
-  headers: {
-    "OK-ACCESS-KEY": process.env.NEXT_PUBLIC_OKX_API_KEY!,
-    "OK-ACCESS-PASSPHRASE": process.env.NEXT_PUBLIC_OKX_PASSPHRASE!,
-  },
-});
-
-okxInstance.interceptors.request.use((config) => {
-  const timestamp = new Date().toISOString();
-  config.headers["OK-ACCESS-TIMESTAMP"] = timestamp;
-
-  const prehash =
-    timestamp + config.method!.toUpperCase() + config.url + (config.data || "");
-  config.headers["OK-ACCESS-SIGN"] = crypto
-    .createHmac("sha256", process.env.NEXT_PUBLIC_OKX_API_SECRET!)
-    .update(prehash)
-    .digest("base64");
-
-  return config;
-});
-
-function preHash(
-  timestamp: string,
-  method: string,
-  request_path: string,
-  params?: any
-) {
-  let query_string = "";
-  if (method === "GET" && params) {
-    query_string = "?" + new URLSearchParams(params).toString();
-  }
-  if (method === "POST" && params) {
-    query_string = JSON.stringify(params);
-  }
-  return timestamp + method + request_path + query_string;
-}
-
-function sign(message: string, secret_key: string) {
-  const hmac = CryptoJS.HmacSHA256(message, secret_key);
-  return CryptoJS.enc.Base64.stringify(hmac);
-}
-
-function createSignature(method: string, request_path: string, params: any) {
-  const timestamp = new Date().toISOString().slice(0, -5) + "Z";
-  const secret = process.env.NEXT_PUBLIC_OKX_API_SECRET;
-  if (!secret) {
-    throw new Error("OKX API secret is not defined");
-  }
-  const message = preHash(timestamp, method, request_path, params);
-  const signature = sign(message, secret);
-  return { signature, timestamp };
-}
-
-export const sendGetRequest = async (
-  request_path: string,
+// OKX calls go through our own route handlers (app/api/okx/*), which hold
+// the OKX secret and sign the request on the server.
+const sendProxyRequest = async (
+  endpoint:
+    | "quote"
+    | "swap"
+    | "approve-transaction"
+    | "get-liquidity"
+    | "balances",
   params?: Record<string, any>
 ) => {
-  const { signature, timestamp } = createSignature("GET", request_path, params);
-  const headers = {
-    "OK-ACCESS-KEY": process.env.NEXT_PUBLIC_OKX_API_KEY || "",
-    "OK-ACCESS-SIGN": signature,
-    "OK-ACCESS-TIMESTAMP": timestamp,
-    "OK-ACCESS-PASSPHRASE": process.env.NEXT_PUBLIC_OKX_PASSPHRASE || "",
-    "OK-ACCESS-PROJECT": process.env.NEXT_PUBLIC_OKX_API_PROJECT_ID || "",
-  };
+  const definedParams = Object.fromEntries(
+    Object.entries(params ?? {}).filter(([, value]) => value !== undefined)
+  );
   const queryString = params
-    ? `?${new URLSearchParams(params).toString()}`
+    ? `?${new URLSearchParams(definedParams).toString()}`
     : "";
-  const response = await fetch(
-    `https://www.okx.com${request_path}${queryString}`,
-    { headers }
-  );
+  const response = await fetch(`/api/okx/${endpoint}${queryString}`);
   return response.json();
 };
 
@@ -123,10 +71,14 @@ export async function getQuotes(params: {
   amount: bigint | string;
   fromTokenAddress: string;
   toTokenAddress: string;
-}) {
-  const result = await sendGetRequest("/api/v5/dex/aggregator/quote", {
-    ...params,
-  });
+}): Promise<OkxResponse<OkxQuote>> {
+  const result = await sendProxyRequest("quote", { ...params });
+  return result;
+}
+export async function getLiquiditySources(params: {
+  chainId: string;
+}): Promise<OkxResponse<OkxLiquiditySource>> {
+  const result = await sendProxyRequest("get-liquidity", { ...params });
   return result;
 }
 export async function approveTransaction(params: {
@@ -134,13 +86,7 @@ export async function approveTransaction(params: {
   approveAmount: string;
   tokenContractAddress: `0x${string}` | undefined;
 }) {
-  const result = await sendGetRequest(
-    "/api/v5/dex/aggregator/approve-transaction",
-    {
-      ...params,
-      referrerAddress: "7MgHTgmy3K5hUpNg5NaCRa6c5an3qcPv1KwNhLvh4FnC",
-    }
-  );
+  const result = await sendProxyRequest("approve-transaction", { ...params });
   return result;
 }
 export async function swapRequest(params: {
@@ -150,12 +96,19 @@ export async function swapRequest(params: {
   toTokenAddress: string;
   slippage: number;
   userWalletAddress: string;
+  dexIds?: string;
 }) {
-  const result = await sendGetRequest("/api/v5/dex/aggregator/swap", {
+  const result = await sendProxyRequest("swap", { ...params });
+  return result;
+}
+// `chains` is a comma separated list of OKX chain ids, e.g. "1,56,8453".
+export async function getTokenBalances(params: {
+  address: string;
+  chains: string;
+}): Promise<OkxResponse<OkxTokenAssets>> {
+  const result = await sendProxyRequest("balances", {
     ...params,
-    feePercent: "1.32",
-    fromTokenReferrerWalletAddress:
-      "7MgHTgmy3K5hUpNg5NaCRa6c5an3qcPv1KwNhLvh4FnC",
+    filter: "0",
   });
   return result;
 }
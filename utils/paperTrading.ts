@@ -0,0 +1,155 @@
+import { formatUnits } from "viem";
+import { OkxQuote } from "@/types/okx.type";
+import { LimitOrderToken } from "@/types/limit-order.type";
+import {
+  NewPaperTrade,
+  PaperHolding,
+  PaperPositionRow,
+} from "@/types/paper-trading.type";
+import { isEvmAddress } from "./portfolio";
+
+// OKX uses these placeholders for the gas token of each chain family.
+export const NATIVE_TOKEN_ADDRESS = {
+  evm: "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee",
+  solana: "11111111111111111111111111111111",
+};
+
+export const nativeTokenAddress = (chainId: string) =>
+  chainId === "501" ? NATIVE_TOKEN_ADDRESS.solana : NATIVE_TOKEN_ADDRESS.evm;
+
+// Solana mints are case-sensitive base58, so only EVM addresses are
+// lowercased.
+export const holdingId = (chainId: string, tokenAddress: string) =>
+  `${chainId}:${
+    isEvmAddress(tokenAddress) ? tokenAddress.toLowerCase() : tokenAddress
+  }`;
+
+const emptyHolding = (
+  chainId: string,
+  token: LimitOrderToken
+): PaperHolding => ({
+  id: holdingId(chainId, token.tokenContractAddress),
+  chainId,
+  token,
+  amount: 0,
+  costBasisUsd: 0,
+  soldAmount: 0,
+  soldValueUsd: 0,
+  realizedPnl: 0,
+});
+
+// Simulated fill: the quoted output reduced by the full slippage tolerance,
+// i.e. the worst price the real swap would have accepted.
+export const simulateFill = (
+  quote: OkxQuote,
+  slippage: number
+): Pick<
+  NewPaperTrade,
+  "fromAmount" | "toAmount" | "fromPriceUsd" | "toPriceUsd"
+> => {
+  const fromAmount = +formatUnits(
+    BigInt(quote.fromTokenAmount),
+    +quote.fromToken.decimal
+  );
+  const quotedOutput = +formatUnits(
+    BigInt(quote.toTokenAmount),
+    +quote.toToken.decimal
+  );
+  const toPriceUsd = +(quote.toToken.tokenUnitPrice ?? 0);
+  const fromPriceUsd =
+    +(quote.fromToken.tokenUnitPrice ?? 0) ||
+    (fromAmount > 0 ? (quotedOutput * toPriceUsd) / fromAmount : 0);
+  return {
+    fromAmount,
+    toAmount: quotedOutput * (1 - slippage),
+    fromPriceUsd,
+    toPriceUsd,
+  };
+};
+
+export const depositHolding = (
+  holdings: PaperHolding[],
+  chainId: string,
+  token: LimitOrderToken,
+  amount: number,
+  priceUsd: number
+) => {
+  const id = holdingId(chainId, token.tokenContractAddress);
+  const current =
+    holdings.find((holding) => holding.id === id) ??
+    emptyHolding(chainId, token);
+  const updated: PaperHolding = {
+    ...current,
+    amount: current.amount + amount,
+    costBasisUsd: current.costBasisUsd + amount * priceUsd,
+    lastPriceUsd: priceUsd || current.lastPriceUsd,
+    lastPricedAt: Date.now(),
+  };
+  return [updated, ...holdings.filter((holding) => holding.id !== id)];
+};
+
+// Debits the sold token (realizing PnL against its average cost) and credits
+// the bought one at the USD value given up, so slippage shows up as an
+// unrealized loss on the new position.
+export const applyPaperTrade = (
+  holdings: PaperHolding[],
+  trade: NewPaperTrade
+) => {
+  const fromId = holdingId(trade.chainId, trade.fromToken.tokenContractAddress);
+  const from = holdings.find((holding) => holding.id === fromId);
+  if (!from || from.amount < trade.fromAmount) {
+    throw new Error(`Insufficient paper ${trade.fromToken.tokenSymbol} balance`);
+  }
+
+  const soldCost = from.costBasisUsd * (trade.fromAmount / from.amount);
+  const proceeds = trade.fromAmount * trade.fromPriceUsd;
+  const now = Date.now();
+  const updatedFrom: PaperHolding = {
+    ...from,
+    amount: from.amount - trade.fromAmount,
+    costBasisUsd: from.costBasisUsd - soldCost,
+    soldAmount: from.soldAmount + trade.fromAmount,
+    soldValueUsd: from.soldValueUsd + proceeds,
+    realizedPnl: from.realizedPnl + proceeds - soldCost,
+    lastPriceUsd: trade.fromPriceUsd || from.lastPriceUsd,
+    lastPricedAt: now,
+  };
+
+  const rest = holdings.map((holding) =>
+    holding.id === fromId ? updatedFrom : holding
+  );
+  const toId = holdingId(trade.chainId, trade.toToken.tokenContractAddress);
+  const to =
+    rest.find((holding) => holding.id === toId) ??
+    emptyHolding(trade.chainId, trade.toToken);
+  const updatedTo: PaperHolding = {
+    ...to,
+    amount: to.amount + trade.toAmount,
+    costBasisUsd: to.costBasisUsd + proceeds,
+    lastPriceUsd: trade.toPriceUsd || to.lastPriceUsd,
+    lastPricedAt: now,
+  };
+
+  return [updatedTo, ...rest.filter((holding) => holding.id !== toId)];
+};
+
+export const toPositionRow = (holding: PaperHolding): PaperPositionRow => {
+  const currentPrice = holding.lastPriceUsd ?? 0;
+  const valueUsd = holding.amount * currentPrice;
+  return {
+    id: holding.id,
+    chainId: holding.chainId,
+    tokenAddress: holding.token.tokenContractAddress,
+    tokenName: holding.token.tokenName,
+    tokenSymbol: holding.token.tokenSymbol,
+    imageUrl: holding.token.tokenLogoUrl,
+    amount: holding.amount,
+    entryPrice: holding.amount > 0 ? holding.costBasisUsd / holding.amount : 0,
+    exitPrice:
+      holding.soldAmount > 0 ? holding.soldValueUsd / holding.soldAmount : 0,
+    currentPrice,
+    valueUsd,
+    currentPnl: valueUsd - holding.costBasisUsd,
+    realizedPnl: holding.realizedPnl,
+  };
+};
@@ -0,0 +1,118 @@
+import swapNetworks from "./swap_chains.json";
+import { networkIdFromChainId } from "./explorer";
+import { TokenChain } from "@/store/tokenChains/networks";
+import { IToken } from "@/types/token.type";
+import { OkxTokenAsset } from "@/types/okx.type";
+import {
+  PortfolioHolding,
+  PortfolioTokenPrice,
+} from "@/types/portfolio.type";
+
+export const SOLANA_CHAIN_ID = "501";
+
+export const isEvmAddress = (address: string) =>
+  /^0x[a-fA-F0-9]{40}$/.test(address);
+
+export const isSolanaAddress = (address: string) =>
+  /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(address);
+
+export const chainIdFromNetworkId = (networkId: string) =>
+  swapNetworks.find((network) => network.id === networkId)?.chainId;
+
+// OKX chain ids of the selectable networks that can hold this address.
+export const portfolioChains = (
+  chains: TokenChain[],
+  address: string
+): string[] => {
+  if (isSolanaAddress(address) && !isEvmAddress(address)) {
+    return [SOLANA_CHAIN_ID];
+  }
+  return chains
+    .map((chain) => chainIdFromNetworkId(chain.id))
+    .filter(
+      (chainId): chainId is number =>
+        !!chainId && chainId.toString() !== SOLANA_CHAIN_ID
+    )
+    .map(String);
+};
+
+export const priceKey = (chainId: string, tokenAddress: string) =>
+  `${chainId}:${tokenAddress.toLowerCase()}`;
+
+// `/idsearch` returns pools; the token can sit on either side of the pair.
+export const priceFromPools = (
+  token: IToken | undefined,
+  network: string,
+  tokenAddress: string
+): PortfolioTokenPrice => {
+  const id = `${network}_${tokenAddress}`.toLowerCase();
+  for (const pool of token?.data ?? []) {
+    const attributes = pool.attributes;
+    if (pool.relationships?.base_token?.data?.id?.toLowerCase() === id) {
+      return {
+        priceUsd: attributes?.base_token_price_usd
+          ? +attributes.base_token_price_usd
+          : undefined,
+        change24h: attributes?.price_change_percentage?.h24
+          ? +attributes.price_change_percentage.h24
+          : undefined,
+        imageUrl: pool.imageUrl ?? pool.imageUrl2,
+      };
+    }
+    if (pool.relationships?.quote_token?.data?.id?.toLowerCase() === id) {
+      return {
+        priceUsd: attributes?.quote_token_price_usd
+          ? +attributes.quote_token_price_usd
+          : undefined,
+      };
+    }
+  }
+  return {};
+};
+
+// Merges the per-address OKX balances into one row per token, priced from
+// the token endpoints and falling back on OKX's own price.
+export const buildHoldings = (
+  balances: { owner: string; assets: OkxTokenAsset[] }[],
+  prices: Record<string, PortfolioTokenPrice>
+): PortfolioHolding[] => {
+  const holdings = new Map<string, PortfolioHolding>();
+
+  balances.forEach(({ owner, assets }) => {
+    assets.forEach((asset) => {
+      const id = priceKey(asset.chainIndex, asset.tokenAddress);
+      const price = prices[id] ?? {};
+      const priceUsd = price.priceUsd ?? (+asset.tokenPrice || 0);
+      const existing = holdings.get(id);
+      const balance = (existing?.balance ?? 0) + +asset.balance;
+      holdings.set(id, {
+        id,
+        chainId: asset.chainIndex,
+        network: networkIdFromChainId(asset.chainIndex),
+        tokenAddress: asset.tokenAddress,
+        symbol: asset.symbol,
+        balance,
+        priceUsd,
+        valueUsd: balance * priceUsd,
+        change24h: price.change24h,
+        imageUrl: price.imageUrl,
+        owners: existing?.owners.includes(owner)
+          ? existing.owners
+          : [...(existing?.owners ?? []), owner],
+      });
+    });
+  });
+
+  return Array.from(holdings.values()).sort((a, b) => b.valueUsd - a.valueUsd);
+};
+
+// Value-weighted 24h change of the tokens that have one.
+export const portfolioChange24h = (holdings: PortfolioHolding[]) => {
+  const priced = holdings.filter((holding) => holding.change24h !== undefined);
+  const total = priced.reduce((sum, holding) => sum + holding.valueUsd, 0);
+  if (total === 0) return undefined;
+  return priced.reduce(
+    (sum, holding) => sum + (holding.valueUsd / total) * holding.change24h!,
+    0
+  );
+};
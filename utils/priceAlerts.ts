@@ -0,0 +1,95 @@
+import { IToken } from "@/types/token.type";
+import { PriceAlert, TradeSide } from "@/types/price-alert.type";
+
+export const PRICE_ALERT_WINDOWS = ["m5", "h1", "h24"] as const;
+
+const attributesOf = (token?: IToken) => token?.data?.[0]?.attributes;
+
+const toNumber = (value?: string | number) =>
+  value === undefined || value === null || value === "" || isNaN(+value)
+    ? undefined
+    : +value;
+
+export const alertValue = (alert: PriceAlert, token?: IToken) => {
+  const attributes = attributesOf(token);
+  switch (alert.kind) {
+    case "price":
+      return toNumber(attributes?.base_token_price_usd);
+    case "change":
+      return toNumber(attributes?.price_change_percentage?.[alert.window]);
+    case "liquidity":
+      return toNumber(attributes?.reserve_in_usd);
+    default:
+      return undefined;
+  }
+};
+
+export const dominantSide = (
+  alert: PriceAlert,
+  token?: IToken
+): TradeSide | undefined => {
+  const transactions = attributesOf(token)?.transactions?.[alert.window];
+  const buys = transactions?.buys ?? 0;
+  const sells = transactions?.sells ?? 0;
+  if (buys === sells) return undefined;
+  return buys > sells ? "buy" : "sell";
+};
+
+const meetsThreshold = (alert: PriceAlert, value: number) =>
+  alert.direction === "above"
+    ? value >= alert.threshold
+    : value <= alert.threshold;
+
+// Snapshot taken when the alert is created so that a condition that is
+// already true doesn't fire immediately.
+export const initialAlertState = (alert: PriceAlert, token?: IToken) =>
+  alert.kind === "ratio"
+    ? { lastSide: dominantSide(alert, token) }
+    : { lastValue: alertValue(alert, token) };
+
+export const describeAlert = (alert: PriceAlert) => {
+  const side = alert.direction === "above" ? "rises above" : "drops below";
+  switch (alert.kind) {
+    case "price":
+      return `Price ${side} $${alert.threshold}`;
+    case "change":
+      return `${alert.window} change ${side} ${alert.threshold}%`;
+    case "liquidity":
+      return `Liquidity ${side} $${alert.threshold.toLocaleString("en-US")}`;
+    case "ratio":
+      return `Buy/sell ratio flips (${alert.window})`;
+  }
+};
+
+// Returns the state changes for the alert and, when it fired, the message to
+// deliver. Only transitions trigger, never a condition that stays true.
+export const evaluateAlert = (
+  alert: PriceAlert,
+  token?: IToken
+): { changes: Partial<PriceAlert>; message?: string } => {
+  if (alert.kind === "ratio") {
+    const side = dominantSide(alert, token);
+    if (!side) return { changes: {} };
+    const flipped = !!alert.lastSide && alert.lastSide !== side;
+    return {
+      changes: { lastSide: side },
+      message: flipped
+        ? `${alert.tokenName}: ${side === "buy" ? "buyers" : "sellers"} took over (${alert.window})`
+        : undefined,
+    };
+  }
+
+  const value = alertValue(alert, token);
+  if (value === undefined) return { changes: {} };
+  // Without a previous value this poll only sets the baseline.
+  const crossed =
+    alert.lastValue !== undefined &&
+    !meetsThreshold(alert, alert.lastValue) &&
+    meetsThreshold(alert, value);
+  return {
+    changes: { lastValue: value },
+    message: crossed
+      ? `${alert.tokenName}: ${describeAlert(alert)} (now ${value.toPrecision(6)})`
+      : undefined,
+  };
+};
@@ -0,0 +1,89 @@
+import { FilterValues } from "@/types/filter-preset.type";
+
+export interface QueryCodec<T> {
+  parse: (raw: string) => T | undefined;
+  serialize: (value: T) => string;
+}
+
+export type DateRange = { from: Date | undefined; to: Date | undefined };
+
+export const stringCodec: QueryCodec<string> = {
+  parse: (raw) => raw,
+  serialize: (value) => value,
+};
+
+export const enumCodec = <T extends string>(
+  values: readonly T[]
+): QueryCodec<T> => ({
+  parse: (raw) => values.find((value) => value === raw),
+  serialize: (value) => value,
+});
+
+export const rangeCodec: QueryCodec<[number, number]> = {
+  parse: (raw) => {
+    const [min, max] = raw.split(",").map((part) => +part);
+    return raw.includes(",") && isFinite(min) && isFinite(max)
+      ? [min, max]
+      : undefined;
+  },
+  serialize: ([min, max]) => `${min},${max}`,
+};
+
+const RELATIVE_UNITS: Record<string, number> = {
+  m: 60000,
+  h: 3600000,
+  d: 86400000,
+};
+
+// Dates are ISO strings or relative to the time the link is opened, like
+// `now-1h`, so presets such as "launched in the last hour" stay current.
+const parseDate = (raw: string) => {
+  if (!raw) return undefined;
+  const relative = raw.match(/^now-(\d+)([mhd])$/);
+  const date = relative
+    ? new Date(Date.now() - +relative[1] * RELATIVE_UNITS[relative[2]])
+    : new Date(raw);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export const dateRangeCodec: QueryCodec<DateRange> = {
+  parse: (raw) => {
+    const [from = "", to = ""] = raw.split(",");
+    return { from: parseDate(from), to: parseDate(to) };
+  },
+  serialize: ({ from, to }) =>
+    from || to
+      ? `${from?.toISOString() ?? ""},${to?.toISOString() ?? ""}`
+      : "",
+};
+
+// Reads the query straight from the location so consecutive writes in one
+// event handler build on each other.
+export const readQueryParams = (params: string[]): FilterValues => {
+  const search = new URLSearchParams(window.location.search);
+  return Object.fromEntries(
+    params
+      .map((param) => [param, search.get(param)] as const)
+      .filter((entry): entry is [string, string] => entry[1] !== null)
+  );
+};
+
+// Updates the query without a navigation; undefined removes a param.
+export const writeQueryParams = (
+  updates: Record<string, string | undefined>
+) => {
+  const search = new URLSearchParams(window.location.search);
+  Object.entries(updates).forEach(([param, value]) =>
+    value === undefined || value === ""
+      ? search.delete(param)
+      : search.set(param, value)
+  );
+  const query = search.toString();
+  window.history.replaceState(
+    window.history.state,
+    "",
+    `${window.location.pathname}${query ? `?${query}` : ""}${
+      window.location.hash
+    }`
+  );
+};
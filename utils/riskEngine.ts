@@ -0,0 +1,436 @@
+import { IToken } from "@/types/token.type";
+import {
+  RiskFinding,
+  RiskLevel,
+  RiskRule,
+  RiskVerdict,
+} from "@/types/risk.type";
+
+// Bump on any change to the rules, weights or thresholds so stored or
+// shared verdicts can be told apart.
+export const RISK_RULESET_VERSION = "1.0.1";
+
+// GoPlus-style flags are "1"/"0" strings.
+const flag = (value: string | undefined) =>
+  value === undefined || value === "" ? undefined : value === "1";
+
+const numeric = (value: string | number | undefined | null) =>
+  value === undefined || value === null || value === "" || isNaN(+value)
+    ? undefined
+    : +value;
+
+// Points of the first [threshold, points] step the value reaches; steps go
+// from the worst threshold to the mildest.
+const atLeast = (value: number, steps: [number, number][]) =>
+  steps.find(([threshold]) => value >= threshold)?.[1] ?? 0;
+
+const below = (value: number, steps: [number, number][]) =>
+  steps.find(([threshold]) => value < threshold)?.[1] ?? 0;
+
+const security = (token: IToken) => token.SecurityData?.tokenSecurity;
+
+const taxPercent = (tax: string | undefined) => {
+  const value = numeric(tax);
+  return value === undefined ? undefined : value * 100;
+};
+
+const flagRule = (
+  rule: Omit<RiskRule, "evaluate">,
+  read: (token: IToken) => string | undefined,
+  detail: string
+): RiskRule => ({
+  ...rule,
+  evaluate: (token) => {
+    const value = flag(read(token));
+    if (value === undefined) return null;
+    return { points: value ? rule.weight : 0, detail };
+  },
+});
+
+export const RISK_RULES: RiskRule[] = [
+  flagRule(
+    {
+      id: "honeypot",
+      title: "Honeypot",
+      category: "honeypot",
+      weight: 100,
+      critical: true,
+    },
+    (token) => security(token)?.sourceCodeControl?.isHoneypot,
+    "Simulated sells fail, tokens can be bought but not sold."
+  ),
+  flagRule(
+    {
+      id: "cannot-sell-all",
+      title: "Can't sell the full balance",
+      category: "honeypot",
+      weight: 40,
+      critical: true,
+    },
+    (token) => security(token)?.tradingControl?.cannotSellAll,
+    "Holders can only sell part of their balance."
+  ),
+  flagRule(
+    {
+      id: "cannot-buy",
+      title: "Buying disabled",
+      category: "honeypot",
+      weight: 30,
+    },
+    (token) => security(token)?.tradingControl?.cannotBuy,
+    "The contract currently rejects buys."
+  ),
+  {
+    id: "malicious-functions",
+    title: "Malicious functions",
+    category: "contract",
+    weight: 40,
+    evaluate: (token) => {
+      const malFunc = token.FunctionCallsData?.malFunc;
+      if (malFunc?.count === undefined) return null;
+      const names = [
+        ...(malFunc.uniqueNames ?? []),
+        ...(malFunc.similarNames ?? []),
+      ];
+      return {
+        points: Math.min(40, malFunc.count * 10),
+        detail: `${malFunc.count} known malicious function(s)${
+          names.length ? `: ${names.join(", ")}` : ""
+        }.`,
+      };
+    },
+  },
+  {
+    id: "malicious-libraries",
+    title: "Malicious libraries",
+    category: "contract",
+    weight: 30,
+    evaluate: (token) => {
+      const libraries = token.FunctionCallsData?.maliciousLibraries;
+      if (libraries?.count === undefined) return null;
+      return {
+        points: Math.min(30, libraries.count * 10),
+        detail: `${libraries.count} malicious interface(s)${
+          libraries.libraries?.length
+            ? `: ${libraries.libraries.join(", ")}`
+            : ""
+        }.`,
+      };
+    },
+  },
+  {
+    id: "extra-functions",
+    title: "Non-standard functions",
+    category: "contract",
+    weight: 15,
+    evaluate: (token) => {
+      const functions = token.FunctionCallsData?.extraFunctions;
+      if (!functions) return null;
+      return {
+        points: Math.min(15, functions.length * 3),
+        detail: `${functions.length} function(s) beyond the token standard${
+          functions.length
+            ? `: ${functions
+                .map((fn) => fn.Name)
+                .filter(Boolean)
+                .join(", ")}`
+            : ""
+        }.`,
+      };
+    },
+  },
+  {
+    id: "closed-source",
+    title: "Unverified source",
+    category: "contract",
+    weight: 25,
+    evaluate: (token) => {
+      const openSource = flag(
+        security(token)?.sourceCodeControl?.is_open_source
+      );
+      if (openSource === undefined) return null;
+      return {
+        points: openSource ? 0 : 25,
+        detail: "The contract source isn't verified, so it can't be audited.",
+      };
+    },
+  },
+  flagRule(
+    {
+      id: "proxy",
+      title: "Upgradeable proxy",
+      category: "contract",
+      weight: 10,
+    },
+    (token) => security(token)?.sourceCodeControl?.isProxy,
+    "The logic behind the contract can be swapped out."
+  ),
+  flagRule(
+    {
+      id: "mintable",
+      title: "Mintable",
+      category: "contract",
+      weight: 15,
+    },
+    (token) => security(token)?.sourceCodeControl?.isMintable,
+    "New tokens can be minted, diluting holders."
+  ),
+  flagRule(
+    {
+      id: "transfer-pausable",
+      title: "Pausable transfers",
+      category: "contract",
+      weight: 15,
+    },
+    (token) => security(token)?.tradingControl?.transfer_pausable,
+    "Transfers, and so sells, can be paused."
+  ),
+  flagRule(
+    {
+      id: "blacklist",
+      title: "Blacklist",
+      category: "contract",
+      weight: 10,
+    },
+    (token) => security(token)?.restriction?.isBlacklisted,
+    "Addresses can be blocked from trading."
+  ),
+  {
+    id: "not-renounced",
+    title: "Ownership not renounced",
+    category: "ownership",
+    weight: 10,
+    evaluate: (token) => {
+      const status = token.FunctionCallsData?.renounceOwnership?.status;
+      if (status === undefined || status === null) return null;
+      return status === "renounced"
+        ? { points: 0, detail: "Ownership was renounced." }
+        : { points: 10, detail: "The owner can still call admin functions." };
+    },
+  },
+  flagRule(
+    {
+      id: "hidden-owner",
+      title: "Hidden owner",
+      category: "ownership",
+      weight: 20,
+    },
+    (token) => security(token)?.ownershipControl?.hiddenOwner,
+    "Control is kept through an owner that isn't visible."
+  ),
+  flagRule(
+    {
+      id: "reclaim-ownership",
+      title: "Ownership can be reclaimed",
+      category: "ownership",
+      weight: 20,
+    },
+    (token) => security(token)?.ownershipControl?.canTakeBackOwnership,
+    "A renounced owner can take control back."
+  ),
+  flagRule(
+    {
+      id: "owner-changes-balance",
+      title: "Owner can change balances",
+      category: "ownership",
+      weight: 25,
+    },
+    (token) => security(token)?.ownershipControl?.ownerChangeBalance,
+    "The owner can edit holder balances."
+  ),
+  {
+    id: "sell-tax",
+    title: "High sell tax",
+    category: "tax",
+    weight: 35,
+    evaluate: (token) => {
+      const sell = taxPercent(security(token)?.details?.sell_tax);
+      if (sell === undefined) return null;
+      return {
+        points: atLeast(sell, [
+          [50, 35],
+          [25, 25],
+          [10, 15],
+          [5, 5],
+        ]),
+        detail: `Sell tax is ${sell.toFixed(1)}%.`,
+      };
+    },
+  },
+  {
+    id: "tax-asymmetry",
+    title: "Sell tax above buy tax",
+    category: "tax",
+    weight: 25,
+    evaluate: (token) => {
+      const details = security(token)?.details;
+      const buy = taxPercent(details?.buy_tax);
+      const sell = taxPercent(details?.sell_tax);
+      if (buy === undefined || sell === undefined) return null;
+      const gap = sell - buy;
+      return {
+        points: atLeast(gap, [
+          [20, 25],
+          [10, 15],
+          [5, 8],
+        ]),
+        detail: `${sell.toFixed(1)}% sell tax against ${buy.toFixed(
+          1
+        )}% buy tax.`,
+      };
+    },
+  },
+  {
+    id: "tax-modifiable",
+    title: "Modifiable tax",
+    category: "tax",
+    weight: 15,
+    evaluate: (token) => {
+      const taxControl = security(token)?.taxControl;
+      const values = [
+        flag(taxControl?.slippage_modifiable),
+        flag(taxControl?.personalSlippageModifiable),
+      ];
+      if (values.every((value) => value === undefined)) return null;
+      return {
+        points: values.some(Boolean) ? 15 : 0,
+        detail: "The owner can raise the tax at any time.",
+      };
+    },
+  },
+  {
+    id: "low-liquidity",
+    title: "Thin liquidity",
+    category: "liquidity",
+    weight: 25,
+    evaluate: (token) => {
+      const reserve = numeric(token.data?.[0]?.attributes?.reserve_in_usd);
+      if (reserve === undefined) {
+        return token.isLowLiquidity
+          ? { points: 25, detail: "The pool is flagged as low liquidity." }
+          : null;
+      }
+      return {
+        points: below(reserve, [
+          [5000, 25],
+          [20000, 15],
+          [50000, 8],
+        ]),
+        detail: `$${Math.round(
+          reserve
+        ).toLocaleString()} of liquidity in the main pool.`,
+      };
+    },
+  },
+  {
+    id: "unlocked-liquidity",
+    title: "Liquidity not locked",
+    category: "liquidity",
+    weight: 15,
+    evaluate: (token) => {
+      const locked = security(token)?.details?.locked_percentage;
+      if (locked === undefined) return null;
+      const percent = locked * 100;
+      return {
+        points: below(percent, [
+          [10, 15],
+          [50, 8],
+        ]),
+        detail: `${percent.toFixed(1)}% of the liquidity is locked.`,
+      };
+    },
+  },
+  {
+    id: "holder-concentration",
+    title: "Concentrated holders",
+    category: "holders",
+    weight: 20,
+    evaluate: (token) => {
+      const holders =
+        security(token)?.details?.holdersChart?.regularHoldersData;
+      if (!holders?.length) return null;
+      // Contracts and locked balances (pools, lockers, burns) aren't
+      // holders that can dump.
+      const top = holders
+        .filter((holder) => holder.is_contract !== 1 && holder.is_locked !== 1)
+        .map((holder) => (numeric(holder.percent) ?? 0) * 100)
+        .sort((a, b) => b - a)
+        .slice(0, 10);
+      const share = top.reduce((sum, percent) => sum + percent, 0);
+      return {
+        points: atLeast(share, [
+          [50, 20],
+          [30, 10],
+        ]),
+        detail: `The top ${top.length} wallets hold ${share.toFixed(
+          1
+        )}% of the supply.`,
+      };
+    },
+  },
+  {
+    id: "score-status",
+    title: "Flagged by the security scan",
+    category: "contract",
+    weight: 20,
+    evaluate: (token) => {
+      const status = token.ScoreData?.status;
+      if (!status) return null;
+      return {
+        points: status === "Safe" ? 0 : status === "Currently Safe" ? 5 : 20,
+        detail: `Security scan status: ${status}.`,
+      };
+    },
+  },
+];
+
+const LEVELS: [number, Exclude<RiskLevel, "unknown">][] = [
+  [70, "critical"],
+  [40, "high"],
+  [15, "medium"],
+  [0, "low"],
+];
+
+export const evaluateRisk = (
+  token: IToken,
+  rules: RiskRule[] = RISK_RULES
+): RiskVerdict => {
+  const findings: RiskFinding[] = [];
+  const unknown: string[] = [];
+  let critical = false;
+
+  rules.forEach((rule) => {
+    const result = rule.evaluate(token);
+    if (!result) {
+      unknown.push(rule.id);
+      return;
+    }
+    const points = Math.max(0, Math.min(rule.weight, result.points));
+    if (points === 0) return;
+    if (rule.critical) critical = true;
+    findings.push({
+      ruleId: rule.id,
+      title: rule.title,
+      category: rule.category,
+      points,
+      detail: result.detail,
+    });
+  });
+
+  findings.sort((a, b) => b.points - a.points);
+  const score = Math.min(
+    100,
+    findings.reduce((sum, finding) => sum + finding.points, 0)
+  );
+  return {
+    version: RISK_RULESET_VERSION,
+    score,
+    level: critical
+      ? "critical"
+      : unknown.length === rules.length
+      ? "unknown"
+      : LEVELS.find(([threshold]) => score >= threshold)![1],
+    findings,
+    unknown,
+  };
+};
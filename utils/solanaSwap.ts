@@ -0,0 +1,23 @@
+import { PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import base58 from "bs58";
+
+// OKX returns Solana swaps as a base58 serialized transaction. Newer routes are
+// versioned transactions, older ones still come back as legacy transactions.
+export const decodeSwapTransaction = (
+  transactionData: string,
+  blockhash: string,
+  feePayer: PublicKey
+) => {
+  const decodedTransaction = base58.decode(transactionData);
+  try {
+    const tx = VersionedTransaction.deserialize(decodedTransaction);
+    const messageV0 = tx.message;
+    messageV0.recentBlockhash = blockhash;
+    return new VersionedTransaction(messageV0);
+  } catch (e) {
+    const tx = Transaction.from(decodedTransaction);
+    tx.recentBlockhash = blockhash;
+    tx.feePayer = feePayer;
+    return tx;
+  }
+};
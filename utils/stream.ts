@@ -0,0 +1,125 @@
+export type StreamTransport = "websocket" | "sse" | "polling";
+
+export interface StreamOptions {
+  // HTTP(S) URL of the push endpoint; the websocket URL is derived from it.
+  url: string;
+  transports: StreamTransport[];
+  onMessage: (data: unknown) => void;
+  // Runs on every tick of the polling transport.
+  poll: () => Promise<void>;
+  pollInterval: number;
+  // Runs whenever a websocket or SSE connection opens.
+  onOpen?: () => void;
+  // Failed connection attempts before dropping to the next transport.
+  maxAttempts: number;
+  // Milliseconds to wait before the given reconnect attempt.
+  retryDelay?: (attempt: number) => number;
+  WebSocketImpl?: typeof WebSocket;
+  EventSourceImpl?: typeof EventSource;
+}
+
+const MAX_BACKOFF = 30000;
+
+export const backoffDelay = (attempt: number) =>
+  Math.min(MAX_BACKOFF, 1000 * 2 ** attempt) + Math.random() * 250;
+
+// Opens a push feed, preferring the transports in order and reconnecting with
+// backoff. Polling is the last resort and never gives up. Returns a function
+// that closes the stream.
+export const openStream = ({
+  url,
+  transports,
+  onMessage,
+  poll,
+  pollInterval,
+  onOpen,
+  maxAttempts,
+  retryDelay = backoffDelay,
+  WebSocketImpl,
+  EventSourceImpl,
+}: StreamOptions) => {
+  let closed = false;
+  let transportIndex = 0;
+  let attempts = 0;
+  let teardown: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const handleOpen = () => {
+    attempts = 0;
+    onOpen?.();
+  };
+
+  const scheduleReconnect = () => {
+    teardown?.();
+    teardown = null;
+    if (closed) return;
+    attempts++;
+    if (attempts >= maxAttempts && transportIndex < transports.length - 1) {
+      transportIndex++;
+      attempts = 0;
+    }
+    retryTimer = setTimeout(connect, retryDelay(attempts));
+  };
+
+  // Skips a transport the runtime or configuration can't provide.
+  const skipTransport = () => {
+    transportIndex++;
+    attempts = 0;
+    connect();
+  };
+
+  const connectWebSocket = () => {
+    if (!WebSocketImpl || !url) return skipTransport();
+    const socket = new WebSocketImpl(url.replace(/^http/, "ws"));
+    socket.onopen = handleOpen;
+    socket.onmessage = (event) => onMessage(event.data);
+    socket.onerror = () => socket.close();
+    socket.onclose = () => scheduleReconnect();
+    teardown = () => {
+      socket.onclose = null;
+      socket.close();
+    };
+  };
+
+  const connectEventSource = () => {
+    if (!EventSourceImpl || !url) return skipTransport();
+    const source = new EventSourceImpl(url);
+    source.onopen = handleOpen;
+    source.onmessage = (event) => onMessage(event.data);
+    source.onerror = () => scheduleReconnect();
+    teardown = () => source.close();
+  };
+
+  const connectPolling = () => {
+    let inFlight = false;
+    const tick = async () => {
+      if (inFlight || closed) return;
+      inFlight = true;
+      try {
+        await poll();
+      } finally {
+        inFlight = false;
+      }
+    };
+    tick();
+    const timer = setInterval(tick, pollInterval);
+    teardown = () => clearInterval(timer);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    const transport = transports[transportIndex] ?? "polling";
+    if (transport === "websocket") connectWebSocket();
+    else if (transport === "sse") connectEventSource();
+    else connectPolling();
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    teardown?.();
+    teardown = null;
+  };
+};
@@ -0,0 +1,106 @@
+import { formatUnits } from "viem";
+import {
+  OkxDexRouter,
+  OkxLiquiditySource,
+  OkxQuote,
+} from "@/types/okx.type";
+
+export const BEST_ROUTE_ID = "best";
+
+export interface SwapRouteHop {
+  fromSymbol: string;
+  toSymbol: string;
+  dexes: { name: string; percent: number }[];
+}
+
+export interface SwapRoute {
+  id: string;
+  label: string;
+  logo?: string;
+  // Undefined for the aggregated route, which lets OKX split freely.
+  dexIds?: string;
+  selectable: boolean;
+  splits: { percent: number; hops: SwapRouteHop[] }[];
+  expectedOutput: number;
+  minimumReceived: number;
+  priceImpact: number | null;
+  fee: number;
+  estimateGasFee?: string;
+}
+
+const toNumber = (value?: string | null) =>
+  value === undefined || value === null || value === "" ? null : +value;
+
+const buildSplits = (dexRouterList: OkxDexRouter[]) =>
+  dexRouterList.map((router) => ({
+    percent: +router.routerPercent,
+    hops: router.subRouterList.map((subRouter) => ({
+      fromSymbol: subRouter.fromToken.tokenSymbol,
+      toSymbol: subRouter.toToken.tokenSymbol,
+      dexes: subRouter.dexProtocol.map((protocol) => ({
+        name: protocol.dexName,
+        percent: +protocol.percent,
+      })),
+    })),
+  }));
+
+// `slippage` is a fraction (0.02 = 2%), matching what <Slippage /> emits.
+export const buildSwapRoutes = (
+  quote: OkxQuote | null | undefined,
+  slippage: number,
+  liquiditySources: OkxLiquiditySource[] = []
+): SwapRoute[] => {
+  if (!quote) return [];
+
+  const minimumOf = (amount: number) => amount * (1 - slippage);
+  const bestOutput = +formatUnits(
+    BigInt(quote.toTokenAmount),
+    +quote.toToken.decimal
+  );
+
+  const best: SwapRoute = {
+    id: BEST_ROUTE_ID,
+    label: "Best route",
+    selectable: true,
+    splits: buildSplits(quote.dexRouterList ?? []),
+    expectedOutput: bestOutput,
+    minimumReceived: minimumOf(bestOutput),
+    priceImpact: toNumber(quote.priceImpactPercentage),
+    fee: +quote.tradeFee,
+    estimateGasFee: quote.estimateGasFee,
+  };
+
+  const alternatives = (quote.quoteCompareList ?? [])
+    .map<SwapRoute>((compare) => {
+      const source = liquiditySources.find(
+        (item) => item.name.toLowerCase() === compare.dexName.toLowerCase()
+      );
+      const output = +compare.amountOut;
+      return {
+        id: compare.dexName,
+        label: compare.dexName,
+        logo: compare.dexLogo,
+        dexIds: source?.id,
+        selectable: !!source,
+        splits: [
+          {
+            percent: 100,
+            hops: [
+              {
+                fromSymbol: quote.fromToken.tokenSymbol,
+                toSymbol: quote.toToken.tokenSymbol,
+                dexes: [{ name: compare.dexName, percent: 100 }],
+              },
+            ],
+          },
+        ],
+        expectedOutput: output,
+        minimumReceived: minimumOf(output),
+        priceImpact: toNumber(compare.priceImpactPercentage),
+        fee: +compare.tradeFee,
+      };
+    })
+    .sort((a, b) => b.expectedOutput - a.expectedOutput);
+
+  return [best, ...alternatives];
+};
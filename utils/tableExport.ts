@@ -0,0 +1,57 @@
+import { Column, Table } from "@tanstack/react-table";
+import { CustomColumnDef, TableExportFormat } from "@/types/table.type";
+import { toCsv } from "./csv";
+import { downloadFile } from "./download";
+import { toXlsx, XLSX_MIME } from "./xlsx";
+
+type ExportColumn<T> = Column<T, unknown> & {
+  columnDef: CustomColumnDef<T>;
+};
+
+// Plain numbers in strings become numbers. Hex and long digit strings such as
+// addresses and ids stay text so they aren't mangled.
+const rawValue = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  return /^-?\d{1,15}(\.\d+)?$/.test(value.trim()) ? +value : value;
+};
+
+const columnHeader = <T,>(column: ExportColumn<T>) => {
+  const { name, header } = column.columnDef;
+  return name ?? (typeof header === "string" ? header : column.id);
+};
+
+/**
+ * Visible columns that carry data. Locked columns are only exported for
+ * license holders, as they are only shown to them.
+ */
+export const exportColumns = <T,>(table: Table<T>, hasLicense: boolean) =>
+  (table.getVisibleLeafColumns() as ExportColumn<T>[]).filter(
+    (column) =>
+      (column.accessorFn || column.columnDef.exportValue) &&
+      (hasLicense || !column.columnDef.lock)
+  );
+
+export const exportMatrix = <T,>(columns: ExportColumn<T>[], rows: T[]) => [
+  columns.map(columnHeader),
+  ...rows.map((row, index) =>
+    columns.map((column) =>
+      rawValue(
+        column.columnDef.exportValue
+          ? column.columnDef.exportValue(row)
+          : column.accessorFn?.(row, index)
+      )
+    )
+  ),
+];
+
+export const downloadTable = (
+  matrix: unknown[][],
+  fileName: string,
+  format: TableExportFormat
+) => {
+  if (format === "xlsx") {
+    downloadFile(`${fileName}.xlsx`, toXlsx(matrix, fileName), XLSX_MIME);
+  } else {
+    downloadFile(`${fileName}.csv`, toCsv(matrix), "text/csv");
+  }
+};
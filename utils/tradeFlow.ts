@@ -0,0 +1,139 @@
+import { IOhlcvData } from "@/types/datafeed.type";
+import { ITradingItem } from "@/types/Tradinglist.type";
+import { FlowBucket, FlowMetric } from "@/types/trade-flow.type";
+import { bucketTimeOf } from "./ohlcv";
+import {
+  defaultTradeFilters,
+  tradeReportPages,
+  WHALE_MIN_USD,
+} from "./tradeReport";
+
+// The flow indicators request these pseudo symbols from the chart's
+// datafeed, e.g. `#FLOW:whales:10000`; they always describe the token the
+// chart belongs to.
+const FLOW_PREFIX = "#FLOW:";
+const FLOW_METRICS: FlowMetric[] = ["pressure", "buyers", "whales", "delta"];
+// 10 pages of 100 trades, newest first.
+const MAX_FLOW_PAGES = 10;
+const CACHE_TTL = 60 * 1000;
+
+export const FLOW_METRIC_NAMES: Record<FlowMetric, string> = {
+  pressure: "Net buy pressure",
+  buyers: "Unique buyers",
+  whales: "Whale flow",
+  delta: "Volume delta",
+};
+
+export const flowTicker = (metric: FlowMetric, threshold?: number) =>
+  `${FLOW_PREFIX}${metric}${threshold ? `:${threshold}` : ""}`;
+
+export const parseFlowTicker = (ticker: string) => {
+  if (!ticker.startsWith(FLOW_PREFIX)) return null;
+  const [metric, threshold] = ticker.slice(FLOW_PREFIX.length).split(":");
+  if (!FLOW_METRICS.includes(metric as FlowMetric)) return null;
+  return {
+    metric: metric as FlowMetric,
+    threshold: +threshold > 0 ? +threshold : WHALE_MIN_USD,
+  };
+};
+
+const flowCache = new Map<
+  string,
+  { expires: number; trades: Promise<ITradingItem[]> }
+>();
+
+const loadTrades = async (address: string, network: string) => {
+  const trades: ITradingItem[] = [];
+  let pages = 0;
+  for await (const page of tradeReportPages({
+    address,
+    network,
+    filters: defaultTradeFilters,
+    sorting: [],
+  })) {
+    trades.push(...page);
+    if (++pages >= MAX_FLOW_PAGES) break;
+  }
+  return trades;
+};
+
+// Every flow indicator on a chart reads the same trades, so they're fetched
+// once per token and kept briefly.
+export const fetchTradeFlow = (address: string, network: string) => {
+  const key = `${network}:${address}`;
+  const cached = flowCache.get(key);
+  if (cached && cached.expires > Date.now()) return cached.trades;
+
+  const trades = loadTrades(address, network);
+  flowCache.set(key, { expires: Date.now() + CACHE_TTL, trades });
+  trades.catch(() => flowCache.delete(key));
+  return trades;
+};
+
+export const bucketTrades = (
+  trades: ITradingItem[],
+  resolution: string,
+  whaleThreshold: number
+) => {
+  const buckets = new Map<number, FlowBucket>();
+  trades.forEach(({ attributes: trade }) => {
+    const time = bucketTimeOf(
+      Math.floor(new Date(trade.block_timestamp).getTime() / 1000),
+      resolution
+    );
+    if (!isFinite(time)) return;
+    const bucket = buckets.get(time) ?? {
+      time,
+      buyUsd: 0,
+      sellUsd: 0,
+      buyers: new Set<string>(),
+      whaleBuyUsd: 0,
+      whaleSellUsd: 0,
+    };
+    const usd = +trade.volume_in_usd || 0;
+    const whale = usd >= whaleThreshold ? usd : 0;
+    if (trade.kind === "sell") {
+      bucket.sellUsd += usd;
+      bucket.whaleSellUsd += whale;
+    } else {
+      bucket.buyUsd += usd;
+      bucket.whaleBuyUsd += whale;
+      if (trade.tx_from_address) bucket.buyers.add(trade.tx_from_address);
+    }
+    buckets.set(time, bucket);
+  });
+  return Array.from(buckets.values()).sort((a, b) => a.time - b.time);
+};
+
+export const flowValue = (bucket: FlowBucket, metric: FlowMetric) => {
+  const total = bucket.buyUsd + bucket.sellUsd;
+  switch (metric) {
+    case "pressure":
+      return total > 0 ? ((bucket.buyUsd - bucket.sellUsd) / total) * 100 : 0;
+    case "buyers":
+      return bucket.buyers.size;
+    case "whales":
+      return bucket.whaleBuyUsd - bucket.whaleSellUsd;
+    case "delta":
+      return bucket.buyUsd - bucket.sellUsd;
+  }
+};
+
+// One flat bar per bucket carrying the metric as its price.
+export const flowBars = (
+  trades: ITradingItem[],
+  resolution: string,
+  metric: FlowMetric,
+  whaleThreshold = WHALE_MIN_USD
+): IOhlcvData[] =>
+  bucketTrades(trades, resolution, whaleThreshold).map((bucket) => {
+    const value = flowValue(bucket, metric);
+    return {
+      time: bucket.time,
+      open: value,
+      high: value,
+      low: value,
+      close: value,
+      volume: bucket.buyUsd + bucket.sellUsd,
+    };
+  });
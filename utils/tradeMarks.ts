@@ -0,0 +1,220 @@
+import { Mark, TimescaleMark } from "@/public/static/charting_library";
+import { getTradingList } from "@/services/http/token.http";
+import { ITradingItem } from "@/types/Tradinglist.type";
+import { NotificationMessage } from "@/types/notification-message.type";
+import { TradeMark, TradeMarkSource } from "@/types/trade-mark.type";
+import { activityTradeTime } from "./activityFeed";
+import { sameWallet } from "./copyTrade";
+import { minifyContract } from "./truncate";
+
+const MAX_MARKS = 100;
+const CACHE_TTL = 30 * 1000;
+
+export const TRADE_MARK_SOURCES: {
+  value: TradeMarkSource;
+  label: string;
+}[] = [
+  { value: "trades", label: "Largest trades" },
+  { value: "mine", label: "My swaps" },
+  { value: "followed", label: "Followed wallets" },
+];
+
+const SIDE_COLORS = { buy: "#16a34a", sell: "#dc2626" };
+// The border tells the sources apart; market trades have none.
+const SOURCE_BORDERS: Record<TradeMarkSource, string | undefined> = {
+  trades: undefined,
+  mine: "#facc15",
+  followed: "#3b82f6",
+};
+const SOURCE_LABELS: Record<TradeMarkSource, string> = {
+  trades: "",
+  mine: "Y",
+  followed: "F",
+};
+
+// 8px for $100 up to 28px for $1M and above.
+export const tradeMarkSize = (amountUsd: number) =>
+  Math.round(
+    Math.min(28, Math.max(8, 8 + 5 * Math.log10(Math.max(amountUsd, 1) / 100)))
+  );
+
+const formatUsd = (amount: number) =>
+  `$${Math.round(amount).toLocaleString()}`;
+
+export const tradeMarksFromTrades = (
+  items: ITradingItem[],
+  source: TradeMarkSource
+): TradeMark[] =>
+  items.map(({ attributes: trade }) => ({
+    id: `${source}:${trade.tx_hash}`,
+    source,
+    side: trade.kind === "sell" ? "sell" : "buy",
+    time: Math.floor(new Date(trade.block_timestamp).getTime() / 1000),
+    amountUsd: +trade.volume_in_usd,
+    wallet: trade.tx_from_address,
+    txHash: trade.tx_hash,
+  }));
+
+// Followed wallet messages about the given pool.
+export const tradeMarksFromMessages = (
+  messages: NotificationMessage[],
+  poolAddress: string
+): TradeMark[] =>
+  messages.flatMap((message) => {
+    const market = message.report?.market_address ?? message.market_address;
+    const wallet = message.report?.signer ?? message.signer;
+    const tradeTime = activityTradeTime(message);
+    if (!market || !wallet || !tradeTime) return [];
+    if (!sameWallet(market, poolAddress)) return [];
+    return [
+      {
+        id: `followed:${message.id}`,
+        source: "followed" as const,
+        side: message.report?.swapType?.toLowerCase().includes("sell")
+          ? ("sell" as const)
+          : ("buy" as const),
+        time: Math.floor(tradeTime / 1000),
+        amountUsd: +(message.report?.value ?? message.buy_amount_usd ?? 0),
+        wallet,
+        walletLabel: message.name,
+      },
+    ];
+  });
+
+const describeTradeMark = (mark: TradeMark) => [
+  `${mark.side === "buy" ? "Buy" : "Sell"} ${formatUsd(mark.amountUsd)}`,
+  `Wallet: ${mark.walletLabel ?? minifyContract(mark.wallet)}`,
+];
+
+// Clicking a bar mark opens the transaction, or the wallet without one.
+export const toBarMark = (mark: TradeMark): Mark => ({
+  id: mark.id,
+  time: mark.time,
+  color: {
+    background: SIDE_COLORS[mark.side],
+    border: SOURCE_BORDERS[mark.source] ?? SIDE_COLORS[mark.side],
+  },
+  text: [
+    ...describeTradeMark(mark),
+    mark.txHash
+      ? `Tx: ${minifyContract(mark.txHash)} (click to open)`
+      : "Click to open the wallet",
+  ].join("\n"),
+  label: SOURCE_LABELS[mark.source] || (mark.side === "buy" ? "B" : "S"),
+  labelFontColor: "#ffffff",
+  minSize: tradeMarkSize(mark.amountUsd),
+  borderWidth: mark.source === "trades" ? 1 : 2,
+});
+
+// Clicking a timescale mark opens the wallet.
+export const toTimescaleMark = (mark: TradeMark): TimescaleMark => ({
+  id: mark.id,
+  time: mark.time,
+  color: SIDE_COLORS[mark.side],
+  label: SOURCE_LABELS[mark.source] || (mark.side === "buy" ? "B" : "S"),
+  tooltip: [...describeTradeMark(mark), "Click to open the wallet"],
+  shape: mark.side === "buy" ? "earningUp" : "earningDown",
+});
+
+const tradesInRange = async (
+  params: Record<string, unknown>,
+  from: number,
+  to: number
+) => {
+  const response = await getTradingList({
+    params: {
+      ...params,
+      limit: MAX_MARKS,
+      from_timestamp: new Date(from * 1000).toISOString(),
+    },
+  });
+  return response.data.filter((item) => {
+    const time = new Date(item.attributes.block_timestamp).getTime() / 1000;
+    return time >= from && time <= to;
+  });
+};
+
+const largestTrades = (items: ITradingItem[]) =>
+  [...items]
+    .sort(
+      (a, b) => +b.attributes.volume_in_usd - +a.attributes.volume_in_usd
+    )
+    .slice(0, MAX_MARKS);
+
+// getMarks and getTimescaleMarks ask for the same range back to back.
+const recent = new Map<
+  string,
+  { expires: number; marks: Promise<TradeMark[]> }
+>();
+
+const cached = (key: string, load: () => Promise<TradeMark[]>) => {
+  const hit = recent.get(key);
+  if (hit && hit.expires > Date.now()) return hit.marks;
+  const marks = load();
+  recent.set(key, { expires: Date.now() + CACHE_TTL, marks });
+  marks.catch(() => recent.delete(key));
+  recent.forEach(
+    (entry, entryKey) => entry.expires <= Date.now() && recent.delete(entryKey)
+  );
+  return marks;
+};
+
+export const loadTradeMarks = ({
+  source,
+  network,
+  address,
+  from,
+  to,
+  wallet,
+  messages = [],
+}: {
+  source: TradeMarkSource;
+  network: string;
+  address: string;
+  from: number;
+  to: number;
+  // The connected wallet, for "mine".
+  wallet?: string;
+  // Followed wallet activity, for "followed".
+  messages?: NotificationMessage[];
+}): Promise<TradeMark[]> => {
+  if (source === "followed") {
+    return Promise.resolve(
+      tradeMarksFromMessages(messages, address).filter(
+        (mark) => mark.time >= from && mark.time <= to
+      )
+    );
+  }
+  if (source === "mine" && !wallet) return Promise.resolve([]);
+
+  const key = [source, network, address, wallet, from, to].join(":");
+  return cached(key, () =>
+    tradesInRange(
+      source === "mine"
+        ? { network, address, maker: wallet, sort: "-block_timestamp" }
+        : { network, address, sort: "-volume_in_usd" },
+      from,
+      to
+    ).then((items) =>
+      tradeMarksFromTrades(
+        // In case the server ignores `maker` or `sort`.
+        source === "mine"
+          ? items.filter((item) =>
+              sameWallet(item.attributes.tx_from_address ?? "", wallet!)
+            )
+          : largestTrades(items),
+        source
+      )
+    )
+  );
+};
+
+// A market trade that is also the user's swap is only marked as theirs.
+export const dedupeTradeMarks = (marks: TradeMark[]) => {
+  const personal = new Set(
+    marks.filter((mark) => mark.source !== "trades").map((mark) => mark.txHash)
+  );
+  return marks.filter(
+    (mark) => mark.source !== "trades" || !personal.has(mark.txHash)
+  );
+};
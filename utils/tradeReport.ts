@@ -0,0 +1,202 @@
+import { SortingState } from "@tanstack/react-table";
+import {
+  Attributes,
+  ITradingItem,
+  ITradingListResponse,
+  TradeReportFilters,
+  TradeWindow,
+} from "@/types/Tradinglist.type";
+import { getTradingList } from "@/services/http/token.http";
+import { isEvmAddress } from "./portfolio";
+
+export const TRADE_REPORT_PAGE_SIZE = 20;
+const EXPORT_PAGE_SIZE = 100;
+const MAX_EXPORT_PAGES = 50;
+export const WHALE_MIN_USD = 10000;
+
+export const defaultTradeFilters: TradeReportFilters = {
+  side: "all",
+  maker: "",
+  dex: "",
+  window: "all",
+};
+
+export const TRADE_WINDOWS: { value: TradeWindow; label: string }[] = [
+  { value: "all", label: "All time" },
+  { value: "1h", label: "1 hour" },
+  { value: "6h", label: "6 hours" },
+  { value: "24h", label: "24 hours" },
+  { value: "7d", label: "7 days" },
+];
+
+const WINDOW_MS: Record<TradeWindow, number> = {
+  all: Infinity,
+  "1h": 3600000,
+  "6h": 6 * 3600000,
+  "24h": 24 * 3600000,
+  "7d": 7 * 24 * 3600000,
+};
+
+export const whaleFilters = (filters: TradeReportFilters) => ({
+  ...filters,
+  minUsd: WHALE_MIN_USD,
+  maxUsd: undefined,
+});
+
+export const isWhalePreset = (filters: TradeReportFilters) =>
+  filters.minUsd === WHALE_MIN_USD && filters.maxUsd === undefined;
+
+const makerKey = (address: string) =>
+  isEvmAddress(address) ? address.toLowerCase() : address;
+
+// Query params of one `/tradinglist` page, see `getTradingList` for which
+// of them the backend is known to honour. Sorting defaults to newest first.
+export const tradeReportParams = ({
+  address,
+  network,
+  filters,
+  sorting,
+  cursor,
+  pageSize,
+}: {
+  address: string;
+  network: string;
+  filters: TradeReportFilters;
+  sorting: SortingState;
+  cursor?: string;
+  pageSize: number;
+}) => {
+  const sort = sorting[0];
+  return {
+    network,
+    address,
+    limit: pageSize,
+    cursor,
+    sort: sort ? `${sort.desc ? "-" : ""}${sort.id}` : "-block_timestamp",
+    kind: filters.side === "all" ? undefined : filters.side,
+    min_volume_usd: filters.minUsd,
+    max_volume_usd: filters.maxUsd,
+    maker: filters.maker.trim() || undefined,
+    dex: filters.dex.trim() || undefined,
+    from_timestamp:
+      filters.window === "all"
+        ? undefined
+        : new Date(Date.now() - WINDOW_MS[filters.window]).toISOString(),
+  };
+};
+
+// Walks the cursor pages of the current query for "all pages" exports.
+export async function* tradeReportPages({
+  address,
+  network,
+  filters,
+  sorting,
+}: {
+  address: string;
+  network: string;
+  filters: TradeReportFilters;
+  sorting: SortingState;
+}) {
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_EXPORT_PAGES; page++) {
+    const response = await getTradingList({
+      params: tradeReportParams({
+        address,
+        network,
+        filters,
+        sorting,
+        cursor,
+        pageSize: EXPORT_PAGE_SIZE,
+      }),
+    });
+    yield response.data.filter((item) => matchesTradeFilters(item, filters));
+    cursor = response.meta?.next_cursor ?? undefined;
+    if (!cursor) return;
+  }
+}
+
+// Whether the response pages on the server: such a backend answers with a
+// `meta.next_cursor`, null on the last page. Otherwise the response is all
+// the trades it returns, to be paged in the browser.
+export const pagesOnServer = (response?: ITradingListResponse) =>
+  !!response?.meta && "next_cursor" in response.meta;
+
+const TRADE_FILTERS: {
+  label: string;
+  matches: (
+    trade: Attributes,
+    filters: TradeReportFilters,
+    now: number
+  ) => boolean;
+}[] = [
+  {
+    label: "side",
+    matches: (trade, { side }) => side === "all" || trade.kind === side,
+  },
+  {
+    label: "min volume",
+    matches: (trade, { minUsd }) =>
+      minUsd === undefined || +trade.volume_in_usd >= minUsd,
+  },
+  {
+    label: "max volume",
+    matches: (trade, { maxUsd }) =>
+      maxUsd === undefined || +trade.volume_in_usd <= maxUsd,
+  },
+  {
+    label: "maker",
+    matches: (trade, { maker }) =>
+      !maker.trim() ||
+      makerKey(trade.tx_from_address ?? "") === makerKey(maker.trim()),
+  },
+  {
+    label: "DEX",
+    matches: (trade, { dex }) =>
+      !dex.trim() ||
+      (trade.dex_id ?? "").toLowerCase().includes(dex.trim().toLowerCase()),
+  },
+  {
+    label: "time window",
+    matches: (trade, { window }, now) =>
+      now - new Date(trade.block_timestamp).getTime() <= WINDOW_MS[window],
+  },
+];
+
+// Applied to every page as well, in case the server ignores a filter.
+export const matchesTradeFilters = (
+  item: ITradingItem,
+  filters: TradeReportFilters,
+  now = Date.now()
+) =>
+  TRADE_FILTERS.every((filter) =>
+    filter.matches(item.attributes, filters, now)
+  );
+
+// Labels of the filters some returned trade fails, i.e. the server didn't
+// apply them and they only narrow what it returned.
+export const ignoredTradeFilters = (
+  items: ITradingItem[],
+  filters: TradeReportFilters,
+  now = Date.now()
+) =>
+  TRADE_FILTERS.filter((filter) =>
+    items.some((item) => !filter.matches(item.attributes, filters, now))
+  ).map((filter) => filter.label);
+
+// Makers with more than one trade in the list, keyed like `makerTradeCount`.
+export const repeatMakers = (items: ITradingItem[]) => {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const maker = item.attributes.tx_from_address;
+    if (!maker) return;
+    const key = makerKey(maker);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  counts.forEach((count, maker) => count < 2 && counts.delete(maker));
+  return counts;
+};
+
+export const makerTradeCount = (
+  counts: Map<string, number>,
+  maker: string | undefined
+) => (maker ? counts.get(makerKey(maker)) ?? 1 : 0);
@@ -0,0 +1,34 @@
+import { HotTokenHolder } from "@/types/wallet-summary.type";
+
+export const WEEK_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Wallet links don't always carry a network, so fall back on the address
+// format: hex addresses are EVM, everything else is treated as Solana.
+export const defaultWalletNetwork = (walletAddress: string) =>
+  walletAddress.startsWith("0x") ? "eth" : "solana";
+
+// Turns `{ "2024-05-01": 12.3, ... }` style buckets into chart rows.
+export const toSeries = (record?: { [key: string]: number }) =>
+  Object.entries(record ?? {}).map(([name, value]) => ({
+    name,
+    value: +value || 0,
+  }));
+
+// 7 x 24 grid of swap counts, indexed by [weekday][hour] in local time.
+export const buildActivityHeatmap = (swapTimes: string[] = []) => {
+  const grid = WEEK_DAYS.map(() => Array<number>(24).fill(0));
+  swapTimes.forEach((time) => {
+    const date = new Date(time);
+    if (isNaN(date.getTime())) return;
+    grid[date.getDay()][date.getHours()] += 1;
+  });
+  return grid;
+};
+
+export const sortTradedTokens = (tokens: HotTokenHolder[] = []) =>
+  [...tokens].sort(
+    (a, b) =>
+      b["Num of Buy Times"] +
+      b["Num of Sell Times"] -
+      (a["Num of Buy Times"] + a["Num of Sell Times"])
+  );
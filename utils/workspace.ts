@@ -0,0 +1,56 @@
+import {
+  WorkspaceGrid,
+  WorkspaceLayout,
+  WorkspaceToken,
+} from "@/types/workspace.type";
+
+export const WORKSPACE_GRIDS: {
+  value: WorkspaceGrid;
+  label: string;
+  columns: number;
+  cells: number;
+}[] = [
+  { value: "1x2", label: "1×2", columns: 2, cells: 2 },
+  { value: "2x2", label: "2×2", columns: 2, cells: 4 },
+  { value: "3x3", label: "3×3", columns: 3, cells: 9 },
+];
+
+export const MAX_WORKSPACE_CELLS = 9;
+
+export const defaultWorkspaceLayout: WorkspaceLayout = {
+  grid: "2x2",
+  cells: Array(MAX_WORKSPACE_CELLS).fill(null),
+  interval: "60",
+  syncSymbol: false,
+  syncInterval: true,
+  syncCrosshair: true,
+};
+
+export const workspaceGrid = (grid: WorkspaceGrid) =>
+  WORKSPACE_GRIDS.find((option) => option.value === grid) ??
+  WORKSPACE_GRIDS[1];
+
+// Chart tickers of the workspace cells are `network:address`.
+export const workspaceTicker = ({ network, address }: WorkspaceToken) =>
+  `${network}:${address}`;
+
+export const parseWorkspaceTicker = (
+  ticker: string
+): WorkspaceToken | null => {
+  const separator = ticker.indexOf(":");
+  if (separator < 1 || separator === ticker.length - 1) return null;
+  return {
+    network: ticker.slice(0, separator),
+    address: ticker.slice(separator + 1),
+  };
+};
+
+// With symbol sync on, every cell follows the token picked last.
+export const setWorkspaceCell = (
+  layout: WorkspaceLayout,
+  index: number,
+  token: WorkspaceToken | null
+) =>
+  layout.cells.map((cell, cellIndex) =>
+    cellIndex === index || (layout.syncSymbol && token) ? token : cell
+  );
@@ -0,0 +1,186 @@
+// Writes a single-sheet XLSX workbook. An XLSX file is a zip of XML parts;
+// the parts are small enough to be stored uncompressed.
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Little-endian header fields as [value, byte length] pairs.
+const header = (fields: [number, 2 | 4][]) => {
+  const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  fields.forEach(([value, size]) => {
+    if (size === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += size;
+  });
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const DOS_DATE = 0x21; // 1980-01-01
+
+const zip = (files: { name: string; content: string }[]) => {
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+    const common: [number, 2 | 4][] = [
+      [20, 2], // version needed
+      [0, 2], // flags
+      [0, 2], // stored
+      [0, 2], // time
+      [DOS_DATE, 2],
+      [crc, 4],
+      [data.length, 4],
+      [data.length, 4],
+      [name.length, 2],
+      [0, 2], // extra length
+    ];
+    const localHeader = header([[0x04034b50, 4], ...common]);
+    local.push(localHeader, name, data);
+    central.push(
+      header([
+        [0x02014b50, 4],
+        [20, 2], // version made by
+        ...common,
+        [0, 2], // comment length
+        [0, 2], // disk
+        [0, 2], // internal attributes
+        [0, 4], // external attributes
+        [offset, 4],
+      ]),
+      name
+    );
+    offset += localHeader.length + name.length + data.length;
+  });
+
+  const directory = concat(central);
+  return concat([
+    ...local,
+    directory,
+    header([
+      [0x06054b50, 4],
+      [0, 2],
+      [0, 2],
+      [files.length, 2],
+      [files.length, 2],
+      [directory.length, 4],
+      [offset, 4],
+      [0, 2],
+    ]),
+  ]);
+};
+
+const escapeXml = (text: string) =>
+  text
+    // Control characters aren't allowed in XML 1.0.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") +
+  String.fromCharCode(65 + (index % 26));
+
+const cell = (value: unknown, ref: string) => {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number" && isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    text
+  )}</t></is></c>`;
+};
+
+const sheetXml = (rows: unknown[][]) =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+  `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>` +
+  rows
+    .map(
+      (row, r) =>
+        `<row r="${r + 1}">${row
+          .map((value, c) => cell(value, `${columnName(c)}${r + 1}`))
+          .join("")}</row>`
+    )
+    .join("") +
+  `</sheetData></worksheet>`;
+
+const RELATIONSHIPS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+export const XLSX_MIME =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Numbers stay numeric; everything else is written as text.
+export const toXlsx = (rows: unknown[][], sheetName = "Sheet1") =>
+  zip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+        `</Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="${PACKAGE_RELATIONSHIPS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIPS}/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${RELATIONSHIPS}">` +
+        `<sheets><sheet name="${escapeXml(
+          sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31)
+        )}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="${PACKAGE_RELATIONSHIPS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIPS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `</Relationships>`,
+    },
+    { name: "xl/worksheets/sheet1.xml", content: sheetXml(rows) },
+  ]);